@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "knowledge_articles" ADD COLUMN "slug" TEXT;
+
+-- Backfill existing articles: slugified title plus a short id suffix to guarantee uniqueness
+UPDATE "knowledge_articles"
+SET "slug" = trim(both '-' from regexp_replace(lower("title"), '[^a-z0-9]+', '-', 'g')) || '-' || substr("id", 1, 8)
+WHERE "slug" IS NULL;
+
+-- AlterTable
+ALTER TABLE "knowledge_articles" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "knowledge_articles_slug_key" ON "knowledge_articles"("slug");
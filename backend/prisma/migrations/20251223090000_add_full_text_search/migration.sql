@@ -0,0 +1,51 @@
+-- Full-text search vectors, maintained by Postgres as generated columns.
+-- Weights: A = title, B = summary fields, C = long-form body.
+
+-- AlterTable
+ALTER TABLE "trainings" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "tools" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("problemSolved", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("whoShouldUse", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("problemSolved", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "knowledge_articles" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "community_links" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "trainings_searchVector_idx" ON "trainings" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "tools_searchVector_idx" ON "tools" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "products_searchVector_idx" ON "products" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "knowledge_articles_searchVector_idx" ON "knowledge_articles" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "community_links_searchVector_idx" ON "community_links" USING GIN ("searchVector");
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ContentType" AS ENUM ('TRAINING', 'TOOL', 'PRODUCT', 'KNOWLEDGE_ARTICLE', 'COMMUNITY_LINK');
+
+-- CreateTable
+CREATE TABLE "content_revisions" (
+    "id" TEXT NOT NULL,
+    "contentType" "ContentType" NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "editorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "content_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "content_revisions_contentType_contentId_createdAt_idx" ON "content_revisions"("contentType", "contentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "content_revisions_editorId_idx" ON "content_revisions"("editorId");
+
+-- AddForeignKey
+ALTER TABLE "content_revisions" ADD CONSTRAINT "content_revisions_editorId_fkey" FOREIGN KEY ("editorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "PublicationStatus" AS ENUM ('DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED');
+
+-- Existing content stays live: everything starts out PUBLISHED
+
+-- AlterTable
+ALTER TABLE "trainings" ADD COLUMN "publicationStatus" "PublicationStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "tools" ADD COLUMN "publicationStatus" "PublicationStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "publicationStatus" "PublicationStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "knowledge_articles" ADD COLUMN "publicationStatus" "PublicationStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "community_links" ADD COLUMN "publicationStatus" "PublicationStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "unpublishAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "trainings_publicationStatus_publishAt_idx" ON "trainings"("publicationStatus", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "trainings_publicationStatus_unpublishAt_idx" ON "trainings"("publicationStatus", "unpublishAt");
+
+-- CreateIndex
+CREATE INDEX "tools_publicationStatus_publishAt_idx" ON "tools"("publicationStatus", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "tools_publicationStatus_unpublishAt_idx" ON "tools"("publicationStatus", "unpublishAt");
+
+-- CreateIndex
+CREATE INDEX "products_publicationStatus_publishAt_idx" ON "products"("publicationStatus", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "products_publicationStatus_unpublishAt_idx" ON "products"("publicationStatus", "unpublishAt");
+
+-- CreateIndex
+CREATE INDEX "knowledge_articles_publicationStatus_publishAt_idx" ON "knowledge_articles"("publicationStatus", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "knowledge_articles_publicationStatus_unpublishAt_idx" ON "knowledge_articles"("publicationStatus", "unpublishAt");
+
+-- CreateIndex
+CREATE INDEX "community_links_publicationStatus_publishAt_idx" ON "community_links"("publicationStatus", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "community_links_publicationStatus_unpublishAt_idx" ON "community_links"("publicationStatus", "unpublishAt");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "trainings" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "tools" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "knowledge_articles" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "community_links" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- Items deleted before the trash existed were only deactivated; they stay inactive but not trashed
+
+-- CreateIndex
+CREATE INDEX "trainings_deletedAt_idx" ON "trainings"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "tools_deletedAt_idx" ON "tools"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "products_deletedAt_idx" ON "products"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "knowledge_articles_deletedAt_idx" ON "knowledge_articles"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "community_links_deletedAt_idx" ON "community_links"("deletedAt");
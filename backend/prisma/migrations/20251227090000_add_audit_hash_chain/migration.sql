@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN "sequence" INTEGER,
+ADD COLUMN "previousHash" TEXT,
+ADD COLUMN "hash" TEXT;
+
+-- Number existing entries in the order they were written; they stay unhashed
+CREATE SEQUENCE "audit_logs_sequence_seq" OWNED BY "audit_logs"."sequence";
+
+UPDATE "audit_logs" SET "sequence" = numbered."position"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (ORDER BY "createdAt", "id") AS "position" FROM "audit_logs"
+) AS numbered
+WHERE "audit_logs"."id" = numbered."id";
+
+SELECT setval('"audit_logs_sequence_seq"', COALESCE((SELECT MAX("sequence") FROM "audit_logs"), 0) + 1, false);
+
+ALTER TABLE "audit_logs" ALTER COLUMN "sequence" SET DEFAULT nextval('"audit_logs_sequence_seq"'),
+ALTER COLUMN "sequence" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "audit_logs_sequence_key" ON "audit_logs"("sequence");
+
+-- CreateTable
+CREATE TABLE "audit_checkpoints" (
+    "id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "hash" TEXT,
+    "prunedCount" INTEGER NOT NULL,
+    "cutoff" TIMESTAMP(3) NOT NULL,
+    "signature" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_checkpoints_sequence_idx" ON "audit_checkpoints"("sequence");
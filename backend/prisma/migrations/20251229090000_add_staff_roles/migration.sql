@@ -0,0 +1,5 @@
+-- AlterEnum
+-- New enum values cannot be used in the transaction that adds them, so the
+-- permission grants for these roles are seeded by the following migration.
+ALTER TYPE "Role" ADD VALUE 'EDITOR' BEFORE 'ADMIN';
+ALTER TYPE "Role" ADD VALUE 'SUPPORT' BEFORE 'ADMIN';
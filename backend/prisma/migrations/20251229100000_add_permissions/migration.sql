@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "permissions" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "permissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "role_permissions" (
+    "role" "Role" NOT NULL,
+    "permissionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("role","permissionId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "permissions_key_key" ON "permissions"("key");
+
+-- AddForeignKey
+ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_permissionId_fkey" FOREIGN KEY ("permissionId") REFERENCES "permissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed permissions
+INSERT INTO "permissions" ("id", "key", "description") VALUES
+    (gen_random_uuid()::text, 'content.trainings.read', 'View trainings in the admin area'),
+    (gen_random_uuid()::text, 'content.trainings.write', 'Create, edit and delete trainings'),
+    (gen_random_uuid()::text, 'content.tools.read', 'View tools in the admin area'),
+    (gen_random_uuid()::text, 'content.tools.write', 'Create, edit and delete tools'),
+    (gen_random_uuid()::text, 'content.products.read', 'View products in the admin area'),
+    (gen_random_uuid()::text, 'content.products.write', 'Create, edit and delete products'),
+    (gen_random_uuid()::text, 'content.knowledge.read', 'View knowledge articles in the admin area'),
+    (gen_random_uuid()::text, 'content.knowledge.write', 'Create, edit and delete knowledge articles'),
+    (gen_random_uuid()::text, 'content.community.read', 'View community links in the admin area'),
+    (gen_random_uuid()::text, 'content.community.write', 'Create, edit and delete community links'),
+    (gen_random_uuid()::text, 'content.trash.read', 'View trashed content'),
+    (gen_random_uuid()::text, 'content.trash.manage', 'Restore or permanently delete trashed content'),
+    (gen_random_uuid()::text, 'uploads.write', 'Upload and delete images'),
+    (gen_random_uuid()::text, 'audit.read', 'View, export and verify the audit log'),
+    (gen_random_uuid()::text, 'audit.manage', 'Write audit entries and prune old ones'),
+    (gen_random_uuid()::text, 'users.read', 'View user accounts and their roles'),
+    (gen_random_uuid()::text, 'users.manage', 'Deactivate users and end their sessions'),
+    (gen_random_uuid()::text, 'users.roles', 'Change user roles'),
+    (gen_random_uuid()::text, 'contact.read', 'Read contact form submissions'),
+    (gen_random_uuid()::text, 'payments.read', 'View all payments');
+
+-- Seed grants that reproduce the previous role checks; SUPER_ADMIN holds every permission implicitly
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions" WHERE "key" NOT IN ('content.trash.manage', 'users.roles');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'EDITOR', "id" FROM "permissions" WHERE "key" IN ('content.knowledge.read', 'content.knowledge.write', 'uploads.write');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'SUPPORT', "id" FROM "permissions" WHERE "key" IN ('contact.read');
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing sessions were last seen no later than they were created
+UPDATE "sessions" SET "lastUsedAt" = "createdAt";
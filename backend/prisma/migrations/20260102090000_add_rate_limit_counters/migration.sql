@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "rate_limit_counters" (
+    "key" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "resetAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_limit_counters_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_limit_counters_resetAt_idx" ON "rate_limit_counters"("resetAt");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "contact_submissions" ADD COLUMN "spamReasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "ipAddress" TEXT;
+
+-- AlterTable
+ALTER TABLE "newsletter_subscriptions" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'CONFIRMED',
+ADD COLUMN "spamReasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "ipAddress" TEXT;
+
+-- CreateIndex
+CREATE INDEX "contact_submissions_email_idx" ON "contact_submissions"("email");
+
+-- CreateIndex
+CREATE INDEX "contact_submissions_ipAddress_idx" ON "contact_submissions"("ipAddress");
+
+-- CreateIndex
+CREATE INDEX "newsletter_subscriptions_status_idx" ON "newsletter_subscriptions"("status");
+
+-- CreateIndex
+CREATE INDEX "newsletter_subscriptions_ipAddress_idx" ON "newsletter_subscriptions"("ipAddress");
+
+-- Seed permission: reviewing flagged form submissions
+INSERT INTO "permissions" ("id", "key", "description") VALUES
+    (gen_random_uuid()::text, 'spam.review', 'Review, release or delete submissions flagged as spam');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions" WHERE "key" = 'spam.review';
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'SUPPORT', "id" FROM "permissions" WHERE "key" = 'spam.review';
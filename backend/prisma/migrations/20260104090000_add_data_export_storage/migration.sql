@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "data_export_requests" ADD COLUMN "storageKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "data_export_requests_expiresAt_idx" ON "data_export_requests"("expiresAt");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN "redactedAt" TIMESTAMP(3),
+ADD COLUMN "redactionSignature" TEXT;
+
+-- AlterTable
+ALTER TABLE "data_deletion_requests" ADD COLUMN "report" JSONB,
+ALTER COLUMN "userId" DROP NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "data_deletion_requests" DROP CONSTRAINT "data_deletion_requests_userId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "data_deletion_requests" ADD CONSTRAINT "data_deletion_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
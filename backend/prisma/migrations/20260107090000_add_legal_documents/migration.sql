@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "LegalDocumentType" AS ENUM ('TERMS_OF_SERVICE', 'PRIVACY_POLICY');
+
+-- CreateTable
+CREATE TABLE "legal_documents" (
+    "id" TEXT NOT NULL,
+    "type" "LegalDocumentType" NOT NULL,
+    "version" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "summary" TEXT,
+    "effectiveAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "legal_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "legal_documents_type_version_key" ON "legal_documents"("type", "version");
+
+-- CreateIndex
+CREATE INDEX "legal_documents_type_effectiveAt_idx" ON "legal_documents"("type", "effectiveAt");
+
+-- Seed permissions: legal documents
+INSERT INTO "permissions" ("id", "key", "description") VALUES
+    (gen_random_uuid()::text, 'legal.read', 'View all versions of the terms and privacy policy'),
+    (gen_random_uuid()::text, 'legal.manage', 'Create, edit and delete upcoming versions of the terms and privacy policy');
+
+INSERT INTO "role_permissions" ("role", "permissionId")
+SELECT 'ADMIN', "id" FROM "permissions" WHERE "key" IN ('legal.read', 'legal.manage');
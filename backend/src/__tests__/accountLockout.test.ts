@@ -0,0 +1,133 @@
+/**
+ * Account Lockout Tests
+ *
+ * Tests for per-account failed login tracking, exponential lockout and admin unlock
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import config from '../config';
+import * as emailService from '../services/emailService';
+import { lockDurationMinutes } from '../services/accountLockoutService';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+jest.mock('../services/emailService', () => ({
+  sendAccountLockedEmail: jest.fn().mockResolvedValue({ id: 'mock-email-id' }),
+}));
+
+const { threshold, baseLockMinutes, maxLockMinutes } = config.accountLockout;
+
+describe('Account Lockout', () => {
+  let user: any;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    user = await createTestUser({ email: 'locked@test.com', name: 'Locked Out' });
+  });
+
+  const login = (password: string) =>
+    request(app).post('/api/auth/login').send({ email: 'locked@test.com', password });
+
+  const failLogins = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      await login('Wrong123!');
+    }
+  };
+
+  describe('lockDurationMinutes', () => {
+    it('should double the lock with each failure past the threshold, up to the maximum', () => {
+      expect(lockDurationMinutes(threshold - 1)).toBe(0);
+      expect(lockDurationMinutes(threshold)).toBe(baseLockMinutes);
+      expect(lockDurationMinutes(threshold + 2)).toBe(baseLockMinutes * 4);
+      expect(lockDurationMinutes(threshold + 50)).toBe(maxLockMinutes);
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('should lock the account after repeated failures, even for the right password', async () => {
+      await failLogins(threshold);
+
+      const response = await login('Password123!').expect(429);
+      expect(response.body.error).toMatch(/too many failed login attempts/i);
+
+      const stored = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+      expect(stored.failedLoginAttempts).toBe(threshold);
+      expect(stored.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should audit the lockout and email the user once', async () => {
+      await failLogins(threshold);
+
+      const entries = await prisma.auditLog.findMany({ where: { action: 'ACCOUNT_LOCKED', resourceId: user.id } });
+      expect(entries).toHaveLength(1);
+      expect(entries[0].details).toMatchObject({ failedAttempts: threshold, lockMinutes: baseLockMinutes });
+
+      expect(emailService.sendAccountLockedEmail).toHaveBeenCalledTimes(1);
+      expect(emailService.sendAccountLockedEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'locked@test.com', lockMinutes: baseLockMinutes })
+      );
+    });
+
+    it('should lock for longer after a failure once the lock ends', async () => {
+      await failLogins(threshold);
+      await prisma.user.update({ where: { id: user.id }, data: { lockedUntil: new Date(Date.now() - 1000) } });
+
+      await login('Wrong123!').expect(401);
+
+      const stored = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+      const lockMs = stored.lockedUntil!.getTime() - Date.now();
+      expect(lockMs).toBeGreaterThan((baseLockMinutes * 2 - 1) * 60 * 1000);
+    });
+
+    it('should reset the count after a successful login', async () => {
+      await failLogins(threshold - 1);
+      await login('Password123!').expect(200);
+
+      const stored = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+      expect(stored.failedLoginAttempts).toBe(0);
+    });
+
+    it('should forget failures older than the reset window', async () => {
+      await failLogins(threshold - 1);
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { lastFailedLoginAt: new Date(Date.now() - (config.accountLockout.resetAfterHours + 1) * 3600 * 1000) },
+      });
+
+      await login('Wrong123!').expect(401);
+
+      const stored = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+      expect(stored.failedLoginAttempts).toBe(1);
+      expect(stored.lockedUntil).toBeNull();
+    });
+  });
+
+  describe('POST /api/admin/users/:id/unlock', () => {
+    it('should let an admin unlock the account', async () => {
+      const admin = await createTestUser({ email: 'admin@test.com', role: 'ADMIN' as any });
+      const adminToken = await getAuthToken(admin.id);
+      await failLogins(threshold);
+
+      const response = await request(app)
+        .post(`/api/admin/users/${user.id}/unlock`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ failedLoginAttempts: 0, lockedUntil: null });
+      await login('Password123!').expect(200);
+
+      const entry = await prisma.auditLog.findFirst({ where: { action: 'ACCOUNT_UNLOCKED', resourceId: user.id } });
+      expect(entry!.userId).toBe(admin.id);
+    });
+
+    it('should not be available to regular users', async () => {
+      const other = await createTestUser({ email: 'other@test.com' });
+
+      await request(app)
+        .post(`/api/admin/users/${user.id}/unlock`)
+        .set('Authorization', `Bearer ${await getAuthToken(other.id)}`)
+        .expect(403);
+    });
+  });
+});
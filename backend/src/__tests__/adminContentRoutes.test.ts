@@ -188,7 +188,7 @@ describe('Admin Content API - Training Management', () => {
   });
 
   describe('DELETE /api/admin/trainings/:id', () => {
-    it('should soft delete training as admin', async () => {
+    it('should move training to the trash as admin', async () => {
       const training = await prisma.training.create({
         data: {
           title: 'To Delete',
@@ -210,11 +210,12 @@ describe('Admin Content API - Training Management', () => {
 
       expect(response.body.success).toBe(true);
 
-      // Verify soft delete
+      // Verify it was trashed, not just hidden
       const deleted = await prisma.training.findUnique({
         where: { id: training.id },
       });
-      expect(deleted?.isActive).toBe(false);
+      expect(deleted?.deletedAt).not.toBeNull();
+      expect(deleted?.isActive).toBe(true);
     });
 
     it('should reject request from regular user', async () => {
@@ -357,7 +358,7 @@ describe('Admin Content API - Tool Management', () => {
   });
 
   describe('DELETE /api/admin/tools/:id', () => {
-    it('should soft delete tool as admin', async () => {
+    it('should move tool to the trash as admin', async () => {
       const tool = await prisma.tool.create({
         data: {
           title: 'To Delete',
@@ -375,7 +376,7 @@ describe('Admin Content API - Tool Management', () => {
         .expect(200);
 
       const deleted = await prisma.tool.findUnique({ where: { id: tool.id } });
-      expect(deleted?.isActive).toBe(false);
+      expect(deleted?.deletedAt).not.toBeNull();
     });
   });
 });
@@ -498,6 +499,7 @@ describe('Admin Content API - Knowledge Article Management', () => {
       const article = await prisma.knowledgeArticle.create({
         data: {
           title: 'Original Article',
+          slug: 'original-article',
           description: 'Description',
           content: 'Content',
           category: KnowledgeCategory.CORE_CONCEPTS,
@@ -0,0 +1,144 @@
+/**
+ * Admin User Routes Tests
+ *
+ * Tests for the user management console and its role hierarchy checks
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+describe('Admin User Routes', () => {
+  let admin: any;
+  let superAdmin: any;
+  let member: any;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    admin = await createTestUser({ email: 'admin@test.com', name: 'Admin', role: 'ADMIN' as any });
+    superAdmin = await createTestUser({ email: 'owner@test.com', name: 'Owner', role: 'SUPER_ADMIN' as any });
+    member = await createTestUser({ email: 'member@test.com', name: 'Member Person' });
+    adminToken = await getAuthToken(admin.id);
+
+    await prisma.session.create({
+      data: {
+        userId: member.id,
+        token: `refresh-${member.id}`,
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        ipAddress: '10.0.0.1',
+        userAgent: 'jest',
+      },
+    });
+  });
+
+  const asAdmin = (method: 'get' | 'post' | 'patch', path: string) =>
+    request(app)[method](path).set('Authorization', `Bearer ${adminToken}`);
+
+  it('should not be available to regular users', async () => {
+    const token = await getAuthToken(member.id);
+
+    await request(app).get('/api/admin/users').set('Authorization', `Bearer ${token}`).expect(403);
+  });
+
+  describe('GET /api/admin/users', () => {
+    it('should paginate users with the total count', async () => {
+      const response = await asAdmin('get', '/api/admin/users?limit=2').expect(200);
+
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.meta).toEqual({ total: 3, limit: 2, offset: 0 });
+      expect(response.body.data[0]).not.toHaveProperty('password');
+    });
+
+    it('should search by email or name and filter by role', async () => {
+      const byName = await asAdmin('get', '/api/admin/users?search=person').expect(200);
+      expect(byName.body.data.map((user: any) => user.email)).toEqual(['member@test.com']);
+      expect(byName.body.data[0]).toMatchObject({ activeSessions: 1, canManage: true });
+
+      const byRole = await asAdmin('get', '/api/admin/users?role=SUPER_ADMIN').expect(200);
+      expect(byRole.body.data).toHaveLength(1);
+      expect(byRole.body.data[0].canManage).toBe(false);
+    });
+  });
+
+  describe('PATCH /api/admin/users/:id/status', () => {
+    it('should deactivate a user, end their sessions and audit the change', async () => {
+      const response = await asAdmin('patch', `/api/admin/users/${member.id}/status`)
+        .send({ isActive: false })
+        .expect(200);
+
+      expect(response.body.data.isActive).toBe(false);
+      expect(await prisma.session.count({ where: { userId: member.id } })).toBe(0);
+
+      const log = await prisma.auditLog.findFirst({ where: { action: 'USER_STATUS_CHANGED' } });
+      expect(log).toMatchObject({ userId: admin.id, resourceId: member.id });
+    });
+
+    it('should not let an admin modify a super admin', async () => {
+      await asAdmin('patch', `/api/admin/users/${superAdmin.id}/status`).send({ isActive: false }).expect(403);
+
+      const unchanged = await prisma.user.findUnique({ where: { id: superAdmin.id } });
+      expect(unchanged!.isActive).toBe(true);
+    });
+
+    it('should not let an admin deactivate themselves', async () => {
+      await asAdmin('patch', `/api/admin/users/${admin.id}/status`).send({ isActive: false }).expect(403);
+    });
+
+    it('should let a super admin manage an admin', async () => {
+      const token = await getAuthToken(superAdmin.id);
+
+      await request(app)
+        .patch(`/api/admin/users/${admin.id}/status`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ isActive: false })
+        .expect(200);
+    });
+  });
+
+  describe('POST /api/admin/users/:id/logout', () => {
+    it('should revoke sessions and reject access tokens issued before', async () => {
+      const memberToken = await getAuthToken(member.id);
+      // Revocation has second precision, so revoke in a later second than the token was issued
+      await new Promise((resolve) => setTimeout(resolve, 1000 - (Date.now() % 1000)));
+
+      const response = await asAdmin('post', `/api/admin/users/${member.id}/logout`).expect(200);
+
+      expect(response.body.data).toEqual({ revokedSessions: 1 });
+      await request(app).get('/api/auth/me').set('Authorization', `Bearer ${memberToken}`).expect(401);
+    });
+
+    it('should respect the role hierarchy', async () => {
+      await asAdmin('post', `/api/admin/users/${superAdmin.id}/logout`).expect(403);
+    });
+  });
+
+  describe('user details', () => {
+    it('should list active sessions without refresh tokens', async () => {
+      const response = await asAdmin('get', `/api/admin/users/${member.id}/sessions`).expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({ ipAddress: '10.0.0.1' });
+      expect(response.body.data[0]).not.toHaveProperty('token');
+    });
+
+    it('should list payments and consents', async () => {
+      await prisma.payment.create({
+        data: { userId: member.id, provider: 'STRIPE' as any, amount: 49.99, status: 'SUCCEEDED' as any },
+      });
+      await prisma.consentRecord.create({
+        data: { userId: member.id, consentType: 'MARKETING_EMAILS' as any, granted: true, grantedAt: new Date() },
+      });
+
+      const payments = await asAdmin('get', `/api/admin/users/${member.id}/payments`).expect(200);
+      expect(payments.body.data).toHaveLength(1);
+
+      const consents = await asAdmin('get', `/api/admin/users/${member.id}/consents`).expect(200);
+      expect(consents.body.data[0]).toMatchObject({ consentType: 'MARKETING_EMAILS', granted: true });
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      await asAdmin('get', '/api/admin/users/00000000-0000-0000-0000-000000000000/sessions').expect(404);
+    });
+  });
+});
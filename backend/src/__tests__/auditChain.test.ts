@@ -0,0 +1,135 @@
+/**
+ * Audit Hash Chain Tests
+ *
+ * Tests for tamper-evident audit entries, chain verification and signed retention checkpoints
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import * as auditService from '../services/auditService';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+describe('Audit Hash Chain', () => {
+  const writeEntries = async (count: number) => {
+    const logs = [];
+    for (let i = 0; i < count; i++) {
+      logs.push(
+        await auditService.createAuditLog({
+          action: 'CHAIN_TEST',
+          resource: 'tests',
+          resourceId: `entry-${i}`,
+          details: { index: i, nested: { b: 2, a: 1 } },
+        })
+      );
+    }
+    return logs;
+  };
+
+  it('should link each entry to the previous one', async () => {
+    const [first, second] = await writeEntries(2);
+
+    expect(first.hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(second.previousHash).toBe(first.hash);
+    expect(second.sequence).toBeGreaterThan(first.sequence);
+  });
+
+  it('should verify an untouched chain', async () => {
+    await writeEntries(3);
+
+    const report = await auditService.verifyAuditChain();
+
+    expect(report).toMatchObject({ valid: true, checkedEntries: 3, brokenAt: null });
+  });
+
+  it('should report an edited entry', async () => {
+    const logs = await writeEntries(3);
+    await prisma.auditLog.update({ where: { id: logs[1].id }, data: { details: { index: 99 } } });
+
+    const report = await auditService.verifyAuditChain();
+
+    expect(report.valid).toBe(false);
+    expect(report.brokenAt).toEqual({ id: logs[1].id, sequence: logs[1].sequence, reason: 'hash_mismatch' });
+    expect(report.checkedEntries).toBe(1);
+  });
+
+  it('should report a deleted entry at the next link', async () => {
+    const logs = await writeEntries(3);
+    await prisma.auditLog.delete({ where: { id: logs[1].id } });
+
+    const report = await auditService.verifyAuditChain();
+
+    expect(report.brokenAt).toMatchObject({ id: logs[2].id, reason: 'previous_hash_mismatch' });
+  });
+
+  it('should count entries written before chaining as legacy', async () => {
+    await prisma.auditLog.create({ data: { action: 'LEGACY_ENTRY' } });
+    await writeEntries(2);
+
+    const report = await auditService.verifyAuditChain();
+
+    expect(report).toMatchObject({ valid: true, legacyEntries: 1, checkedEntries: 2 });
+  });
+
+  describe('retention pruning', () => {
+    const age = async (ids: string[], days: number) => {
+      const createdAt = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      // Only entries that are about to be pruned are aged, so their stale hashes are never checked
+      await prisma.auditLog.updateMany({ where: { id: { in: ids } }, data: { createdAt } });
+    };
+
+    it('should leave a signed checkpoint that keeps the chain verifiable', async () => {
+      const logs = await writeEntries(4);
+      await age([logs[0].id, logs[1].id], 100);
+
+      const deletedCount = await auditService.deleteOldAuditLogs(90);
+
+      expect(deletedCount).toBe(2);
+      const checkpoint = await prisma.auditCheckpoint.findFirst();
+      expect(checkpoint).toMatchObject({ sequence: logs[1].sequence, hash: logs[1].hash, prunedCount: 2 });
+      expect(checkpoint!.signature).toMatch(/^[a-f0-9]{64}$/);
+
+      const report = await auditService.verifyAuditChain();
+      expect(report).toMatchObject({ valid: true, checkedEntries: 2 });
+      expect(report.checkpoint).toMatchObject({ id: checkpoint!.id, prunedCount: 2 });
+    });
+
+    it('should continue the chain from the checkpoint when everything was pruned', async () => {
+      const logs = await writeEntries(2);
+      await age(logs.map((log) => log.id), 100);
+      await auditService.deleteOldAuditLogs(90);
+
+      const next = await auditService.createAuditLog({ action: 'CHAIN_TEST' });
+
+      expect(next.previousHash).toBe(logs[1].hash);
+      expect((await auditService.verifyAuditChain()).valid).toBe(true);
+    });
+
+    it('should reject a forged checkpoint', async () => {
+      const logs = await writeEntries(3);
+      await age([logs[0].id], 100);
+      await auditService.deleteOldAuditLogs(90);
+
+      await prisma.auditCheckpoint.updateMany({ data: { prunedCount: 0 } });
+
+      const report = await auditService.verifyAuditChain();
+      expect(report.valid).toBe(false);
+      expect(report.brokenAt).toMatchObject({ id: null, reason: 'checkpoint_signature' });
+    });
+  });
+
+  describe('GET /api/audit/verify', () => {
+    it('should return the verification report to admins', async () => {
+      const admin = await createTestUser({ email: 'admin@test.com', role: 'ADMIN' as any });
+      const token = await getAuthToken(admin.id);
+      await writeEntries(2);
+
+      const response = await request(app)
+        .get('/api/audit/verify')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ valid: true, brokenAt: null });
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Audit Middleware Tests
+ *
+ * Tests for the request-level audit trail on admin and auth routes
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { REDACTED, diffChanges, redact } from '../utils/auditTrail';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+// Entries are written once the response has finished, so poll briefly for them
+const waitForAudit = async (action: string) => {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const log = await prisma.auditLog.findFirst({ where: { action }, orderBy: { createdAt: 'desc' } });
+    if (log) {
+      return log;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`No ${action} audit entry`);
+};
+
+describe('Audit trail utilities', () => {
+  it('should redact secrets at any depth', () => {
+    expect(
+      redact({
+        email: 'user@test.com',
+        password: 'Password123!',
+        nested: { accessToken: 'abc', refresh_token: 'def', apiKey: 'ghi' },
+      })
+    ).toEqual({
+      email: 'user@test.com',
+      password: REDACTED,
+      nested: { accessToken: REDACTED, refresh_token: REDACTED, apiKey: REDACTED },
+    });
+  });
+
+  it('should truncate long strings', () => {
+    const value = redact({ content: 'x'.repeat(2000) }) as { content: string };
+
+    expect(value.content.length).toBeLessThan(600);
+    expect(value.content).toContain('2000 chars');
+  });
+
+  it('should diff only the fields that changed', () => {
+    const updatedAt = new Date();
+
+    expect(
+      diffChanges(
+        { title: 'Old', featured: false, updatedAt: new Date(0) },
+        { title: 'New', featured: false, updatedAt }
+      )
+    ).toEqual({ title: { before: 'Old', after: 'New' } });
+  });
+});
+
+describe('Audit middleware', () => {
+  let admin: any;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    admin = await createTestUser({ email: `admin-${Date.now()}@test.com`, role: 'ADMIN' as any });
+    adminToken = await getAuthToken(admin.id);
+    await prisma.contentRevision.deleteMany();
+    await prisma.tool.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.contentRevision.deleteMany();
+    await prisma.tool.deleteMany();
+    await prisma.$disconnect();
+  });
+
+  it('should record content updates with a before/after diff and the request context', async () => {
+    const tool = await prisma.tool.create({
+      data: {
+        title: 'Original',
+        description: 'Description',
+        problemSolved: 'Problem',
+        externalLink: 'https://example.com',
+      },
+    });
+
+    await request(app)
+      .put(`/api/admin/tools/${tool.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .set('User-Agent', 'audit-test')
+      .set('X-Request-ID', 'req-123')
+      .send({ title: 'Renamed' })
+      .expect(200);
+
+    const log = await waitForAudit('CONTENT_UPDATE');
+    expect(log).toMatchObject({
+      userId: admin.id,
+      resource: 'tools',
+      resourceId: tool.id,
+      userAgent: 'audit-test',
+      requestId: 'req-123',
+    });
+    expect(log.ipAddress).toBeTruthy();
+    expect(log.details).toMatchObject({
+      method: 'PUT',
+      path: '/api/admin/tools/:id',
+      statusCode: 200,
+      outcome: 'success',
+      changes: { title: { before: 'Original', after: 'Renamed' } },
+    });
+  });
+
+  it('should record content creation', async () => {
+    const response = await request(app)
+      .post('/api/admin/tools')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        title: 'New Tool',
+        description: 'Description',
+        problemSolved: 'Problem',
+        externalLink: 'https://example.com',
+      })
+      .expect(201);
+
+    const log = await waitForAudit('CONTENT_CREATE');
+    expect(log.resourceId).toBe(response.body.data.id);
+    expect((log.details as any).changes.title).toEqual({ before: null, after: 'New Tool' });
+  });
+
+  it('should record failed requests', async () => {
+    await request(app)
+      .put('/api/admin/tools/00000000-0000-4000-8000-000000000000')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ title: 'Missing' })
+      .expect(404);
+
+    const log = await waitForAudit('CONTENT_UPDATE');
+    expect(log.details).toMatchObject({ statusCode: 404, outcome: 'failure', request: { title: 'Missing' } });
+  });
+
+  it('should record logins without the password', async () => {
+    const user = await createTestUser({ email: 'login-audit@test.com' });
+
+    await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'login-audit@test.com', password: 'Password123!' })
+      .expect(200);
+
+    const log = await waitForAudit('AUTH_LOGIN');
+    expect(log.userId).toBe(user.id);
+    expect(log.resourceId).toBe(user.id);
+    expect((log.details as any).request).toEqual({ email: 'login-audit@test.com', password: REDACTED });
+    expect(JSON.stringify(log.details)).not.toContain('Password123!');
+  });
+
+  it('should record failed logins', async () => {
+    await createTestUser({ email: 'failed-audit@test.com' });
+
+    await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'failed-audit@test.com', password: 'Wrong123!' })
+      .expect(401);
+
+    const log = await waitForAudit('AUTH_LOGIN');
+    expect(log.userId).toBeNull();
+    expect(log.details).toMatchObject({ outcome: 'failure', statusCode: 401 });
+  });
+
+  it('should record role changes', async () => {
+    const superAdmin = await createTestUser({ email: `super-${Date.now()}@test.com`, role: 'SUPER_ADMIN' as any });
+    const target = await createTestUser({ email: `target-${Date.now()}@test.com` });
+
+    await request(app)
+      .put(`/api/rbac/users/${target.id}/role`)
+      .set('Authorization', `Bearer ${await getAuthToken(superAdmin.id)}`)
+      .send({ role: 'ADMIN' })
+      .expect(200);
+
+    const log = await waitForAudit('USER_ROLE_CHANGED');
+    expect(log).toMatchObject({ userId: superAdmin.id, resource: 'users', resourceId: target.id });
+    expect((log.details as any).changes).toEqual({ role: { before: 'USER', after: 'ADMIN' } });
+  });
+
+  it('should record forbidden attempts', async () => {
+    const target = await createTestUser({ email: `target-${Date.now()}@test.com` });
+
+    await request(app)
+      .put(`/api/rbac/users/${target.id}/role`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ role: 'SUPER_ADMIN' })
+      .expect(403);
+
+    const log = await waitForAudit('USER_ROLE_CHANGED');
+    expect(log).toMatchObject({ userId: admin.id, resourceId: target.id });
+    expect(log.details).toMatchObject({ outcome: 'failure', statusCode: 403 });
+  });
+});
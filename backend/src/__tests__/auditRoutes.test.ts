@@ -0,0 +1,135 @@
+/**
+ * Audit Routes Tests
+ *
+ * Tests for the admin audit log explorer endpoints
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+describe('Audit Routes', () => {
+  let adminToken: string;
+  let editor: any;
+
+  beforeEach(async () => {
+    const admin = await createTestUser({ email: 'admin@test.com', role: 'ADMIN' as any });
+    editor = await createTestUser({ email: 'editor@test.com' });
+    adminToken = await getAuthToken(admin.id);
+
+    await prisma.auditLog.createMany({
+      data: [
+        {
+          userId: editor.id,
+          action: 'CONTENT_UPDATE',
+          resource: 'tools',
+          resourceId: 'tool-1',
+          details: { note: 'comma, "quoted"' },
+          createdAt: new Date('2025-12-01T10:00:00Z'),
+        },
+        {
+          userId: editor.id,
+          action: 'CONTENT_CREATE',
+          resource: 'tools',
+          resourceId: 'tool-2',
+          createdAt: new Date('2025-12-10T10:00:00Z'),
+        },
+        {
+          userId: admin.id,
+          action: 'AUTH_LOGIN',
+          resource: 'users',
+          resourceId: admin.id,
+          createdAt: new Date('2025-12-20T10:00:00Z'),
+        },
+      ],
+    });
+  });
+
+  const get = (path: string) => request(app).get(path).set('Authorization', `Bearer ${adminToken}`);
+
+  it('should only be available to admins', async () => {
+    const token = await getAuthToken(editor.id);
+
+    await request(app).get('/api/audit').set('Authorization', `Bearer ${token}`).expect(403);
+  });
+
+  it('should paginate logs with the total count', async () => {
+    const response = await get('/api/audit?limit=2&offset=0').expect(200);
+
+    expect(response.body.data).toHaveLength(2);
+    expect(response.body.meta).toEqual({ total: 3, limit: 2, offset: 0 });
+    expect(response.body.data[0].action).toBe('AUTH_LOGIN');
+  });
+
+  it('should filter by user email, action, resource and date range', async () => {
+    const byEmail = await get('/api/audit?userEmail=EDITOR').expect(200);
+    expect(byEmail.body.meta.total).toBe(2);
+
+    const byAction = await get('/api/audit?action=CONTENT_CREATE').expect(200);
+    expect(byAction.body.data.map((log: any) => log.resourceId)).toEqual(['tool-2']);
+
+    const byDate = await get(
+      '/api/audit?resource=tools&startDate=2025-12-05T00:00:00Z&endDate=2025-12-31T00:00:00Z'
+    ).expect(200);
+    expect(byDate.body.data.map((log: any) => log.resourceId)).toEqual(['tool-2']);
+  });
+
+  it('should reject invalid dates', async () => {
+    await get('/api/audit?startDate=yesterday').expect(400);
+  });
+
+  it('should return stats for the current filter', async () => {
+    const response = await get('/api/audit/stats?resource=tools').expect(200);
+
+    expect(response.body.data).toMatchObject({
+      totalLogs: 2,
+      uniqueUsers: 1,
+      actionCounts: { CONTENT_UPDATE: 1, CONTENT_CREATE: 1 },
+      resourceCounts: { tools: 2 },
+    });
+  });
+
+  it('should export the current filter as CSV', async () => {
+    const response = await get('/api/audit/export?format=csv&resource=tools').expect(200);
+
+    expect(response.headers['content-type']).toContain('text/csv');
+    expect(response.headers['content-disposition']).toContain('attachment');
+
+    const lines = response.text.trim().split('\n');
+    expect(lines[0]).toBe(
+      'id,createdAt,userId,userEmail,action,resource,resourceId,ipAddress,userAgent,requestId,details'
+    );
+    expect(lines).toHaveLength(3);
+    expect(response.text).toContain('editor@test.com');
+    expect(response.text).toContain('"{""note"":""comma, \\""quoted\\""""}"');
+  });
+
+  it('should keep spreadsheet formulas in exported values inert', async () => {
+    await prisma.auditLog.create({
+      data: {
+        action: 'AUTH_LOGIN_FAILED',
+        resource: 'users',
+        userAgent: '=HYPERLINK("http://evil.test","Open")',
+        details: { email: '@SUM(1+1)' },
+      },
+    });
+
+    const response = await get('/api/audit/export?format=csv&action=AUTH_LOGIN_FAILED').expect(200);
+
+    expect(response.text).toContain('"\'=HYPERLINK(""http://evil.test"",""Open"")"');
+    expect(response.text).not.toMatch(/,=HYPERLINK|,"=HYPERLINK/);
+  });
+
+  it('should export the current filter as NDJSON', async () => {
+    const response = await get('/api/audit/export?format=ndjson&action=AUTH_LOGIN').expect(200);
+
+    expect(response.headers['content-type']).toContain('application/x-ndjson');
+    const rows = response.text
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ action: 'AUTH_LOGIN', userEmail: 'admin@test.com' });
+  });
+});
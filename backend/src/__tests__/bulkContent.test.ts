@@ -0,0 +1,131 @@
+/**
+ * Bulk Content Tests
+ *
+ * Tests for POST /api/admin/:type/bulk
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+describe('Admin Bulk Content Actions', () => {
+  let adminToken: string;
+
+  const createTraining = (title: string, displayOrder = 0) =>
+    prisma.training.create({
+      data: {
+        title,
+        description: 'Description',
+        category: 'INTRODUCTORY',
+        level: 'BEGINNER',
+        externalLink: 'https://example.com',
+        displayOrder,
+      },
+    });
+
+  const bulk = (type: string, body: Record<string, unknown>) =>
+    request(app).post(`/api/admin/${type}/bulk`).set('Authorization', `Bearer ${adminToken}`).send(body);
+
+  beforeEach(async () => {
+    const admin = await createTestUser({ email: `admin-${Date.now()}@test.com`, role: 'ADMIN' as any });
+    adminToken = await getAuthToken(admin.id);
+
+    await prisma.contentRevision.deleteMany();
+    await prisma.training.deleteMany();
+    await prisma.communityLink.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.contentRevision.deleteMany();
+    await prisma.training.deleteMany();
+    await prisma.communityLink.deleteMany();
+    await prisma.auditLog.deleteMany();
+    await prisma.user.deleteMany();
+    await prisma.$disconnect();
+  });
+
+  it('should deactivate several items and report each result', async () => {
+    const first = await createTraining('First');
+    const second = await createTraining('Second');
+
+    const response = await bulk('trainings', { ids: [first.id, second.id], action: 'deactivate' }).expect(200);
+
+    expect(response.body.data).toMatchObject({ action: 'deactivate', succeeded: 2, failed: 0 });
+    expect(response.body.data.results).toEqual([
+      { id: first.id, success: true },
+      { id: second.id, success: true },
+    ]);
+    expect(await prisma.training.count({ where: { isActive: false } })).toBe(2);
+    expect(await prisma.contentRevision.count()).toBe(2);
+  });
+
+  it('should report missing items without failing the rest', async () => {
+    const training = await createTraining('Existing');
+    const missingId = '00000000-0000-4000-8000-000000000000';
+
+    const response = await bulk('trainings', { ids: [training.id, missingId], action: 'feature' }).expect(200);
+
+    expect(response.body.data.succeeded).toBe(1);
+    expect(response.body.data.results[1]).toEqual({ id: missingId, success: false, error: 'Training not found' });
+    expect((await prisma.training.findUnique({ where: { id: training.id } }))?.featured).toBe(true);
+  });
+
+  it('should move items to the trash', async () => {
+    const training = await createTraining('Trash me');
+
+    await bulk('trainings', { ids: [training.id], action: 'delete' }).expect(200);
+
+    const trashed = await prisma.training.findUnique({ where: { id: training.id } });
+    expect(trashed?.deletedAt).not.toBeNull();
+    expect(await prisma.auditLog.count({ where: { action: 'CONTENT_TRASHED', resourceId: training.id } })).toBe(1);
+  });
+
+  it('should change the category', async () => {
+    const training = await createTraining('Recategorize');
+
+    await bulk('trainings', { ids: [training.id], action: 'changeCategory', category: 'CODE_ALONG' }).expect(200);
+
+    expect((await prisma.training.findUnique({ where: { id: training.id } }))?.category).toBe('CODE_ALONG');
+  });
+
+  it('should set the display order in the given id order', async () => {
+    const first = await createTraining('First', 5);
+    const second = await createTraining('Second', 1);
+
+    await bulk('trainings', { ids: [second.id, first.id], action: 'setDisplayOrder', displayOrder: 10 }).expect(200);
+
+    expect((await prisma.training.findUnique({ where: { id: second.id } }))?.displayOrder).toBe(10);
+    expect((await prisma.training.findUnique({ where: { id: first.id } }))?.displayOrder).toBe(11);
+  });
+
+  it('should write a single bulk audit entry', async () => {
+    const training = await createTraining('Audited');
+
+    await bulk('trainings', { ids: [training.id], action: 'activate' }).expect(200);
+
+    const log = await prisma.auditLog.findFirst({ where: { action: 'CONTENT_BULK_UPDATE' } });
+    expect(log?.resource).toBe('trainings');
+    expect(log?.details).toMatchObject({ action: 'activate', succeeded: [training.id], failed: [] });
+  });
+
+  it('should reject actions the content type does not support', async () => {
+    const link = await prisma.communityLink.create({
+      data: { platform: 'SLACK', title: 'Slack', externalLink: 'https://slack.com' },
+    });
+
+    await bulk('community', { ids: [link.id], action: 'feature' }).expect(400);
+    await bulk('tools', { ids: [link.id], action: 'changeCategory', category: 'GLOSSARY' }).expect(400);
+  });
+
+  it('should validate the request body', async () => {
+    await bulk('trainings', { ids: [], action: 'activate' }).expect(400);
+    await bulk('trainings', { ids: ['not-a-uuid'], action: 'activate' }).expect(400);
+    await bulk('trainings', { ids: ['00000000-0000-4000-8000-000000000000'], action: 'explode' }).expect(400);
+    await bulk('trainings', {
+      ids: ['00000000-0000-4000-8000-000000000000'],
+      action: 'changeCategory',
+      category: 'NOT_A_CATEGORY',
+    }).expect(400);
+  });
+});
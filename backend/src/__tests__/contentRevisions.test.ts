@@ -0,0 +1,176 @@
+/**
+ * Content Revision Tests
+ *
+ * Tests for revision history, diff and restore of admin content edits
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { ContentType, KnowledgeCategory } from '@prisma/client';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+describe('Admin Content API - Revisions', () => {
+  let adminToken: string;
+  let adminUser: any;
+  let article: any;
+
+  beforeEach(async () => {
+    adminUser = await createTestUser({
+      email: `admin-${Date.now()}@test.com`,
+      role: 'ADMIN' as any,
+    });
+    adminToken = await getAuthToken(adminUser.id);
+
+    await prisma.contentRevision.deleteMany();
+    await prisma.knowledgeArticle.deleteMany();
+
+    article = await prisma.knowledgeArticle.create({
+      data: {
+        title: 'Original Title',
+        slug: 'original-title',
+        description: 'Description',
+        content: '# Original body',
+        category: KnowledgeCategory.CORE_CONCEPTS,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.contentRevision.deleteMany();
+    await prisma.knowledgeArticle.deleteMany();
+    await prisma.user.deleteMany();
+    await prisma.$disconnect();
+  });
+
+  const editArticle = (data: Record<string, unknown>) =>
+    request(app)
+      .put(`/api/admin/knowledge/${article.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(data)
+      .expect(200);
+
+  it('should snapshot the previous version on every update', async () => {
+    await editArticle({ content: '# Broken body' });
+
+    const revisions = await prisma.contentRevision.findMany({
+      where: { contentType: ContentType.KNOWLEDGE_ARTICLE, contentId: article.id },
+    });
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].editorId).toBe(adminUser.id);
+    expect((revisions[0].snapshot as any).content).toBe('# Original body');
+  });
+
+  it('should list revisions newest first with their editor', async () => {
+    await editArticle({ title: 'Second Title' });
+    await editArticle({ title: 'Third Title' });
+
+    const response = await request(app)
+      .get(`/api/admin/knowledge/${article.id}/revisions`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data).toHaveLength(2);
+    expect(response.body.data[0].title).toBe('Second Title');
+    expect(response.body.data[1].title).toBe('Original Title');
+    expect(response.body.data[0].editor.email).toBe(adminUser.email);
+    expect(response.body.data[0]).not.toHaveProperty('snapshot');
+  });
+
+  it('should return a field-level diff against the current version', async () => {
+    await editArticle({ content: '# Broken body' });
+    const [revision] = await prisma.contentRevision.findMany({ where: { contentId: article.id } });
+
+    const response = await request(app)
+      .get(`/api/admin/knowledge/${article.id}/revisions/${revision.id}/diff`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data.changes).toEqual([
+      { field: 'content', revision: '# Original body', current: '# Broken body' },
+    ]);
+  });
+
+  it('should restore a revision and record the replaced version', async () => {
+    await editArticle({ content: '# Broken body' });
+    const [revision] = await prisma.contentRevision.findMany({ where: { contentId: article.id } });
+
+    const response = await request(app)
+      .post(`/api/admin/knowledge/${article.id}/revisions/${revision.id}/restore`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data.content).toBe('# Original body');
+
+    const revisions = await prisma.contentRevision.findMany({
+      where: { contentId: article.id },
+      orderBy: { createdAt: 'desc' },
+    });
+    expect(revisions).toHaveLength(2);
+    expect((revisions[0].snapshot as any).content).toBe('# Broken body');
+  });
+
+  it('should leave a trashed item in the trash', async () => {
+    await editArticle({ content: '# Broken body' });
+    const [revision] = await prisma.contentRevision.findMany({ where: { contentId: article.id } });
+    await request(app)
+      .delete(`/api/admin/knowledge/${article.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    await request(app)
+      .post(`/api/admin/knowledge/${article.id}/revisions/${revision.id}/restore`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+    await request(app)
+      .put(`/api/admin/knowledge/${article.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ title: 'Changed' })
+      .expect(404);
+    await request(app)
+      .get(`/api/admin/knowledge/${article.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+
+    const stored = await prisma.knowledgeArticle.findUnique({ where: { id: article.id } });
+    expect(stored?.deletedAt).not.toBeNull();
+    expect(stored?.content).toBe('# Broken body');
+  });
+
+  it('should return 404 for a revision of another item', async () => {
+    const other = await prisma.knowledgeArticle.create({
+      data: {
+        title: 'Other',
+        slug: 'other',
+        description: 'Description',
+        content: 'Body',
+        category: KnowledgeCategory.GLOSSARY,
+      },
+    });
+    await editArticle({ title: 'Changed' });
+    const [revision] = await prisma.contentRevision.findMany({ where: { contentId: article.id } });
+
+    await request(app)
+      .get(`/api/admin/knowledge/${other.id}/revisions/${revision.id}/diff`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+  });
+
+  it('should reject unknown content types', async () => {
+    await request(app)
+      .get(`/api/admin/users/${article.id}/revisions`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+
+  it('should require admin role', async () => {
+    const user = await createTestUser({ email: `user-${Date.now()}@test.com` });
+    const token = await getAuthToken(user.id);
+
+    await request(app)
+      .get(`/api/admin/knowledge/${article.id}/revisions`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+  });
+});
@@ -138,6 +138,105 @@ describe('Content API - Public Endpoints', () => {
 
       expect(response.body.success).toBe(true);
       expect(response.body.data).toEqual([]);
+      expect(response.body.meta).toEqual({ total: 0, nextCursor: null });
+    });
+
+    it('should paginate with limit and cursor', async () => {
+      await prisma.training.createMany({
+        data: [1, 2, 3].map((order) => ({
+          title: `Training ${order}`,
+          description: 'Description',
+          category: TrainingCategory.INTRODUCTORY,
+          level: TrainingLevel.BEGINNER,
+          externalLink: `https://example.com/${order}`,
+          isActive: true,
+          displayOrder: order,
+        })),
+      });
+
+      const firstPage = await request(app)
+        .get('/api/content/trainings?limit=2')
+        .expect(200);
+
+      expect(firstPage.body.data.map((t: any) => t.title)).toEqual(['Training 1', 'Training 2']);
+      expect(firstPage.body.meta.total).toBe(3);
+      expect(firstPage.body.meta.nextCursor).toBe(firstPage.body.data[1].id);
+
+      const secondPage = await request(app)
+        .get(`/api/content/trainings?limit=2&cursor=${firstPage.body.meta.nextCursor}`)
+        .expect(200);
+
+      expect(secondPage.body.data.map((t: any) => t.title)).toEqual(['Training 3']);
+      expect(secondPage.body.meta).toEqual({ total: 3, nextCursor: null });
+    });
+
+    it('should filter by category, level and featured', async () => {
+      await prisma.training.createMany({
+        data: [
+          {
+            title: 'Beginner Intro',
+            description: 'Description',
+            category: TrainingCategory.INTRODUCTORY,
+            level: TrainingLevel.BEGINNER,
+            externalLink: 'https://example.com/1',
+            featured: true,
+          },
+          {
+            title: 'Advanced Intro',
+            description: 'Description',
+            category: TrainingCategory.INTRODUCTORY,
+            level: TrainingLevel.ADVANCED,
+            externalLink: 'https://example.com/2',
+          },
+          {
+            title: 'Beginner Tools',
+            description: 'Description',
+            category: TrainingCategory.TOOL_BASED,
+            level: TrainingLevel.BEGINNER,
+            externalLink: 'https://example.com/3',
+          },
+        ],
+      });
+
+      const response = await request(app)
+        .get('/api/content/trainings?category=INTRODUCTORY&level=BEGINNER')
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].title).toBe('Beginner Intro');
+      expect(response.body.meta.total).toBe(1);
+
+      const featured = await request(app)
+        .get('/api/content/trainings?featured=false')
+        .expect(200);
+
+      expect(featured.body.meta.total).toBe(2);
+    });
+
+    it('should sort by title', async () => {
+      await prisma.training.createMany({
+        data: ['Zeta', 'Alpha'].map((title, index) => ({
+          title,
+          description: 'Description',
+          category: TrainingCategory.INTRODUCTORY,
+          level: TrainingLevel.BEGINNER,
+          externalLink: 'https://example.com',
+          displayOrder: index,
+        })),
+      });
+
+      const response = await request(app)
+        .get('/api/content/trainings?sort=title')
+        .expect(200);
+
+      expect(response.body.data.map((t: any) => t.title)).toEqual(['Alpha', 'Zeta']);
+    });
+
+    it('should reject invalid list params', async () => {
+      await request(app).get('/api/content/trainings?level=EXPERT').expect(400);
+      await request(app).get('/api/content/trainings?limit=0').expect(400);
+      await request(app).get('/api/content/trainings?sort=random').expect(400);
+      await request(app).get('/api/content/trainings?cursor=not-a-uuid').expect(400);
     });
   });
 
@@ -342,6 +441,26 @@ describe('Content API - Public Endpoints', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data).toHaveLength(1);
     });
+
+    it('should filter products by status', async () => {
+      await prisma.product.createMany({
+        data: [ProductStatus.LIVE, ProductStatus.BETA].map((status) => ({
+          title: `${status} Product`,
+          description: 'Description',
+          problemSolved: 'Problem',
+          status,
+          externalLink: 'https://example.com',
+        })),
+      });
+
+      const response = await request(app)
+        .get('/api/content/products?status=BETA')
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].status).toBe(ProductStatus.BETA);
+      expect(response.body.meta).toEqual({ total: 1, nextCursor: null });
+    });
   });
 
   describe('GET /api/content/products/:id', () => {
@@ -374,6 +493,7 @@ describe('Content API - Public Endpoints', () => {
         data: [
           {
             title: 'Active Article',
+            slug: 'active-article',
             description: 'Description',
             content: 'Content',
             category: KnowledgeCategory.CORE_CONCEPTS,
@@ -383,6 +503,7 @@ describe('Content API - Public Endpoints', () => {
           },
           {
             title: 'Inactive Article',
+            slug: 'inactive-article',
             description: 'Description',
             content: 'Content',
             category: KnowledgeCategory.CORE_CONCEPTS,
@@ -407,6 +528,7 @@ describe('Content API - Public Endpoints', () => {
       const article = await prisma.knowledgeArticle.create({
         data: {
           title: 'Test Article',
+          slug: 'test-article',
           description: 'Description',
           content: 'Content',
           category: KnowledgeCategory.CORE_CONCEPTS,
@@ -425,12 +547,55 @@ describe('Content API - Public Endpoints', () => {
     });
   });
 
+  describe('GET /api/content/knowledge/by-slug/:slug', () => {
+    it('should return knowledge article by slug', async () => {
+      const article = await prisma.knowledgeArticle.create({
+        data: {
+          title: 'Slug Article',
+          slug: 'slug-article',
+          description: 'Description',
+          content: '# Heading',
+          category: KnowledgeCategory.CORE_CONCEPTS,
+          isActive: true,
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/content/knowledge/by-slug/slug-article')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.id).toBe(article.id);
+      expect(response.body.data.slug).toBe('slug-article');
+    });
+
+    it('should return 404 for inactive article', async () => {
+      await prisma.knowledgeArticle.create({
+        data: {
+          title: 'Hidden Article',
+          slug: 'hidden-article',
+          description: 'Description',
+          content: 'Content',
+          category: KnowledgeCategory.CORE_CONCEPTS,
+          isActive: false,
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/content/knowledge/by-slug/hidden-article')
+        .expect(404);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
   describe('GET /api/content/knowledge/search?q=query', () => {
     it('should search knowledge articles', async () => {
       await prisma.knowledgeArticle.createMany({
         data: [
           {
             title: 'AI Fundamentals',
+            slug: 'ai-fundamentals',
             description: 'Description',
             content: 'Content about AI',
             category: KnowledgeCategory.CORE_CONCEPTS,
@@ -440,6 +605,7 @@ describe('Content API - Public Endpoints', () => {
           },
           {
             title: 'Machine Learning Basics',
+            slug: 'machine-learning-basics',
             description: 'Description',
             content: 'Content about ML',
             category: KnowledgeCategory.CORE_CONCEPTS,
@@ -459,6 +625,46 @@ describe('Content API - Public Endpoints', () => {
     });
   });
 
+  describe('GET /api/content/search?q=query', () => {
+    it('should return ranked results tagged with their content type', async () => {
+      await prisma.tool.create({
+        data: {
+          title: 'Vector Database Explorer',
+          description: 'Browse embeddings',
+          problemSolved: 'Inspecting vectors',
+          externalLink: 'https://example.com/tool',
+        },
+      });
+      await prisma.knowledgeArticle.create({
+        data: {
+          title: 'Embeddings Explained',
+          slug: 'embeddings-explained',
+          description: 'How vector embeddings work',
+          content: 'Content',
+          category: KnowledgeCategory.CORE_CONCEPTS,
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/content/search?q=embed')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.meta.total).toBe(2);
+      expect(response.body.data[0]).toMatchObject({ type: 'knowledge', slug: 'embeddings-explained' });
+      expect(response.body.data[0].titleHighlight).toContain('<mark>');
+      expect(response.body.data[1].type).toBe('tool');
+    });
+
+    it('should require a query', async () => {
+      await request(app).get('/api/content/search?q=%20').expect(400);
+    });
+
+    it('should reject unknown types', async () => {
+      await request(app).get('/api/content/search?q=ai&types=training,users').expect(400);
+    });
+  });
+
   // Community Links endpoints
   describe('GET /api/content/community', () => {
     it('should return all active community links', async () => {
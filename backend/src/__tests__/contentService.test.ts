@@ -279,7 +279,7 @@ describe('ContentService - Training', () => {
   });
 
   describe('deleteTraining', () => {
-    it('should soft delete training', async () => {
+    it('should move training to the trash', async () => {
       const training = await prisma.training.create({
         data: {
           title: 'Test Training',
@@ -300,7 +300,7 @@ describe('ContentService - Training', () => {
         where: { id: training.id },
       });
 
-      expect(deleted?.isActive).toBe(false);
+      expect(deleted?.deletedAt).not.toBeNull();
     });
   });
 });
@@ -0,0 +1,93 @@
+/**
+ * Cookie Consent Tests
+ *
+ * Tests that cookie banner choices made before signing in are merged into the
+ * account's consent records, and that the banner can save them when signed in
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+jest.mock('../services/emailService', () => ({
+  sendVerificationEmail: jest.fn().mockResolvedValue({ id: 'mock-email-id' }),
+}));
+
+const bannerChoices = (decidedAt: Date = new Date()) => ({
+  decidedAt: decidedAt.toISOString(),
+  version: '1',
+  consents: { COOKIES: true, ANALYTICS: true, MARKETING_EMAILS: false },
+});
+
+describe('Cookie Consent', () => {
+  const consentsOf = (userId: string) => prisma.consentRecord.findMany({ where: { userId } });
+
+  it('should merge the banner choices on registration', async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'visitor@example.com', password: 'Password123!', consents: bannerChoices() })
+      .expect(201);
+
+    const consents = await consentsOf(response.body.data.id);
+    expect(Object.fromEntries(consents.map(({ consentType, granted }) => [consentType, granted]))).toEqual({
+      COOKIES: true,
+      ANALYTICS: true,
+      MARKETING_EMAILS: false,
+    });
+    expect(consents.every((consent) => consent.version === '1')).toBe(true);
+
+    const entry = await prisma.auditLog.findFirst({ where: { action: 'CONSENT_GRANTED' } });
+    expect(entry?.details).toMatchObject({ source: 'cookie_banner' });
+  });
+
+  it('should merge the banner choices on login', async () => {
+    const user = await createTestUser({ email: 'member@example.com' });
+
+    await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'member@example.com', password: 'Password123!', consents: bannerChoices() })
+      .expect(200);
+
+    expect(await consentsOf(user.id)).toHaveLength(3);
+  });
+
+  it('should keep a newer account choice over an older cookie', async () => {
+    const user = await createTestUser({ email: 'member@example.com' });
+    await prisma.consentRecord.create({
+      data: { userId: user.id, consentType: 'ANALYTICS', granted: false, revokedAt: new Date() },
+    });
+
+    await request(app)
+      .post('/api/auth/login')
+      .send({
+        email: 'member@example.com',
+        password: 'Password123!',
+        consents: bannerChoices(new Date(Date.now() - 24 * 60 * 60 * 1000)),
+      })
+      .expect(200);
+
+    const analytics = await prisma.consentRecord.findFirst({ where: { userId: user.id, consentType: 'ANALYTICS' } });
+    expect(analytics?.granted).toBe(false);
+  });
+
+  it('should reject malformed choices', async () => {
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'visitor@example.com', password: 'Password123!', consents: { decidedAt: 'yesterday' } })
+      .expect(400);
+  });
+
+  it('should save the banner choices for a signed-in user', async () => {
+    const user = await createTestUser({ email: 'member@example.com' });
+
+    const response = await request(app)
+      .put('/api/gdpr/consents')
+      .set('Authorization', `Bearer ${await getAuthToken(user.id)}`)
+      .send({ version: '1', consents: { ANALYTICS: true, DATA_PROCESSING: false } })
+      .expect(200);
+
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.data[0]).toMatchObject({ consentType: 'ANALYTICS', granted: true, version: '1' });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Data Export Download Tests
+ *
+ * Tests for signed export download links, expiry and the ready email
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import * as emailService from '../services/emailService';
+import { createDownloadUrl, expireDataExports, generateDataExport } from '../services/gdprService';
+import { StorageProviderFactory } from '../providers/StorageProviderFactory';
+import { readZip } from '../utils/zip';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+jest.mock('../services/emailService', () => ({
+  sendDataExportReadyEmail: jest.fn().mockResolvedValue({ id: 'mock-email-id' }),
+}));
+
+// Path and query of a signed link, as supertest requests it
+const pathOf = (url: string) => {
+  const { pathname, search } = new URL(url);
+  return `${pathname}${search}`;
+};
+
+describe('Data Export Downloads', () => {
+  let user: any;
+  let token: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    user = await createTestUser({ email: 'exporter@test.com', name: 'Export User' });
+    token = await getAuthToken(user.id);
+  });
+
+  // Request an export and generate it, as the background job would
+  const requestExport = async () => {
+    const response = await request(app)
+      .post('/api/gdpr/export')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(202);
+    expect(response.body.data.status).toBe('PENDING');
+
+    return generateDataExport(response.body.data.id);
+  };
+
+  it('should email the user a signed link when the export is ready', async () => {
+    const { downloadUrl } = await requestExport();
+
+    expect(emailService.sendDataExportReadyEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'exporter@test.com', downloadUrl })
+    );
+  });
+
+  it('should download the archive with a valid link, without a session', async () => {
+    const { requestId, downloadUrl } = await requestExport();
+
+    const response = await request(app)
+      .get(pathOf(downloadUrl))
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+
+    expect(response.headers['content-type']).toBe('application/zip');
+    expect(response.headers['content-disposition']).toMatch(/attachment; filename="data-export-.*\.zip"/);
+    const files = readZip(response.body);
+    expect(JSON.parse(files.get('data.json')!.toString()).user.email).toBe('exporter@test.com');
+    expect([...files.keys()]).toEqual(expect.arrayContaining(['user.csv', 'sessions.csv', 'consents.csv']));
+
+    const entry = await prisma.auditLog.findFirst({ where: { action: 'DATA_EXPORT_DOWNLOADED' } });
+    expect(entry).toMatchObject({ userId: user.id, resourceId: requestId });
+  });
+
+  it('should reject missing, forged and mismatched tokens', async () => {
+    const { requestId, downloadUrl } = await requestExport();
+    const other = await requestExport();
+    const otherToken = new URL(other.downloadUrl).searchParams.get('token');
+
+    await request(app).get(`/api/gdpr/exports/${requestId}/download`).expect(401);
+    await request(app).get(`${pathOf(downloadUrl)}x`).expect(401);
+    await request(app).get(`/api/gdpr/exports/${requestId}/download?token=${otherToken}`).expect(401);
+  });
+
+  it('should refuse an expired link', async () => {
+    const { requestId } = await requestExport();
+    const expiredUrl = createDownloadUrl({ id: requestId, userId: user.id, expiresAt: new Date(Date.now() - 60000) });
+
+    const response = await request(app).get(pathOf(expiredUrl)).expect(410);
+    expect(response.body.error).toMatch(/expired/i);
+  });
+
+  it('should honour expiresAt and expire the export', async () => {
+    const { requestId, downloadUrl } = await requestExport();
+    await prisma.dataExportRequest.update({
+      where: { id: requestId },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+    const { storageKey } = await prisma.dataExportRequest.findUniqueOrThrow({ where: { id: requestId } });
+
+    await request(app).get(pathOf(downloadUrl)).expect(410);
+
+    const stored = await prisma.dataExportRequest.findUniqueOrThrow({ where: { id: requestId } });
+    expect(stored).toMatchObject({ status: 'EXPIRED', storageKey: null });
+    expect(await StorageProviderFactory.getProvider().get(storageKey!)).toBeNull();
+  });
+
+  it('should expire stale exports and delete their files in the cleanup job', async () => {
+    const { requestId } = await requestExport();
+    const fresh = await requestExport();
+    const { storageKey } = await prisma.dataExportRequest.update({
+      where: { id: requestId },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    expect(await expireDataExports()).toBe(1);
+
+    expect(await StorageProviderFactory.getProvider().get(storageKey!)).toBeNull();
+    const statuses = await prisma.dataExportRequest.findMany({ select: { id: true, status: true } });
+    expect(statuses).toEqual(
+      expect.arrayContaining([
+        { id: requestId, status: 'EXPIRED' },
+        { id: fresh.requestId, status: 'COMPLETED' },
+      ])
+    );
+  });
+
+  it('should list completed exports with a fresh link', async () => {
+    const { requestId } = await requestExport();
+
+    const response = await request(app)
+      .get('/api/gdpr/exports')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(response.body.data[0]).toMatchObject({ id: requestId, status: 'COMPLETED' });
+    expect(response.body.data[0].downloadUrl).toContain('?token=');
+    expect(response.body.data[0].storageKey).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Email Verification Flow Tests
+ */
+
+import request from 'supertest';
+import app from '../app';
+import config from '../config';
+import { prisma } from '../config/database';
+import * as emailService from '../services/emailService';
+import { createTestUser, getAuthToken } from '../tests/setup';
+import { hashToken } from '../utils/tokens';
+
+jest.mock('../services/emailService', () => ({
+  sendVerificationEmail: jest.fn().mockResolvedValue({ id: 'mock-email-id' }),
+}));
+
+describe('Email Verification API', () => {
+  const originalFlag = config.features.emailVerification;
+
+  beforeEach(() => {
+    config.features.emailVerification = true;
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    config.features.emailVerification = originalFlag;
+  });
+
+  const lastEmailedToken = (): string => {
+    const calls = (emailService.sendVerificationEmail as jest.Mock).mock.calls;
+    return calls[calls.length - 1][0].token;
+  };
+
+  it('should issue a verification token on registration', async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'verify@example.com', password: 'Password123!', name: 'Verify Me' })
+      .expect(201);
+
+    expect(response.body.data.emailVerified).toBe(false);
+    expect(response.body.data.verificationRequired).toBe(true);
+    expect(emailService.sendVerificationEmail).toHaveBeenCalledTimes(1);
+
+    const stored = await prisma.emailVerification.findFirst({
+      where: { userId: response.body.data.id },
+    });
+    expect(stored?.token).toBe(hashToken(lastEmailedToken()));
+  });
+
+  it('should verify the email with a valid token only once', async () => {
+    await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'verify@example.com', password: 'Password123!' })
+      .expect(201);
+    const token = lastEmailedToken();
+
+    const response = await request(app).get(`/api/auth/verify-email/${token}`).expect(200);
+    expect(response.body.data.emailVerified).toBe(true);
+
+    await request(app).get(`/api/auth/verify-email/${token}`).expect(400);
+  });
+
+  it('should reject an unknown token', async () => {
+    await request(app).get('/api/auth/verify-email/not-a-token').expect(400);
+  });
+
+  it('should resend a verification link for unverified accounts', async () => {
+    await createTestUser({ email: 'unverified@example.com' });
+
+    await request(app)
+      .post('/api/auth/resend-verification')
+      .send({ email: 'unverified@example.com' })
+      .expect(200);
+
+    expect(emailService.sendVerificationEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not resend for unknown or verified accounts', async () => {
+    await createTestUser({ email: 'verified@example.com', emailVerified: true });
+
+    await request(app)
+      .post('/api/auth/resend-verification')
+      .send({ email: 'verified@example.com' })
+      .expect(200);
+    await request(app)
+      .post('/api/auth/resend-verification')
+      .send({ email: 'nobody@example.com' })
+      .expect(200);
+
+    expect(emailService.sendVerificationEmail).not.toHaveBeenCalled();
+  });
+
+  describe('authenticate gate', () => {
+    it('should reject unverified users on protected routes when enabled', async () => {
+      const user = await createTestUser({ email: 'unverified@example.com' });
+      const token = await getAuthToken(user.id);
+
+      const response = await request(app)
+        .get('/api/notifications')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Email address not verified');
+    });
+
+    it('should still allow unverified users to load their profile', async () => {
+      const user = await createTestUser({ email: 'unverified@example.com' });
+      const token = await getAuthToken(user.id);
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.data.emailVerified).toBe(false);
+    });
+
+    it('should not gate unverified users when the flag is off', async () => {
+      config.features.emailVerification = false;
+      const user = await createTestUser({ email: 'unverified@example.com' });
+      const token = await getAuthToken(user.id);
+
+      const response = await request(app)
+        .get('/api/notifications')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).not.toBe(403);
+    });
+  });
+});
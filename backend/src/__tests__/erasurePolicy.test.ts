@@ -0,0 +1,206 @@
+/**
+ * Erasure Policy Tests
+ *
+ * Tests that a GDPR deletion clears personal data from every table the policy covers,
+ * stores a verified report with the request, and leaves the audit chain verifiable
+ */
+
+import { DeletionType } from '@prisma/client';
+import { prisma } from '../config/database';
+import * as auditService from '../services/auditService';
+import * as gdprService from '../services/gdprService';
+import { ERASURE_POLICY, ErasureReport } from '../services/erasurePolicy';
+import { createTestUser } from '../tests/setup';
+
+jest.mock('../services/emailService', () => ({
+  sendDataExportReadyEmail: jest.fn().mockResolvedValue({ id: 'mock-email-id' }),
+}));
+
+const EMAIL = 'Erased.Person@example.com';
+
+describe('Erasure Policy', () => {
+  let user: any;
+
+  // Personal data spread across the tables a deletion has to reach
+  const seedPersonalData = async () => {
+    await prisma.session.create({
+      data: {
+        userId: user.id,
+        token: `token-${user.id}`,
+        expiresAt: new Date(Date.now() + 60000),
+        ipAddress: '203.0.113.7',
+        userAgent: 'Erased Browser',
+      },
+    });
+    await prisma.notification.create({ data: { userId: user.id, title: 'Welcome', message: 'Hi Erased' } });
+    await gdprService.grantConsent(user.id, 'MARKETING_EMAILS', '203.0.113.7', 'Erased Browser');
+    await auditService.createAuditLog({
+      userId: user.id,
+      action: 'USER_LOGIN',
+      resource: 'users',
+      resourceId: user.id,
+      ipAddress: '203.0.113.7',
+      userAgent: 'Erased Browser',
+    });
+    await auditService.createAuditLog({
+      action: 'SPAM_RELEASED',
+      resource: 'contact_submissions',
+      details: { after: { email: EMAIL.toLowerCase() } },
+    });
+    const payment = await prisma.payment.create({
+      data: {
+        userId: user.id,
+        provider: 'STRIPE',
+        amount: 49,
+        description: 'Course for Erased Person',
+        metadata: { customerEmail: EMAIL },
+      },
+    });
+    await prisma.paymentWebhookLog.create({
+      data: { paymentId: payment.id, provider: 'STRIPE', eventType: 'payment.succeeded', payload: { email: EMAIL } },
+    });
+    await prisma.contactSubmission.create({
+      data: { name: 'Erased Person', email: EMAIL.toLowerCase(), subject: 'Hello', message: 'Hi there' },
+    });
+    await prisma.newsletterSubscription.create({ data: { email: EMAIL } });
+    return payment;
+  };
+
+  const deleteAccount = async (deletionType: DeletionType) => {
+    const request = await gdprService.requestDataDeletion(user.id, deletionType, 'Moving to another provider');
+    await gdprService.confirmDataDeletion(request.confirmationToken!);
+    await gdprService.executeDataDeletion(request.id);
+    return prisma.dataDeletionRequest.findUniqueOrThrow({ where: { id: request.id } });
+  };
+
+  beforeEach(async () => {
+    user = await createTestUser({ email: EMAIL, name: 'Erased Person' });
+    await prisma.contactSubmission.deleteMany();
+    await prisma.newsletterSubscription.deleteMany();
+    await prisma.paymentWebhookLog.deleteMany();
+  });
+
+  it('should clear personal data from every table on a soft deletion', async () => {
+    const payment = await seedPersonalData();
+
+    const request = await deleteAccount(DeletionType.SOFT);
+
+    expect(await prisma.session.count({ where: { userId: user.id } })).toBe(0);
+    expect(await prisma.notification.count({ where: { userId: user.id } })).toBe(0);
+    expect(await prisma.contactSubmission.count()).toBe(0);
+    expect(await prisma.newsletterSubscription.count()).toBe(0);
+    expect(await prisma.consentRecord.findFirst({ where: { userId: user.id } })).toMatchObject({
+      granted: true,
+      ipAddress: null,
+      userAgent: null,
+    });
+    expect(await prisma.payment.findUnique({ where: { id: payment.id } })).toMatchObject({
+      metadata: null,
+      description: null,
+    });
+    expect((await prisma.paymentWebhookLog.findFirst())?.payload).toEqual({});
+    expect(await prisma.auditLog.count({ where: { OR: [{ userId: user.id }, { ipAddress: '203.0.113.7' }] } })).toBe(0);
+    expect(await prisma.user.findUnique({ where: { id: user.id } })).toMatchObject({
+      isActive: false,
+      email: `deleted_${user.id}@deleted.local`,
+      name: '[Deleted User]',
+    });
+    expect(request.reason).toBeNull();
+  });
+
+  it('should store a report covering every rule, with a passed verification', async () => {
+    await seedPersonalData();
+
+    const request = await deleteAccount(DeletionType.SOFT);
+    const report = request.report as unknown as ErasureReport;
+
+    expect(request.status).toBe('COMPLETED');
+    expect(report.verification).toEqual({ passed: true, remaining: [] });
+    expect(report.entries.map(({ table }) => table)).toEqual([...ERASURE_POLICY.map(({ table }) => table), 'users']);
+    expect(report.entries.find(({ table }) => table === 'sessions')).toMatchObject({ action: 'delete', affected: 1 });
+    expect(JSON.stringify(report)).not.toContain(EMAIL.toLowerCase());
+  });
+
+  it('should leave entries about an address that only contains the erased one', async () => {
+    await seedPersonalData();
+    const otherEmail = `other.${EMAIL.toLowerCase()}`;
+    const other = await createTestUser({ email: otherEmail });
+    await auditService.createAuditLog({
+      userId: other.id,
+      action: 'SPAM_RELEASED',
+      resource: 'contact_submissions',
+      details: { after: { email: otherEmail } },
+    });
+    await prisma.paymentWebhookLog.create({
+      data: { provider: 'STRIPE', eventType: 'payment.succeeded', payload: { email: otherEmail } },
+    });
+
+    const request = await deleteAccount(DeletionType.SOFT);
+
+    expect(request.status).toBe('COMPLETED');
+    expect(await prisma.auditLog.findFirst({ where: { userId: other.id } })).toMatchObject({
+      details: { after: { email: otherEmail } },
+      redactedAt: null,
+    });
+    expect(await prisma.paymentWebhookLog.findFirst({ where: { paymentId: null } })).toMatchObject({
+      payload: { email: otherEmail },
+    });
+  });
+
+  it('should keep the audit chain verifiable after redaction', async () => {
+    await seedPersonalData();
+
+    await deleteAccount(DeletionType.SOFT);
+
+    const redacted = await prisma.auditLog.findFirst({ where: { action: 'USER_LOGIN' } });
+    expect(redacted).toMatchObject({ userId: null, ipAddress: null, details: null });
+    expect(redacted?.redactedAt).not.toBeNull();
+    expect(await auditService.verifyAuditChain()).toMatchObject({ valid: true, brokenAt: null });
+  });
+
+  it('should report a redacted entry that was edited afterwards', async () => {
+    await seedPersonalData();
+    await deleteAccount(DeletionType.SOFT);
+
+    const redacted = await prisma.auditLog.findFirstOrThrow({ where: { action: 'USER_LOGIN' } });
+    await prisma.auditLog.update({ where: { id: redacted.id }, data: { action: 'USER_LOGOUT' } });
+
+    const report = await auditService.verifyAuditChain();
+    expect(report.brokenAt).toMatchObject({ id: redacted.id, reason: 'redaction_signature' });
+  });
+
+  it('should keep the request and its report after a hard deletion', async () => {
+    await seedPersonalData();
+
+    const request = await deleteAccount(DeletionType.HARD);
+
+    expect(await prisma.user.findUnique({ where: { id: user.id } })).toBeNull();
+    expect(request).toMatchObject({ status: 'COMPLETED', userId: null });
+    expect((request.report as unknown as ErasureReport).verification.passed).toBe(true);
+    expect(await prisma.contactSubmission.count()).toBe(0);
+    expect(await auditService.verifyAuditChain()).toMatchObject({ valid: true });
+  });
+
+  it('should fail the request when identifying data remains, and succeed on retry', async () => {
+    const rule = ERASURE_POLICY.find(({ table }) => table === 'contact_submissions')!;
+    const erase = jest.spyOn(rule, 'erase').mockResolvedValueOnce(0);
+    await seedPersonalData();
+
+    const request = await gdprService.requestDataDeletion(user.id);
+    await gdprService.confirmDataDeletion(request.confirmationToken!);
+    await expect(gdprService.executeDataDeletion(request.id)).rejects.toThrow('contact_submissions');
+
+    const failed = await prisma.dataDeletionRequest.findUniqueOrThrow({ where: { id: request.id } });
+    expect(failed.status).toBe('FAILED');
+    expect((failed.report as unknown as ErasureReport).verification.remaining).toEqual([
+      { table: 'contact_submissions', count: 1 },
+    ]);
+
+    erase.mockRestore();
+    await gdprService.executeDataDeletion(request.id);
+    expect(await prisma.dataDeletionRequest.findUnique({ where: { id: request.id } })).toMatchObject({
+      status: 'COMPLETED',
+      errorMessage: null,
+    });
+  });
+});
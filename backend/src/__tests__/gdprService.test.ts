@@ -6,6 +6,8 @@
 
 import * as gdprService from '../services/gdprService';
 import { prisma } from '../config/database';
+import { StorageProviderFactory } from '../providers/StorageProviderFactory';
+import { readZip } from '../utils/zip';
 import { DataExportStatus, DataDeletionStatus, DeletionType, ConsentType } from '@prisma/client';
 
 describe('GDPR Service', () => {
@@ -48,7 +50,7 @@ describe('GDPR Service', () => {
   });
 
   describe('generateDataExport', () => {
-    it('should generate complete data export', async () => {
+    it('should store a ZIP archive with JSON and per-table CSV', async () => {
       // Create some data for the user
       await prisma.notification.create({
         data: {
@@ -73,12 +75,20 @@ describe('GDPR Service', () => {
 
       // Generate export
       const result = await gdprService.generateDataExport(request.id);
-
-      expect(result).toBeDefined();
-      expect(result.data.user.id).toBe(testUserId);
-      expect(result.data.notifications).toHaveLength(1);
-      expect(result.data.payments).toHaveLength(1);
-      expect(result.data.exportMetadata).toBeDefined();
+      expect(result.downloadUrl).toContain(`/api/gdpr/exports/${request.id}/download?token=`);
+
+      const stored = await prisma.dataExportRequest.findUniqueOrThrow({ where: { id: request.id } });
+      const archive = await StorageProviderFactory.getProvider().get(stored.storageKey!);
+      expect(stored.fileSize).toBe(archive!.length);
+
+      const files = readZip(archive!);
+      const data = JSON.parse(files.get('data.json')!.toString());
+      expect(data.user.id).toBe(testUserId);
+      expect(data.notifications).toHaveLength(1);
+      expect(data.payments).toHaveLength(1);
+      expect(data.exportMetadata).toBeDefined();
+      expect(files.get('notifications.csv')!.toString()).toContain('Test Notification');
+      expect(files.get('payments.csv')!.toString().split('\n')[0]).toContain('amount');
     });
 
     it('should update export request status to completed', async () => {
@@ -9,6 +9,7 @@ import request from 'supertest';
 import app from '../../app';
 import { prisma } from '../../config/database';
 import { hashPassword } from '../../services/authService';
+import { SpamService } from '../../services/spamService';
 
 describe('Full Application Flow - End-to-End Integration', () => {
   let adminToken: string;
@@ -316,11 +317,14 @@ describe('Full Application Flow - End-to-End Integration', () => {
           email: 'test@example.com',
           subject: 'Test Inquiry',
           message: 'This is a test message',
+          // Loaded a while ago, as when a person fills in the form
+          formToken: SpamService.issueFormToken('contact', Date.now() - 10000),
         });
 
       expect(submitResponse.status).toBe(201);
       expect(submitResponse.body.success).toBe(true);
       expect(submitResponse.body.data.email).toBe('test@example.com');
+      expect(submitResponse.body.data.status).toBe('PENDING');
 
       // Step 2: Verify submission was saved (would need admin endpoint to verify)
       // For now, we just verify the response
@@ -340,6 +344,7 @@ describe('Full Application Flow - End-to-End Integration', () => {
         .send({
           email,
           source: 'Home Page',
+          formToken: SpamService.issueFormToken('newsletter', Date.now() - 10000),
         });
 
       expect(subscribeResponse.status).toBe(201);
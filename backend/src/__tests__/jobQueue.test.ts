@@ -0,0 +1,241 @@
+/**
+ * Job Queue Tests
+ *
+ * Tests for claiming, retries, dead-lettering and stale lock recovery, the GDPR job
+ * handlers, and the admin job routes
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import config from '../config';
+import * as gdprService from '../services/gdprService';
+import { JobHandlers, JobQueue, jobBackoffMs } from '../services/jobQueue';
+import { JOB_HANDLERS } from '../services/jobHandlers';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+jest.mock('../services/emailService', () => ({
+  sendDataExportReadyEmail: jest.fn().mockResolvedValue({ id: 'mock-email-id' }),
+}));
+
+const failing: JobHandlers = {
+  'gdpr.export': jest.fn().mockRejectedValue(new Error('Storage unavailable')),
+  'gdpr.deletion': jest.fn().mockResolvedValue(undefined),
+};
+
+// Claim and run everything due, as one worker poll does
+const drain = async (handlers: JobHandlers = JOB_HANDLERS) => {
+  const jobs = await JobQueue.claim('test-worker', 10, Object.keys(handlers));
+  for (const job of jobs) {
+    await JobQueue.run(job, handlers);
+  }
+  return jobs;
+};
+
+describe('Job Queue', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await prisma.job.deleteMany();
+  });
+
+  describe('JobQueue', () => {
+    it('should return the existing job for a repeated dedupe key', async () => {
+      const first = await JobQueue.enqueue('gdpr.export', { requestId: 'a' }, { dedupeKey: 'export:a' });
+      const second = await JobQueue.enqueue('gdpr.export', { requestId: 'a' }, { dedupeKey: 'export:a' });
+
+      expect(second.id).toBe(first.id);
+      expect(await prisma.job.count()).toBe(1);
+    });
+
+    it('should only claim due jobs, and each job once', async () => {
+      await JobQueue.enqueue('gdpr.export', { requestId: 'a' });
+      await JobQueue.enqueue('gdpr.export', { requestId: 'b' });
+      await JobQueue.enqueue('gdpr.export', { requestId: 'later' }, { runAt: new Date(Date.now() + 60000) });
+
+      const [first, second] = await Promise.all([
+        JobQueue.claim('worker-1', 10, ['gdpr.export']),
+        JobQueue.claim('worker-2', 10, ['gdpr.export']),
+      ]);
+      const claimed = [...first, ...second];
+
+      expect(claimed).toHaveLength(2);
+      expect(new Set(claimed.map((job) => job.id)).size).toBe(2);
+      expect(claimed.every((job) => job.status === 'RUNNING' && job.attempts === 1)).toBe(true);
+    });
+
+    it('should respect the claim limit', async () => {
+      for (let i = 0; i < 3; i++) {
+        await JobQueue.enqueue('gdpr.export', { requestId: `${i}` });
+      }
+
+      expect(await JobQueue.claim('worker-1', 2, ['gdpr.export'])).toHaveLength(2);
+      expect(await JobQueue.claim('worker-2', 2, ['gdpr.export'])).toHaveLength(1);
+    });
+
+    it('should schedule a failed job for retry with backoff', async () => {
+      const { id } = await JobQueue.enqueue('gdpr.export', { requestId: 'a' });
+
+      await drain(failing);
+
+      const job = await prisma.job.findUniqueOrThrow({ where: { id } });
+      expect(job).toMatchObject({ status: 'PENDING', attempts: 1, lastError: 'Storage unavailable', lockedBy: null });
+      expect(job.runAt.getTime()).toBeGreaterThan(Date.now() + jobBackoffMs(1) - 5000);
+      expect(jobBackoffMs(2)).toBe(2 * jobBackoffMs(1));
+      expect(jobBackoffMs(100)).toBe(config.jobs.backoffMaxMs);
+    });
+
+    it('should dead-letter a job after its last attempt, and retry it on request', async () => {
+      const { id } = await JobQueue.enqueue('gdpr.export', { requestId: 'a' }, { maxAttempts: 2 });
+
+      await drain(failing);
+      await prisma.job.update({ where: { id }, data: { runAt: new Date() } });
+      await drain(failing);
+
+      expect(await prisma.job.findUnique({ where: { id } })).toMatchObject({ status: 'DEAD', attempts: 2 });
+
+      const retried = await JobQueue.retry(id);
+      expect(retried).toMatchObject({ status: 'PENDING', attempts: 0, lastError: null });
+      await expect(JobQueue.retry(id)).rejects.toThrow('Only jobs that have given up can be retried');
+    });
+
+    it('should release jobs whose worker stopped', async () => {
+      const { id } = await JobQueue.enqueue('gdpr.export', { requestId: 'a' });
+      await JobQueue.claim('crashed-worker', 1, ['gdpr.export']);
+      await prisma.job.update({
+        where: { id },
+        data: { lockedAt: new Date(Date.now() - config.jobs.lockTimeoutMs - 1000) },
+      });
+
+      expect(await JobQueue.recoverStale()).toBe(1);
+      expect(await prisma.job.findUnique({ where: { id } })).toMatchObject({
+        status: 'PENDING',
+        lockedBy: null,
+        lastError: 'Worker stopped before the job finished',
+      });
+    });
+  });
+
+  describe('GDPR jobs', () => {
+    let user: any;
+
+    beforeEach(async () => {
+      user = await createTestUser({ email: 'gdpr-jobs@test.com' });
+    });
+
+    it('should generate a requested export in the background', async () => {
+      const exportRequest = await gdprService.requestDataExport(user.id);
+      expect(exportRequest.status).toBe('PENDING');
+
+      const [job] = await drain();
+
+      expect(await prisma.dataExportRequest.findUnique({ where: { id: exportRequest.id } })).toMatchObject({
+        status: 'COMPLETED',
+      });
+      const completed = await prisma.job.findUniqueOrThrow({ where: { id: job.id } });
+      expect(completed.status).toBe('COMPLETED');
+      expect(completed.result).toMatchObject({ fileSize: expect.any(Number) });
+    });
+
+    it('should run a confirmed deletion only once it is due', async () => {
+      const deletion = await gdprService.requestDataDeletion(user.id);
+      await gdprService.confirmDataDeletion(deletion.confirmationToken!);
+
+      expect(await drain()).toHaveLength(0);
+
+      await prisma.job.updateMany({ data: { runAt: new Date() } });
+      await drain();
+
+      expect(await prisma.user.findUnique({ where: { id: user.id } })).toMatchObject({ isActive: false });
+      expect(await prisma.dataDeletionRequest.findUnique({ where: { id: deletion.id } })).toMatchObject({
+        status: 'COMPLETED',
+      });
+    });
+
+    it('should finish a deletion whose worker stopped mid-run', async () => {
+      const deletion = await gdprService.requestDataDeletion(user.id);
+      await gdprService.confirmDataDeletion(deletion.confirmationToken!);
+      await prisma.job.updateMany({ data: { runAt: new Date() } });
+
+      // The worker marked the request PROCESSING, then stopped
+      const [job] = await JobQueue.claim('crashed-worker', 1, ['gdpr.deletion']);
+      await prisma.dataDeletionRequest.update({ where: { id: deletion.id }, data: { status: 'PROCESSING' } });
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { lockedAt: new Date(Date.now() - config.jobs.lockTimeoutMs - 1000) },
+      });
+
+      expect(await JobQueue.recoverStale()).toBe(1);
+      await drain();
+
+      expect(await prisma.dataDeletionRequest.findUnique({ where: { id: deletion.id } })).toMatchObject({
+        status: 'COMPLETED',
+      });
+      expect(await prisma.job.findUnique({ where: { id: job.id } })).toMatchObject({ status: 'COMPLETED' });
+    });
+
+    it('should enqueue jobs for due requests that have none, once', async () => {
+      const exportRequest = await prisma.dataExportRequest.create({ data: { userId: user.id, status: 'PENDING' } });
+
+      expect(await gdprService.enqueueDueGdprJobs()).toBe(1);
+      await gdprService.enqueueDueGdprJobs();
+
+      const jobs = await prisma.job.findMany();
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0]).toMatchObject({ type: 'gdpr.export', payload: { requestId: exportRequest.id } });
+    });
+  });
+
+  describe('/api/admin/jobs', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      const admin = await createTestUser({ email: 'admin@test.com', role: 'ADMIN' as any });
+      adminToken = await getAuthToken(admin.id);
+    });
+
+    it('should list jobs with counts per status', async () => {
+      await JobQueue.enqueue('gdpr.export', { requestId: 'a' });
+      const { id } = await JobQueue.enqueue('gdpr.export', { requestId: 'b' }, { maxAttempts: 1 });
+      await prisma.job.update({ where: { id }, data: { status: 'DEAD', lastError: 'Storage unavailable' } });
+
+      const response = await request(app)
+        .get('/api/admin/jobs?status=DEAD')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({ id, lastError: 'Storage unavailable' });
+      expect(response.body.meta).toMatchObject({ total: 1, counts: { PENDING: 1, DEAD: 1, RUNNING: 0 } });
+    });
+
+    it('should retry a dead job and record it in the audit log', async () => {
+      const { id } = await JobQueue.enqueue('gdpr.export', { requestId: 'a' });
+      await prisma.job.update({ where: { id }, data: { status: 'DEAD', attempts: 5 } });
+
+      const response = await request(app)
+        .post(`/api/admin/jobs/${id}/retry`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ status: 'PENDING', attempts: 0 });
+      const entry = await prisma.auditLog.findFirst({ where: { action: 'JOB_RETRIED' } });
+      expect(entry).toMatchObject({ resource: 'jobs', resourceId: id });
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      await request(app)
+        .get('/api/admin/jobs/00000000-0000-0000-0000-000000000000')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+
+    it('should not be available to regular users', async () => {
+      const user = await createTestUser({ email: 'user@test.com' });
+
+      await request(app)
+        .get('/api/admin/jobs')
+        .set('Authorization', `Bearer ${await getAuthToken(user.id)}`)
+        .expect(403);
+    });
+  });
+});
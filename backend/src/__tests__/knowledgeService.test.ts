@@ -5,7 +5,7 @@
 
 import { prisma } from '../config/database';
 import { ContentService } from '../services/contentService';
-import { ValidationError } from '../utils/errors';
+import { NotFoundError, ValidationError } from '../utils/errors';
 
 describe('ContentService - Knowledge Article', () => {
   beforeEach(async () => {
@@ -39,6 +39,21 @@ describe('ContentService - Knowledge Article', () => {
       expect(article.readTime).toBe(articleData.readTime);
     });
 
+    it('should generate a unique slug from the title', async () => {
+      const articleData = {
+        title: 'Prompt Engineering: The Basics!',
+        description: 'Description',
+        content: 'Content',
+        category: 'BEST_PRACTICES',
+      };
+
+      const first = await ContentService.createKnowledgeArticle(articleData);
+      const second = await ContentService.createKnowledgeArticle(articleData);
+
+      expect(first.slug).toBe('prompt-engineering-the-basics');
+      expect(second.slug).toBe('prompt-engineering-the-basics-2');
+    });
+
     it('should throw ValidationError for missing required fields', async () => {
       const invalidData = {
         title: 'Test Article',
@@ -57,6 +72,7 @@ describe('ContentService - Knowledge Article', () => {
         data: [
           {
             title: 'Active Article 1',
+            slug: 'active-article-1',
             description: 'Description',
             content: 'Content',
             category: 'CORE_CONCEPTS',
@@ -66,6 +82,7 @@ describe('ContentService - Knowledge Article', () => {
           },
           {
             title: 'Inactive Article',
+            slug: 'inactive-article',
             description: 'Description',
             content: 'Content',
             category: 'CORE_CONCEPTS',
@@ -83,12 +100,34 @@ describe('ContentService - Knowledge Article', () => {
     });
   });
 
+  describe('getKnowledgeArticleBySlug', () => {
+    it('should return the article matching the slug', async () => {
+      const created = await ContentService.createKnowledgeArticle({
+        title: 'Vector Databases',
+        description: 'Description',
+        content: 'Content',
+        category: 'GLOSSARY',
+      });
+
+      const article = await ContentService.getKnowledgeArticleBySlug('vector-databases');
+
+      expect(article.id).toBe(created.id);
+    });
+
+    it('should throw NotFoundError for unknown slug', async () => {
+      await expect(
+        ContentService.getKnowledgeArticleBySlug('does-not-exist')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
   describe('searchKnowledgeArticles', () => {
     it('should search articles by title', async () => {
       await prisma.knowledgeArticle.createMany({
         data: [
           {
             title: 'Understanding AI',
+            slug: 'understanding-ai',
             description: 'Description',
             content: 'Content about AI',
             category: 'CORE_CONCEPTS',
@@ -98,6 +137,7 @@ describe('ContentService - Knowledge Article', () => {
           },
           {
             title: 'Machine Learning Basics',
+            slug: 'machine-learning-basics',
             description: 'Description',
             content: 'Content about ML',
             category: 'CORE_CONCEPTS',
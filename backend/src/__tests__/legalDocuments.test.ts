@@ -0,0 +1,166 @@
+/**
+ * Legal Documents Tests
+ *
+ * Tests for versioned terms and privacy policy: the public pages, admin management of
+ * upcoming versions, and re-acceptance when a newer version takes effect
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { LegalService } from '../services/legalService';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const publishTerms = (version: string, effectiveAt: Date) =>
+  LegalService.create({
+    type: 'TERMS_OF_SERVICE',
+    version,
+    title: `Terms of Service v${version}`,
+    body: `# Terms\n\nVersion ${version}`,
+    summary: `Changes in ${version}`,
+    effectiveAt,
+  });
+
+describe('Legal Documents', () => {
+  beforeEach(async () => {
+    await prisma.legalDocument.deleteMany();
+  });
+
+  describe('GET /api/legal/:slug', () => {
+    it('should return the version in effect, not an upcoming one', async () => {
+      await publishTerms('1', new Date(Date.now() - 10 * DAY));
+      await publishTerms('2', new Date(Date.now() - DAY));
+      await publishTerms('3', new Date(Date.now() + DAY));
+
+      const response = await request(app).get('/api/legal/terms').expect(200);
+
+      expect(response.body.data).toMatchObject({ version: '2', body: '# Terms\n\nVersion 2' });
+    });
+
+    it('should return 404 when nothing has been published', async () => {
+      await request(app).get('/api/legal/privacy').expect(404);
+      await request(app).get('/api/legal/cookies').expect(400);
+    });
+  });
+
+  describe('acceptance', () => {
+    let user: any;
+    let token: string;
+
+    beforeEach(async () => {
+      user = await createTestUser({ email: 'member@example.com' });
+      token = await getAuthToken(user.id);
+    });
+
+    const acceptance = () => request(app).get('/api/legal/acceptance').set('Authorization', `Bearer ${token}`);
+
+    it('should require accepting the current version, and record it', async () => {
+      const terms = await publishTerms('1', new Date(Date.now() - DAY));
+
+      const before = await acceptance().expect(200);
+      expect(before.body.data).toMatchObject({ required: true, pending: [{ documentId: terms.id, version: '1' }] });
+
+      const accepted = await request(app)
+        .post('/api/legal/accept')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ documentIds: [terms.id] })
+        .expect(200);
+
+      expect(accepted.body.data).toEqual({ required: false, pending: [] });
+      expect(await prisma.consentRecord.findFirst({ where: { userId: user.id } })).toMatchObject({
+        consentType: 'TERMS_OF_SERVICE',
+        granted: true,
+        version: '1',
+      });
+    });
+
+    it('should ask again once a newer version takes effect', async () => {
+      const terms = await publishTerms('1', new Date(Date.now() - DAY));
+      await LegalService.accept(user.id, [terms.id]);
+      const upcoming = await publishTerms('2', new Date(Date.now() + DAY));
+
+      expect((await acceptance()).body.data.required).toBe(false);
+
+      await prisma.legalDocument.update({ where: { id: upcoming.id }, data: { effectiveAt: new Date() } });
+
+      const response = await acceptance().expect(200);
+      expect(response.body.data.pending).toEqual([
+        expect.objectContaining({ documentId: upcoming.id, version: '2', acceptedVersion: '1' }),
+      ]);
+    });
+
+    it('should not accept a version that has been superseded', async () => {
+      const old = await publishTerms('1', new Date(Date.now() - 2 * DAY));
+      await publishTerms('2', new Date(Date.now() - DAY));
+
+      await request(app)
+        .post('/api/legal/accept')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ documentIds: [old.id] })
+        .expect(400);
+    });
+
+    it('should hold back routes that need the current terms until they are accepted', async () => {
+      const terms = await publishTerms('1', new Date(Date.now() - DAY));
+
+      const refused = await request(app).get('/api/payments').set('Authorization', `Bearer ${token}`).expect(403);
+      expect(refused.body).toMatchObject({ code: 'LEGAL_ACCEPTANCE_REQUIRED', pending: [{ documentId: terms.id }] });
+
+      await LegalService.accept(user.id, [terms.id]);
+      await request(app).get('/api/payments').set('Authorization', `Bearer ${token}`).expect(200);
+    });
+  });
+
+  describe('/api/admin/legal', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      const admin = await createTestUser({ email: 'admin@test.com', role: 'ADMIN' as any });
+      adminToken = await getAuthToken(admin.id);
+    });
+
+    const asAdmin = (method: 'get' | 'post' | 'put' | 'delete', path: string) =>
+      request(app)[method](path).set('Authorization', `Bearer ${adminToken}`);
+
+    it('should create a version and reject a duplicate', async () => {
+      const payload = {
+        type: 'PRIVACY_POLICY',
+        version: '2026-01',
+        title: 'Privacy Policy',
+        body: '# Privacy',
+        effectiveAt: new Date(Date.now() + DAY).toISOString(),
+      };
+
+      const response = await asAdmin('post', '/api/admin/legal').send(payload).expect(201);
+      expect(response.body.data).toMatchObject({ type: 'PRIVACY_POLICY', version: '2026-01' });
+      await asAdmin('post', '/api/admin/legal').send(payload).expect(409);
+
+      const entry = await prisma.auditLog.findFirst({ where: { action: 'LEGAL_DOCUMENT_CREATED' } });
+      expect(entry).toMatchObject({ resource: 'legal_documents', resourceId: response.body.data.id });
+    });
+
+    it('should edit and delete upcoming versions only', async () => {
+      const current = await publishTerms('1', new Date(Date.now() - DAY));
+      const upcoming = await publishTerms('2', new Date(Date.now() + DAY));
+
+      await asAdmin('put', `/api/admin/legal/${upcoming.id}`).send({ title: 'Terms of Use' }).expect(200);
+      await asAdmin('put', `/api/admin/legal/${current.id}`).send({ title: 'Terms of Use' }).expect(409);
+      await asAdmin('delete', `/api/admin/legal/${current.id}`).expect(409);
+      await asAdmin('delete', `/api/admin/legal/${upcoming.id}`).expect(200);
+
+      const list = await asAdmin('get', '/api/admin/legal?type=TERMS_OF_SERVICE').expect(200);
+      expect(list.body.data.map(({ version }: { version: string }) => version)).toEqual(['1']);
+    });
+
+    it('should not be available to regular users', async () => {
+      const user = await createTestUser({ email: 'user@test.com' });
+
+      await request(app)
+        .get('/api/admin/legal')
+        .set('Authorization', `Bearer ${await getAuthToken(user.id)}`)
+        .expect(403);
+    });
+  });
+});
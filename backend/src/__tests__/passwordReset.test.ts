@@ -0,0 +1,150 @@
+/**
+ * Password Reset Flow Tests
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import * as emailService from '../services/emailService';
+import { createTestUser, getAuthToken } from '../tests/setup';
+import { hashToken } from '../utils/tokens';
+
+jest.mock('../services/emailService', () => ({
+  sendPasswordResetEmail: jest.fn().mockResolvedValue({ id: 'mock-email-id' }),
+}));
+
+const requestResetToken = async (email: string): Promise<string> => {
+  await request(app).post('/api/auth/forgot-password').send({ email }).expect(200);
+
+  const calls = (emailService.sendPasswordResetEmail as jest.Mock).mock.calls;
+  return calls[calls.length - 1][0].token;
+};
+
+describe('Password Reset API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/auth/forgot-password', () => {
+    it('should respond identically for unknown emails without sending mail', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(emailService.sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it('should store only a hash of the emailed token', async () => {
+      const user = await createTestUser({ email: 'reset@example.com' });
+
+      const token = await requestResetToken('reset@example.com');
+
+      const resets = await prisma.passwordReset.findMany({ where: { userId: user.id } });
+      expect(resets).toHaveLength(1);
+      expect(resets[0].token).toBe(hashToken(token));
+      expect(resets[0].token).not.toBe(token);
+      expect(resets[0].expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should invalidate previous tokens when a new one is requested', async () => {
+      await createTestUser({ email: 'reset@example.com' });
+
+      const firstToken = await requestResetToken('reset@example.com');
+      await requestResetToken('reset@example.com');
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: firstToken, password: 'NewPassword123!' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/auth/reset-password', () => {
+    it('should reset the password and revoke all sessions', async () => {
+      const user = await createTestUser({ email: 'reset@example.com' });
+      await prisma.session.create({
+        data: {
+          userId: user.id,
+          token: 'existing-refresh-token',
+          expiresAt: new Date(Date.now() + 60_000),
+        },
+      });
+
+      const token = await requestResetToken('reset@example.com');
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'NewPassword123!' });
+
+      expect(response.status).toBe(200);
+      expect(await prisma.session.count({ where: { userId: user.id } })).toBe(0);
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'reset@example.com', password: 'NewPassword123!' });
+
+      expect(loginResponse.status).toBe(200);
+    });
+
+    it('should reject access tokens issued before the reset', async () => {
+      const user = await createTestUser({ email: 'reset@example.com' });
+      const accessToken = await getAuthToken(user.id);
+      const token = await requestResetToken('reset@example.com');
+      // Revocation has second precision, so reset in a later second than the token was issued
+      await new Promise((resolve) => setTimeout(resolve, 1000 - (Date.now() % 1000)));
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'NewPassword123!' })
+        .expect(200);
+
+      await request(app).get('/api/auth/me').set('Authorization', `Bearer ${accessToken}`).expect(401);
+    });
+
+    it('should reject a token that has already been used', async () => {
+      await createTestUser({ email: 'reset@example.com' });
+      const token = await requestResetToken('reset@example.com');
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'NewPassword123!' })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'OtherPassword123!' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid or expired');
+    });
+
+    it('should reject an expired token', async () => {
+      const user = await createTestUser({ email: 'reset@example.com' });
+      await prisma.passwordReset.create({
+        data: {
+          userId: user.id,
+          token: hashToken('expired-token'),
+          expiresAt: new Date(Date.now() - 1000),
+        },
+      });
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'expired-token', password: 'NewPassword123!' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject a weak new password', async () => {
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'any-token', password: 'weak' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Validation failed');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Permission Tests
+ *
+ * Tests for the seeded role grants, requirePermission() and /api/rbac/me/permissions
+ */
+
+import request from 'supertest';
+import { KnowledgeCategory } from '@prisma/client';
+import app from '../app';
+import { prisma } from '../config/database';
+import { PermissionService } from '../services/permissionService';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+describe('Permissions', () => {
+  let editorToken: string;
+  let supportToken: string;
+  let adminToken: string;
+  let userToken: string;
+
+  beforeEach(async () => {
+    PermissionService.clearCache();
+    await prisma.knowledgeArticle.deleteMany();
+    await prisma.contactSubmission.deleteMany();
+
+    const editor = await createTestUser({ email: 'editor@test.com', role: 'EDITOR' as any });
+    const support = await createTestUser({ email: 'support@test.com', role: 'SUPPORT' as any });
+    const admin = await createTestUser({ email: 'admin@test.com', role: 'ADMIN' as any });
+    const user = await createTestUser({ email: 'user@test.com' });
+
+    editorToken = await getAuthToken(editor.id);
+    supportToken = await getAuthToken(support.id);
+    adminToken = await getAuthToken(admin.id);
+    userToken = await getAuthToken(user.id);
+  });
+
+  afterAll(async () => {
+    await prisma.knowledgeArticle.deleteMany();
+    await prisma.contactSubmission.deleteMany();
+  });
+
+  describe('PermissionService', () => {
+    it('should reproduce the previous role checks for admins', async () => {
+      const admin = await PermissionService.forRole('ADMIN');
+
+      expect(admin.has('content.products.write')).toBe(true);
+      expect(admin.has('audit.read')).toBe(true);
+      expect(admin.has('content.trash.manage')).toBe(false);
+      expect(admin.has('users.roles')).toBe(false);
+    });
+
+    it('should give super admins every permission', async () => {
+      const all = await prisma.permission.count();
+
+      expect((await PermissionService.forRole('SUPER_ADMIN')).size).toBe(all);
+      expect(await PermissionService.hasPermission('SUPER_ADMIN', 'users.roles', 'content.trash.manage')).toBe(true);
+    });
+
+    it('should give regular users nothing', async () => {
+      expect((await PermissionService.forRole('USER')).size).toBe(0);
+    });
+  });
+
+  describe('content editors', () => {
+    it('should read and write knowledge articles', async () => {
+      await request(app)
+        .post('/api/admin/knowledge')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .send({
+          title: 'Editor Article',
+          description: 'Description',
+          content: 'Content',
+          category: KnowledgeCategory.CORE_CONCEPTS,
+          readTime: 5,
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .get('/api/admin/knowledge')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+    });
+
+    it('should not touch products or other admin areas', async () => {
+      await request(app).get('/api/admin/products').set('Authorization', `Bearer ${editorToken}`).expect(403);
+      await request(app).post('/api/admin/products').set('Authorization', `Bearer ${editorToken}`).send({}).expect(403);
+      await request(app).get('/api/admin/users').set('Authorization', `Bearer ${editorToken}`).expect(403);
+      await request(app).get('/api/audit').set('Authorization', `Bearer ${editorToken}`).expect(403);
+    });
+  });
+
+  describe('support staff', () => {
+    beforeEach(async () => {
+      await prisma.contactSubmission.createMany({
+        data: [
+          { name: 'A', email: 'a@test.com', subject: 'Hello', message: 'First' },
+          { name: 'B', email: 'b@test.com', subject: 'Help', message: 'Second', status: 'READ' },
+        ],
+      });
+    });
+
+    it('should read contact submissions', async () => {
+      const response = await request(app)
+        .get('/api/contact/submissions?status=PENDING')
+        .set('Authorization', `Bearer ${supportToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.meta).toEqual({ total: 1, limit: 20, offset: 0 });
+    });
+
+    it('should not manage content', async () => {
+      await request(app).get('/api/admin/knowledge').set('Authorization', `Bearer ${supportToken}`).expect(403);
+    });
+
+    it('should keep contact submissions from regular users', async () => {
+      await request(app).get('/api/contact/submissions').set('Authorization', `Bearer ${userToken}`).expect(403);
+    });
+  });
+
+  describe('GET /api/rbac/me/permissions', () => {
+    it('should return the permissions granted to the role', async () => {
+      const response = await request(app)
+        .get('/api/rbac/me/permissions')
+        .set('Authorization', `Bearer ${editorToken}`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ role: 'EDITOR', isAdmin: false });
+      expect(response.body.data.permissions).toEqual([
+        'content.knowledge.read',
+        'content.knowledge.write',
+        'uploads.write',
+      ]);
+    });
+
+    it('should keep admins on their previous permissions', async () => {
+      const response = await request(app)
+        .get('/api/rbac/me/permissions')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.permissions).toContain('contact.read');
+      expect(response.body.data.permissions).not.toContain('users.roles');
+    });
+  });
+});
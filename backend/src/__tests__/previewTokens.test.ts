@@ -0,0 +1,134 @@
+/**
+ * Preview Token Tests
+ *
+ * Tests for signed preview links to unpublished content
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { KnowledgeCategory, PublicationStatus } from '@prisma/client';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+describe('Content Preview Tokens', () => {
+  let adminToken: string;
+  let draft: any;
+
+  beforeEach(async () => {
+    const admin = await createTestUser({
+      email: `admin-${Date.now()}@test.com`,
+      role: 'ADMIN' as any,
+    });
+    adminToken = await getAuthToken(admin.id);
+
+    await prisma.knowledgeArticle.deleteMany();
+    draft = await prisma.knowledgeArticle.create({
+      data: {
+        title: 'Draft Article',
+        slug: 'draft-article',
+        description: 'Description',
+        content: '# Draft body',
+        category: KnowledgeCategory.CORE_CONCEPTS,
+        publicationStatus: PublicationStatus.DRAFT,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.knowledgeArticle.deleteMany();
+    await prisma.auditLog.deleteMany();
+    await prisma.user.deleteMany();
+    await prisma.$disconnect();
+  });
+
+  const issuePreview = async (id: string = draft.id) => {
+    const response = await request(app)
+      .post(`/api/admin/knowledge/${id}/preview-token`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({})
+      .expect(201);
+
+    return response.body.data.token as string;
+  };
+
+  it('should issue a token and record it in the audit log', async () => {
+    const response = await request(app)
+      .post(`/api/admin/knowledge/${draft.id}/preview-token`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ttlHours: 2 })
+      .expect(201);
+
+    expect(response.body.data.token).toBeDefined();
+    expect(new Date(response.body.data.expiresAt).getTime()).toBeGreaterThan(Date.now());
+
+    const log = await prisma.auditLog.findFirst({ where: { action: 'PREVIEW_TOKEN_CREATED' } });
+    expect(log?.resourceId).toBe(draft.id);
+  });
+
+  it('should hide the draft without a token', async () => {
+    await request(app).get('/api/content/knowledge/by-slug/draft-article').expect(404);
+  });
+
+  it('should show the draft by slug and id with a valid token', async () => {
+    const token = await issuePreview();
+
+    const bySlug = await request(app)
+      .get(`/api/content/knowledge/by-slug/draft-article?preview=${token}`)
+      .expect(200);
+    expect(bySlug.body.data.title).toBe('Draft Article');
+    expect(bySlug.headers['cache-control']).toContain('no-store');
+
+    await request(app).get(`/api/content/knowledge/${draft.id}?preview=${token}`).expect(200);
+  });
+
+  it('should not accept a token issued for another item', async () => {
+    const other = await prisma.knowledgeArticle.create({
+      data: {
+        title: 'Other Draft',
+        slug: 'other-draft',
+        description: 'Description',
+        content: 'Body',
+        category: KnowledgeCategory.GLOSSARY,
+        publicationStatus: PublicationStatus.DRAFT,
+      },
+    });
+    const token = await issuePreview(other.id);
+
+    await request(app).get(`/api/content/knowledge/by-slug/draft-article?preview=${token}`).expect(404);
+  });
+
+  it('should not accept an access token as a preview token', async () => {
+    await request(app).get(`/api/content/knowledge/by-slug/draft-article?preview=${adminToken}`).expect(404);
+  });
+
+  it('should not accept an expired token', async () => {
+    const token = await issuePreview();
+    const realNow = Date.now();
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(realNow + 73 * 60 * 60 * 1000);
+
+    try {
+      await request(app).get(`/api/content/knowledge/by-slug/draft-article?preview=${token}`).expect(404);
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+
+  it('should return 404 when issuing a token for a missing item', async () => {
+    await request(app)
+      .post('/api/admin/knowledge/00000000-0000-0000-0000-000000000000/preview-token')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({})
+      .expect(404);
+  });
+
+  it('should require admin role to issue tokens', async () => {
+    const user = await createTestUser({ email: `user-${Date.now()}@test.com` });
+    const token = await getAuthToken(user.id);
+
+    await request(app)
+      .post(`/api/admin/knowledge/${draft.id}/preview-token`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({})
+      .expect(403);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Publication Workflow Tests
+ *
+ * Tests for draft/scheduled/published/archived visibility, the scheduler
+ * transitions and the admin publication fields
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { PublicationStatus } from '@prisma/client';
+import { PublicationService } from '../services/publicationService';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+const HOUR = 60 * 60 * 1000;
+
+const toolData = (title: string, extra: Record<string, unknown> = {}) => ({
+  title,
+  description: `${title} description`,
+  problemSolved: 'Solves a problem',
+  externalLink: 'https://example.com/tool',
+  ...extra,
+});
+
+describe('Publication Workflow', () => {
+  beforeEach(async () => {
+    await prisma.auditLog.deleteMany();
+    await prisma.contentRevision.deleteMany();
+    await prisma.tool.deleteMany();
+  });
+
+  afterAll(async () => {
+    await prisma.auditLog.deleteMany();
+    await prisma.contentRevision.deleteMany();
+    await prisma.tool.deleteMany();
+    await prisma.user.deleteMany();
+    await prisma.$disconnect();
+  });
+
+  describe('public visibility', () => {
+    it('should only list published and due scheduled content', async () => {
+      const now = Date.now();
+      await prisma.tool.createMany({
+        data: [
+          toolData('Published'),
+          toolData('Draft', { publicationStatus: PublicationStatus.DRAFT }),
+          toolData('Archived', { publicationStatus: PublicationStatus.ARCHIVED }),
+          toolData('Scheduled Later', {
+            publicationStatus: PublicationStatus.SCHEDULED,
+            publishAt: new Date(now + HOUR),
+          }),
+          toolData('Scheduled Due', {
+            publicationStatus: PublicationStatus.SCHEDULED,
+            publishAt: new Date(now - HOUR),
+          }),
+          toolData('Expired', { unpublishAt: new Date(now - HOUR) }),
+        ],
+      });
+
+      const response = await request(app).get('/api/content/tools').expect(200);
+      const titles = response.body.data.map((tool: any) => tool.title).sort();
+
+      expect(titles).toEqual(['Published', 'Scheduled Due']);
+    });
+
+    it('should return 404 for a draft by id', async () => {
+      const draft = await prisma.tool.create({
+        data: toolData('Draft', { publicationStatus: PublicationStatus.DRAFT }),
+      });
+
+      await request(app).get(`/api/content/tools/${draft.id}`).expect(404);
+    });
+  });
+
+  describe('PublicationService.runScheduledTransitions', () => {
+    it('should publish due scheduled content and archive expired content with audit entries', async () => {
+      const now = new Date();
+      const due = await prisma.tool.create({
+        data: toolData('Due', {
+          publicationStatus: PublicationStatus.SCHEDULED,
+          publishAt: new Date(now.getTime() - HOUR),
+        }),
+      });
+      const expired = await prisma.tool.create({
+        data: toolData('Expired', { unpublishAt: new Date(now.getTime() - HOUR) }),
+      });
+      const later = await prisma.tool.create({
+        data: toolData('Later', {
+          publicationStatus: PublicationStatus.SCHEDULED,
+          publishAt: new Date(now.getTime() + HOUR),
+        }),
+      });
+
+      const summary = await PublicationService.runScheduledTransitions(now);
+
+      expect(summary).toEqual({ published: 1, archived: 1 });
+
+      const statuses = await prisma.tool.findMany({ select: { id: true, publicationStatus: true } });
+      const byId = Object.fromEntries(statuses.map((tool) => [tool.id, tool.publicationStatus]));
+      expect(byId[due.id]).toBe(PublicationStatus.PUBLISHED);
+      expect(byId[expired.id]).toBe(PublicationStatus.ARCHIVED);
+      expect(byId[later.id]).toBe(PublicationStatus.SCHEDULED);
+
+      const logs = await prisma.auditLog.findMany({ orderBy: { action: 'asc' } });
+      expect(logs.map((log) => [log.action, log.resource, log.resourceId])).toEqual([
+        ['CONTENT_ARCHIVED', 'tools', expired.id],
+        ['CONTENT_PUBLISHED', 'tools', due.id],
+      ]);
+    });
+
+    it('should do nothing on a second run', async () => {
+      const now = new Date();
+      await prisma.tool.create({
+        data: toolData('Due', {
+          publicationStatus: PublicationStatus.SCHEDULED,
+          publishAt: new Date(now.getTime() - HOUR),
+        }),
+      });
+
+      await PublicationService.runScheduledTransitions(now);
+      const summary = await PublicationService.runScheduledTransitions(now);
+
+      expect(summary).toEqual({ published: 0, archived: 0 });
+      expect(await prisma.auditLog.count()).toBe(1);
+    });
+  });
+
+  describe('admin endpoints', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      const admin = await createTestUser({
+        email: `admin-${Date.now()}@test.com`,
+        role: 'ADMIN' as any,
+      });
+      adminToken = await getAuthToken(admin.id);
+    });
+
+    it('should filter the admin list by publication status', async () => {
+      await prisma.tool.createMany({
+        data: [toolData('Published'), toolData('Draft', { publicationStatus: PublicationStatus.DRAFT })],
+      });
+
+      const response = await request(app)
+        .get('/api/admin/tools?publicationStatus=DRAFT')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].title).toBe('Draft');
+    });
+
+    it('should return a draft to admins by id', async () => {
+      const draft = await prisma.tool.create({
+        data: toolData('Draft', { publicationStatus: PublicationStatus.DRAFT }),
+      });
+
+      const response = await request(app)
+        .get(`/api/admin/tools/${draft.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.title).toBe('Draft');
+    });
+
+    it('should reject an unknown publication status filter', async () => {
+      await request(app)
+        .get('/api/admin/tools?publicationStatus=LIVE')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+
+    it('should create scheduled content', async () => {
+      const publishAt = new Date(Date.now() + HOUR).toISOString();
+
+      const response = await request(app)
+        .post('/api/admin/tools')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(toolData('Scheduled', { publicationStatus: 'SCHEDULED', publishAt }))
+        .expect(201);
+
+      expect(response.body.data.publicationStatus).toBe('SCHEDULED');
+      expect(response.body.data.publishAt).toBe(publishAt);
+    });
+
+    it('should require publishAt for scheduled content', async () => {
+      await request(app)
+        .post('/api/admin/tools')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(toolData('Scheduled', { publicationStatus: 'SCHEDULED' }))
+        .expect(400);
+    });
+
+    it('should reject an unpublishAt before publishAt', async () => {
+      const tool = await prisma.tool.create({ data: toolData('Published') });
+
+      await request(app)
+        .put(`/api/admin/tools/${tool.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          publishAt: new Date(Date.now() + 2 * HOUR).toISOString(),
+          unpublishAt: new Date(Date.now() + HOUR).toISOString(),
+        })
+        .expect(400);
+    });
+  });
+});
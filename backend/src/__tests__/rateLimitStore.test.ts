@@ -0,0 +1,105 @@
+/**
+ * Rate Limit Store Tests
+ *
+ * Tests for the shared Postgres hit counters and the limiters built on them
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { prisma } from '../config/database';
+import config from '../config';
+import { createRateLimiter } from '../middleware/security';
+import { PrismaRateLimitStore } from '../providers/PrismaRateLimitStore';
+
+describe('PrismaRateLimitStore', () => {
+  let store: PrismaRateLimitStore;
+
+  beforeEach(() => {
+    store = new PrismaRateLimitStore('test');
+    store.init({ windowMs: 60 * 1000 } as any);
+  });
+
+  afterEach(async () => {
+    await prisma.rateLimitCounter.deleteMany({ where: { key: { startsWith: 'test' } } });
+  });
+
+  it('should count hits per key within a window', async () => {
+    await store.increment('10.0.0.1');
+    const second = await store.increment('10.0.0.1');
+    const other = await store.increment('10.0.0.2');
+
+    expect(second.totalHits).toBe(2);
+    expect(second.resetTime!.getTime()).toBeGreaterThan(Date.now());
+    expect(other.totalHits).toBe(1);
+    expect(await store.get('10.0.0.1')).toMatchObject({ totalHits: 2 });
+  });
+
+  it('should start a new window once the old one has ended', async () => {
+    await store.increment('10.0.0.1');
+    await store.increment('10.0.0.1');
+    await prisma.rateLimitCounter.update({
+      where: { key: 'test:10.0.0.1' },
+      data: { resetAt: new Date(Date.now() - 1000) },
+    });
+
+    expect(await store.get('10.0.0.1')).toBeUndefined();
+    expect((await store.increment('10.0.0.1')).totalHits).toBe(1);
+  });
+
+  it('should decrement and reset keys', async () => {
+    await store.increment('10.0.0.1');
+    await store.increment('10.0.0.1');
+
+    await store.decrement('10.0.0.1');
+    expect(await store.get('10.0.0.1')).toMatchObject({ totalHits: 1 });
+
+    await store.resetKey('10.0.0.1');
+    expect(await store.get('10.0.0.1')).toBeUndefined();
+  });
+
+  it('should keep limiters apart by prefix', async () => {
+    const otherLimiter = new PrismaRateLimitStore('test-other');
+    otherLimiter.init({ windowMs: 60 * 1000 } as any);
+
+    await store.increment('10.0.0.1');
+    await otherLimiter.increment('10.0.0.1');
+    await store.resetAll();
+
+    expect(await store.get('10.0.0.1')).toBeUndefined();
+    expect(await otherLimiter.get('10.0.0.1')).toMatchObject({ totalHits: 1 });
+  });
+
+  it('should purge expired counters', async () => {
+    await store.increment('10.0.0.1');
+    await prisma.rateLimitCounter.update({
+      where: { key: 'test:10.0.0.1' },
+      data: { resetAt: new Date(Date.now() - 1000) },
+    });
+
+    expect(await PrismaRateLimitStore.purgeExpired()).toBeGreaterThanOrEqual(1);
+    expect(await prisma.rateLimitCounter.count({ where: { key: { startsWith: 'test' } } })).toBe(0);
+  });
+
+  describe('createRateLimiter', () => {
+    const originalStore = config.rateLimit.store;
+
+    afterEach(() => {
+      config.rateLimit.store = originalStore;
+    });
+
+    it('should enforce a policy through the shared store', async () => {
+      config.rateLimit.store = 'prisma';
+      const limiter = createRateLimiter('test-form', { windowMs: 60 * 1000, max: 2 }, { skip: () => false });
+      const app = express();
+      app.post('/form', limiter, (_req, res) => res.json({ success: true }));
+
+      await request(app).post('/form').expect(200);
+      await request(app).post('/form').expect(200);
+      await request(app).post('/form').expect(429);
+
+      expect(await prisma.rateLimitCounter.findFirst({ where: { key: { startsWith: 'test-form:' } } })).toMatchObject({
+        hits: 3,
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Search Service Tests
+ */
+
+import { prisma } from '../config/database';
+import { SearchService } from '../services/searchService';
+import { buildPrefixTsQuery } from '../utils/search';
+
+describe('buildPrefixTsQuery', () => {
+  it('should AND prefix terms together', () => {
+    expect(buildPrefixTsQuery('Prompt  Engin')).toBe('prompt:* & engin:*');
+  });
+
+  it('should strip tsquery operators from user input', () => {
+    expect(buildPrefixTsQuery("ai | !rag & (agents):*")).toBe('ai:* & rag:* & agents:*');
+  });
+
+  it('should return null when nothing searchable is left', () => {
+    expect(buildPrefixTsQuery('  &|! ')).toBeNull();
+  });
+});
+
+describe('SearchService', () => {
+  const cleanup = async () => {
+    await prisma.training.deleteMany();
+    await prisma.tool.deleteMany();
+    await prisma.product.deleteMany();
+    await prisma.knowledgeArticle.deleteMany();
+    await prisma.communityLink.deleteMany();
+  };
+
+  beforeEach(async () => {
+    await cleanup();
+
+    await prisma.training.create({
+      data: {
+        title: 'Prompt Engineering Fundamentals',
+        description: 'Write better prompts for large language models',
+        category: 'INTRODUCTORY',
+        level: 'BEGINNER',
+        externalLink: 'https://example.com/training',
+      },
+    });
+    await prisma.tool.create({
+      data: {
+        title: 'Cursor',
+        description: 'AI code editor',
+        problemSolved: 'Speeds up writing code with prompts',
+        externalLink: 'https://cursor.sh',
+      },
+    });
+    await prisma.knowledgeArticle.create({
+      data: {
+        title: 'Retrieval Augmented Generation',
+        slug: 'retrieval-augmented-generation',
+        description: 'Ground answers in your own documents',
+        content: 'RAG combines retrieval with prompting to reduce hallucinations.',
+        category: 'CORE_CONCEPTS',
+      },
+    });
+    await prisma.communityLink.create({
+      data: {
+        platform: 'DISCORD',
+        title: 'Prompt Crafters',
+        description: 'Inactive community',
+        externalLink: 'https://discord.gg/example',
+        isActive: false,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await cleanup();
+    await prisma.$disconnect();
+  });
+
+  describe('search', () => {
+    it('should return type-tagged results across content types', async () => {
+      const { data, meta } = await SearchService.search('prompt');
+
+      expect(meta.total).toBe(3);
+      expect(data.map((r) => r.type).sort()).toEqual(['knowledge', 'tool', 'training']);
+    });
+
+    it('should rank title matches above body matches', async () => {
+      const { data } = await SearchService.search('prompt');
+
+      expect(data[0].type).toBe('training');
+      expect(data[0].rank).toBeGreaterThan(data[data.length - 1].rank);
+    });
+
+    it('should match word prefixes', async () => {
+      const { data } = await SearchService.search('retriev');
+
+      expect(data).toHaveLength(1);
+      expect(data[0].slug).toBe('retrieval-augmented-generation');
+    });
+
+    it('should highlight matched terms', async () => {
+      const { data } = await SearchService.search('hallucinations');
+
+      expect(data[0].snippet).toContain('<mark>hallucinations</mark>');
+    });
+
+    it('should restrict results to the requested types', async () => {
+      const { data } = await SearchService.search('prompt', { types: ['tool'] });
+
+      expect(data).toHaveLength(1);
+      expect(data[0].title).toBe('Cursor');
+    });
+
+    it('should exclude inactive content', async () => {
+      const { data } = await SearchService.search('crafters');
+
+      expect(data).toEqual([]);
+    });
+
+    it('should report the full match count when limited', async () => {
+      const { data, meta } = await SearchService.search('prompt', { limit: 1 });
+
+      expect(data).toHaveLength(1);
+      expect(meta.total).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Session Management Tests
+ *
+ * Tests for the device list, revoking sessions and refresh token rotation
+ */
+
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import app from '../app';
+import config from '../config';
+import { prisma } from '../config/database';
+import { SessionService } from '../services/sessionService';
+import { createTestUser } from '../tests/setup';
+
+const refreshCookie = (response: request.Response): string => {
+  const cookies = ([] as string[]).concat(response.headers['set-cookie'] ?? []);
+  const cookie = cookies.find((value) => value.startsWith('refreshToken='));
+  return cookie!.split(';')[0];
+};
+
+describe('Sessions', () => {
+  let user: any;
+
+  const login = (userAgent = 'jest') =>
+    request(app)
+      .post('/api/auth/login')
+      .set('User-Agent', userAgent)
+      .send({ email: 'sessions@test.com', password: 'Password123!' })
+      .expect(200);
+
+  beforeEach(async () => {
+    user = await createTestUser({ email: 'sessions@test.com' });
+  });
+
+  describe('GET /api/auth/sessions', () => {
+    it('should list devices and flag the current one', async () => {
+      await login('Firefox');
+      const laptop = await login('Safari');
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${laptop.body.data.accessToken}`)
+        .set('Cookie', refreshCookie(laptop))
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data[0]).not.toHaveProperty('token');
+
+      const current = response.body.data.filter((session: any) => session.current);
+      expect(current).toHaveLength(1);
+      expect(current[0].userAgent).toBe('Safari');
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should rotate the refresh token', async () => {
+      const loggedIn = await login();
+      const first = refreshCookie(loggedIn);
+
+      const refreshed = await request(app).post('/api/auth/refresh').set('Cookie', first).expect(200);
+      const second = refreshCookie(refreshed);
+
+      expect(refreshed.body.data.accessToken).toBeDefined();
+      expect(second).not.toBe(first);
+      await request(app).post('/api/auth/refresh').set('Cookie', second).expect(200);
+    });
+
+    it('should revoke the session when a used refresh token comes back', async () => {
+      const loggedIn = await login();
+      const stolen = refreshCookie(loggedIn);
+      const refreshed = await request(app).post('/api/auth/refresh').set('Cookie', stolen).expect(200);
+
+      await request(app).post('/api/auth/refresh').set('Cookie', stolen).expect(401);
+
+      // The legitimate device is signed out as well
+      await request(app).post('/api/auth/refresh').set('Cookie', refreshCookie(refreshed)).expect(401);
+      expect(await prisma.session.count({ where: { userId: user.id } })).toBe(0);
+
+      const log = await prisma.auditLog.findFirst({ where: { action: 'REFRESH_TOKEN_REUSED' } });
+      expect(log).toMatchObject({ userId: user.id, resource: 'sessions' });
+    });
+  });
+
+  describe('DELETE /api/auth/sessions/:id', () => {
+    it('should sign out one device', async () => {
+      const phone = await login('Phone');
+      const laptop = await login('Laptop');
+      const phoneSession = await prisma.session.findFirstOrThrow({ where: { userAgent: 'Phone' } });
+
+      await request(app)
+        .delete(`/api/auth/sessions/${phoneSession.id}`)
+        .set('Authorization', `Bearer ${laptop.body.data.accessToken}`)
+        .expect(200);
+
+      await request(app).post('/api/auth/refresh').set('Cookie', refreshCookie(phone)).expect(401);
+      await request(app).post('/api/auth/refresh').set('Cookie', refreshCookie(laptop)).expect(200);
+    });
+
+    it("should not revoke another user's session", async () => {
+      const other = await createTestUser({ email: 'other@test.com' });
+      const session = await prisma.session.create({
+        data: { userId: other.id, token: 'other-token', expiresAt: new Date(Date.now() + 60 * 60 * 1000) },
+      });
+      const loggedIn = await login();
+
+      await request(app)
+        .delete(`/api/auth/sessions/${session.id}`)
+        .set('Authorization', `Bearer ${loggedIn.body.data.accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/auth/logout-all', () => {
+    it('should end every session and reject existing access tokens', async () => {
+      await login('Phone');
+      const laptop = await login('Laptop');
+      const accessToken = laptop.body.data.accessToken;
+      // Revocation has second precision, so revoke in a later second than the token was issued
+      await new Promise((resolve) => setTimeout(resolve, 1000 - (Date.now() % 1000)));
+
+      const response = await request(app)
+        .post('/api/auth/logout-all')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual({ revokedSessions: 2 });
+      await request(app).get('/api/auth/me').set('Authorization', `Bearer ${accessToken}`).expect(401);
+    });
+
+    it('should accept a token issued in the same second as the revoke', async () => {
+      const second = Math.floor(Date.now() / 1000);
+      await prisma.user.update({ where: { id: user.id }, data: { tokensRevokedAt: new Date(second * 1000 + 999) } });
+      const accessToken = jwt.sign({ userId: user.id, iat: second }, config.jwt.secret, { expiresIn: '15m' });
+
+      await request(app).get('/api/auth/me').set('Authorization', `Bearer ${accessToken}`).expect(200);
+    });
+  });
+
+  describe('SessionService.purgeExpired', () => {
+    it('should delete only expired sessions', async () => {
+      await prisma.session.createMany({
+        data: [
+          { userId: user.id, token: 'expired', expiresAt: new Date(Date.now() - 1000) },
+          { userId: user.id, token: 'active', expiresAt: new Date(Date.now() + 60 * 60 * 1000) },
+        ],
+      });
+
+      expect(await SessionService.purgeExpired()).toBe(1);
+      expect(await prisma.session.findMany({ select: { token: true } })).toEqual([{ token: 'active' }]);
+    });
+  });
+});
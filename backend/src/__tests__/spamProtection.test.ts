@@ -0,0 +1,249 @@
+/**
+ * Spam Protection Tests
+ *
+ * Tests for the honeypot, form token, content and throttling checks on the public
+ * contact and newsletter forms, and for the admin review queue
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import config from '../config';
+import * as emailService from '../services/emailService';
+import { SpamService } from '../services/spamService';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+jest.mock('../services/emailService', () => ({
+  sendContactNotificationEmail: jest.fn().mockResolvedValue({ id: 'mock-email-id' }),
+  sendNewsletterConfirmationEmail: jest.fn().mockResolvedValue({ id: 'mock-email-id' }),
+}));
+
+// A token from a form loaded ten seconds ago, as when a person fills it in
+const humanToken = (form: 'contact' | 'newsletter') => SpamService.issueFormToken(form, Date.now() - 10000);
+
+const contactForm = (overrides: Record<string, unknown> = {}) => ({
+  name: 'Jane Visitor',
+  email: 'jane@example.com',
+  subject: 'Question about training',
+  message: 'When does the next cohort start?',
+  formToken: humanToken('contact'),
+  ...overrides,
+});
+
+describe('Spam Protection', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await prisma.contactSubmission.deleteMany();
+    await prisma.newsletterSubscription.deleteMany();
+  });
+
+  describe('SpamService.check', () => {
+    const check = (context: Record<string, unknown>, text: string[] = ['Hello'], email = 'jane@example.com') =>
+      SpamService.check('contact', { email, text }, context);
+
+    it('should pass a clean submission', () => {
+      expect(check({ formToken: humanToken('contact') })).toEqual({ isSpam: false, reasons: [] });
+    });
+
+    it('should flag a filled-in honeypot', () => {
+      expect(check({ formToken: humanToken('contact'), honeypot: 'http://spam.test' }).reasons).toContain('honeypot');
+    });
+
+    it('should flag missing, forged, mismatched and too fresh tokens', () => {
+      const [form, issuedAt] = humanToken('contact').split('.');
+
+      expect(check({}).reasons).toEqual(['missing_token']);
+      expect(check({ formToken: `${form}.${issuedAt}.forged` }).reasons).toEqual(['invalid_token']);
+      expect(check({ formToken: humanToken('newsletter') }).reasons).toEqual(['invalid_token']);
+      expect(check({ formToken: SpamService.issueFormToken('contact') }).reasons).toEqual(['too_fast']);
+    });
+
+    it('should flag expired tokens', () => {
+      const issuedAt = Date.now() - (config.spam.formTokenTtlHours + 1) * 60 * 60 * 1000;
+      expect(check({ formToken: SpamService.issueFormToken('contact', issuedAt) }).reasons).toEqual(['invalid_token']);
+    });
+
+    it('should flag links, blocked phrases and disposable email domains', () => {
+      const links = Array.from({ length: config.spam.maxLinks + 1 }, (_, i) => `https://site${i}.test`).join(' ');
+      const context = { formToken: humanToken('contact') };
+
+      expect(check(context, [links]).reasons).toEqual(['too_many_links']);
+      expect(check(context, ['Cheap SEO services for you']).reasons).toEqual(['blocked_phrase']);
+      expect(check(context, ['Hello'], 'bot@mailinator.com').reasons).toEqual(['disposable_email']);
+    });
+  });
+
+  describe('POST /api/contact', () => {
+    it('should issue a form token', async () => {
+      const response = await request(app).get('/api/contact/form-token').expect(200);
+      expect(response.body.data.formToken).toMatch(/^contact\.\d+\./);
+    });
+
+    it('should store a clean submission and notify the admin', async () => {
+      const response = await request(app).post('/api/contact').send(contactForm()).expect(201);
+
+      const stored = await prisma.contactSubmission.findUnique({ where: { id: response.body.data.id } });
+      expect(stored).toMatchObject({ status: 'PENDING', spamReasons: [] });
+      expect(emailService.sendContactNotificationEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store a flagged submission as spam without notifying anyone', async () => {
+      const clean = await request(app).post('/api/contact').send(contactForm({ email: 'sam@example.com' }));
+      jest.clearAllMocks();
+
+      const response = await request(app)
+        .post('/api/contact')
+        .send(contactForm({ website: 'http://spam.test', formToken: undefined }))
+        .expect(201);
+
+      const stored = await prisma.contactSubmission.findUnique({ where: { id: response.body.data.id } });
+      expect(stored).toMatchObject({ status: 'SPAM', spamReasons: ['honeypot', 'missing_token'] });
+      expect(emailService.sendContactNotificationEmail).not.toHaveBeenCalled();
+
+      // Nothing in the response tells a bot it was caught
+      expect(Object.keys(response.body.data)).toEqual(Object.keys(clean.body.data));
+      expect(response.body.message).toBe(clean.body.message);
+      expect(response.body.data).not.toHaveProperty('status');
+      expect(response.body.data).not.toHaveProperty('ipAddress');
+    });
+
+    it('should reject spam protection fields that are not strings', async () => {
+      await request(app).post('/api/contact').send(contactForm({ website: 42 })).expect(400);
+      await request(app).post('/api/contact').send(contactForm({ formToken: { forged: true } })).expect(400);
+
+      expect(await prisma.contactSubmission.count()).toBe(0);
+    });
+
+    it('should throttle repeated submissions from the same email address', async () => {
+      for (let i = 0; i < config.spam.maxPerEmail; i++) {
+        await request(app).post('/api/contact').send(contactForm()).expect(201);
+      }
+
+      await request(app).post('/api/contact').send(contactForm()).expect(429);
+      expect(await prisma.contactSubmission.count()).toBe(config.spam.maxPerEmail);
+    });
+
+    it('should keep spam out of the support inbox', async () => {
+      await request(app).post('/api/contact').send(contactForm());
+      await request(app).post('/api/contact').send(contactForm({ email: 'bot@mailinator.com' }));
+      const admin = await createTestUser({ email: 'admin@test.com', role: 'ADMIN' as any });
+
+      const response = await request(app)
+        .get('/api/contact/submissions')
+        .set('Authorization', `Bearer ${await getAuthToken(admin.id)}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].email).toBe('jane@example.com');
+    });
+  });
+
+  describe('POST /api/newsletter/subscribe', () => {
+    it('should keep a flagged sign-up inactive without a confirmation email', async () => {
+      const response = await request(app)
+        .post('/api/newsletter/subscribe')
+        .send({ email: 'reader@example.com' })
+        .expect(201);
+
+      expect(response.body.data).toEqual({ id: expect.any(String) });
+      const stored = await prisma.newsletterSubscription.findUnique({ where: { id: response.body.data.id } });
+      expect(stored).toMatchObject({ status: 'SPAM', isActive: false, spamReasons: ['missing_token'] });
+      expect(emailService.sendNewsletterConfirmationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should confirm a flagged address when a clean sign-up follows', async () => {
+      await request(app).post('/api/newsletter/subscribe').send({ email: 'reader@example.com' });
+
+      const response = await request(app)
+        .post('/api/newsletter/subscribe')
+        .send({ email: 'reader@example.com', formToken: humanToken('newsletter') })
+        .expect(201);
+
+      const stored = await prisma.newsletterSubscription.findUnique({ where: { id: response.body.data.id } });
+      expect(stored).toMatchObject({ status: 'CONFIRMED', isActive: true, spamReasons: [] });
+      expect(emailService.sendNewsletterConfirmationEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject spam protection fields that are not strings', async () => {
+      await request(app)
+        .post('/api/newsletter/subscribe')
+        .send({ email: 'reader@example.com', website: ['http://spam.test'], formToken: 7 })
+        .expect(400);
+    });
+  });
+
+  describe('/api/admin/spam', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      const admin = await createTestUser({ email: 'admin@test.com', role: 'ADMIN' as any });
+      adminToken = await getAuthToken(admin.id);
+    });
+
+    it('should list flagged submissions by type', async () => {
+      await request(app).post('/api/contact').send(contactForm({ formToken: undefined }));
+      await request(app).post('/api/newsletter/subscribe').send({ email: 'reader@example.com' });
+
+      const contact = await request(app).get('/api/admin/spam').set('Authorization', `Bearer ${adminToken}`);
+      const newsletter = await request(app)
+        .get('/api/admin/spam?type=newsletter')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(contact.body.data).toHaveLength(1);
+      expect(contact.body.meta).toMatchObject({ type: 'contact', total: 1 });
+      expect(newsletter.body.data[0].email).toBe('reader@example.com');
+    });
+
+    it('should release a false positive and send the missed notification', async () => {
+      const flagged = await request(app).post('/api/contact').send(contactForm({ formToken: undefined }));
+
+      const response = await request(app)
+        .post(`/api/admin/spam/contact/${flagged.body.data.id}/release`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ status: 'PENDING', spamReasons: [] });
+      expect(emailService.sendContactNotificationEmail).toHaveBeenCalledTimes(1);
+
+      const entry = await prisma.auditLog.findFirst({ where: { action: 'SPAM_RELEASED' } });
+      expect(entry).toMatchObject({ resource: 'contact_submissions', resourceId: flagged.body.data.id });
+    });
+
+    it('should activate a released newsletter sign-up', async () => {
+      const flagged = await request(app).post('/api/newsletter/subscribe').send({ email: 'reader@example.com' });
+
+      const response = await request(app)
+        .post(`/api/admin/spam/newsletter/${flagged.body.data.id}/release`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ status: 'CONFIRMED', isActive: true });
+      expect(emailService.sendNewsletterConfirmationEmail).toHaveBeenCalledWith({ email: 'reader@example.com' });
+    });
+
+    it('should delete spam but not legitimate submissions', async () => {
+      const flagged = await request(app).post('/api/contact').send(contactForm({ formToken: undefined }));
+      const clean = await request(app).post('/api/contact').send(contactForm({ email: 'sam@example.com' }));
+
+      await request(app)
+        .delete(`/api/admin/spam/contact/${flagged.body.data.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      await request(app)
+        .delete(`/api/admin/spam/contact/${clean.body.data.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+
+      expect(await prisma.contactSubmission.count()).toBe(1);
+    });
+
+    it('should not be available to regular users', async () => {
+      const user = await createTestUser({ email: 'user@test.com' });
+
+      await request(app)
+        .get('/api/admin/spam')
+        .set('Authorization', `Bearer ${await getAuthToken(user.id)}`)
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Trash Tests
+ *
+ * Tests for moving content to the trash, restoring, purging and automatic purge
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import config from '../config';
+import { TrashService } from '../services/trashService';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Admin Trash', () => {
+  let adminToken: string;
+  let superAdminToken: string;
+  let tool: any;
+
+  beforeEach(async () => {
+    const admin = await createTestUser({ email: `admin-${Date.now()}@test.com`, role: 'ADMIN' as any });
+    const superAdmin = await createTestUser({
+      email: `super-${Date.now()}@test.com`,
+      role: 'SUPER_ADMIN' as any,
+    });
+    adminToken = await getAuthToken(admin.id);
+    superAdminToken = await getAuthToken(superAdmin.id);
+
+    await prisma.contentRevision.deleteMany();
+    await prisma.tool.deleteMany();
+    tool = await prisma.tool.create({
+      data: {
+        title: 'Trashable Tool',
+        description: 'Description',
+        problemSolved: 'Problem',
+        externalLink: 'https://example.com',
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.contentRevision.deleteMany();
+    await prisma.tool.deleteMany();
+    await prisma.auditLog.deleteMany();
+    await prisma.user.deleteMany();
+    await prisma.$disconnect();
+  });
+
+  const trashTool = () =>
+    request(app).delete(`/api/admin/tools/${tool.id}`).set('Authorization', `Bearer ${adminToken}`).expect(200);
+
+  it('should hide trashed items from public and admin lists and show them in the trash', async () => {
+    await trashTool();
+
+    const publicList = await request(app).get('/api/content/tools').expect(200);
+    expect(publicList.body.data).toHaveLength(0);
+
+    const adminList = await request(app)
+      .get('/api/admin/tools')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(adminList.body.data).toHaveLength(0);
+
+    const trash = await request(app).get('/api/admin/trash').set('Authorization', `Bearer ${adminToken}`).expect(200);
+    expect(trash.body.data).toHaveLength(1);
+    expect(trash.body.data[0]).toMatchObject({ type: 'tools', id: tool.id, title: 'Trashable Tool' });
+    expect(trash.body.meta.retentionDays).toBe(config.trash.retentionDays);
+
+    const log = await prisma.auditLog.findFirst({ where: { action: 'CONTENT_TRASHED', resourceId: tool.id } });
+    expect(log).not.toBeNull();
+  });
+
+  it('should filter the trash by type', async () => {
+    await trashTool();
+
+    const response = await request(app)
+      .get('/api/admin/trash?type=knowledge')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(response.body.data).toHaveLength(0);
+  });
+
+  it('should let a super admin restore a trashed item', async () => {
+    await trashTool();
+
+    await request(app)
+      .post(`/api/admin/trash/tools/${tool.id}/restore`)
+      .set('Authorization', `Bearer ${superAdminToken}`)
+      .expect(200);
+
+    const restored = await prisma.tool.findUnique({ where: { id: tool.id } });
+    expect(restored?.deletedAt).toBeNull();
+    expect(await prisma.auditLog.count({ where: { action: 'CONTENT_RESTORED', resourceId: tool.id } })).toBe(1);
+  });
+
+  it('should let a super admin purge a trashed item', async () => {
+    await trashTool();
+
+    await request(app)
+      .delete(`/api/admin/trash/tools/${tool.id}`)
+      .set('Authorization', `Bearer ${superAdminToken}`)
+      .expect(200);
+
+    expect(await prisma.tool.findUnique({ where: { id: tool.id } })).toBeNull();
+    expect(await prisma.auditLog.count({ where: { action: 'CONTENT_PURGED', resourceId: tool.id } })).toBe(1);
+  });
+
+  it('should not restore or purge items that are not in the trash', async () => {
+    await request(app)
+      .post(`/api/admin/trash/tools/${tool.id}/restore`)
+      .set('Authorization', `Bearer ${superAdminToken}`)
+      .expect(404);
+
+    await request(app)
+      .delete(`/api/admin/trash/tools/${tool.id}`)
+      .set('Authorization', `Bearer ${superAdminToken}`)
+      .expect(404);
+  });
+
+  it('should forbid restore and purge for regular admins', async () => {
+    await trashTool();
+
+    await request(app)
+      .post(`/api/admin/trash/tools/${tool.id}/restore`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(403);
+
+    await request(app)
+      .delete(`/api/admin/trash/tools/${tool.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(403);
+  });
+
+  it('should purge items past the retention period automatically', async () => {
+    const old = await prisma.tool.create({
+      data: {
+        title: 'Old Trash',
+        description: 'Description',
+        problemSolved: 'Problem',
+        externalLink: 'https://example.com',
+        deletedAt: new Date(Date.now() - (config.trash.retentionDays + 1) * DAY),
+      },
+    });
+    await trashTool();
+
+    const purged = await TrashService.purgeExpired();
+
+    expect(purged).toBe(1);
+    expect(await prisma.tool.findUnique({ where: { id: old.id } })).toBeNull();
+    expect(await prisma.tool.findUnique({ where: { id: tool.id } })).not.toBeNull();
+
+    const log = await prisma.auditLog.findFirst({ where: { action: 'CONTENT_PURGED', resourceId: old.id } });
+    expect(log?.userId).toBeNull();
+  });
+});
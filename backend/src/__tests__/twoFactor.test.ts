@@ -0,0 +1,186 @@
+/**
+ * Two-Factor Authentication Tests
+ *
+ * Tests for TOTP enrollment, recovery codes, the login challenge and the admin 2FA policy
+ */
+
+import request from 'supertest';
+import app from '../app';
+import { prisma } from '../config/database';
+import { TwoFactorService } from '../services/twoFactorService';
+import { generateTotp, totpStep, verifyTotp } from '../utils/totp';
+import { createTestUser, getAuthToken } from '../tests/setup';
+
+// Enroll a user directly and return their secret and recovery codes
+const enableTwoFactor = async (userId: string) => {
+  const { secret } = await TwoFactorService.beginEnrollment(userId);
+  const { recoveryCodes } = await TwoFactorService.confirmEnrollment(userId, generateTotp(secret));
+  return { secret, recoveryCodes };
+};
+
+// A code from the next step: still accepted, and later than the one used to enroll
+const nextCode = (secret: string) => generateTotp(secret, totpStep() + 1);
+
+describe('Two-Factor Authentication', () => {
+  let user: any;
+  let token: string;
+
+  beforeEach(async () => {
+    user = await createTestUser({ email: 'twofactor@test.com' });
+    token = await getAuthToken(user.id);
+  });
+
+  afterEach(async () => {
+    await prisma.securityPolicy.deleteMany();
+    TwoFactorService.clearCache();
+  });
+
+  const login = () =>
+    request(app).post('/api/auth/login').send({ email: 'twofactor@test.com', password: 'Password123!' }).expect(200);
+
+  describe('TOTP', () => {
+    it('should accept the current code and reject others', () => {
+      const secret = 'JBSWY3DPEHPK3PXP';
+
+      expect(verifyTotp(secret, generateTotp(secret))).toBe(totpStep());
+      expect(verifyTotp(secret, generateTotp(secret, totpStep() - 5))).toBeNull();
+      expect(verifyTotp(secret, 'abcdef')).toBeNull();
+    });
+  });
+
+  describe('enrollment', () => {
+    it('should enable 2FA once a valid code is confirmed', async () => {
+      const setup = await request(app)
+        .post('/api/auth/2fa/setup')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(setup.body.data.otpauthUri).toMatch(/^otpauth:\/\/totp\/.*twofactor%40test\.com\?secret=/);
+
+      await request(app)
+        .post('/api/auth/2fa/enable')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ code: '000000' })
+        .expect(400);
+
+      const enabled = await request(app)
+        .post('/api/auth/2fa/enable')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ code: generateTotp(setup.body.data.secret) })
+        .expect(200);
+
+      expect(enabled.body.data.recoveryCodes).toHaveLength(10);
+
+      const status = await request(app).get('/api/auth/2fa').set('Authorization', `Bearer ${token}`).expect(200);
+      expect(status.body.data).toMatchObject({ enabled: true, recoveryCodesRemaining: 10, required: false });
+
+      const stored = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+      expect(stored.twoFactorSecret).not.toContain(setup.body.data.secret);
+    });
+  });
+
+  describe('login', () => {
+    it('should ask for a code before starting a session', async () => {
+      const { secret } = await enableTwoFactor(user.id);
+
+      const first = await login();
+      expect(first.body.data).toEqual({ twoFactorRequired: true, challengeToken: expect.any(String) });
+      expect(first.headers['set-cookie']).toBeUndefined();
+
+      const code = nextCode(secret);
+      const second = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: first.body.data.challengeToken, code })
+        .expect(200);
+
+      expect(second.body.data.accessToken).toBeDefined();
+      expect(second.headers['set-cookie']).toBeDefined();
+
+      // The same code cannot be used twice
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: first.body.data.challengeToken, code })
+        .expect(401);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enableTwoFactor(user.id);
+      const { challengeToken } = (await login()).body.data;
+
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken, code: recoveryCodes[0].toUpperCase() })
+        .expect(200);
+
+      await request(app).post('/api/auth/login/2fa').send({ challengeToken, code: recoveryCodes[0] }).expect(401);
+
+      const status = await TwoFactorService.getStatus(user.id);
+      expect(status.recoveryCodesRemaining).toBe(9);
+    });
+
+    it('should reject a forged challenge', async () => {
+      await enableTwoFactor(user.id);
+
+      await request(app)
+        .post('/api/auth/login/2fa')
+        .send({ challengeToken: token, code: '123456' })
+        .expect(401);
+    });
+  });
+
+  describe('admin policy', () => {
+    let superAdmin: any;
+    let superAdminToken: string;
+
+    beforeEach(async () => {
+      superAdmin = await createTestUser({ email: 'owner@test.com', role: 'SUPER_ADMIN' as any });
+      superAdminToken = await getAuthToken(superAdmin.id);
+    });
+
+    it('should only be switched on by a super admin who uses 2FA', async () => {
+      await request(app)
+        .put('/api/admin/security/policy')
+        .set('Authorization', `Bearer ${superAdminToken}`)
+        .send({ requireAdminTwoFactor: true })
+        .expect(400);
+
+      await enableTwoFactor(superAdmin.id);
+
+      await request(app)
+        .put('/api/admin/security/policy')
+        .set('Authorization', `Bearer ${superAdminToken}`)
+        .send({ requireAdminTwoFactor: true })
+        .expect(200);
+    });
+
+    it('should keep admins without 2FA out of admin endpoints until they enroll', async () => {
+      const admin = await createTestUser({ email: 'admin@test.com', role: 'ADMIN' as any });
+      const adminToken = await getAuthToken(admin.id);
+      await enableTwoFactor(superAdmin.id);
+      await TwoFactorService.updatePolicy(superAdmin.id, true);
+
+      await request(app).get('/api/admin/users').set('Authorization', `Bearer ${adminToken}`).expect(403);
+
+      const loggedIn = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'admin@test.com', password: 'Password123!' })
+        .expect(200);
+      expect(loggedIn.body.data.twoFactorSetupRequired).toBe(true);
+
+      await enableTwoFactor(admin.id);
+      const enrolledToken = await getAuthToken(admin.id);
+      await request(app).get('/api/admin/users').set('Authorization', `Bearer ${enrolledToken}`).expect(200);
+    });
+
+    it('should not let admins turn 2FA off while it is required', async () => {
+      const { secret } = await enableTwoFactor(superAdmin.id);
+      await TwoFactorService.updatePolicy(superAdmin.id, true);
+
+      await request(app)
+        .post('/api/auth/2fa/disable')
+        .set('Authorization', `Bearer ${superAdminToken}`)
+        .send({ code: nextCode(secret) })
+        .expect(403);
+    });
+  });
+});
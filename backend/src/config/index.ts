@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import { StorageProviderType } from '../types/storage';
 
 // Load environment variables
 dotenv.config();
@@ -25,6 +26,20 @@ if (process.env.JWT_REFRESH_SECRET && process.env.JWT_REFRESH_SECRET.length < 32
   throw new Error('JWT_REFRESH_SECRET must be at least 32 characters long');
 }
 
+export type RateLimitStoreType = 'memory' | 'prisma';
+
+/**
+ * Requests allowed per client within a window
+ */
+export interface RateLimitPolicy {
+  windowMs: number;
+  max: number;
+}
+
+if (process.env.RATE_LIMIT_STORE && !['memory', 'prisma'].includes(process.env.RATE_LIMIT_STORE)) {
+  throw new Error('RATE_LIMIT_STORE must be "memory" or "prisma"');
+}
+
 export const config = {
   // Server
   port: parseInt(process.env.PORT || '3001', 10),
@@ -41,6 +56,55 @@ export const config = {
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
   },
   
+  // Content preview links (stakeholder review of unpublished content)
+  preview: {
+    secret: process.env.PREVIEW_TOKEN_SECRET, // Derived from JWT_SECRET when unset
+    defaultTtlHours: parseInt(process.env.PREVIEW_TOKEN_TTL_HOURS || '72', 10),
+    maxTtlHours: 14 * 24, // 2 weeks
+  },
+
+  // Audit log hash chain (signs retention checkpoints)
+  audit: {
+    checkpointSecret: process.env.AUDIT_CHECKPOINT_SECRET, // Derived from JWT_SECRET when unset
+  },
+  
+  // TOTP two-factor authentication
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || process.env.APP_NAME || 'App Template',
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY, // Derived from JWT_SECRET when unset
+    challengeTtlMinutes: 5, // Time allowed between the password and the code at login
+    recoveryCodeCount: 10,
+  },
+
+  // Spam protection for the public contact and newsletter forms
+  spam: {
+    formTokenSecret: process.env.SPAM_FORM_TOKEN_SECRET, // Derived from JWT_SECRET when unset
+    minSubmitSeconds: parseInt(process.env.SPAM_MIN_SUBMIT_SECONDS || '3', 10), // Faster than a person can type
+    formTokenTtlHours: 24,
+    maxLinks: parseInt(process.env.SPAM_MAX_LINKS || '2', 10),
+    // Comma-separated, case-insensitive; added to the built-in lists
+    blockedPhrases: (process.env.SPAM_BLOCKED_PHRASES || '').split(',').map((p) => p.trim()).filter(Boolean),
+    disposableDomains: (process.env.SPAM_DISPOSABLE_DOMAINS || '').split(',').map((d) => d.trim()).filter(Boolean),
+    // Submissions beyond these within the window are refused outright
+    throttleWindowMinutes: 60,
+    maxPerEmail: parseInt(process.env.SPAM_MAX_PER_EMAIL || '3', 10),
+    maxPerIp: parseInt(process.env.SPAM_MAX_PER_IP || '10', 10),
+  },
+
+  // GDPR data exports (ZIP archives kept in storage until they expire)
+  dataExport: {
+    ttlDays: parseInt(process.env.DATA_EXPORT_TTL_DAYS || '7', 10),
+    downloadTokenSecret: process.env.DATA_EXPORT_TOKEN_SECRET, // Derived from JWT_SECRET when unset
+  },
+
+  // Per-account brute-force protection (complements the per-IP authLimiter)
+  accountLockout: {
+    threshold: parseInt(process.env.LOCKOUT_THRESHOLD || '5', 10), // Failed logins before the first lockout
+    baseLockMinutes: parseInt(process.env.LOCKOUT_BASE_MINUTES || '5', 10), // Doubles with each further failure
+    maxLockMinutes: 24 * 60,
+    resetAfterHours: 24, // Failures older than this are forgotten
+  },
+  
   // Cookie
   cookie: {
     domain: process.env.COOKIE_DOMAIN || 'localhost',
@@ -50,6 +114,9 @@ export const config = {
     maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
   },
   
+  // Public URL of this API, for links that point straight at it (e.g. export downloads)
+  apiUrl: process.env.API_URL || `http://localhost:${process.env.PORT || '3001'}`,
+
   // Frontend
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
   // Allowed origins for CORS (comma-separated, or use ALLOWED_ORIGINS env var)
@@ -60,9 +127,22 @@ export const config = {
   
   // Rate Limiting
   rateLimit: {
+    // Where hit counters live: 'memory' (per process) or 'prisma' (shared by every instance)
+    store: (process.env.RATE_LIMIT_STORE || 'memory') as RateLimitStoreType,
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
     authMaxRequests: parseInt(process.env.AUTH_RATE_LIMIT_MAX || '5', 10),
+    // Stricter per-route policies for public forms
+    policies: {
+      contact: {
+        windowMs: 60 * 60 * 1000, // 1 hour
+        max: parseInt(process.env.CONTACT_RATE_LIMIT_MAX || '5', 10),
+      },
+      newsletter: {
+        windowMs: 60 * 60 * 1000, // 1 hour
+        max: parseInt(process.env.NEWSLETTER_RATE_LIMIT_MAX || '5', 10),
+      },
+    } satisfies Record<string, RateLimitPolicy>,
   },
   
   // Logging
@@ -74,12 +154,44 @@ export const config = {
     fromEmail: process.env.FROM_EMAIL || 'noreply@yourdomain.com',
   },
   
+  // File storage for generated files
+  storage: {
+    provider: (process.env.STORAGE_PROVIDER || 'LOCAL') as StorageProviderType,
+    localDir: process.env.STORAGE_DIR, // Defaults to backend/storage
+  },
+
   // App
   appName: process.env.APP_NAME || 'App Template',
   
   // Architecture Mode
   architectureMode: process.env.ARCHITECTURE_MODE || 'monolith',
   
+  // Background jobs
+  scheduler: {
+    enabled: process.env.ENABLE_SCHEDULER !== 'false',
+    publicationIntervalMs: parseInt(process.env.PUBLICATION_SCHEDULER_INTERVAL_MS || '60000', 10), // 1 minute
+    trashPurgeIntervalMs: parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000', 10), // 1 hour
+    sessionCleanupIntervalMs: parseInt(process.env.SESSION_CLEANUP_INTERVAL_MS || '3600000', 10), // 1 hour
+    rateLimitCleanupIntervalMs: parseInt(process.env.RATE_LIMIT_CLEANUP_INTERVAL_MS || '3600000', 10), // 1 hour
+    dataExportCleanupIntervalMs: parseInt(process.env.DATA_EXPORT_CLEANUP_INTERVAL_MS || '3600000', 10), // 1 hour
+    gdprJobSweepIntervalMs: parseInt(process.env.GDPR_JOB_SWEEP_INTERVAL_MS || '3600000', 10), // 1 hour
+  },
+
+  // Postgres-backed job queue (runs with the scheduler)
+  jobs: {
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '2', 10), // Jobs running at once per instance
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '5', 10), // Then the job is dead-lettered
+    backoffBaseMs: 30 * 1000, // Doubles after each failed attempt
+    backoffMaxMs: 60 * 60 * 1000,
+    lockTimeoutMs: 15 * 60 * 1000, // A job running longer is assumed to have lost its worker
+  },
+  
+  // Deleted content stays restorable this long before it is purged for good
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+  },
+  
   // Feature Flags
   features: {
     registration: process.env.ENABLE_REGISTRATION !== 'false',
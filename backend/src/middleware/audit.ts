@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from 'express';
+import { createAuditLog } from '../services/auditService';
+import { diffChanges, redact } from '../utils/auditTrail';
+import logger from '../utils/logger';
+
+type Resolver<T> = T | ((req: Request) => T);
+
+export interface AuditOptions {
+  /** Audit action, e.g. CONTENT_UPDATE */
+  action: string;
+  /** Resource name; may depend on the request (e.g. the :type segment) */
+  resource: Resolver<string>;
+  /** Affected id from the route params or response data; defaults to params.id, then data.id */
+  resourceId?: (params: Record<string, string>, data: unknown) => string | undefined;
+  /** Acting user; defaults to the authenticated user */
+  actor?: (req: Request, data: unknown) => string | undefined;
+  /** Load the record before the handler runs, as the "before" side of the diff */
+  load?: (req: Request) => Promise<unknown>;
+  /** Use the response data as the "after" side of the diff */
+  captureResponse?: boolean;
+  /** Only diff these fields (default: all) */
+  fields?: string[];
+}
+
+const resolve = <T>(value: Resolver<T>, req: Request): T =>
+  typeof value === 'function' ? (value as (req: Request) => T)(req) : value;
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+
+const pick = (record: Record<string, unknown> | undefined, fields?: string[]) =>
+  record && fields ? Object.fromEntries(fields.filter((field) => field in record).map((f) => [f, record[f]])) : record;
+
+/**
+ * Audit middleware
+ * Records who did what to which resource once the response has been sent: actor, action,
+ * resource, resourceId, before/after diff, outcome, IP, user agent and request ID.
+ * Request bodies and snapshots are redacted, so passwords and tokens never reach the log.
+ * Failing to write the entry is logged and never affects the response.
+ */
+export const audit = (options: AuditOptions) => async (req: Request, res: Response, next: NextFunction) => {
+  // Read the route context now: baseUrl and params are reset once an error leaves the router.
+  // The route pattern is logged rather than the raw URL, which may carry tokens (e.g. /verify-email/:token).
+  const path = `${req.baseUrl}${req.route?.path ?? ''}`;
+  const params = { ...req.params };
+  const resource = resolve(options.resource, req);
+
+  let before: unknown;
+  if (options.load) {
+    try {
+      before = await options.load(req);
+    } catch (error: any) {
+      logger.warn('Audit snapshot failed', { action: options.action, error: error.message });
+    }
+  }
+
+  let responseBody: unknown;
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    responseBody = body;
+    return json(body);
+  };
+
+  res.on('finish', () => {
+    const data = asRecord(responseBody)?.data;
+    const success = res.statusCode < 400;
+    const after = success && options.captureResponse ? asRecord(data) : undefined;
+    const trackChanges = !!options.load || !!options.captureResponse;
+
+    const details: Record<string, unknown> = {
+      method: req.method,
+      path,
+      statusCode: res.statusCode,
+      outcome: success ? 'success' : 'failure',
+    };
+
+    if (trackChanges && success) {
+      details.changes = diffChanges(pick(asRecord(before), options.fields), pick(after, options.fields));
+    } else if (req.body && Object.keys(req.body).length > 0) {
+      details.request = redact(req.body);
+    }
+
+    if (!success) {
+      details.error = asRecord(responseBody)?.error ?? null;
+    }
+
+    createAuditLog({
+      userId: options.actor ? options.actor(req, data) : req.user?.id,
+      action: options.action,
+      resource,
+      resourceId: options.resourceId
+        ? options.resourceId(params, data)
+        : params.id ?? (asRecord(data)?.id as string | undefined),
+      details,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      requestId: (req as any).id,
+    }).catch(() => {
+      // createAuditLog already logged the failure; the response has been sent
+    });
+  });
+
+  next();
+};
+
+export default audit;
@@ -1,7 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { Role } from '@prisma/client';
 import { prisma } from '../config/database';
 import config from '../config';
+import { PermissionService } from '../services/permissionService';
+import { TwoFactorService } from '../services/twoFactorService';
 import { UnauthorizedError, ForbiddenError } from '../utils/errors';
 
 // Extend Request type to include user
@@ -13,14 +16,82 @@ declare global {
         email: string;
         name: string | null;
         role: string;
+        emailVerified?: boolean;
+        twoFactorEnabled?: boolean;
       };
     }
   }
 }
 
+/**
+ * Access tokens issued before the user's sessions were revoked (force logout) are no longer accepted.
+ * iat only has second precision, so compare whole seconds: a token signed in the same second as the
+ * revoke (e.g. the login right after a password reset) stays valid.
+ */
+const isRevoked = (decoded: { iat?: number }, tokensRevokedAt: Date | null): boolean =>
+  Boolean(
+    tokensRevokedAt && decoded.iat !== undefined && decoded.iat < Math.floor(tokensRevokedAt.getTime() / 1000)
+  );
+
+/**
+ * Verify the bearer token and load the user it belongs to
+ */
+const resolveUser = async (req: Request) => {
+  // Get token from Authorization header
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new UnauthorizedError('No token provided');
+  }
+
+  const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+
+  // Verify token
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, config.jwt.secret);
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new UnauthorizedError('Token expired');
+    }
+    throw new UnauthorizedError('Invalid token');
+  }
+
+  // Get user from database
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      isActive: true,
+      emailVerified: true,
+      twoFactorEnabled: true,
+      tokensRevokedAt: true,
+    },
+  });
+
+  if (!user) {
+    throw new UnauthorizedError('User not found');
+  }
+
+  if (!user.isActive) {
+    throw new UnauthorizedError('Account is disabled');
+  }
+
+  if (isRevoked(decoded, user.tokensRevokedAt)) {
+    throw new UnauthorizedError('Session has been revoked');
+  }
+
+  const { tokensRevokedAt: _revokedAt, ...sessionUser } = user;
+  return sessionUser;
+};
+
 /**
  * Authentication middleware
  * Verifies JWT token and attaches user to request
+ * When features.emailVerification is on, unverified users are rejected
  */
 export const authenticate = async (
   req: Request,
@@ -28,44 +99,10 @@ export const authenticate = async (
   next: NextFunction
 ) => {
   try {
-    // Get token from Authorization header
-    const authHeader = req.headers.authorization;
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      throw new UnauthorizedError('No token provided');
-    }
-
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-
-    // Verify token
-    let decoded: any;
-    try {
-      decoded = jwt.verify(token, config.jwt.secret);
-    } catch (error) {
-      if (error instanceof jwt.TokenExpiredError) {
-        throw new UnauthorizedError('Token expired');
-      }
-      throw new UnauthorizedError('Invalid token');
-    }
-
-    // Get user from database
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        isActive: true,
-      },
-    });
-
-    if (!user) {
-      throw new UnauthorizedError('User not found');
-    }
+    const user = await resolveUser(req);
 
-    if (!user.isActive) {
-      throw new UnauthorizedError('Account is disabled');
+    if (config.features.emailVerification && !user.emailVerified) {
+      throw new ForbiddenError('Email address not verified');
     }
 
     // Attach user to request
@@ -77,6 +114,23 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Authentication middleware that skips the email verification gate
+ * For the few endpoints an unverified user still needs (current user, logout)
+ */
+export const authenticateAllowUnverified = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  try {
+    req.user = await resolveUser(req);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Authorization middleware
  * Checks if user has required role(s)
@@ -95,6 +149,40 @@ export const requireRole = (...roles: string[]) => {
   };
 };
 
+/**
+ * A permission key, or one derived from the request (e.g. from the content type in the path)
+ */
+export type PermissionRequirement = string | ((req: Request) => string);
+
+/**
+ * Authorization middleware
+ * Checks that the user's role has been granted every listed permission.
+ * When the security policy requires 2FA for the user's role, it must be enabled too.
+ */
+export const requirePermission = (...permissions: PermissionRequirement[]) => {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(new UnauthorizedError('Authentication required'));
+    }
+
+    try {
+      const keys = permissions.map((permission) => (typeof permission === 'function' ? permission(req) : permission));
+
+      if (!(await PermissionService.hasPermission(req.user.role as Role, ...keys))) {
+        return next(new ForbiddenError('Insufficient permissions'));
+      }
+
+      if (!req.user.twoFactorEnabled && (await TwoFactorService.isRequiredFor(req.user.role as Role))) {
+        return next(new ForbiddenError('Two-factor authentication must be enabled on your account'));
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 /**
  * Optional authentication middleware
  * Attaches user to request if token is present, but doesn't fail if absent
@@ -124,11 +212,13 @@ export const optionalAuth = async (
           name: true,
           role: true,
           isActive: true,
+          tokensRevokedAt: true,
         },
       });
 
-      if (user && user.isActive) {
-        req.user = user;
+      if (user && user.isActive && !isRevoked(decoded, user.tokensRevokedAt)) {
+        const { tokensRevokedAt: _revokedAt, ...sessionUser } = user;
+        req.user = sessionUser;
       }
     } catch (error) {
       // Invalid token, but we don't fail - just continue without user
@@ -140,5 +230,5 @@ export const optionalAuth = async (
   }
 };
 
-export default { authenticate, requireRole, optionalAuth };
+export default { authenticate, authenticateAllowUnverified, requireRole, requirePermission, optionalAuth };
 
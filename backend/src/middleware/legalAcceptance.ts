@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { LegalService } from '../services/legalService';
+import { UnauthorizedError } from '../utils/errors';
+
+/**
+ * Legal acceptance middleware
+ * Use after authenticate on routes that need the current terms and privacy policy accepted.
+ * Refuses with 403 and code LEGAL_ACCEPTANCE_REQUIRED, listing the documents to accept,
+ * so the frontend can ask for them and retry.
+ */
+export const requireLegalAcceptance = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return next(new UnauthorizedError('Authentication required'));
+  }
+
+  try {
+    const pending = await LegalService.getPendingAcceptances(req.user.id);
+    if (pending.length > 0) {
+      res.status(403).json({
+        success: false,
+        error: 'Please review and accept the updated terms to continue',
+        code: 'LEGAL_ACCEPTANCE_REQUIRED',
+        pending,
+        requestId: (req as any).id,
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default requireLegalAcceptance;
@@ -1,7 +1,8 @@
 import helmet from 'helmet';
 import cors from 'cors';
-import rateLimit from 'express-rate-limit';
-import config from '../config';
+import rateLimit, { MemoryStore, Options, Store } from 'express-rate-limit';
+import config, { RateLimitPolicy } from '../config';
+import { PrismaRateLimitStore } from '../providers/PrismaRateLimitStore';
 
 /**
  * Security headers middleware (Helmet)
@@ -73,32 +74,67 @@ export const corsConfig = cors({
   maxAge: 86400, // 24 hours
 });
 
+/**
+ * Hit counter store for a limiter, as configured by RATE_LIMIT_STORE.
+ * The memory store is per process; the Prisma store is shared by every instance.
+ */
+export const createRateLimitStore = (name: string): Store =>
+  config.rateLimit.store === 'prisma' ? new PrismaRateLimitStore(name) : new MemoryStore();
+
+/**
+ * Rate limiter for a policy, counting requests per IP.
+ * A store that fails lets requests through rather than taking the API down.
+ */
+export const createRateLimiter = (name: string, policy: RateLimitPolicy, options: Partial<Options> = {}) =>
+  rateLimit({
+    windowMs: policy.windowMs,
+    max: policy.max,
+    store: createRateLimitStore(name),
+    passOnStoreError: true,
+    standardHeaders: true,
+    legacyHeaders: false,
+    // Skip rate limiting in test environment
+    skip: () => config.nodeEnv === 'test',
+    ...options,
+  });
+
 /**
  * General API rate limiter
  * 100 requests per 15 minutes per IP
  */
-export const apiLimiter = rateLimit({
-  windowMs: config.rateLimit.windowMs,
-  max: config.rateLimit.maxRequests,
-  message: 'Too many requests from this IP, please try again later',
-  standardHeaders: true,
-  legacyHeaders: false,
-  // Skip rate limiting in test environment
-  skip: () => config.nodeEnv === 'test',
-});
+export const apiLimiter = createRateLimiter(
+  'api',
+  { windowMs: config.rateLimit.windowMs, max: config.rateLimit.maxRequests },
+  { message: 'Too many requests from this IP, please try again later' }
+);
 
 /**
  * Strict rate limiter for authentication endpoints
  * 5 requests per 15 minutes per IP
  */
-export const authLimiter = rateLimit({
-  windowMs: config.rateLimit.windowMs,
-  max: config.rateLimit.authMaxRequests,
-  message: 'Too many authentication attempts, please try again later',
-  standardHeaders: true,
-  legacyHeaders: false,
-  skipSuccessfulRequests: true, // Don't count successful logins
-  skip: () => config.nodeEnv === 'test',
+export const authLimiter = createRateLimiter(
+  'auth',
+  { windowMs: config.rateLimit.windowMs, max: config.rateLimit.authMaxRequests },
+  {
+    message: 'Too many authentication attempts, please try again later',
+    skipSuccessfulRequests: true, // Don't count successful logins
+  }
+);
+
+/**
+ * Contact form submissions
+ * 5 per hour per IP
+ */
+export const contactLimiter = createRateLimiter('contact', config.rateLimit.policies.contact, {
+  message: 'Too many messages sent, please try again later',
+});
+
+/**
+ * Newsletter sign-ups
+ * 5 per hour per IP
+ */
+export const newsletterLimiter = createRateLimiter('newsletter', config.rateLimit.policies.newsletter, {
+  message: 'Too many subscription attempts, please try again later',
 });
 
 /**
@@ -57,6 +57,17 @@ export const validators = {
     .isLength({ min: 1, max: 100 })
     .withMessage('Name must be between 1 and 100 characters'),
 
+  // Spam protection fields sent by the public forms (hidden honeypot and form token)
+  honeypot: body('website')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Invalid form data'),
+
+  formToken: body('formToken')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Invalid form data'),
+
   // UUID validation
   uuid: (field: string) =>
     body(field)
@@ -0,0 +1,51 @@
+/**
+ * Local Storage Provider
+ *
+ * Implementation of IStorageProvider on the local filesystem, under STORAGE_DIR.
+ * Suitable for a single instance; use object storage when running several.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IStorageProvider, StorageProviderType } from '../types/storage';
+
+export class LocalStorageProvider implements IStorageProvider {
+  readonly name: StorageProviderType = 'LOCAL';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * File path for a key, refusing keys that would escape the storage directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(`${this.root}${path.sep}`)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Prisma Rate Limit Store
+ *
+ * express-rate-limit store that keeps hit counters in Postgres, so limits hold
+ * across restarts and are shared by every instance of the API. Each limiter
+ * uses its own key prefix; a counter is one row whose window restarts once
+ * resetAt has passed. Expired rows are removed by purgeExpired().
+ */
+
+import { ClientRateLimitInfo, Options, Store } from 'express-rate-limit';
+import { prisma } from '../config/database';
+import logger from '../utils/logger';
+
+export class PrismaRateLimitStore implements Store {
+  /** Counters are shared between instances */
+  localKeys = false;
+  prefix: string;
+  private windowMs = 60 * 1000;
+
+  constructor(prefix: string) {
+    this.prefix = `${prefix}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const counter = await prisma.rateLimitCounter.findUnique({ where: { key: this.prefixed(key) } });
+
+    if (!counter || counter.resetAt <= new Date()) {
+      return undefined;
+    }
+    return { totalHits: counter.hits, resetTime: counter.resetAt };
+  }
+
+  /**
+   * Count a hit in one statement, starting a new window if the current one has ended
+   */
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    // Timestamps come from the app, like every other Prisma write, so they are UTC regardless of the DB time zone
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + this.windowMs);
+
+    const [counter] = await prisma.$queryRaw<{ hits: number; resetAt: Date }[]>`
+      INSERT INTO "rate_limit_counters" ("key", "hits", "resetAt")
+      VALUES (${this.prefixed(key)}, 1, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "hits" = CASE
+          WHEN "rate_limit_counters"."resetAt" <= ${now} THEN 1
+          ELSE "rate_limit_counters"."hits" + 1
+        END,
+        "resetAt" = CASE
+          WHEN "rate_limit_counters"."resetAt" <= ${now} THEN EXCLUDED."resetAt"
+          ELSE "rate_limit_counters"."resetAt"
+        END
+      RETURNING "hits", "resetAt"
+    `;
+
+    return { totalHits: counter.hits, resetTime: counter.resetAt };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await prisma.rateLimitCounter.updateMany({
+      where: { key: this.prefixed(key), hits: { gt: 0 } },
+      data: { hits: { decrement: 1 } },
+    });
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await prisma.rateLimitCounter.deleteMany({ where: { key: this.prefixed(key) } });
+  }
+
+  async resetAll(): Promise<void> {
+    await prisma.rateLimitCounter.deleteMany({ where: { key: { startsWith: this.prefix } } });
+  }
+
+  /**
+   * Delete counters whose window has ended (for every limiter)
+   */
+  static async purgeExpired(): Promise<number> {
+    const { count } = await prisma.rateLimitCounter.deleteMany({ where: { resetAt: { lte: new Date() } } });
+
+    if (count > 0) {
+      logger.info('Purged expired rate limit counters', { count });
+    }
+    return count;
+  }
+
+  private prefixed(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+}
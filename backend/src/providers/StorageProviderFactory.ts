@@ -0,0 +1,45 @@
+/**
+ * Storage Provider Factory
+ *
+ * Creates the storage provider selected by configuration
+ */
+
+import path from 'path';
+import { IStorageProvider } from '../types/storage';
+import { LocalStorageProvider } from './LocalStorageProvider';
+import config from '../config';
+import logger from '../utils/logger';
+
+export class StorageProviderFactory {
+  private static instance: IStorageProvider | null = null;
+
+  /**
+   * Get or create storage provider instance (singleton)
+   */
+  static getProvider(): IStorageProvider {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    const providerType = config.storage.provider;
+    logger.info('Initializing storage provider', { provider: providerType });
+
+    switch (providerType) {
+      case 'LOCAL':
+        this.instance = new LocalStorageProvider(config.storage.localDir || path.join(__dirname, '../../storage'));
+        break;
+
+      default:
+        throw new Error(`Unsupported storage provider: ${providerType}`);
+    }
+
+    return this.instance;
+  }
+
+  /**
+   * Reset the provider instance (useful for testing)
+   */
+  static resetProvider(): void {
+    this.instance = null;
+  }
+}
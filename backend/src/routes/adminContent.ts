@@ -5,30 +5,87 @@
  * Admin endpoints for content management (requires authentication + admin role)
  */
 
-import { Router } from 'express';
-import { body } from 'express-validator';
+import { NextFunction, Request, Response, Router } from 'express';
+import { body, param, query } from 'express-validator';
 import { ContentService } from '../services/contentService';
-import { authenticate, requireRole } from '../middleware/auth';
+import { RevisionService } from '../services/revisionService';
+import { PreviewService } from '../services/previewService';
+import { BULK_ACTIONS, BulkContentService } from '../services/bulkContentService';
+import { CONTENT_TYPE_SEGMENTS, CONTENT_TYPES, ContentTypeSegment } from '../services/contentTypes';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
 import { validate } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
-import { TrainingCategory, TrainingLevel, ProductStatus, KnowledgeCategory, CommunityPlatform } from '@prisma/client';
+import { NotFoundError } from '../utils/errors';
+import {
+  TrainingCategory,
+  TrainingLevel,
+  ProductStatus,
+  KnowledgeCategory,
+  CommunityPlatform,
+  PublicationStatus,
+} from '@prisma/client';
 import { prisma } from '../config/database';
+import config from '../config';
 
 const router = Router();
 
-// All admin routes require authentication and admin role
+/**
+ * Each content type has its own permissions: reads need content.<type>.read, anything else
+ * content.<type>.write. The type is the first path segment (/knowledge/:id, /knowledge/bulk, ...).
+ * Unknown types are left to the route validators, which reject them.
+ */
+const requireContentPermission = (req: Request, res: Response, next: NextFunction) => {
+  const segment = req.path.split('/')[1] as ContentTypeSegment;
+
+  if (!CONTENT_TYPE_SEGMENTS.includes(segment)) {
+    return next();
+  }
+
+  const access = req.method === 'GET' ? 'read' : 'write';
+  return requirePermission(`content.${segment}.${access}`)(req, res, next);
+};
+
+// All admin routes require authentication and a permission for the content type
 router.use(authenticate);
-router.use(requireRole('ADMIN', 'SUPER_ADMIN'));
+router.use(requireContentPermission);
+
+/**
+ * Publication workflow fields accepted on create and update (null clears a date)
+ */
+const publicationValidators = [
+  body('publicationStatus').optional().isIn(Object.values(PublicationStatus)).withMessage('Invalid publication status'),
+  body('publishAt').optional({ values: 'null' }).isISO8601().withMessage('publishAt must be an ISO 8601 date'),
+  body('unpublishAt').optional({ values: 'null' }).isISO8601().withMessage('unpublishAt must be an ISO 8601 date'),
+];
+
+const publicationStatusFilter = query('publicationStatus')
+  .optional()
+  .isIn(Object.values(PublicationStatus))
+  .withMessage('Invalid publication status');
+
+const publicationStatusFromQuery = (req: Request) =>
+  req.query.publicationStatus ? { publicationStatus: req.query.publicationStatus as PublicationStatus } : {};
+
+/**
+ * Snapshot of the item being changed, for the audit trail's before/after diff
+ */
+const loadContent = (segment?: ContentTypeSegment) => (req: Request) =>
+  CONTENT_TYPES[segment ?? (req.params.type as ContentTypeSegment)]?.find(prisma, req.params.id);
+
+const contentResource = (req: Request) => req.params.type;
 
 /**
- * GET /api/admin/trainings
- * Get all trainings (including inactive) - admin only
+ * GET /api/admin/trainings?publicationStatus=
+ * Get all trainings (including inactive, excluding trashed) - admin only
  */
 router.get(
   '/trainings',
-  asyncHandler(async (_req, res) => {
+  validate([publicationStatusFilter]),
+  asyncHandler(async (req, res) => {
     // TODO: Implement getAllTrainings method in ContentService
     const trainings = await prisma.training.findMany({
+      where: { deletedAt: null, ...publicationStatusFromQuery(req) },
       orderBy: { displayOrder: 'asc' },
     });
 
@@ -45,6 +102,7 @@ router.get(
  */
 router.post(
   '/trainings',
+  audit({ action: 'CONTENT_CREATE', resource: 'trainings', captureResponse: true }),
   validate([
     body('title').notEmpty().withMessage('Title is required'),
     body('description').notEmpty().withMessage('Description is required'),
@@ -56,6 +114,7 @@ router.post(
     body('featured').optional().isBoolean(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const training = await ContentService.createTraining(req.body);
@@ -73,6 +132,7 @@ router.post(
  */
 router.put(
   '/trainings/:id',
+  audit({ action: 'CONTENT_UPDATE', resource: 'trainings', load: loadContent('trainings'), captureResponse: true }),
   validate([
     body('title').optional().notEmpty(),
     body('description').optional().notEmpty(),
@@ -84,10 +144,11 @@ router.put(
     body('featured').optional().isBoolean(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const training = await ContentService.updateTraining(id, req.body);
+    const training = await ContentService.updateTraining(id, req.body, req.user?.id);
 
     return res.json({
       success: true,
@@ -98,13 +159,14 @@ router.put(
 
 /**
  * DELETE /api/admin/trainings/:id
- * Delete training (soft delete) - admin only
+ * Delete training (moves it to the trash) - admin only
  */
 router.delete(
   '/trainings/:id',
+  audit({ action: 'CONTENT_DELETE', resource: 'trainings', load: loadContent('trainings') }),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    await ContentService.deleteTraining(id);
+    await ContentService.deleteTraining(id, req.user?.id);
 
     return res.json({
       success: true,
@@ -116,13 +178,15 @@ router.delete(
 // ===== TOOLS =====
 
 /**
- * GET /api/admin/tools
- * Get all tools (including inactive) - admin only
+ * GET /api/admin/tools?publicationStatus=
+ * Get all tools (including inactive, excluding trashed) - admin only
  */
 router.get(
   '/tools',
-  asyncHandler(async (_req, res) => {
+  validate([publicationStatusFilter]),
+  asyncHandler(async (req, res) => {
     const tools = await prisma.tool.findMany({
+      where: { deletedAt: null, ...publicationStatusFromQuery(req) },
       orderBy: { displayOrder: 'asc' },
     });
 
@@ -139,6 +203,7 @@ router.get(
  */
 router.post(
   '/tools',
+  audit({ action: 'CONTENT_CREATE', resource: 'tools', captureResponse: true }),
   validate([
     body('title').notEmpty().withMessage('Title is required'),
     body('description').notEmpty().withMessage('Description is required'),
@@ -149,6 +214,7 @@ router.post(
     body('featured').optional().isBoolean(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const tool = await ContentService.createTool(req.body);
@@ -166,6 +232,7 @@ router.post(
  */
 router.put(
   '/tools/:id',
+  audit({ action: 'CONTENT_UPDATE', resource: 'tools', load: loadContent('tools'), captureResponse: true }),
   validate([
     body('title').optional().notEmpty(),
     body('description').optional().notEmpty(),
@@ -176,10 +243,11 @@ router.put(
     body('featured').optional().isBoolean(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const tool = await ContentService.updateTool(id, req.body);
+    const tool = await ContentService.updateTool(id, req.body, req.user?.id);
 
     return res.json({
       success: true,
@@ -190,13 +258,14 @@ router.put(
 
 /**
  * DELETE /api/admin/tools/:id
- * Delete tool (soft delete) - admin only
+ * Delete tool (moves it to the trash) - admin only
  */
 router.delete(
   '/tools/:id',
+  audit({ action: 'CONTENT_DELETE', resource: 'tools', load: loadContent('tools') }),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    await ContentService.deleteTool(id);
+    await ContentService.deleteTool(id, req.user?.id);
 
     return res.json({
       success: true,
@@ -208,13 +277,15 @@ router.delete(
 // ===== PRODUCTS =====
 
 /**
- * GET /api/admin/products
- * Get all products (including inactive) - admin only
+ * GET /api/admin/products?publicationStatus=
+ * Get all products (including inactive, excluding trashed) - admin only
  */
 router.get(
   '/products',
-  asyncHandler(async (_req, res) => {
+  validate([publicationStatusFilter]),
+  asyncHandler(async (req, res) => {
     const products = await prisma.product.findMany({
+      where: { deletedAt: null, ...publicationStatusFromQuery(req) },
       orderBy: { displayOrder: 'asc' },
     });
 
@@ -231,6 +302,7 @@ router.get(
  */
 router.post(
   '/products',
+  audit({ action: 'CONTENT_CREATE', resource: 'products', captureResponse: true }),
   validate([
     body('title').notEmpty().withMessage('Title is required'),
     body('description').notEmpty().withMessage('Description is required'),
@@ -241,6 +313,7 @@ router.post(
     body('featured').optional().isBoolean(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const product = await ContentService.createProduct(req.body);
@@ -258,6 +331,7 @@ router.post(
  */
 router.put(
   '/products/:id',
+  audit({ action: 'CONTENT_UPDATE', resource: 'products', load: loadContent('products'), captureResponse: true }),
   validate([
     body('title').optional().notEmpty(),
     body('description').optional().notEmpty(),
@@ -268,10 +342,11 @@ router.put(
     body('featured').optional().isBoolean(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const product = await ContentService.updateProduct(id, req.body);
+    const product = await ContentService.updateProduct(id, req.body, req.user?.id);
 
     return res.json({
       success: true,
@@ -282,13 +357,14 @@ router.put(
 
 /**
  * DELETE /api/admin/products/:id
- * Delete product (soft delete) - admin only
+ * Delete product (moves it to the trash) - admin only
  */
 router.delete(
   '/products/:id',
+  audit({ action: 'CONTENT_DELETE', resource: 'products', load: loadContent('products') }),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    await ContentService.deleteProduct(id);
+    await ContentService.deleteProduct(id, req.user?.id);
 
     return res.json({
       success: true,
@@ -300,13 +376,15 @@ router.delete(
 // ===== KNOWLEDGE ARTICLES =====
 
 /**
- * GET /api/admin/knowledge
- * Get all knowledge articles (including inactive) - admin only
+ * GET /api/admin/knowledge?publicationStatus=
+ * Get all knowledge articles (including inactive, excluding trashed) - admin only
  */
 router.get(
   '/knowledge',
-  asyncHandler(async (_req, res) => {
+  validate([publicationStatusFilter]),
+  asyncHandler(async (req, res) => {
     const articles = await prisma.knowledgeArticle.findMany({
+      where: { deletedAt: null, ...publicationStatusFromQuery(req) },
       orderBy: { displayOrder: 'asc' },
     });
 
@@ -323,16 +401,19 @@ router.get(
  */
 router.post(
   '/knowledge',
+  audit({ action: 'CONTENT_CREATE', resource: 'knowledge', captureResponse: true }),
   validate([
     body('title').notEmpty().withMessage('Title is required'),
     body('description').notEmpty().withMessage('Description is required'),
     body('content').notEmpty().withMessage('Content is required'),
     body('category').isIn(Object.values(KnowledgeCategory)).withMessage('Invalid knowledge category'),
+    body('slug').optional().isSlug().withMessage('Slug may only contain lowercase letters, numbers and hyphens'),
     body('readTime').optional().isInt({ min: 0 }),
     body('externalLink').optional().isURL(),
     body('featured').optional().isBoolean(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const article = await ContentService.createKnowledgeArticle(req.body);
@@ -350,6 +431,7 @@ router.post(
  */
 router.put(
   '/knowledge/:id',
+  audit({ action: 'CONTENT_UPDATE', resource: 'knowledge', load: loadContent('knowledge'), captureResponse: true }),
   validate([
     body('title').optional().notEmpty(),
     body('description').optional().notEmpty(),
@@ -360,10 +442,11 @@ router.put(
     body('featured').optional().isBoolean(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const article = await ContentService.updateKnowledgeArticle(id, req.body);
+    const article = await ContentService.updateKnowledgeArticle(id, req.body, req.user?.id);
 
     return res.json({
       success: true,
@@ -374,13 +457,14 @@ router.put(
 
 /**
  * DELETE /api/admin/knowledge/:id
- * Delete knowledge article (soft delete) - admin only
+ * Delete knowledge article (moves it to the trash) - admin only
  */
 router.delete(
   '/knowledge/:id',
+  audit({ action: 'CONTENT_DELETE', resource: 'knowledge', load: loadContent('knowledge') }),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    await ContentService.deleteKnowledgeArticle(id);
+    await ContentService.deleteKnowledgeArticle(id, req.user?.id);
 
     return res.json({
       success: true,
@@ -392,13 +476,15 @@ router.delete(
 // ===== COMMUNITY LINKS =====
 
 /**
- * GET /api/admin/community
- * Get all community links (including inactive) - admin only
+ * GET /api/admin/community?publicationStatus=
+ * Get all community links (including inactive, excluding trashed) - admin only
  */
 router.get(
   '/community',
-  asyncHandler(async (_req, res) => {
+  validate([publicationStatusFilter]),
+  asyncHandler(async (req, res) => {
     const links = await prisma.communityLink.findMany({
+      where: { deletedAt: null, ...publicationStatusFromQuery(req) },
       orderBy: { displayOrder: 'asc' },
     });
 
@@ -415,6 +501,7 @@ router.get(
  */
 router.post(
   '/community',
+  audit({ action: 'CONTENT_CREATE', resource: 'community', captureResponse: true }),
   validate([
     body('platform').isIn(Object.values(CommunityPlatform)).withMessage('Invalid community platform'),
     body('title').notEmpty().withMessage('Title is required'),
@@ -422,6 +509,7 @@ router.post(
     body('description').optional().isString(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const link = await ContentService.createCommunityLink(req.body);
@@ -439,6 +527,7 @@ router.post(
  */
 router.put(
   '/community/:id',
+  audit({ action: 'CONTENT_UPDATE', resource: 'community', load: loadContent('community'), captureResponse: true }),
   validate([
     body('platform').optional().isIn(Object.values(CommunityPlatform)),
     body('title').optional().notEmpty(),
@@ -446,10 +535,11 @@ router.put(
     body('description').optional().isString(),
     body('isActive').optional().isBoolean(),
     body('displayOrder').optional().isInt({ min: 0 }),
+    ...publicationValidators,
   ]),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const link = await ContentService.updateCommunityLink(id, req.body);
+    const link = await ContentService.updateCommunityLink(id, req.body, req.user?.id);
 
     return res.json({
       success: true,
@@ -460,13 +550,14 @@ router.put(
 
 /**
  * DELETE /api/admin/community/:id
- * Delete community link (soft delete) - admin only
+ * Delete community link (moves it to the trash) - admin only
  */
 router.delete(
   '/community/:id',
+  audit({ action: 'CONTENT_DELETE', resource: 'community', load: loadContent('community') }),
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    await ContentService.deleteCommunityLink(id);
+    await ContentService.deleteCommunityLink(id, req.user?.id);
 
     return res.json({
       success: true,
@@ -475,5 +566,156 @@ router.delete(
   })
 );
 
+// ===== ANY CONTENT TYPE =====
+
+const contentParams = [
+  param('type').isIn(CONTENT_TYPE_SEGMENTS).withMessage('Invalid content type'),
+  param('id').isUUID().withMessage('Invalid id'),
+];
+
+/**
+ * POST /api/admin/:type/bulk
+ * Apply one action to many items in a single transaction, with a result per item - admin only
+ */
+router.post(
+  '/:type/bulk',
+  audit({ action: 'CONTENT_BULK', resource: contentResource }),
+  validate([
+    param('type').isIn(CONTENT_TYPE_SEGMENTS).withMessage('Invalid content type'),
+    body('ids').isArray({ min: 1, max: 100 }).withMessage('ids must be a list of 1 to 100 ids'),
+    body('ids.*').isUUID().withMessage('Invalid id'),
+    body('action').isIn(BULK_ACTIONS).withMessage(`action must be one of: ${BULK_ACTIONS.join(', ')}`),
+    body('category').optional().isString().withMessage('category must be a string'),
+    body('displayOrder').optional().isInt().withMessage('displayOrder must be an integer'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const result = await BulkContentService.apply(
+      req.params.type as ContentTypeSegment,
+      {
+        ids: req.body.ids,
+        action: req.body.action,
+        category: req.body.category,
+        displayOrder: req.body.displayOrder !== undefined ? Number(req.body.displayOrder) : undefined,
+      },
+      req.user?.id
+    );
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * GET /api/admin/:type/:id
+ * Get a content item whatever its publication status (drafts, scheduled, inactive) - admin only
+ */
+router.get(
+  '/:type/:id',
+  validate(contentParams),
+  asyncHandler(async (req, res) => {
+    const { type, id } = req.params;
+    const definition = CONTENT_TYPES[type as ContentTypeSegment];
+    const item = await definition.find(prisma, id);
+
+    if (!item || item.deletedAt) {
+      throw new NotFoundError(`${definition.label} not found`);
+    }
+
+    return res.json({
+      success: true,
+      data: item,
+    });
+  })
+);
+
+/**
+ * POST /api/admin/:type/:id/preview-token
+ * Issue a signed, expiring link token for previewing the item on the public site - admin only
+ */
+router.post(
+  '/:type/:id/preview-token',
+  audit({ action: 'CONTENT_PREVIEW_LINK', resource: contentResource }),
+  validate([
+    ...contentParams,
+    body('ttlHours')
+      .optional()
+      .isInt({ min: 1, max: config.preview.maxTtlHours })
+      .withMessage(`ttlHours must be between 1 and ${config.preview.maxTtlHours}`),
+  ]),
+  asyncHandler(async (req, res) => {
+    const { type, id } = req.params;
+    const preview = await PreviewService.issueToken(
+      type as ContentTypeSegment,
+      id,
+      req.user?.id,
+      req.body.ttlHours !== undefined ? Number(req.body.ttlHours) : undefined
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: preview,
+    });
+  })
+);
+
+// ===== REVISIONS =====
+
+/**
+ * GET /api/admin/:type/:id/revisions
+ * List stored revisions of a content item, newest first - admin only
+ */
+router.get(
+  '/:type/:id/revisions',
+  validate(contentParams),
+  asyncHandler(async (req, res) => {
+    const { type, id } = req.params;
+    const revisions = await RevisionService.listRevisions(type as ContentTypeSegment, id);
+
+    return res.json({
+      success: true,
+      data: revisions,
+    });
+  })
+);
+
+/**
+ * GET /api/admin/:type/:id/revisions/:revId/diff
+ * Field-level diff between a revision and the current version - admin only
+ */
+router.get(
+  '/:type/:id/revisions/:revId/diff',
+  validate([...contentParams, param('revId').isUUID().withMessage('Invalid revision id')]),
+  asyncHandler(async (req, res) => {
+    const { type, id, revId } = req.params;
+    const diff = await RevisionService.diffRevision(type as ContentTypeSegment, id, revId);
+
+    return res.json({
+      success: true,
+      data: diff,
+    });
+  })
+);
+
+/**
+ * POST /api/admin/:type/:id/revisions/:revId/restore
+ * Restore a content item to a revision - admin only
+ */
+router.post(
+  '/:type/:id/revisions/:revId/restore',
+  audit({ action: 'CONTENT_REVISION_RESTORE', resource: contentResource, load: loadContent(), captureResponse: true }),
+  validate([...contentParams, param('revId').isUUID().withMessage('Invalid revision id')]),
+  asyncHandler(async (req, res) => {
+    const { type, id, revId } = req.params;
+    const restored = await RevisionService.restoreRevision(type as ContentTypeSegment, id, revId, req.user?.id);
+
+    return res.json({
+      success: true,
+      data: restored,
+    });
+  })
+);
+
 export default router;
 
@@ -0,0 +1,99 @@
+/**
+ * Admin Job Routes
+ *
+ * Status of the background job queue (GDPR exports and deletions): what is pending,
+ * running, done or dead-lettered, with attempts and the last error. Reading requires
+ * jobs.read; retrying a dead job requires jobs.manage.
+ */
+
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { JobStatus } from '@prisma/client';
+import { JobQueue } from '../services/jobQueue';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+import { prisma } from '../config/database';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requirePermission('jobs.read'));
+
+const jobParams = [param('id').isUUID().withMessage('Invalid id')];
+
+/**
+ * GET /api/admin/jobs?status=&type=&limit=&offset=
+ * Jobs, newest first, with a count per status
+ */
+router.get(
+  '/',
+  validate([
+    query('status').optional().isIn(Object.values(JobStatus)).withMessage('Invalid status'),
+    query('type').optional().isString(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100'),
+    query('offset').optional().isInt({ min: 0 }).withMessage('offset must be a positive integer'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    const { jobs, total, counts } = await JobQueue.list({
+      status: req.query.status as JobStatus | undefined,
+      type: req.query.type as string | undefined,
+      limit,
+      offset,
+    });
+
+    return res.json({
+      success: true,
+      data: jobs,
+      meta: { total, limit, offset, counts },
+    });
+  })
+);
+
+/**
+ * GET /api/admin/jobs/:id
+ */
+router.get(
+  '/:id',
+  validate(jobParams),
+  asyncHandler(async (req, res) => {
+    const job = await JobQueue.get(req.params.id);
+
+    return res.json({
+      success: true,
+      data: job,
+    });
+  })
+);
+
+/**
+ * POST /api/admin/jobs/:id/retry
+ * Requeue a dead-lettered job with a fresh set of attempts
+ */
+router.post(
+  '/:id/retry',
+  audit({
+    action: 'JOB_RETRIED',
+    resource: 'jobs',
+    load: (req) => prisma.job.findUnique({ where: { id: req.params.id } }),
+    captureResponse: true,
+    fields: ['status', 'attempts', 'lastError'],
+  }),
+  requirePermission('jobs.manage'),
+  validate(jobParams),
+  asyncHandler(async (req, res) => {
+    const job = await JobQueue.retry(req.params.id);
+
+    return res.json({
+      success: true,
+      data: job,
+      message: 'Job queued for retry',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,162 @@
+/**
+ * Admin Legal Routes
+ *
+ * Versions of the terms of service and privacy policy. Reading requires legal.read;
+ * creating, editing and deleting upcoming versions requires legal.manage.
+ */
+
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { LegalDocumentType } from '@prisma/client';
+import { LegalService } from '../services/legalService';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+import { prisma } from '../config/database';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requirePermission('legal.read'));
+
+const documentParams = [param('id').isUUID().withMessage('Invalid id')];
+
+const loadDocument = (req: { params: Record<string, string> }) =>
+  prisma.legalDocument.findUnique({ where: { id: req.params.id } });
+
+const AUDITED_FIELDS = ['type', 'version', 'title', 'summary', 'effectiveAt'];
+
+/**
+ * GET /api/admin/legal?type=
+ * Every version, newest first
+ */
+router.get(
+  '/',
+  validate([query('type').optional().isIn(Object.values(LegalDocumentType)).withMessage('Invalid type')]),
+  asyncHandler(async (req, res) => {
+    const documents = await LegalService.list(req.query.type as LegalDocumentType | undefined);
+
+    return res.json({
+      success: true,
+      data: documents,
+    });
+  })
+);
+
+/**
+ * GET /api/admin/legal/:id
+ */
+router.get(
+  '/:id',
+  validate(documentParams),
+  asyncHandler(async (req, res) => {
+    const document = await LegalService.get(req.params.id);
+
+    return res.json({
+      success: true,
+      data: document,
+    });
+  })
+);
+
+/**
+ * POST /api/admin/legal
+ * Publish a new version, in effect from effectiveAt
+ */
+router.post(
+  '/',
+  audit({
+    action: 'LEGAL_DOCUMENT_CREATED',
+    resource: 'legal_documents',
+    captureResponse: true,
+    fields: AUDITED_FIELDS,
+  }),
+  requirePermission('legal.manage'),
+  validate([
+    body('type').isIn(Object.values(LegalDocumentType)).withMessage('Invalid type'),
+    body('version').isString().trim().isLength({ min: 1, max: 20 }).withMessage('Version is required'),
+    body('title').isString().trim().notEmpty().withMessage('Title is required'),
+    body('body').isString().notEmpty().withMessage('Body is required'),
+    body('summary').optional({ nullable: true }).isString(),
+    body('effectiveAt').isISO8601().withMessage('Effective date must be a valid date'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const document = await LegalService.create({
+      type: req.body.type,
+      version: req.body.version,
+      title: req.body.title,
+      body: req.body.body,
+      summary: req.body.summary,
+      effectiveAt: new Date(req.body.effectiveAt),
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: document,
+      message: 'Document created successfully',
+    });
+  })
+);
+
+/**
+ * PUT /api/admin/legal/:id
+ * Edit a version that has not taken effect yet
+ */
+router.put(
+  '/:id',
+  audit({
+    action: 'LEGAL_DOCUMENT_UPDATED',
+    resource: 'legal_documents',
+    load: loadDocument,
+    captureResponse: true,
+    fields: AUDITED_FIELDS,
+  }),
+  requirePermission('legal.manage'),
+  validate([
+    ...documentParams,
+    body('type').optional().isIn(Object.values(LegalDocumentType)).withMessage('Invalid type'),
+    body('version').optional().isString().trim().isLength({ min: 1, max: 20 }),
+    body('title').optional().isString().trim().notEmpty(),
+    body('body').optional().isString().notEmpty(),
+    body('summary').optional({ nullable: true }).isString(),
+    body('effectiveAt').optional().isISO8601().withMessage('Effective date must be a valid date'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const document = await LegalService.update(req.params.id, {
+      type: req.body.type,
+      version: req.body.version,
+      title: req.body.title,
+      body: req.body.body,
+      summary: req.body.summary,
+      effectiveAt: req.body.effectiveAt ? new Date(req.body.effectiveAt) : undefined,
+    });
+
+    return res.json({
+      success: true,
+      data: document,
+      message: 'Document updated successfully',
+    });
+  })
+);
+
+/**
+ * DELETE /api/admin/legal/:id
+ * Delete a version that has not taken effect yet
+ */
+router.delete(
+  '/:id',
+  audit({ action: 'LEGAL_DOCUMENT_DELETED', resource: 'legal_documents', load: loadDocument, fields: AUDITED_FIELDS }),
+  requirePermission('legal.manage'),
+  validate(documentParams),
+  asyncHandler(async (req, res) => {
+    await LegalService.delete(req.params.id);
+
+    return res.json({
+      success: true,
+      message: 'Document deleted successfully',
+    });
+  })
+);
+
+export default router;
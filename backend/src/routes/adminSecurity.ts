@@ -0,0 +1,63 @@
+/**
+ * Admin Security Routes
+ *
+ * Account security policy, such as requiring two-factor authentication for admins.
+ * Requires security.manage, which by default only super admins hold.
+ */
+
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { TwoFactorService } from '../services/twoFactorService';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requirePermission('security.manage'));
+
+/**
+ * GET /api/admin/security/policy
+ * Current security policy
+ */
+router.get(
+  '/policy',
+  asyncHandler(async (_req, res) => {
+    const policy = await TwoFactorService.getPolicy();
+
+    return res.json({
+      success: true,
+      data: policy,
+    });
+  })
+);
+
+/**
+ * PUT /api/admin/security/policy
+ * Require (or stop requiring) 2FA for ADMIN and SUPER_ADMIN accounts
+ */
+router.put(
+  '/policy',
+  validate([body('requireAdminTwoFactor').isBoolean().withMessage('requireAdminTwoFactor must be true or false')]),
+  audit({
+    action: 'SECURITY_POLICY_UPDATED',
+    resource: 'security_policies',
+    load: () => TwoFactorService.getPolicy(),
+    captureResponse: true,
+    fields: ['requireAdminTwoFactor'],
+  }),
+  asyncHandler(async (req, res) => {
+    const requireAdminTwoFactor = req.body.requireAdminTwoFactor === true || req.body.requireAdminTwoFactor === 'true';
+    const policy = await TwoFactorService.updatePolicy(req.user!.id, requireAdminTwoFactor);
+
+    return res.json({
+      success: true,
+      data: policy,
+      message: requireAdminTwoFactor ? 'Two-factor authentication is now required for admins' : 'Policy updated',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,128 @@
+/**
+ * Admin Spam Routes
+ *
+ * Review queue for contact submissions and newsletter sign-ups flagged by the spam checks.
+ * False positives are released (the notification or confirmation email is sent then);
+ * confirmed spam is deleted. Requires spam.review.
+ */
+
+import { Request, Router } from 'express';
+import { param, query } from 'express-validator';
+import { ContactService } from '../services/contactService';
+import { NewsletterService } from '../services/newsletterService';
+import { SPAM_FORMS, SpamForm } from '../services/spamService';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+import { prisma } from '../config/database';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requirePermission('spam.review'));
+
+const RESOURCES: Record<SpamForm, string> = {
+  contact: 'contact_submissions',
+  newsletter: 'newsletter_subscriptions',
+};
+
+const spamParams = [
+  param('type').isIn(SPAM_FORMS).withMessage('Invalid type'),
+  param('id').isUUID().withMessage('Invalid id'),
+];
+
+// Snapshot of the flagged item for the audit trail
+const loadFlagged = (req: Request) =>
+  req.params.type === 'contact'
+    ? prisma.contactSubmission.findUnique({ where: { id: req.params.id } })
+    : prisma.newsletterSubscription.findUnique({ where: { id: req.params.id } });
+
+/**
+ * GET /api/admin/spam?type=contact|newsletter&limit=&offset=
+ * Flagged submissions of one type, newest first
+ */
+router.get(
+  '/',
+  validate([
+    query('type').optional().isIn(SPAM_FORMS).withMessage('Invalid type'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100'),
+    query('offset').optional().isInt({ min: 0 }).withMessage('offset must be a positive integer'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const type = (req.query.type as SpamForm | undefined) ?? 'contact';
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    const { items, total } =
+      type === 'contact'
+        ? await ContactService.listSubmissions({ status: 'SPAM', limit, offset }).then(
+            ({ submissions, total }) => ({ items: submissions, total })
+          )
+        : await NewsletterService.listFlagged({ limit, offset }).then(
+            ({ subscriptions, total }) => ({ items: subscriptions, total })
+          );
+
+    return res.json({
+      success: true,
+      data: items,
+      meta: { type, total, limit, offset },
+    });
+  })
+);
+
+/**
+ * POST /api/admin/spam/:type/:id/release
+ * Release a false positive
+ */
+router.post(
+  '/:type/:id/release',
+  audit({
+    action: 'SPAM_RELEASED',
+    resource: (req) => RESOURCES[req.params.type as SpamForm] ?? req.params.type,
+    load: loadFlagged,
+    captureResponse: true,
+    fields: ['status', 'spamReasons', 'isActive'],
+  }),
+  validate(spamParams),
+  asyncHandler(async (req, res) => {
+    const { type, id } = req.params;
+    const item =
+      type === 'contact' ? await ContactService.releaseSpam(id) : await NewsletterService.releaseSpam(id);
+
+    return res.json({
+      success: true,
+      data: item,
+      message: 'Released from the spam queue',
+    });
+  })
+);
+
+/**
+ * DELETE /api/admin/spam/:type/:id
+ * Delete confirmed spam
+ */
+router.delete(
+  '/:type/:id',
+  audit({
+    action: 'SPAM_DELETED',
+    resource: (req) => RESOURCES[req.params.type as SpamForm] ?? req.params.type,
+    load: loadFlagged,
+  }),
+  validate(spamParams),
+  asyncHandler(async (req, res) => {
+    const { type, id } = req.params;
+    if (type === 'contact') {
+      await ContactService.deleteSpam(id);
+    } else {
+      await NewsletterService.deleteSpam(id);
+    }
+
+    return res.json({
+      success: true,
+      message: 'Spam deleted',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,96 @@
+/**
+ * Admin Trash Routes
+ *
+ * Deleted content waits here until it is restored or purged.
+ * Viewing needs content.trash.read; restoring or purging needs content.trash.manage,
+ * which by default only super admins hold.
+ */
+
+import { Request, Router } from 'express';
+import { param, query } from 'express-validator';
+import { TrashService } from '../services/trashService';
+import { CONTENT_TYPE_SEGMENTS, CONTENT_TYPES, ContentTypeSegment } from '../services/contentTypes';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+import { prisma } from '../config/database';
+import config from '../config';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requirePermission('content.trash.read'));
+
+const trashParams = [
+  param('type').isIn(CONTENT_TYPE_SEGMENTS).withMessage('Invalid content type'),
+  param('id').isUUID().withMessage('Invalid id'),
+];
+
+// Snapshot of the trashed item for the audit trail
+const loadTrashed = (req: Request) => CONTENT_TYPES[req.params.type as ContentTypeSegment]?.find(prisma, req.params.id);
+
+/**
+ * GET /api/admin/trash?type=
+ * List trashed content, most recently deleted first - requires content.trash.read
+ */
+router.get(
+  '/',
+  validate([query('type').optional().isIn(CONTENT_TYPE_SEGMENTS).withMessage('Invalid content type')]),
+  asyncHandler(async (req, res) => {
+    const items = await TrashService.listTrash(req.query.type as ContentTypeSegment | undefined);
+
+    return res.json({
+      success: true,
+      data: items,
+      meta: { retentionDays: config.trash.retentionDays },
+    });
+  })
+);
+
+/**
+ * POST /api/admin/trash/:type/:id/restore
+ * Restore a trashed item - requires content.trash.manage
+ */
+router.post(
+  '/:type/:id/restore',
+  audit({
+    action: 'CONTENT_TRASH_RESTORE',
+    resource: (req) => req.params.type,
+    load: loadTrashed,
+    captureResponse: true,
+  }),
+  requirePermission('content.trash.manage'),
+  validate(trashParams),
+  asyncHandler(async (req, res) => {
+    const { type, id } = req.params;
+    const item = await TrashService.restore(type as ContentTypeSegment, id, req.user?.id);
+
+    return res.json({
+      success: true,
+      data: item,
+    });
+  })
+);
+
+/**
+ * DELETE /api/admin/trash/:type/:id
+ * Permanently delete a trashed item - requires content.trash.manage
+ */
+router.delete(
+  '/:type/:id',
+  audit({ action: 'CONTENT_TRASH_PURGE', resource: (req) => req.params.type, load: loadTrashed }),
+  requirePermission('content.trash.manage'),
+  validate(trashParams),
+  asyncHandler(async (req, res) => {
+    const { type, id } = req.params;
+    await TrashService.purge(type as ContentTypeSegment, id, req.user?.id);
+
+    return res.json({
+      success: true,
+      message: 'Item permanently deleted',
+    });
+  })
+);
+
+export default router;
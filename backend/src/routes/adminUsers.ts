@@ -0,0 +1,207 @@
+/**
+ * Admin User Routes
+ *
+ * User management console: search and inspect accounts, deactivate them,
+ * force a logout and lift a lockout. Actions follow the role hierarchy (see UserAdminService).
+ */
+
+import { Request, Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { Role } from '@prisma/client';
+import { UserAdminService, UserActor } from '../services/userAdminService';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+import { prisma } from '../config/database';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requirePermission('users.read'));
+
+const DEFAULT_LIMIT = 20;
+
+const userIdParam = param('id').isUUID().withMessage('Invalid user id');
+
+const actorFrom = (req: Request): UserActor => ({ id: req.user!.id, role: req.user!.role as Role });
+
+/**
+ * GET /api/admin/users?search=&role=&isActive=&limit=&offset=
+ * Search users, newest first - requires users.read
+ */
+router.get(
+  '/',
+  validate([
+    query('search').optional().isString().trim(),
+    query('role').optional().isIn(Object.values(Role)).withMessage('Invalid role'),
+    query('isActive').optional().isBoolean().withMessage('isActive must be true or false'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100'),
+    query('offset').optional().isInt({ min: 0 }).withMessage('offset must be a positive integer'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_LIMIT;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    const { users, total } = await UserAdminService.list(actorFrom(req), {
+      search: (req.query.search as string) || undefined,
+      role: req.query.role as Role | undefined,
+      isActive: req.query.isActive === undefined ? undefined : req.query.isActive === 'true',
+      limit,
+      offset,
+    });
+
+    return res.json({
+      success: true,
+      data: users,
+      meta: { total, limit, offset },
+    });
+  })
+);
+
+/**
+ * GET /api/admin/users/:id
+ * Get one user - requires users.read
+ */
+router.get(
+  '/:id',
+  validate([userIdParam]),
+  asyncHandler(async (req, res) => {
+    const user = await UserAdminService.get(actorFrom(req), req.params.id);
+
+    return res.json({
+      success: true,
+      data: user,
+    });
+  })
+);
+
+/**
+ * PATCH /api/admin/users/:id/status
+ * Activate or deactivate an account - requires users.manage, and only for users below the admin's role
+ */
+router.patch(
+  '/:id/status',
+  validate([userIdParam, body('isActive').isBoolean().withMessage('isActive must be true or false')]),
+  audit({
+    action: 'USER_STATUS_CHANGED',
+    resource: 'users',
+    load: (req) => prisma.user.findUnique({ where: { id: req.params.id }, select: { isActive: true } }),
+    captureResponse: true,
+    fields: ['isActive'],
+  }),
+  requirePermission('users.manage'),
+  asyncHandler(async (req, res) => {
+    const isActive = req.body.isActive === true || req.body.isActive === 'true';
+    const user = await UserAdminService.setActive(actorFrom(req), req.params.id, isActive);
+
+    return res.json({
+      success: true,
+      data: user,
+      message: isActive ? 'User activated' : 'User deactivated and logged out',
+    });
+  })
+);
+
+/**
+ * POST /api/admin/users/:id/logout
+ * End every session of a user - requires users.manage, and only for users below the admin's role
+ */
+router.post(
+  '/:id/logout',
+  validate([userIdParam]),
+  audit({ action: 'USER_FORCE_LOGOUT', resource: 'users', captureResponse: true }),
+  requirePermission('users.manage'),
+  asyncHandler(async (req, res) => {
+    const result = await UserAdminService.forceLogout(actorFrom(req), req.params.id);
+
+    return res.json({
+      success: true,
+      data: result,
+      message: `Revoked ${result.revokedSessions} session(s)`,
+    });
+  })
+);
+
+/**
+ * POST /api/admin/users/:id/unlock
+ * Lift a lockout caused by failed logins - requires users.manage, and only for users below the admin's role
+ */
+router.post(
+  '/:id/unlock',
+  validate([userIdParam]),
+  audit({
+    action: 'ACCOUNT_UNLOCKED',
+    resource: 'users',
+    load: (req) =>
+      prisma.user.findUnique({
+        where: { id: req.params.id },
+        select: { failedLoginAttempts: true, lockedUntil: true },
+      }),
+    captureResponse: true,
+    fields: ['failedLoginAttempts', 'lockedUntil'],
+  }),
+  requirePermission('users.manage'),
+  asyncHandler(async (req, res) => {
+    const user = await UserAdminService.unlock(actorFrom(req), req.params.id);
+
+    return res.json({
+      success: true,
+      data: user,
+      message: 'User unlocked',
+    });
+  })
+);
+
+/**
+ * GET /api/admin/users/:id/sessions
+ * Active sessions of a user - requires users.read
+ */
+router.get(
+  '/:id/sessions',
+  validate([userIdParam]),
+  asyncHandler(async (req, res) => {
+    const sessions = await UserAdminService.listSessions(req.params.id);
+
+    return res.json({
+      success: true,
+      data: sessions,
+    });
+  })
+);
+
+/**
+ * GET /api/admin/users/:id/payments
+ * Payments made by a user - requires users.read
+ */
+router.get(
+  '/:id/payments',
+  validate([userIdParam]),
+  asyncHandler(async (req, res) => {
+    const payments = await UserAdminService.listPayments(req.params.id);
+
+    return res.json({
+      success: true,
+      data: payments,
+    });
+  })
+);
+
+/**
+ * GET /api/admin/users/:id/consents
+ * Consent records of a user - requires users.read
+ */
+router.get(
+  '/:id/consents',
+  validate([userIdParam]),
+  asyncHandler(async (req, res) => {
+    const consents = await UserAdminService.listConsents(req.params.id);
+
+    return res.json({
+      success: true,
+      data: consents,
+    });
+  })
+);
+
+export default router;
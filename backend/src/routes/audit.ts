@@ -1,66 +1,157 @@
-import { Router } from 'express';
+import { Request, Router } from 'express';
+import { query } from 'express-validator';
 import * as auditService from '../services/auditService';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { validate } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
+import { csvCell } from '../utils/csv';
+import logger from '../utils/logger';
 
 const router = Router();
 
-// All routes require authentication
+// All routes require audit.read: audit logs contain other users' IPs and activity
 router.use(authenticate);
+router.use(requirePermission('audit.read'));
+
+const filterValidators = [
+  query('startDate').optional().isISO8601().withMessage('startDate must be an ISO 8601 date'),
+  query('endDate').optional().isISO8601().withMessage('endDate must be an ISO 8601 date'),
+];
+
+/**
+ * Audit log filters from the query string
+ */
+const filtersFromQuery = (req: Request): auditService.AuditLogFilters => {
+  const { userId, userEmail, action, resource, resourceId, startDate, endDate } = req.query;
+
+  return {
+    userId: userId as string | undefined,
+    userEmail: userEmail as string | undefined,
+    action: action as string | undefined,
+    resource: resource as string | undefined,
+    resourceId: resourceId as string | undefined,
+    startDate: startDate ? new Date(startDate as string) : undefined,
+    endDate: endDate ? new Date(endDate as string) : undefined,
+  };
+};
 
 /**
- * GET /api/audit
- * Get audit logs with optional filters (admin only in production)
+ * GET /api/audit?userId=&userEmail=&action=&resource=&resourceId=&startDate=&endDate=&limit=&offset=
+ * Get audit logs with optional filters, newest first
  */
 router.get(
   '/',
+  validate([
+    ...filterValidators,
+    query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('limit must be between 1 and 200'),
+    query('offset').optional().isInt({ min: 0 }).withMessage('offset must be a positive integer'),
+  ]),
   asyncHandler(async (req, res) => {
-    const {
-      userId,
-      action,
-      resource,
-      resourceId,
-      startDate,
-      endDate,
-      limit,
-      offset,
-    } = req.query;
-
-    const logs = await auditService.getAuditLogs({
-      userId: userId as string | undefined,
-      action: action as string | undefined,
-      resource: resource as string | undefined,
-      resourceId: resourceId as string | undefined,
-      startDate: startDate ? new Date(startDate as string) : undefined,
-      endDate: endDate ? new Date(endDate as string) : undefined,
-      limit: limit ? parseInt(limit as string) : undefined,
-      offset: offset ? parseInt(offset as string) : undefined,
-    });
+    const filters = filtersFromQuery(req);
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    const [logs, total] = await Promise.all([
+      auditService.getAuditLogs({ ...filters, limit, offset }),
+      auditService.countAuditLogs(filters),
+    ]);
 
     return res.json({
       success: true,
       data: logs,
+      meta: { total, limit, offset },
     });
   })
 );
 
 /**
  * GET /api/audit/stats
- * Get audit log statistics (admin only in production)
+ * Get audit log statistics for the same filters as the list
  */
 router.get(
   '/stats',
+  validate(filterValidators),
   asyncHandler(async (req, res) => {
-    const { startDate, endDate } = req.query;
+    const stats = await auditService.getAuditStats(filtersFromQuery(req));
 
-    const stats = await auditService.getAuditStats({
-      startDate: startDate ? new Date(startDate as string) : undefined,
-      endDate: endDate ? new Date(endDate as string) : undefined,
+    return res.json({
+      success: true,
+      data: stats,
     });
+  })
+);
+
+const EXPORT_COLUMNS = [
+  'id',
+  'createdAt',
+  'userId',
+  'userEmail',
+  'action',
+  'resource',
+  'resourceId',
+  'ipAddress',
+  'userAgent',
+  'requestId',
+  'details',
+] as const;
+
+/**
+ * GET /api/audit/export?format=csv|ndjson&(list filters)
+ * Download every audit log matching the filters
+ */
+router.get(
+  '/export',
+  validate([
+    ...filterValidators,
+    query('format').optional().isIn(['csv', 'ndjson']).withMessage('format must be csv or ndjson'),
+  ]),
+  audit({ action: 'AUDIT_LOGS_EXPORTED', resource: 'audit_logs' }),
+  asyncHandler(async (req, res) => {
+    const format = (req.query.format as string) || 'csv';
+    const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'csv') {
+      res.write(`${EXPORT_COLUMNS.join(',')}\n`);
+    }
+
+    try {
+      for await (const log of auditService.iterateAuditLogs(filtersFromQuery(req))) {
+        const { user, ...entry } = log as typeof log & { user: { email: string } | null };
+        const row = { ...entry, userEmail: user?.email ?? null };
+
+        res.write(
+          format === 'csv'
+            ? `${EXPORT_COLUMNS.map((column) => csvCell(row[column])).join(',')}\n`
+            : `${JSON.stringify(row)}\n`
+        );
+      }
+    } catch (error: any) {
+      // Headers are already sent, so the error handler can't respond; cut the download short instead
+      logger.error('Audit log export failed', { error: error.message, requestId: (req as any).id });
+      res.destroy(error);
+      return;
+    }
+
+    res.end();
+  })
+);
+
+/**
+ * GET /api/audit/verify
+ * Walk the audit hash chain and report the first broken link, if any
+ */
+router.get(
+  '/verify',
+  asyncHandler(async (_req, res) => {
+    const report = await auditService.verifyAuditChain();
 
     return res.json({
       success: true,
-      data: stats,
+      data: report,
     });
   })
 );
@@ -142,6 +233,7 @@ router.get(
  */
 router.post(
   '/',
+  requirePermission('audit.manage'),
   asyncHandler(async (req, res) => {
     const { action, resource, resourceId, details, ipAddress, userAgent } = req.body;
 
@@ -153,6 +245,7 @@ router.post(
       details,
       ipAddress: ipAddress || req.ip,
       userAgent: userAgent || req.get('user-agent'),
+      requestId: (req as any).id,
     });
 
     return res.status(201).json({
@@ -164,10 +257,12 @@ router.post(
 
 /**
  * DELETE /api/audit/old/:days
- * Delete audit logs older than specified days (admin only in production)
+ * Delete audit logs older than specified days, leaving a signed checkpoint in their place
  */
 router.delete(
   '/old/:days',
+  audit({ action: 'AUDIT_LOGS_PRUNED', resource: 'audit_logs' }),
+  requirePermission('audit.manage'),
   asyncHandler(async (req, res) => {
     const days = parseInt(req.params.days);
 
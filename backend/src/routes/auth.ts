@@ -1,25 +1,102 @@
-import { Router } from 'express';
-import { body } from 'express-validator';
+import { Request, Response, Router } from 'express';
+import { body, param } from 'express-validator';
 import * as authService from '../services/authService';
+import * as gdprService from '../services/gdprService';
+import { SessionService } from '../services/sessionService';
 import { validate, validators } from '../middleware/validation';
-import { authenticate } from '../middleware/auth';
+import { authenticateAllowUnverified } from '../middleware/auth';
+import { audit } from '../middleware/audit';
 import { authLimiter } from '../middleware/security';
 import asyncHandler from '../utils/asyncHandler';
+import logger from '../utils/logger';
 import config from '../config';
 
 const router = Router();
 
+// Optional cookie banner choices made before signing in
+const consentValidators = [
+  body('consents').optional().isObject().withMessage('Invalid consents'),
+  body('consents.decidedAt').if(body('consents').exists()).isISO8601().withMessage('Invalid consent date'),
+];
+
+/**
+ * Carry the cookie banner choices sent with a login or registration over to the account.
+ * Failing to record them does not fail the sign-in.
+ */
+const mergeCookieConsents = async (req: Request, userId: string) => {
+  if (!req.body.consents) {
+    return;
+  }
+
+  try {
+    await gdprService.mergeConsents(userId, req.body.consents, req.ip, req.headers['user-agent']);
+  } catch (error: any) {
+    logger.error('Failed to merge cookie consents', { userId, error: error.message });
+  }
+};
+
+const setRefreshCookie = (res: Response, refreshToken: string) => {
+  res.cookie('refreshToken', refreshToken, {
+    httpOnly: config.cookie.httpOnly,
+    secure: config.cookie.secure,
+    sameSite: config.cookie.sameSite,
+    maxAge: config.cookie.maxAge,
+    domain: config.cookie.domain,
+  });
+};
+
+/**
+ * Respond to a login step: either the session (refresh token as HTTP-only cookie) or a 2FA challenge
+ */
+const sendLoginResult = (res: Response, result: authService.LoginResult) => {
+  if (result.twoFactorRequired) {
+    res.json({
+      success: true,
+      data: { twoFactorRequired: true, challengeToken: result.challengeToken },
+    });
+    return;
+  }
+
+  setRefreshCookie(res, result.refreshToken);
+
+  res.json({
+    success: true,
+    data: {
+      user: result.user,
+      accessToken: result.accessToken,
+      twoFactorSetupRequired: result.twoFactorSetupRequired,
+    },
+  });
+};
+
+const clearRefreshCookie = (res: Response) => {
+  res.clearCookie('refreshToken', {
+    httpOnly: config.cookie.httpOnly,
+    secure: config.cookie.secure,
+    sameSite: config.cookie.sameSite,
+    domain: config.cookie.domain,
+  });
+};
+
+// Id of the user an auth response is about (register and verify return the user, login wraps it)
+const responseUserId = (_context: unknown, data: unknown) => {
+  const record = data as { id?: string; user?: { id?: string } } | undefined;
+  return record?.user?.id ?? record?.id;
+};
+
 /**
  * POST /api/auth/register
  * Register a new user
  */
 router.post(
   '/register',
+  audit({ action: 'AUTH_REGISTER', resource: 'users', actor: responseUserId, resourceId: responseUserId }),
   authLimiter,
   validate([
     validators.email,
     validators.password,
     validators.name,
+    ...consentValidators,
   ]),
   asyncHandler(async (req, res) => {
     const { email, password, name } = req.body;
@@ -27,10 +104,14 @@ router.post(
     const userAgent = req.headers['user-agent'];
 
     const user = await authService.register(email, password, name, ipAddress, userAgent);
+    await mergeCookieConsents(req, user.id);
 
     res.status(201).json({
       success: true,
-      data: user,
+      data: {
+        ...user,
+        verificationRequired: config.features.emailVerification,
+      },
     });
   })
 );
@@ -41,48 +122,64 @@ router.post(
  */
 router.post(
   '/login',
+  audit({ action: 'AUTH_LOGIN', resource: 'users', actor: responseUserId, resourceId: responseUserId }),
   authLimiter,
   validate([
     validators.email,
     body('password').notEmpty().withMessage('Password is required'),
+    ...consentValidators,
   ]),
   asyncHandler(async (req, res) => {
     const { email, password } = req.body;
     const ipAddress = req.ip;
     const userAgent = req.headers['user-agent'];
 
-    const { user, accessToken, refreshToken } = await authService.login(
-      email,
-      password,
-      ipAddress,
-      userAgent
-    );
+    const result = await authService.login(email, password, ipAddress, userAgent);
+    if (!result.twoFactorRequired) {
+      await mergeCookieConsents(req, result.user.id);
+    }
 
-    // Set refresh token as HTTP-only cookie
-    res.cookie('refreshToken', refreshToken, {
-      httpOnly: config.cookie.httpOnly,
-      secure: config.cookie.secure,
-      sameSite: config.cookie.sameSite,
-      maxAge: config.cookie.maxAge,
-      domain: config.cookie.domain,
-    });
+    sendLoginResult(res, result);
+  })
+);
 
-    res.json({
-      success: true,
-      data: {
-        user,
-        accessToken,
-      },
-    });
+/**
+ * POST /api/auth/login/2fa
+ * Second login step for accounts with two-factor authentication
+ */
+router.post(
+  '/login/2fa',
+  audit({ action: 'AUTH_LOGIN_2FA', resource: 'users', actor: responseUserId, resourceId: responseUserId }),
+  authLimiter,
+  validate([
+    body('challengeToken').notEmpty().withMessage('Login challenge is required'),
+    body('code').isString().trim().notEmpty().withMessage('Authentication code is required'),
+    ...consentValidators,
+  ]),
+  asyncHandler(async (req, res) => {
+    const { challengeToken, code } = req.body;
+
+    const result = await authService.completeTwoFactorLogin(
+      challengeToken,
+      code,
+      req.ip,
+      req.headers['user-agent']
+    );
+    if (!result.twoFactorRequired) {
+      await mergeCookieConsents(req, result.user.id);
+    }
+
+    sendLoginResult(res, result);
   })
 );
 
 /**
  * POST /api/auth/refresh
- * Refresh access token using refresh token
+ * Refresh access token using refresh token; the refresh token cookie is rotated
  */
 router.post(
   '/refresh',
+  audit({ action: 'AUTH_REFRESH', resource: 'sessions' }),
   asyncHandler(async (req, res) => {
     const refreshToken = req.cookies.refreshToken;
 
@@ -94,11 +191,13 @@ router.post(
       return;
     }
 
-    const { accessToken } = await authService.refreshAccessToken(refreshToken);
+    const tokens = await authService.refreshAccessToken(refreshToken, req.ip, req.headers['user-agent']);
+
+    setRefreshCookie(res, tokens.refreshToken);
 
     res.json({
       success: true,
-      data: { accessToken },
+      data: { accessToken: tokens.accessToken },
     });
   })
 );
@@ -109,7 +208,8 @@ router.post(
  */
 router.post(
   '/logout',
-  authenticate,
+  authenticateAllowUnverified,
+  audit({ action: 'AUTH_LOGOUT', resource: 'sessions' }),
   asyncHandler(async (req, res) => {
     const refreshToken = req.cookies.refreshToken;
 
@@ -118,12 +218,7 @@ router.post(
     }
 
     // Clear refresh token cookie
-    res.clearCookie('refreshToken', {
-      httpOnly: config.cookie.httpOnly,
-      secure: config.cookie.secure,
-      sameSite: config.cookie.sameSite,
-      domain: config.cookie.domain,
-    });
+    clearRefreshCookie(res);
 
     res.json({
       success: true,
@@ -132,13 +227,156 @@ router.post(
   })
 );
 
+/**
+ * POST /api/auth/logout-all
+ * Log out of every device, including this one
+ */
+router.post(
+  '/logout-all',
+  authenticateAllowUnverified,
+  audit({ action: 'AUTH_LOGOUT_ALL', resource: 'sessions', captureResponse: true }),
+  asyncHandler(async (req, res) => {
+    const revokedSessions = await authService.logoutEverywhere(req.user!.id);
+
+    clearRefreshCookie(res);
+
+    res.json({
+      success: true,
+      data: { revokedSessions },
+      message: 'Logged out of all devices',
+    });
+  })
+);
+
+/**
+ * GET /api/auth/sessions
+ * Devices the current user is signed in on, flagging the one making the request
+ */
+router.get(
+  '/sessions',
+  authenticateAllowUnverified,
+  asyncHandler(async (req, res) => {
+    const sessions = await SessionService.list(req.user!.id, req.cookies.refreshToken);
+
+    res.json({
+      success: true,
+      data: sessions,
+    });
+  })
+);
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Sign one of the current user's devices out
+ */
+router.delete(
+  '/sessions/:id',
+  authenticateAllowUnverified,
+  audit({ action: 'AUTH_SESSION_REVOKED', resource: 'sessions' }),
+  validate([param('id').isUUID().withMessage('Invalid session id')]),
+  asyncHandler(async (req, res) => {
+    await SessionService.revoke(req.user!.id, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Session revoked',
+    });
+  })
+);
+
+/**
+ * POST /api/auth/forgot-password
+ * Send a password reset link (response never reveals whether the email exists)
+ */
+router.post(
+  '/forgot-password',
+  audit({ action: 'AUTH_PASSWORD_RESET_REQUESTED', resource: 'users' }),
+  authLimiter,
+  validate([validators.email]),
+  asyncHandler(async (req, res) => {
+    const { email } = req.body;
+
+    await authService.requestPasswordReset(email, req.ip, req.headers['user-agent']);
+
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent',
+    });
+  })
+);
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password using a reset token
+ */
+router.post(
+  '/reset-password',
+  audit({ action: 'AUTH_PASSWORD_RESET', resource: 'users' }),
+  authLimiter,
+  validate([
+    body('token').notEmpty().withMessage('Reset token is required'),
+    validators.password,
+  ]),
+  asyncHandler(async (req, res) => {
+    const { token, password } = req.body;
+
+    await authService.resetPassword(token, password, req.ip, req.headers['user-agent']);
+
+    res.json({
+      success: true,
+      message: 'Password has been reset. Please log in with your new password.',
+    });
+  })
+);
+
+/**
+ * GET /api/auth/verify-email/:token
+ * Confirm an email address using the token from the verification email
+ */
+router.get(
+  '/verify-email/:token',
+  audit({ action: 'AUTH_EMAIL_VERIFIED', resource: 'users', actor: responseUserId, resourceId: responseUserId }),
+  asyncHandler(async (req, res) => {
+    const user = await authService.verifyEmail(
+      req.params.token,
+      req.ip,
+      req.headers['user-agent']
+    );
+
+    res.json({
+      success: true,
+      data: user,
+      message: 'Email verified successfully',
+    });
+  })
+);
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a fresh verification link (response never reveals whether the email exists)
+ */
+router.post(
+  '/resend-verification',
+  audit({ action: 'AUTH_VERIFICATION_RESENT', resource: 'users' }),
+  authLimiter,
+  validate([validators.email]),
+  asyncHandler(async (req, res) => {
+    await authService.resendVerificationEmail(req.body.email);
+
+    res.json({
+      success: true,
+      message: 'If the account exists and is unverified, a new verification link has been sent',
+    });
+  })
+);
+
 /**
  * GET /api/auth/me
  * Get current user
  */
 router.get(
   '/me',
-  authenticate,
+  authenticateAllowUnverified,
   asyncHandler(async (req, res) => {
     const user = await authService.getUserById(req.user!.id);
 
@@ -4,35 +4,88 @@
  */
 
 import { Router } from 'express';
-import { body } from 'express-validator';
-import { ContactService } from '../services/contactService';
-import { validate } from '../middleware/validation';
+import { body, query } from 'express-validator';
+import { CONTACT_STATUSES, ContactService, ContactSubmissionFilters } from '../services/contactService';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { SpamService } from '../services/spamService';
+import { contactLimiter } from '../middleware/security';
+import { validate, validators } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
 
+/**
+ * GET /api/contact/form-token
+ * Token the contact form sends back with its submission (spam protection)
+ */
+router.get('/form-token', (_req, res) => {
+  return res.json({
+    success: true,
+    data: { formToken: SpamService.issueFormToken('contact') },
+  });
+});
+
 /**
  * POST /api/contact
  * Submit contact form
  */
 router.post(
   '/',
+  contactLimiter,
   validate([
     body('name').notEmpty().withMessage('Name is required'),
     body('email').isEmail().withMessage('Valid email is required'),
     body('subject').notEmpty().withMessage('Subject is required'),
     body('message').notEmpty().withMessage('Message is required'),
+    validators.honeypot,
+    validators.formToken,
   ]),
   asyncHandler(async (req, res) => {
-    const submission = await ContactService.submitContactForm(req.body);
+    const { name, email, subject, message, website, formToken } = req.body;
+    const submission = await ContactService.submitContactForm(
+      { name, email, subject, message },
+      { ipAddress: req.ip, honeypot: website, formToken }
+    );
 
+    // Same response whether or not the spam checks flagged it, so bots learn nothing
     return res.status(201).json({
       success: true,
-      data: submission,
+      data: { id: submission.id },
       message: 'Contact form submitted successfully',
     });
   })
 );
 
+/**
+ * GET /api/contact/submissions?status=&limit=&offset=
+ * List contact submissions, newest first - requires contact.read
+ */
+router.get(
+  '/submissions',
+  authenticate,
+  requirePermission('contact.read'),
+  validate([
+    query('status').optional().isIn(CONTACT_STATUSES).withMessage('Invalid status'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100'),
+    query('offset').optional().isInt({ min: 0 }).withMessage('offset must be a positive integer'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    const { submissions, total } = await ContactService.listSubmissions({
+      status: req.query.status as ContactSubmissionFilters['status'],
+      limit,
+      offset,
+    });
+
+    return res.json({
+      success: true,
+      data: submissions,
+      meta: { total, limit, offset },
+    });
+  })
+);
+
 export default router;
 
@@ -5,24 +5,117 @@
  * Public endpoints for content display (no authentication required)
  */
 
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
+import { query } from 'express-validator';
 import { ContentService } from '../services/contentService';
+import { SearchService, SEARCH_TYPES, SearchType, MAX_SEARCH_LIMIT } from '../services/searchService';
+import { PreviewService } from '../services/previewService';
+import { ContentTypeSegment } from '../services/contentTypes';
+import { validate } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
+import { CONTENT_SORTS, ContentSort, MAX_PAGE_SIZE, PaginationOptions } from '../utils/pagination';
+import { isPubliclyVisible, PublicationFields } from '../utils/publication';
+import { TrainingCategory, TrainingLevel, ProductStatus, KnowledgeCategory, CommunityPlatform } from '@prisma/client';
 
 const router = Router();
 
 /**
- * GET /api/content/trainings
- * Get all active trainings
+ * Query params shared by every paginated list route
+ */
+const listValidators = [
+  query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+  query('cursor').optional().isUUID().withMessage('Invalid cursor'),
+  query('sort').optional().isIn(CONTENT_SORTS).withMessage('Invalid sort'),
+];
+
+const featuredValidator = query('featured').optional().isBoolean().withMessage('Featured must be true or false');
+
+const paginationFromQuery = (req: Request): PaginationOptions => ({
+  limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+  cursor: (req.query.cursor as string) || undefined,
+  sort: req.query.sort as ContentSort | undefined,
+});
+
+const featuredFromQuery = (req: Request): boolean | undefined =>
+  req.query.featured === undefined ? undefined : req.query.featured === 'true';
+
+/**
+ * Published items are public; anything else needs a ?preview= token issued for that item
+ */
+const canView = (
+  req: Request,
+  res: Response,
+  segment: ContentTypeSegment,
+  item: PublicationFields & { id: string }
+): boolean => {
+  // Trashed items can't be previewed either
+  if (item.deletedAt) {
+    return false;
+  }
+
+  if (isPubliclyVisible(item)) {
+    return true;
+  }
+
+  if (PreviewService.canPreview(req.query.preview, segment, item.id)) {
+    // Unpublished content must not end up in shared caches
+    res.set('Cache-Control', 'private, no-store');
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * GET /api/content/search?q=&types=training,tool&limit=
+ * Ranked full-text search across all content types
+ */
+router.get(
+  '/search',
+  validate([
+    query('q').trim().notEmpty().withMessage('Search query is required').isLength({ max: 200 }),
+    query('types')
+      .optional()
+      .custom((value: string) => value.split(',').every((type) => SEARCH_TYPES.includes(type as SearchType)))
+      .withMessage(`Types must be a comma-separated list of: ${SEARCH_TYPES.join(', ')}`),
+    query('limit').optional().isInt({ min: 1, max: MAX_SEARCH_LIMIT }).withMessage(`Limit must be between 1 and ${MAX_SEARCH_LIMIT}`),
+  ]),
+  asyncHandler(async (req, res) => {
+    const result = await SearchService.search(req.query.q as string, {
+      types: req.query.types ? ((req.query.types as string).split(',') as SearchType[]) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    });
+
+    return res.json({
+      success: true,
+      ...result,
+    });
+  })
+);
+
+/**
+ * GET /api/content/trainings?category=&level=&featured=&sort=&limit=&cursor=
+ * Get a page of active trainings
  */
 router.get(
   '/trainings',
-  asyncHandler(async (_req, res) => {
-    const trainings = await ContentService.getActiveTrainings();
+  validate([
+    ...listValidators,
+    featuredValidator,
+    query('category').optional().isIn(Object.values(TrainingCategory)).withMessage('Invalid category'),
+    query('level').optional().isIn(Object.values(TrainingLevel)).withMessage('Invalid level'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const result = await ContentService.listActiveTrainings({
+      ...paginationFromQuery(req),
+      category: req.query.category as TrainingCategory | undefined,
+      level: req.query.level as TrainingLevel | undefined,
+      featured: featuredFromQuery(req),
+    });
 
     return res.json({
       success: true,
-      data: trainings,
+      ...result,
     });
   })
 );
@@ -44,7 +137,7 @@ router.get(
 );
 
 /**
- * GET /api/content/trainings/:id
+ * GET /api/content/trainings/:id?preview=
  * Get training by id
  */
 router.get(
@@ -53,8 +146,8 @@ router.get(
     const { id } = req.params;
     const training = await ContentService.getTrainingById(id);
 
-    // Only return active trainings to public
-    if (!training.isActive) {
+    // Only return published trainings to public (or to holders of a preview link)
+    if (!canView(req, res, 'trainings', training)) {
       return res.status(404).json({
         success: false,
         error: 'Training not found',
@@ -69,23 +162,27 @@ router.get(
 );
 
 /**
- * GET /api/content/tools
- * Get all active tools
+ * GET /api/content/tools?featured=&sort=&limit=&cursor=
+ * Get a page of active tools
  */
 router.get(
   '/tools',
-  asyncHandler(async (_req, res) => {
-    const tools = await ContentService.getActiveTools();
+  validate([...listValidators, featuredValidator]),
+  asyncHandler(async (req, res) => {
+    const result = await ContentService.listActiveTools({
+      ...paginationFromQuery(req),
+      featured: featuredFromQuery(req),
+    });
 
     return res.json({
       success: true,
-      data: tools,
+      ...result,
     });
   })
 );
 
 /**
- * GET /api/content/tools/:id
+ * GET /api/content/tools/:id?preview=
  * Get tool by id
  */
 router.get(
@@ -94,7 +191,7 @@ router.get(
     const { id } = req.params;
     const tool = await ContentService.getToolById(id);
 
-    if (!tool.isActive) {
+    if (!canView(req, res, 'tools', tool)) {
       return res.status(404).json({
         success: false,
         error: 'Tool not found',
@@ -109,23 +206,32 @@ router.get(
 );
 
 /**
- * GET /api/content/products
- * Get all active products
+ * GET /api/content/products?status=&featured=&sort=&limit=&cursor=
+ * Get a page of active products
  */
 router.get(
   '/products',
-  asyncHandler(async (_req, res) => {
-    const products = await ContentService.getActiveProducts();
+  validate([
+    ...listValidators,
+    featuredValidator,
+    query('status').optional().isIn(Object.values(ProductStatus)).withMessage('Invalid status'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const result = await ContentService.listActiveProducts({
+      ...paginationFromQuery(req),
+      status: req.query.status as ProductStatus | undefined,
+      featured: featuredFromQuery(req),
+    });
 
     return res.json({
       success: true,
-      data: products,
+      ...result,
     });
   })
 );
 
 /**
- * GET /api/content/products/:id
+ * GET /api/content/products/:id?preview=
  * Get product by id
  */
 router.get(
@@ -134,7 +240,7 @@ router.get(
     const { id } = req.params;
     const product = await ContentService.getProductById(id);
 
-    if (!product.isActive) {
+    if (!canView(req, res, 'products', product)) {
       return res.status(404).json({
         success: false,
         error: 'Product not found',
@@ -149,17 +255,26 @@ router.get(
 );
 
 /**
- * GET /api/content/knowledge
- * Get all active knowledge articles
+ * GET /api/content/knowledge?category=&featured=&sort=&limit=&cursor=
+ * Get a page of active knowledge articles
  */
 router.get(
   '/knowledge',
-  asyncHandler(async (_req, res) => {
-    const articles = await ContentService.getActiveKnowledgeArticles();
+  validate([
+    ...listValidators,
+    featuredValidator,
+    query('category').optional().isIn(Object.values(KnowledgeCategory)).withMessage('Invalid category'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const result = await ContentService.listActiveKnowledgeArticles({
+      ...paginationFromQuery(req),
+      category: req.query.category as KnowledgeCategory | undefined,
+      featured: featuredFromQuery(req),
+    });
 
     return res.json({
       success: true,
-      data: articles,
+      ...result,
     });
   })
 );
@@ -191,8 +306,34 @@ router.get(
 );
 
 /**
- * GET /api/content/knowledge/:id
+ * GET /api/content/knowledge/by-slug/:slug?preview=
+ * Get knowledge article by its public slug
+ * NOTE: Must be defined before /:id route to avoid route conflict
+ */
+router.get(
+  '/knowledge/by-slug/:slug',
+  asyncHandler(async (req, res) => {
+    const { slug } = req.params;
+    const article = await ContentService.getKnowledgeArticleBySlug(slug);
+
+    if (!canView(req, res, 'knowledge', article)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Knowledge article not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: article,
+    });
+  })
+);
+
+/**
+ * GET /api/content/knowledge/:id?preview=
  * Get knowledge article by id
+ * Kept for links shared before slugs existed; the response carries the slug so clients can redirect
  */
 router.get(
   '/knowledge/:id',
@@ -200,7 +341,7 @@ router.get(
     const { id } = req.params;
     const article = await ContentService.getKnowledgeArticleById(id);
 
-    if (!article.isActive) {
+    if (!canView(req, res, 'knowledge', article)) {
       return res.status(404).json({
         success: false,
         error: 'Knowledge article not found',
@@ -215,23 +356,30 @@ router.get(
 );
 
 /**
- * GET /api/content/community
- * Get all active community links
+ * GET /api/content/community?platform=&sort=&limit=&cursor=
+ * Get a page of active community links
  */
 router.get(
   '/community',
-  asyncHandler(async (_req, res) => {
-    const links = await ContentService.getActiveCommunityLinks();
+  validate([
+    ...listValidators,
+    query('platform').optional().isIn(Object.values(CommunityPlatform)).withMessage('Invalid platform'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const result = await ContentService.listActiveCommunityLinks({
+      ...paginationFromQuery(req),
+      platform: req.query.platform as CommunityPlatform | undefined,
+    });
 
     return res.json({
       success: true,
-      data: links,
+      ...result,
     });
   })
 );
 
 /**
- * GET /api/content/community/:id
+ * GET /api/content/community/:id?preview=
  * Get community link by id
  */
 router.get(
@@ -240,7 +388,7 @@ router.get(
     const { id } = req.params;
     const link = await ContentService.getCommunityLinkById(id);
 
-    if (!link.isActive) {
+    if (!canView(req, res, 'community', link)) {
       return res.status(404).json({
         success: false,
         error: 'Community link not found',
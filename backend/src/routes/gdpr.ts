@@ -3,33 +3,55 @@
  */
 
 import { Router } from 'express';
+import { body } from 'express-validator';
 import * as gdprService from '../services/gdprService';
 import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
 import asyncHandler from '../utils/asyncHandler';
 import { DeletionType, ConsentType } from '@prisma/client';
+import config from '../config';
 
 const router = Router();
 
-// All routes require authentication
+/**
+ * GET /api/gdpr/exports/:id/download?token=
+ * Download an export archive. Authorised by the signed link rather than a session,
+ * so it works straight from the email; the link expires with the export.
+ */
+router.get(
+  '/exports/:id/download',
+  asyncHandler(async (req, res) => {
+    const { archive, filename } = await gdprService.getExportDownload(
+      req.params.id,
+      req.query.token,
+      req.ip,
+      req.headers['user-agent']
+    );
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(archive);
+  })
+);
+
+// All other routes require authentication
 router.use(authenticate);
 
 /**
  * POST /api/gdpr/export
- * Request data export
+ * Request data export. The archive is generated by a background job, which emails
+ * the download link when it is ready.
  */
 router.post(
   '/export',
   asyncHandler(async (req, res) => {
     const exportRequest = await gdprService.requestDataExport(req.user!.id);
 
-    // Trigger background job to generate export
-    // For now, generate immediately
-    const exportData = await gdprService.generateDataExport(exportRequest.id);
-
-    res.status(201).json({
+    res.status(202).json({
       success: true,
-      data: exportData,
-      message: 'Data export generated successfully. Download link expires in 7 days.',
+      data: exportRequest,
+      message: `Data export requested. We will email you a download link, valid for ${config.dataExport.ttlDays} days.`,
     });
   })
 );
@@ -169,6 +191,33 @@ router.delete(
   })
 );
 
+/**
+ * PUT /api/gdpr/consents
+ * Record the cookie banner choices (COOKIES, ANALYTICS, MARKETING_EMAILS) in one go
+ */
+router.put(
+  '/consents',
+  validate([
+    body('consents').isObject().withMessage('Invalid consents'),
+    body('version').optional().isString().isLength({ max: 20 }),
+  ]),
+  asyncHandler(async (req, res) => {
+    await gdprService.mergeConsents(
+      req.user!.id,
+      { decidedAt: new Date().toISOString(), version: req.body.version, consents: req.body.consents },
+      req.ip,
+      req.headers['user-agent']
+    );
+    const consents = await gdprService.getUserConsents(req.user!.id);
+
+    res.json({
+      success: true,
+      data: consents,
+      message: 'Consent preferences saved',
+    });
+  })
+);
+
 /**
  * GET /api/gdpr/consents
  * Get user's consents
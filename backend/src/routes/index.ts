@@ -1,13 +1,21 @@
 import { Router } from 'express';
 import authRoutes from './auth';
+import twoFactorRoutes from './twoFactor';
 import healthRoutes from './health';
 import notificationRoutes from './notifications';
 import auditRoutes from './audit';
 import rbacRoutes from './rbac';
 import paymentRoutes from './payments';
 import gdprRoutes from './gdpr';
+import legalRoutes from './legal';
 import contentRoutes from './content';
 import adminContentRoutes from './adminContent';
+import adminTrashRoutes from './adminTrash';
+import adminUserRoutes from './adminUsers';
+import adminSecurityRoutes from './adminSecurity';
+import adminSpamRoutes from './adminSpam';
+import adminJobRoutes from './adminJobs';
+import adminLegalRoutes from './adminLegal';
 import contactRoutes from './contact';
 import newsletterRoutes from './newsletter';
 import uploadRoutes from './upload';
@@ -16,13 +24,21 @@ const router = Router();
 
 // Mount routes
 router.use('/health', healthRoutes);
+router.use('/auth/2fa', twoFactorRoutes);
 router.use('/auth', authRoutes);
 router.use('/notifications', notificationRoutes);
 router.use('/audit', auditRoutes);
 router.use('/rbac', rbacRoutes);
 router.use('/payments', paymentRoutes);
 router.use('/gdpr', gdprRoutes);
+router.use('/legal', legalRoutes);
 router.use('/content', contentRoutes);
+router.use('/admin/trash', adminTrashRoutes);
+router.use('/admin/users', adminUserRoutes);
+router.use('/admin/security', adminSecurityRoutes);
+router.use('/admin/spam', adminSpamRoutes);
+router.use('/admin/jobs', adminJobRoutes);
+router.use('/admin/legal', adminLegalRoutes);
 router.use('/admin', adminContentRoutes);
 router.use('/contact', contactRoutes);
 router.use('/newsletter', newsletterRoutes);
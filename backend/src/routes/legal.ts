@@ -0,0 +1,78 @@
+/**
+ * Legal Routes
+ *
+ * The terms of service and privacy policy in effect (public), and whether the signed-in
+ * user still has to accept their current versions
+ */
+
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { LEGAL_DOCUMENT_SLUGS, LegalService } from '../services/legalService';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+/**
+ * GET /api/legal/acceptance
+ * Documents the user has to accept (again) before continuing
+ */
+router.get(
+  '/acceptance',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const pending = await LegalService.getPendingAcceptances(req.user!.id);
+
+    return res.json({
+      success: true,
+      data: { required: pending.length > 0, pending },
+    });
+  })
+);
+
+/**
+ * POST /api/legal/accept
+ * Accept the current versions of the given documents
+ */
+router.post(
+  '/accept',
+  authenticate,
+  validate([
+    body('documentIds').isArray({ min: 1 }).withMessage('documentIds must be a non-empty array'),
+    body('documentIds.*').isUUID().withMessage('Invalid document id'),
+  ]),
+  asyncHandler(async (req, res) => {
+    const pending = await LegalService.accept(
+      req.user!.id,
+      req.body.documentIds,
+      req.ip,
+      req.headers['user-agent']
+    );
+
+    return res.json({
+      success: true,
+      data: { required: pending.length > 0, pending },
+      message: 'Thank you for accepting',
+    });
+  })
+);
+
+/**
+ * GET /api/legal/:slug
+ * The version in effect of /terms or /privacy
+ */
+router.get(
+  '/:slug',
+  validate([param('slug').isIn(Object.keys(LEGAL_DOCUMENT_SLUGS)).withMessage('Invalid document')]),
+  asyncHandler(async (req, res) => {
+    const document = await LegalService.getCurrent(LEGAL_DOCUMENT_SLUGS[req.params.slug]);
+
+    return res.json({
+      success: true,
+      data: document,
+    });
+  })
+);
+
+export default router;
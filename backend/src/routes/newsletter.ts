@@ -6,26 +6,47 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
 import { NewsletterService } from '../services/newsletterService';
-import { validate } from '../middleware/validation';
+import { SpamService } from '../services/spamService';
+import { newsletterLimiter } from '../middleware/security';
+import { validate, validators } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
 
+/**
+ * GET /api/newsletter/form-token
+ * Token the sign-up form sends back with its submission (spam protection)
+ */
+router.get('/form-token', (_req, res) => {
+  return res.json({
+    success: true,
+    data: { formToken: SpamService.issueFormToken('newsletter') },
+  });
+});
+
 /**
  * POST /api/newsletter/subscribe
  * Subscribe to newsletter
  */
 router.post(
   '/subscribe',
+  newsletterLimiter,
   validate([
     body('email').isEmail().withMessage('Valid email is required'),
+    validators.honeypot,
+    validators.formToken,
   ]),
   asyncHandler(async (req, res) => {
-    const subscription = await NewsletterService.subscribe(req.body.email);
+    const subscription = await NewsletterService.subscribe(req.body.email, {
+      ipAddress: req.ip,
+      honeypot: req.body.website,
+      formToken: req.body.formToken,
+    });
 
+    // Same response whether or not the spam checks flagged it, so bots learn nothing
     return res.status(201).json({
       success: true,
-      data: subscription,
+      data: { id: subscription.id },
       message: 'Successfully subscribed to newsletter',
     });
   })
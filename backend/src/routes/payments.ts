@@ -4,14 +4,16 @@
 
 import { Router } from 'express';
 import * as paymentService from '../services/paymentService';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { requireLegalAcceptance } from '../middleware/legalAcceptance';
 import asyncHandler from '../utils/asyncHandler';
 import { PaymentStatus } from '@prisma/client';
 
 const router = Router();
 
-// All routes require authentication
+// All routes require authentication, and the current terms accepted
 router.use(authenticate);
+router.use(requireLegalAcceptance);
 
 /**
  * POST /api/payments
@@ -151,7 +153,7 @@ router.post(
 // Admin routes - view all payments
 router.get(
   '/admin/all',
-  requireRole('ADMIN', 'SUPER_ADMIN'),
+  requirePermission('payments.read'),
   asyncHandler(async (_req, res) => {
     // This would need a separate service function to get all payments
     res.json({
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import * as rbacService from '../services/rbacService';
-import { authenticate, requireRole } from '../middleware/auth';
+import { PermissionService } from '../services/permissionService';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { prisma } from '../config/database';
 import { asyncHandler } from '../utils/asyncHandler';
 import { Role } from '@prisma/client';
 
@@ -27,7 +30,7 @@ router.get(
 
 /**
  * GET /api/rbac/me/permissions
- * Get current user's permissions info
+ * Get current user's role info and the permission keys granted to that role
  */
 router.get(
   '/me/permissions',
@@ -40,6 +43,7 @@ router.get(
       isAdmin: await rbacService.isAdmin(userId),
       isSuperAdmin: await rbacService.isSuperAdmin(userId),
       hierarchy: role ? rbacService.getRoleHierarchy(role) : 0,
+      permissions: role ? [...(await PermissionService.forRole(role))].sort() : [],
     };
 
     return res.json({
@@ -51,11 +55,11 @@ router.get(
 
 /**
  * GET /api/rbac/users/role/:role
- * Get all users with a specific role (admin only)
+ * Get all users with a specific role (requires users.read)
  */
 router.get(
   '/users/role/:role',
-  requireRole('ADMIN', 'SUPER_ADMIN'),
+  requirePermission('users.read'),
   asyncHandler(async (req, res) => {
     const role = req.params.role as Role;
 
@@ -70,19 +74,27 @@ router.get(
 
 /**
  * PUT /api/rbac/users/:userId/role
- * Update user role (super admin only)
+ * Update user role (requires users.roles, which by default only super admins hold)
  */
 router.put(
   '/users/:userId/role',
-  requireRole('SUPER_ADMIN'),
+  audit({
+    action: 'USER_ROLE_CHANGED',
+    resource: 'users',
+    resourceId: (params) => params.userId,
+    load: (req) => prisma.user.findUnique({ where: { id: req.params.userId }, select: { role: true } }),
+    captureResponse: true,
+    fields: ['role'],
+  }),
+  requirePermission('users.roles'),
   asyncHandler(async (req, res) => {
     const { userId } = req.params;
     const { role } = req.body;
 
-    if (!role || !['USER', 'ADMIN', 'SUPER_ADMIN'].includes(role)) {
+    if (!role || !Object.values(Role).includes(role)) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid role. Must be USER, ADMIN, or SUPER_ADMIN',
+        error: `Invalid role. Must be one of ${Object.values(Role).join(', ')}`,
       });
     }
 
@@ -144,11 +156,11 @@ router.post(
 
 /**
  * GET /api/rbac/compare/:userId
- * Compare current user's role with another user (admin only)
+ * Compare current user's role with another user (requires users.read)
  */
 router.get(
   '/compare/:userId',
-  requireRole('ADMIN', 'SUPER_ADMIN'),
+  requirePermission('users.read'),
   asyncHandler(async (req, res) => {
     const { userId } = req.params;
     const currentUserId = req.user!.id;
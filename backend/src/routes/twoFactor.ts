@@ -0,0 +1,118 @@
+/**
+ * Two-Factor Routes
+ *
+ * Enrollment and management of TOTP two-factor authentication for the current user.
+ * The login step itself is POST /api/auth/login/2fa.
+ */
+
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { TwoFactorService } from '../services/twoFactorService';
+import { authenticateAllowUnverified } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { authLimiter } from '../middleware/security';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+router.use(authenticateAllowUnverified);
+
+const codeValidator = body('code').isString().trim().notEmpty().withMessage('Authentication code is required');
+
+/**
+ * GET /api/auth/2fa
+ * Whether 2FA is enabled, how many recovery codes are left and whether the policy requires it
+ */
+router.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const status = await TwoFactorService.getStatus(req.user!.id);
+
+    return res.json({
+      success: true,
+      data: status,
+    });
+  })
+);
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start enrollment: returns the secret and otpauth:// URI for the authenticator app
+ */
+router.post(
+  '/setup',
+  asyncHandler(async (req, res) => {
+    const enrollment = await TwoFactorService.beginEnrollment(req.user!.id);
+
+    return res.json({
+      success: true,
+      data: enrollment,
+    });
+  })
+);
+
+/**
+ * POST /api/auth/2fa/enable
+ * Confirm enrollment with a code from the app; returns the recovery codes (shown once)
+ */
+router.post(
+  '/enable',
+  audit({ action: 'AUTH_2FA_ENABLE', resource: 'users' }),
+  authLimiter,
+  validate([codeValidator]),
+  asyncHandler(async (req, res) => {
+    const result = await TwoFactorService.confirmEnrollment(
+      req.user!.id,
+      req.body.code,
+      req.ip,
+      req.headers['user-agent']
+    );
+
+    return res.json({
+      success: true,
+      data: result,
+      message: 'Two-factor authentication enabled',
+    });
+  })
+);
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn 2FA off with a current code or a recovery code (not allowed when the policy requires it)
+ */
+router.post(
+  '/disable',
+  audit({ action: 'AUTH_2FA_DISABLE', resource: 'users' }),
+  authLimiter,
+  validate([codeValidator]),
+  asyncHandler(async (req, res) => {
+    await TwoFactorService.disable(req.user!.id, req.body.code, req.ip, req.headers['user-agent']);
+
+    return res.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  })
+);
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace the recovery codes, confirmed with a current code from the app
+ */
+router.post(
+  '/recovery-codes',
+  audit({ action: 'AUTH_2FA_RECOVERY_CODES_REGENERATED', resource: 'users' }),
+  authLimiter,
+  validate([codeValidator]),
+  asyncHandler(async (req, res) => {
+    const result = await TwoFactorService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+
+    return res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+export default router;
@@ -5,7 +5,8 @@
 
 import { Router } from 'express';
 import multer from 'multer';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { audit } from '../middleware/audit';
 import { asyncHandler } from '../utils/asyncHandler';
 import { UploadService } from '../services/uploadService';
 import logger from '../utils/logger';
@@ -22,12 +23,17 @@ const upload = multer({
 
 /**
  * POST /api/upload/image
- * Upload an image (Admin only)
+ * Upload an image (requires uploads.write)
  */
 router.post(
   '/image',
   authenticate,
-  requireRole('ADMIN', 'SUPER_ADMIN'),
+  audit({
+    action: 'IMAGE_UPLOADED',
+    resource: 'uploads',
+    resourceId: (_params, data) => (data as { filename?: string } | undefined)?.filename,
+  }),
+  requirePermission('uploads.write'),
   upload.single('image'),
   asyncHandler(async (req, res) => {
     if (!req.file) {
@@ -56,12 +62,13 @@ router.post(
 
 /**
  * DELETE /api/upload/image/:filename
- * Delete an uploaded image (Admin only)
+ * Delete an uploaded image (requires uploads.write)
  */
 router.delete(
   '/image/:filename',
   authenticate,
-  requireRole('ADMIN', 'SUPER_ADMIN'),
+  audit({ action: 'IMAGE_DELETED', resource: 'uploads', resourceId: (params) => params.filename }),
+  requirePermission('uploads.write'),
   asyncHandler(async (req, res) => {
     const { filename } = req.params;
 
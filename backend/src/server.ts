@@ -2,6 +2,14 @@ import app from './app';
 import config from './config';
 import { connectDatabase, disconnectDatabase } from './config/database';
 import logger from './utils/logger';
+import { scheduleRecurring, StopFn } from './utils/scheduler';
+import { PublicationService } from './services/publicationService';
+import { TrashService } from './services/trashService';
+import { SessionService } from './services/sessionService';
+import { PrismaRateLimitStore } from './providers/PrismaRateLimitStore';
+import { enqueueDueGdprJobs, expireDataExports } from './services/gdprService';
+import { startJobWorker } from './services/jobQueue';
+import { JOB_HANDLERS } from './services/jobHandlers';
 
 /**
  * Start server
@@ -19,9 +27,34 @@ const startServer = async () => {
       });
     });
 
+    // Background jobs
+    const stopJobs: StopFn[] = [];
+    if (config.scheduler.enabled) {
+      stopJobs.push(
+        scheduleRecurring('publication-transitions', config.scheduler.publicationIntervalMs, () =>
+          PublicationService.runScheduledTransitions()
+        ),
+        scheduleRecurring('trash-purge', config.scheduler.trashPurgeIntervalMs, () => TrashService.purgeExpired()),
+        scheduleRecurring('session-cleanup', config.scheduler.sessionCleanupIntervalMs, () =>
+          SessionService.purgeExpired()
+        ),
+        scheduleRecurring('data-export-cleanup', config.scheduler.dataExportCleanupIntervalMs, expireDataExports),
+        scheduleRecurring('gdpr-job-sweep', config.scheduler.gdprJobSweepIntervalMs, enqueueDueGdprJobs),
+        startJobWorker(JOB_HANDLERS)
+      );
+      if (config.rateLimit.store === 'prisma') {
+        stopJobs.push(
+          scheduleRecurring('rate-limit-cleanup', config.scheduler.rateLimitCleanupIntervalMs, () =>
+            PrismaRateLimitStore.purgeExpired()
+          )
+        );
+      }
+    }
+
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       logger.info(`${signal} received, shutting down gracefully`);
+      stopJobs.forEach((stop) => stop());
 
       server.close(async () => {
         logger.info('HTTP server closed');
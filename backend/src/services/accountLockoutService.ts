@@ -0,0 +1,120 @@
+/**
+ * Account Lockout Service
+ *
+ * Per-account brute-force protection. authLimiter only counts requests per IP, so
+ * guesses spread over many addresses would otherwise go unchecked. Every failed
+ * login (a wrong password or a wrong two-factor code) counts against the account;
+ * once the count reaches the threshold the account is locked, for a period that
+ * doubles with each further failure. A successful login or an admin unlock clears it.
+ */
+
+import { prisma } from '../config/database';
+import config from '../config';
+import { TooManyRequestsError } from '../utils/errors';
+import logger from '../utils/logger';
+import * as emailService from './emailService';
+import { appendAuditLog } from './auditService';
+
+interface LockoutUser {
+  id: string;
+  email: string;
+  name: string | null;
+  lockedUntil: Date | null;
+}
+
+interface Client {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * How long an account is locked after a number of consecutive failures (0 below the threshold)
+ */
+export const lockDurationMinutes = (failedAttempts: number): number => {
+  const { threshold, baseLockMinutes, maxLockMinutes } = config.accountLockout;
+
+  if (failedAttempts < threshold) {
+    return 0;
+  }
+  return Math.min(baseLockMinutes * 2 ** (failedAttempts - threshold), maxLockMinutes);
+};
+
+export class AccountLockoutService {
+  /**
+   * Refuse a login while the account is locked. Checked before the password,
+   * so guesses made during a lockout are not even evaluated.
+   */
+  static assertNotLocked(user: Pick<LockoutUser, 'lockedUntil'>): void {
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      const minutes = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+      throw new TooManyRequestsError(`Too many failed login attempts. Try again in ${minutes} minute(s).`);
+    }
+  }
+
+  /**
+   * Count a failed login, locking the account once the threshold is reached.
+   * Returns when the account is locked until, or null if it is not.
+   */
+  static async recordFailure(user: LockoutUser, client: Client = {}): Promise<Date | null> {
+    const staleBefore = new Date(Date.now() - config.accountLockout.resetAfterHours * 60 * 60 * 1000);
+
+    // Failures from long ago no longer count; the increment itself is atomic
+    await prisma.user.updateMany({
+      where: { id: user.id, lastFailedLoginAt: { lt: staleBefore } },
+      data: { failedLoginAttempts: 0 },
+    });
+    const { failedLoginAttempts } = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: new Date() },
+      select: { failedLoginAttempts: true },
+    });
+
+    const lockMinutes = lockDurationMinutes(failedLoginAttempts);
+    if (lockMinutes === 0) {
+      return null;
+    }
+
+    const lockedUntil = new Date(Date.now() + lockMinutes * 60 * 1000);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({ where: { id: user.id }, data: { lockedUntil } });
+      await appendAuditLog(tx, {
+        userId: user.id,
+        action: 'ACCOUNT_LOCKED',
+        resource: 'users',
+        resourceId: user.id,
+        details: { failedAttempts: failedLoginAttempts, lockMinutes, lockedUntil: lockedUntil.toISOString() },
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
+    });
+
+    logger.warn('Account locked after failed logins', { userId: user.id, failedLoginAttempts, lockMinutes });
+
+    try {
+      await emailService.sendAccountLockedEmail({
+        to: user.email,
+        name: user.name || undefined,
+        failedAttempts: failedLoginAttempts,
+        lockMinutes,
+      });
+    } catch (error: any) {
+      logger.error('Failed to send account locked email', {
+        userId: user.id,
+        error: error.message,
+      });
+    }
+
+    return lockedUntil;
+  }
+
+  /**
+   * Forget failed attempts after a successful login
+   */
+  static async reset(userId: string): Promise<void> {
+    await prisma.user.updateMany({
+      where: { id: userId, OR: [{ failedLoginAttempts: { gt: 0 } }, { lockedUntil: { not: null } }] },
+      data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+    });
+  }
+}
@@ -1,11 +1,16 @@
+import crypto from 'crypto';
 import { prisma } from '../config/database';
 import { AuditLog, Prisma } from '@prisma/client';
 import logger from '../utils/logger';
+import {
+  hashAuditEntry,
+  isCheckpointSignatureValid,
+  isRedactionSignatureValid,
+  signCheckpoint,
+  signRedaction,
+} from '../utils/auditChain';
 
-/**
- * Create an audit log entry
- */
-export const createAuditLog = async (params: {
+export interface AuditLogInput {
   userId?: string;
   action: string;
   resource?: string;
@@ -13,19 +18,65 @@ export const createAuditLog = async (params: {
   details?: Record<string, any>;
   ipAddress?: string;
   userAgent?: string;
-}): Promise<AuditLog> => {
+  requestId?: string;
+}
+
+/**
+ * Take the transaction-scoped lock that serialises writes to the hash chain.
+ * Re-entrant, so one transaction may append several entries.
+ */
+const lockAuditChain = (tx: Prisma.TransactionClient) =>
+  tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('audit_logs_chain'))`;
+
+/**
+ * Hash of the newest entry (or of the last pruned one when nothing is left)
+ */
+const chainHead = async (tx: Prisma.TransactionClient): Promise<string | null> => {
+  const head = await tx.auditLog.findFirst({ orderBy: { sequence: 'desc' }, select: { hash: true } });
+  if (head) {
+    return head.hash;
+  }
+
+  const checkpoint = await tx.auditCheckpoint.findFirst({ orderBy: { sequence: 'desc' }, select: { hash: true } });
+  return checkpoint?.hash ?? null;
+};
+
+/**
+ * Append an entry to the audit hash chain inside the caller's transaction
+ */
+export const appendAuditLog = async (tx: Prisma.TransactionClient, params: AuditLogInput): Promise<AuditLog> => {
+  await lockAuditChain(tx);
+
+  const entry = {
+    id: crypto.randomUUID(),
+    userId: params.userId || null,
+    action: params.action,
+    resource: params.resource || null,
+    resourceId: params.resourceId || null,
+    // Round-trip through JSON so the hashed value is exactly what is stored
+    details: params.details ? (JSON.parse(JSON.stringify(params.details)) as Prisma.InputJsonValue) : null,
+    ipAddress: params.ipAddress || null,
+    userAgent: params.userAgent || null,
+    requestId: params.requestId || null,
+    createdAt: new Date(),
+    previousHash: await chainHead(tx),
+  };
+
+  return tx.auditLog.create({
+    data: {
+      ...entry,
+      details: entry.details ?? Prisma.JsonNull,
+      hash: hashAuditEntry(entry),
+    },
+  });
+};
+
+/**
+ * Create an audit log entry
+ */
+export const createAuditLog = async (params: AuditLogInput): Promise<AuditLog> => {
   try {
-    const log = await prisma.auditLog.create({
-      data: {
-        userId: params.userId || null,
-        action: params.action,
-        resource: params.resource || null,
-        resourceId: params.resourceId || null,
-        details: (params.details as Prisma.InputJsonValue) || Prisma.JsonNull,
-        ipAddress: params.ipAddress || null,
-        userAgent: params.userAgent || null,
-      },
-    });
+    const log = await prisma.$transaction((tx) => appendAuditLog(tx, params));
 
     logger.info('Audit log created', {
       logId: log.id,
@@ -44,25 +95,31 @@ export const createAuditLog = async (params: {
   }
 };
 
-/**
- * Get audit logs with optional filters
- */
-export const getAuditLogs = async (filters?: {
+export interface AuditLogFilters {
   userId?: string;
+  /** Partial, case-insensitive match on the actor's email */
+  userEmail?: string;
   action?: string;
   resource?: string;
   resourceId?: string;
   startDate?: Date;
   endDate?: Date;
-  limit?: number;
-  offset?: number;
-}): Promise<AuditLog[]> => {
-  const where: any = {};
+}
+
+/**
+ * Build the Prisma where clause for audit log filters
+ */
+const buildAuditWhere = (filters?: AuditLogFilters): Prisma.AuditLogWhereInput => {
+  const where: Prisma.AuditLogWhereInput = {};
 
   if (filters?.userId) {
     where.userId = filters.userId;
   }
 
+  if (filters?.userEmail) {
+    where.user = { email: { contains: filters.userEmail, mode: 'insensitive' } };
+  }
+
   if (filters?.action) {
     where.action = filters.action;
   }
@@ -76,32 +133,77 @@ export const getAuditLogs = async (filters?: {
   }
 
   if (filters?.startDate || filters?.endDate) {
-    where.createdAt = {};
-    if (filters.startDate) {
-      where.createdAt.gte = filters.startDate;
-    }
-    if (filters.endDate) {
-      where.createdAt.lte = filters.endDate;
-    }
+    where.createdAt = {
+      ...(filters.startDate && { gte: filters.startDate }),
+      ...(filters.endDate && { lte: filters.endDate }),
+    };
   }
 
+  return where;
+};
+
+const auditUserSelect = {
+  select: {
+    id: true,
+    email: true,
+    name: true,
+  },
+};
+
+/**
+ * Get audit logs with optional filters
+ */
+export const getAuditLogs = async (
+  filters?: AuditLogFilters & {
+    limit?: number;
+    offset?: number;
+  }
+): Promise<AuditLog[]> => {
   return prisma.auditLog.findMany({
-    where,
+    where: buildAuditWhere(filters),
     orderBy: { createdAt: 'desc' },
     take: filters?.limit,
     skip: filters?.offset,
     include: {
-      user: {
-        select: {
-          id: true,
-          email: true,
-          name: true,
-        },
-      },
+      user: auditUserSelect,
     },
   });
 };
 
+/**
+ * Count audit logs matching the filters
+ */
+export const countAuditLogs = async (filters?: AuditLogFilters): Promise<number> => {
+  return prisma.auditLog.count({ where: buildAuditWhere(filters) });
+};
+
+/**
+ * Iterate over every audit log matching the filters, newest first, in batches.
+ * Used for exports so large result sets are never loaded at once.
+ */
+export async function* iterateAuditLogs(filters?: AuditLogFilters, batchSize = 500) {
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.auditLog.findMany({
+      where: buildAuditWhere(filters),
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      take: batchSize,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      include: {
+        user: auditUserSelect,
+      },
+    });
+
+    yield* batch;
+
+    if (batch.length < batchSize) {
+      return;
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
 /**
  * Get audit log by ID
  */
@@ -173,51 +275,225 @@ export const getResourceAuditLogs = async (
 };
 
 /**
- * Delete audit logs older than specified days
+ * Delete audit logs older than specified days.
+ * Only a prefix of the chain is removed, and a signed checkpoint records the
+ * hash of the last pruned entry so the remaining chain still verifies.
  */
 export const deleteOldAuditLogs = async (daysToKeep: number): Promise<number> => {
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
 
-  const result = await prisma.auditLog.deleteMany({
-    where: {
-      createdAt: {
-        lt: cutoffDate,
-      },
-    },
+  const checkpoint = await prisma.$transaction(async (tx) => {
+    await lockAuditChain(tx);
+
+    const lastPruned = await tx.auditLog.findFirst({
+      where: { createdAt: { lt: cutoffDate } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    });
+    if (!lastPruned) {
+      return null;
+    }
+
+    const result = await tx.auditLog.deleteMany({
+      where: { sequence: { lte: lastPruned.sequence } },
+    });
+
+    const fields = {
+      id: crypto.randomUUID(),
+      sequence: lastPruned.sequence,
+      hash: lastPruned.hash,
+      prunedCount: result.count,
+      cutoff: cutoffDate,
+      createdAt: new Date(),
+    };
+
+    return tx.auditCheckpoint.create({
+      data: { ...fields, signature: signCheckpoint(fields) },
+    });
   });
 
+  const deletedCount = checkpoint?.prunedCount ?? 0;
+
   logger.info('Old audit logs deleted', {
     daysToKeep,
-    deletedCount: result.count,
+    deletedCount,
+    checkpointId: checkpoint?.id,
   });
 
-  return result.count;
+  return deletedCount;
+};
+
+/**
+ * SQL condition: the column's JSON text mentions this email address as a whole, ignoring case.
+ * A plain substring search would also match e.g. jimbob@x.com or bob@x.co.uk for bob@x.com.
+ */
+export const mentionsEmail = (column: string, email: string): Prisma.Sql => {
+  const boundary = '[^a-z0-9._%+-]';
+  const pattern = `(^|${boundary})${email.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|${boundary})`;
+  return Prisma.sql`${Prisma.raw(`"${column}"`)}::text ~* ${pattern}`;
+};
+
+/**
+ * Erase personal data from a user's audit trail for a GDPR deletion. Entries the
+ * user made lose the user, IP address, user agent and details; entries about the
+ * user's account, or whose details mention their email address, lose their details.
+ * The action, resource and time are kept. Chained entries keep their hash and link,
+ * and are signed as redacted instead.
+ */
+export const redactUserAuditLogs = async (userId: string, email: string): Promise<number> => {
+  const redacted = await prisma.$transaction(
+    async (tx) => {
+      await lockAuditChain(tx);
+
+      const mentioning = await tx.$queryRaw<{ id: string }[]>`
+        SELECT "id" FROM "audit_logs"
+        WHERE "redactedAt" IS NULL AND ${mentionsEmail('details', email)}
+      `;
+      const entries = await tx.auditLog.findMany({
+        where: {
+          OR: [
+            { userId },
+            { resource: 'users', resourceId: userId, redactedAt: null },
+            { id: { in: mentioning.map(({ id }) => id) } },
+          ],
+        },
+      });
+      for (const entry of entries) {
+        const ownEntry = entry.userId === userId;
+        const fields = {
+          ...entry,
+          userId: ownEntry ? null : entry.userId,
+          ipAddress: ownEntry ? null : entry.ipAddress,
+          userAgent: ownEntry ? null : entry.userAgent,
+          details: null,
+          redactedAt: new Date(),
+        };
+
+        await tx.auditLog.update({
+          where: { id: entry.id },
+          data: {
+            userId: fields.userId,
+            ipAddress: fields.ipAddress,
+            userAgent: fields.userAgent,
+            details: Prisma.JsonNull,
+            redactedAt: fields.redactedAt,
+            // Entries from before chaining have no hash to vouch for
+            redactionSignature: entry.hash ? signRedaction(fields) : null,
+          },
+        });
+      }
+      return entries.length;
+    },
+    { timeout: 60000 }
+  );
+
+  logger.info('Audit logs redacted', { userId, count: redacted });
+  return redacted;
+};
+
+export type AuditChainBreak =
+  | 'checkpoint_signature'
+  | 'missing_hash'
+  | 'previous_hash_mismatch'
+  | 'hash_mismatch'
+  | 'redaction_signature';
+
+export interface AuditChainReport {
+  valid: boolean;
+  /** Hashed entries checked before the first break (or in total) */
+  checkedEntries: number;
+  /** Entries written before chaining was introduced, at the start of the log */
+  legacyEntries: number;
+  checkpoint: { id: string; sequence: number; prunedCount: number; createdAt: Date } | null;
+  brokenAt: { id: string | null; sequence: number; reason: AuditChainBreak } | null;
+}
+
+/**
+ * Walk the audit hash chain from the latest checkpoint and report the first broken link
+ */
+export const verifyAuditChain = async (batchSize = 500): Promise<AuditChainReport> => {
+  const checkpoint = await prisma.auditCheckpoint.findFirst({ orderBy: { sequence: 'desc' } });
+  const report: AuditChainReport = {
+    valid: true,
+    checkedEntries: 0,
+    legacyEntries: 0,
+    checkpoint: checkpoint && {
+      id: checkpoint.id,
+      sequence: checkpoint.sequence,
+      prunedCount: checkpoint.prunedCount,
+      createdAt: checkpoint.createdAt,
+    },
+    brokenAt: null,
+  };
+
+  if (checkpoint && !isCheckpointSignatureValid(checkpoint, checkpoint.signature)) {
+    return {
+      ...report,
+      valid: false,
+      brokenAt: { id: null, sequence: checkpoint.sequence, reason: 'checkpoint_signature' },
+    };
+  }
+
+  // A checkpoint anchors the chain; without one, unhashed entries may precede it
+  let chainStarted = Boolean(checkpoint?.hash);
+  let expectedPreviousHash = checkpoint?.hash ?? null;
+  let lastSequence = checkpoint?.sequence ?? 0;
+
+  while (true) {
+    const batch = await prisma.auditLog.findMany({
+      where: { sequence: { gt: lastSequence } },
+      orderBy: { sequence: 'asc' },
+      take: batchSize,
+    });
+
+    for (const entry of batch) {
+      let reason: AuditChainBreak | null = null;
+
+      if (!entry.hash) {
+        if (!chainStarted) {
+          report.legacyEntries += 1;
+          continue;
+        }
+        reason = 'missing_hash';
+      } else if (entry.previousHash !== expectedPreviousHash) {
+        reason = 'previous_hash_mismatch';
+      } else if (entry.redactedAt) {
+        // The original contents are gone, so the signed redaction vouches for the entry
+        const { redactedAt, redactionSignature } = entry;
+        if (!redactionSignature || !isRedactionSignatureValid({ ...entry, redactedAt }, redactionSignature)) {
+          reason = 'redaction_signature';
+        }
+      } else if (hashAuditEntry(entry) !== entry.hash) {
+        reason = 'hash_mismatch';
+      }
+
+      if (reason) {
+        return { ...report, valid: false, brokenAt: { id: entry.id, sequence: entry.sequence, reason } };
+      }
+
+      chainStarted = true;
+      expectedPreviousHash = entry.hash;
+      report.checkedEntries += 1;
+    }
+
+    if (batch.length < batchSize) {
+      return report;
+    }
+    lastSequence = batch[batch.length - 1].sequence;
+  }
 };
 
 /**
  * Get audit log statistics
  */
-export const getAuditStats = async (filters?: {
-  startDate?: Date;
-  endDate?: Date;
-}): Promise<{
+export const getAuditStats = async (filters?: AuditLogFilters): Promise<{
   totalLogs: number;
   uniqueUsers: number;
   actionCounts: Record<string, number>;
   resourceCounts: Record<string, number>;
 }> => {
-  const where: any = {};
-
-  if (filters?.startDate || filters?.endDate) {
-    where.createdAt = {};
-    if (filters.startDate) {
-      where.createdAt.gte = filters.startDate;
-    }
-    if (filters.endDate) {
-      where.createdAt.lte = filters.endDate;
-    }
-  }
+  const where = buildAuditWhere(filters);
 
   // Get total logs
   const totalLogs = await prisma.auditLog.count({ where });
@@ -225,8 +501,7 @@ export const getAuditStats = async (filters?: {
   // Get unique users
   const uniqueUsers = await prisma.auditLog.findMany({
     where: {
-      ...where,
-      userId: { not: null },
+      AND: [where, { userId: { not: null } }],
     },
     select: { userId: true },
     distinct: ['userId'],
@@ -248,8 +523,7 @@ export const getAuditStats = async (filters?: {
   const resourceGroups = await prisma.auditLog.groupBy({
     by: ['resource'],
     where: {
-      ...where,
-      resource: { not: null },
+      AND: [where, { resource: { not: null } }],
     },
     _count: { resource: true },
   });
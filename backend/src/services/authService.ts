@@ -1,9 +1,51 @@
 import bcrypt from 'bcryptjs';
 import jwt, { SignOptions } from 'jsonwebtoken';
+import { Role } from '@prisma/client';
 import { prisma } from '../config/database';
 import config from '../config';
-import { ConflictError, UnauthorizedError, NotFoundError } from '../utils/errors';
+import { ConflictError, UnauthorizedError, NotFoundError, ValidationError } from '../utils/errors';
 import logger from '../utils/logger';
+import { generateToken, hashToken } from '../utils/tokens';
+import * as emailService from './emailService';
+import { appendAuditLog, createAuditLog } from './auditService';
+import { AccountLockoutService } from './accountLockoutService';
+import { SessionService } from './sessionService';
+import { TwoFactorService } from './twoFactorService';
+
+/**
+ * Fields of a signed-in user returned by login
+ */
+type LoginUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+  emailVerified: boolean;
+};
+
+/**
+ * Login outcome: a session, or (for accounts with 2FA) a challenge to answer with a code
+ */
+export type LoginResult =
+  | {
+      twoFactorRequired: false;
+      /** The security policy requires 2FA for this role and the user has not enabled it yet */
+      twoFactorSetupRequired: boolean;
+      user: LoginUser;
+      accessToken: string;
+      refreshToken: string;
+    }
+  | { twoFactorRequired: true; challengeToken: string };
+
+/**
+ * Password reset links are valid for one hour (matches reset-password.hbs)
+ */
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Email verification links are valid for 24 hours (matches verify-email.hbs)
+ */
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Hash password
@@ -23,22 +65,54 @@ export const comparePassword = async (
 };
 
 /**
- * Generate access and refresh tokens
+ * Generate an access token
+ * Refresh tokens belong to a session and are issued by SessionService
  */
-export const generateTokens = (userId: string) => {
-  const accessToken = jwt.sign(
+export const generateAccessToken = (userId: string): string => {
+  return jwt.sign(
     { userId },
     config.jwt.secret,
     { expiresIn: config.jwt.expiresIn } as SignOptions
   );
+};
 
-  const refreshToken = jwt.sign(
-    { userId },
-    config.jwt.refreshSecret,
-    { expiresIn: config.jwt.refreshExpiresIn } as SignOptions
-  );
+/**
+ * Create a verification token for a user and email the link
+ * Any earlier unused tokens are invalidated
+ */
+const issueEmailVerification = async (
+  userId: string,
+  email: string,
+  name?: string | null
+): Promise<void> => {
+  const token = generateToken();
+
+  await prisma.$transaction([
+    prisma.emailVerification.updateMany({
+      where: { userId, used: false },
+      data: { used: true },
+    }),
+    prisma.emailVerification.create({
+      data: {
+        userId,
+        token: hashToken(token),
+        expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+      },
+    }),
+  ]);
 
-  return { accessToken, refreshToken };
+  try {
+    await emailService.sendVerificationEmail({
+      to: email,
+      name: name || undefined,
+      token,
+    });
+  } catch (error: any) {
+    logger.error('Failed to send verification email', {
+      userId,
+      error: error.message,
+    });
+  }
 };
 
 /**
@@ -80,20 +154,23 @@ export const register = async (
       email: true,
       name: true,
       role: true,
+      emailVerified: true,
       createdAt: true,
     },
   });
 
+  if (config.features.emailVerification) {
+    await issueEmailVerification(user.id, user.email, user.name);
+  }
+
   // Log audit trail
-  await prisma.auditLog.create({
-    data: {
-      userId: user.id,
-      action: 'USER_REGISTERED',
-      resource: 'users',
-      resourceId: user.id,
-      ipAddress,
-      userAgent,
-    },
+  await createAuditLog({
+    userId: user.id,
+    action: 'USER_REGISTERED',
+    resource: 'users',
+    resourceId: user.id,
+    ipAddress,
+    userAgent,
   });
 
   logger.info('User registered', { userId: user.id, email: user.email });
@@ -101,15 +178,57 @@ export const register = async (
   return user;
 };
 
+/**
+ * Start a session for a user who has passed every login step
+ */
+const startSession = async (
+  user: LoginUser & { twoFactorEnabled: boolean },
+  ipAddress?: string,
+  userAgent?: string
+): Promise<LoginResult> => {
+  await AccountLockoutService.reset(user.id);
+
+  // Generate tokens, starting a new session for this device
+  const accessToken = generateAccessToken(user.id);
+  const refreshToken = await SessionService.create(user.id, { ipAddress, userAgent });
+
+  // Log successful login
+  await createAuditLog({
+    userId: user.id,
+    action: 'USER_LOGIN',
+    resource: 'users',
+    resourceId: user.id,
+    ipAddress,
+    userAgent,
+  });
+
+  logger.info('User logged in', { userId: user.id, email: user.email });
+
+  return {
+    twoFactorRequired: false,
+    twoFactorSetupRequired: !user.twoFactorEnabled && (await TwoFactorService.isRequiredFor(user.role)),
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      emailVerified: user.emailVerified,
+    },
+    accessToken,
+    refreshToken,
+  };
+};
+
 /**
  * Login user
+ * Accounts with two-factor authentication get a challenge instead of a session
  */
 export const login = async (
   email: string,
   password: string,
   ipAddress?: string,
   userAgent?: string
-) => {
+): Promise<LoginResult> => {
   // Find user
   const user = await prisma.user.findUnique({
     where: { email },
@@ -124,113 +243,314 @@ export const login = async (
     throw new UnauthorizedError('Account is disabled');
   }
 
+  AccountLockoutService.assertNotLocked(user);
+
   // Verify password
   const isValidPassword = await comparePassword(password, user.password);
 
   if (!isValidPassword) {
     // Log failed login attempt
-    await prisma.auditLog.create({
-      data: {
-        userId: user.id,
-        action: 'LOGIN_FAILED',
-        resource: 'users',
-        resourceId: user.id,
-        ipAddress,
-        userAgent,
-      },
+    await createAuditLog({
+      userId: user.id,
+      action: 'LOGIN_FAILED',
+      resource: 'users',
+      resourceId: user.id,
+      ipAddress,
+      userAgent,
     });
 
+    await AccountLockoutService.recordFailure(user, { ipAddress, userAgent });
     throw new UnauthorizedError('Invalid credentials');
   }
 
-  // Generate tokens
-  const { accessToken, refreshToken } = generateTokens(user.id);
+  if (user.twoFactorEnabled) {
+    logger.info('Login awaiting two-factor code', { userId: user.id });
+    return { twoFactorRequired: true, challengeToken: TwoFactorService.issueChallenge(user.id) };
+  }
 
-  // Save refresh token in database
-  const expiresAt = new Date();
-  expiresAt.setDate(expiresAt.getDate() + 30); // 30 days
+  return startSession(user, ipAddress, userAgent);
+};
 
-  await prisma.session.create({
-    data: {
-      userId: user.id,
-      token: refreshToken,
-      expiresAt,
-      ipAddress,
-      userAgent,
-    },
+/**
+ * Second login step for accounts with two-factor authentication:
+ * answer the challenge with a code from the authenticator app or a recovery code
+ */
+export const completeTwoFactorLogin = async (
+  challengeToken: string,
+  code: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<LoginResult> => {
+  const userId = TwoFactorService.verifyChallenge(challengeToken);
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
   });
 
-  // Log successful login
-  await prisma.auditLog.create({
-    data: {
+  if (!user || !user.isActive || !user.twoFactorEnabled) {
+    throw new UnauthorizedError('Login challenge is invalid or has expired; please sign in again');
+  }
+
+  // Wrong codes count towards the lockout too, so a challenge cannot be used to guess codes
+  AccountLockoutService.assertNotLocked(user);
+
+  try {
+    await TwoFactorService.verifyCode(user.id, code);
+  } catch (error) {
+    await createAuditLog({
       userId: user.id,
-      action: 'USER_LOGIN',
+      action: 'LOGIN_2FA_FAILED',
       resource: 'users',
       resourceId: user.id,
       ipAddress,
       userAgent,
-    },
-  });
+    });
+    await AccountLockoutService.recordFailure(user, { ipAddress, userAgent });
+    throw error;
+  }
 
-  logger.info('User logged in', { userId: user.id, email: user.email });
+  return startSession(user, ipAddress, userAgent);
+};
+
+/**
+ * Refresh access token
+ * The refresh token is rotated: the one presented stops working and a new one is returned
+ */
+export const refreshAccessToken = async (
+  refreshToken: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  const rotated = await SessionService.rotate(refreshToken, { ipAddress, userAgent });
 
   return {
-    user: {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-    },
-    accessToken,
-    refreshToken,
+    accessToken: generateAccessToken(rotated.userId),
+    refreshToken: rotated.refreshToken,
   };
 };
 
 /**
- * Refresh access token
+ * Logout user (delete session)
+ */
+export const logout = async (refreshToken: string) => {
+  await SessionService.revokeByToken(refreshToken);
+
+  logger.info('User logged out');
+};
+
+/**
+ * Log a user out of every device
  */
-export const refreshAccessToken = async (refreshToken: string) => {
-  // Verify refresh token
+export const logoutEverywhere = async (userId: string): Promise<number> => {
+  const revokedSessions = await prisma.$transaction((tx) => SessionService.revokeAll(tx, userId));
+
+  logger.info('User logged out everywhere', { userId, revokedSessions });
+
+  return revokedSessions;
+};
+
+/**
+ * Request a password reset
+ * Always resolves without revealing whether the email is registered
+ */
+export const requestPasswordReset = async (
+  email: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  if (!config.features.passwordReset) {
+    throw new ForbiddenError('Password reset is currently disabled');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  if (!user || !user.isActive) {
+    logger.info('Password reset requested for unknown or inactive account');
+    return;
+  }
+
+  const token = generateToken();
+
+  // Invalidate any outstanding links so only the newest one works
+  await prisma.$transaction([
+    prisma.passwordReset.updateMany({
+      where: { userId: user.id, used: false },
+      data: { used: true },
+    }),
+    prisma.passwordReset.create({
+      data: {
+        userId: user.id,
+        token: hashToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+      },
+    }),
+  ]);
+
+  await createAuditLog({
+    userId: user.id,
+    action: 'PASSWORD_RESET_REQUESTED',
+    resource: 'users',
+    resourceId: user.id,
+    ipAddress,
+    userAgent,
+  });
+
   try {
-    jwt.verify(refreshToken, config.jwt.refreshSecret);
-  } catch (error) {
-    throw new UnauthorizedError('Invalid refresh token');
+    await emailService.sendPasswordResetEmail({
+      to: user.email,
+      name: user.name || undefined,
+      token,
+    });
+  } catch (error: any) {
+    logger.error('Failed to send password reset email', {
+      userId: user.id,
+      error: error.message,
+    });
+  }
+
+  logger.info('Password reset requested', { userId: user.id });
+};
+
+/**
+ * Reset password using a reset token
+ * Tokens are single-use; all existing sessions are revoked on success
+ */
+export const resetPassword = async (
+  token: string,
+  newPassword: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<void> => {
+  if (!config.features.passwordReset) {
+    throw new ForbiddenError('Password reset is currently disabled');
   }
 
-  // Check if session exists and is valid
-  const session = await prisma.session.findUnique({
-    where: { token: refreshToken },
+  const passwordReset = await prisma.passwordReset.findUnique({
+    where: { token: hashToken(token) },
     include: { user: true },
   });
 
-  if (!session || session.expiresAt < new Date()) {
-    throw new UnauthorizedError('Invalid or expired refresh token');
+  if (!passwordReset || passwordReset.used || passwordReset.expiresAt < new Date()) {
+    throw new ValidationError('Invalid or expired reset token');
   }
 
-  if (!session.user.isActive) {
+  if (!passwordReset.user.isActive) {
     throw new UnauthorizedError('Account is disabled');
   }
 
-  // Generate new access token
-  const accessToken = jwt.sign(
-    { userId: session.userId },
-    config.jwt.secret,
-    { expiresIn: config.jwt.expiresIn } as SignOptions
-  );
+  const hashedPassword = await hashPassword(newPassword);
+  const userId = passwordReset.userId;
+
+  // Mark the token used only if nobody else consumed it in the meantime
+  await prisma.$transaction(async (tx) => {
+    const consumed = await tx.passwordReset.updateMany({
+      where: { id: passwordReset.id, used: false },
+      data: { used: true },
+    });
+
+    if (consumed.count === 0) {
+      throw new ValidationError('Invalid or expired reset token');
+    }
+
+    // Proving control of the mailbox also lifts a lockout
+    await tx.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword, failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+    });
+
+    // Also cuts off access tokens issued before the reset, e.g. one that was stolen
+    await SessionService.revokeAll(tx, userId);
+
+    await appendAuditLog(tx, {
+      userId,
+      action: 'PASSWORD_RESET',
+      resource: 'users',
+      resourceId: userId,
+      ipAddress,
+      userAgent,
+    });
+  });
 
-  return { accessToken };
+  logger.info('Password reset completed', { userId });
 };
 
 /**
- * Logout user (delete session)
+ * Verify email address using a verification token
  */
-export const logout = async (refreshToken: string) => {
-  // Delete session
-  await prisma.session.delete({
-    where: { token: refreshToken },
+export const verifyEmail = async (
+  token: string,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  const verification = await prisma.emailVerification.findUnique({
+    where: { token: hashToken(token) },
   });
 
-  logger.info('User logged out');
+  if (!verification || verification.used || verification.expiresAt < new Date()) {
+    throw new ValidationError('Invalid or expired verification token');
+  }
+
+  const user = await prisma.$transaction(async (tx) => {
+    const consumed = await tx.emailVerification.updateMany({
+      where: { id: verification.id, used: false },
+      data: { used: true },
+    });
+
+    if (consumed.count === 0) {
+      throw new ValidationError('Invalid or expired verification token');
+    }
+
+    const verifiedUser = await tx.user.update({
+      where: { id: verification.userId },
+      data: {
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        emailVerified: true,
+      },
+    });
+
+    await appendAuditLog(tx, {
+      userId: verification.userId,
+      action: 'EMAIL_VERIFIED',
+      resource: 'users',
+      resourceId: verification.userId,
+      ipAddress,
+      userAgent,
+    });
+
+    return verifiedUser;
+  });
+
+  logger.info('Email verified', { userId: user.id });
+
+  return user;
+};
+
+/**
+ * Resend the verification email
+ * Always resolves without revealing whether the email is registered
+ */
+export const resendVerificationEmail = async (email: string): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  if (!user || !user.isActive || user.emailVerified) {
+    logger.info('Verification resend skipped', { reason: 'unknown, inactive or already verified' });
+    return;
+  }
+
+  await issueEmailVerification(user.id, user.email, user.name);
+
+  logger.info('Verification email resent', { userId: user.id });
 };
 
 /**
@@ -244,6 +564,7 @@ export const getUserById = async (userId: string) => {
       email: true,
       name: true,
       role: true,
+      emailVerified: true,
       createdAt: true,
     },
   });
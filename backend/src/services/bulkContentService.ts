@@ -0,0 +1,146 @@
+/**
+ * Bulk Content Service
+ *
+ * Applies one admin action to many items of a content type. Everything runs in a
+ * single transaction: items that are missing (or already trashed) are reported as
+ * failed and skipped, while any unexpected error rolls the whole batch back.
+ */
+
+import { prisma } from '../config/database';
+import { ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+import { appendAuditLog } from './auditService';
+import { RevisionService } from './revisionService';
+import { TrashService } from './trashService';
+import { CONTENT_TYPES, ContentTypeSegment } from './contentTypes';
+
+export const BULK_ACTIONS = [
+  'activate',
+  'deactivate',
+  'feature',
+  'unfeature',
+  'delete',
+  'changeCategory',
+  'setDisplayOrder',
+] as const;
+export type BulkAction = (typeof BULK_ACTIONS)[number];
+
+export interface BulkRequest {
+  ids: string[];
+  action: BulkAction;
+  /** New category (platform for community links), for changeCategory */
+  category?: string;
+  /** Display order of the first id, for setDisplayOrder; the rest follow in the given order */
+  displayOrder?: number;
+}
+
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkResult {
+  action: BulkAction;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+export class BulkContentService {
+  static async apply(segment: ContentTypeSegment, request: BulkRequest, userId?: string): Promise<BulkResult> {
+    const definition = CONTENT_TYPES[segment];
+    const ids = [...new Set(request.ids)];
+    const changes = BulkContentService.changesFor(segment, request);
+
+    const results = await prisma.$transaction(async (tx) => {
+      const itemResults: BulkItemResult[] = [];
+
+      for (const [index, id] of ids.entries()) {
+        const item = await definition.find(tx, id);
+        if (!item || item.deletedAt) {
+          itemResults.push({ id, success: false, error: `${definition.label} not found` });
+          continue;
+        }
+
+        if (request.action === 'delete') {
+          await TrashService.trashItem(tx, segment, item, userId);
+        } else {
+          await RevisionService.record(tx, definition.type, item, userId);
+          await definition.update(tx, id, changes(index));
+        }
+        itemResults.push({ id, success: true });
+      }
+
+      await appendAuditLog(tx, {
+        userId,
+        action: 'CONTENT_BULK_UPDATE',
+        resource: segment,
+        details: {
+          contentType: definition.type,
+          action: request.action,
+          ...(request.category !== undefined && { category: request.category }),
+          ...(request.displayOrder !== undefined && { displayOrder: request.displayOrder }),
+          succeeded: itemResults.filter((result) => result.success).map((result) => result.id),
+          failed: itemResults.filter((result) => !result.success).map((result) => result.id),
+        },
+      });
+
+      return itemResults;
+    });
+
+    const succeeded = results.filter((result) => result.success).length;
+    logger.info('Bulk content action applied', {
+      contentType: definition.type,
+      action: request.action,
+      succeeded,
+      failed: results.length - succeeded,
+      userId,
+    });
+
+    return { action: request.action, succeeded, failed: results.length - succeeded, results };
+  }
+
+  /**
+   * Validate the request for this content type and build the update for the item at a given position
+   */
+  private static changesFor(
+    segment: ContentTypeSegment,
+    request: BulkRequest
+  ): (index: number) => Record<string, unknown> {
+    const definition = CONTENT_TYPES[segment];
+
+    switch (request.action) {
+      case 'activate':
+      case 'deactivate':
+        return () => ({ isActive: request.action === 'activate' });
+      case 'feature':
+      case 'unfeature':
+        if (!definition.featurable) {
+          throw new ValidationError(`${definition.label} items cannot be featured`);
+        }
+        return () => ({ featured: request.action === 'feature' });
+      case 'changeCategory': {
+        const category = definition.category;
+        if (!category) {
+          throw new ValidationError(`${definition.label} items have no category`);
+        }
+        if (!request.category || !category.values.includes(request.category)) {
+          throw new ValidationError(`${category.field} must be one of: ${category.values.join(', ')}`);
+        }
+        return () => ({ [category.field]: request.category });
+      }
+      case 'setDisplayOrder': {
+        const start = request.displayOrder;
+        if (start === undefined || !Number.isInteger(start)) {
+          throw new ValidationError('displayOrder is required');
+        }
+        return (index) => ({ displayOrder: start + index });
+      }
+      case 'delete':
+        return () => ({});
+    }
+  }
+}
+
+export default BulkContentService;
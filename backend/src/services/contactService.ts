@@ -3,18 +3,36 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
+import { ContactSubmission } from '@prisma/client';
 import { prisma } from '../config/database';
-import { ValidationError } from '../utils/errors';
+import { NotFoundError, ValidationError } from '../utils/errors';
 import logger from '../utils/logger';
 import * as emailService from './emailService';
+import { SpamService, SpamVerdict, SubmissionContext } from './spamService';
+
+export const CONTACT_STATUSES = ['PENDING', 'READ', 'REPLIED', 'SPAM'] as const;
+
+export interface ContactSubmissionFilters {
+  status?: (typeof CONTACT_STATUSES)[number];
+  limit?: number;
+  offset?: number;
+}
 
 export class ContactService {
-  static async submitContactForm(data: {
-    name: string;
-    email: string;
-    subject: string;
-    message: string;
-  }) {
+  /**
+   * Store a submission and notify the admin. With a context (the public form), the spam
+   * checks run first: throttled senders are refused, flagged submissions are stored as SPAM
+   * without a notification.
+   */
+  static async submitContactForm(
+    data: {
+      name: string;
+      email: string;
+      subject: string;
+      message: string;
+    },
+    context?: SubmissionContext
+  ) {
     if (!data.name || !data.email || !data.subject || !data.message) {
       throw new ValidationError('All fields are required: name, email, subject, message');
     }
@@ -25,25 +43,90 @@ export class ContactService {
       throw new ValidationError('Invalid email format');
     }
 
+    let verdict: SpamVerdict = { isSpam: false, reasons: [] };
+    if (context) {
+      await SpamService.assertNotThrottled('contact', data.email, context.ipAddress);
+      const text = [data.name, data.subject, data.message];
+      verdict = SpamService.check('contact', { email: data.email, text }, context);
+    }
+
     const submission = await prisma.contactSubmission.create({
       data: {
         name: data.name,
         email: data.email,
         subject: data.subject,
         message: data.message,
-        status: 'PENDING',
+        status: verdict.isSpam ? 'SPAM' : 'PENDING',
+        spamReasons: verdict.reasons,
+        ipAddress: context?.ipAddress,
       },
     });
 
-    logger.info('Contact submission created', { submissionId: submission.id });
+    logger.info('Contact submission created', { submissionId: submission.id, spam: verdict.isSpam });
+
+    if (!verdict.isSpam) {
+      await ContactService.notifyAdmin(submission);
+    }
+
+    return submission;
+  }
+
+  /**
+   * Submissions, newest first, for the support inbox. Spam is left out unless asked for.
+   */
+  static async listSubmissions(filters: ContactSubmissionFilters = {}) {
+    const where = filters.status ? { status: filters.status } : { status: { not: 'SPAM' } };
+
+    const [submissions, total] = await Promise.all([
+      prisma.contactSubmission.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit ?? 20,
+        skip: filters.offset ?? 0,
+      }),
+      prisma.contactSubmission.count({ where }),
+    ]);
 
-    // Send email notification to admin
+    return { submissions, total };
+  }
+
+  /**
+   * Release a false positive from the spam queue into the inbox, sending the notification it missed
+   */
+  static async releaseSpam(id: string) {
+    const { count } = await prisma.contactSubmission.updateMany({
+      where: { id, status: 'SPAM' },
+      data: { status: 'PENDING', spamReasons: [] },
+    });
+    if (count === 0) {
+      throw new NotFoundError('Flagged contact submission not found');
+    }
+
+    const submission = await prisma.contactSubmission.findUniqueOrThrow({ where: { id } });
+    logger.info('Contact submission released from spam', { submissionId: id });
+
+    await ContactService.notifyAdmin(submission);
+    return submission;
+  }
+
+  /**
+   * Delete a submission confirmed as spam
+   */
+  static async deleteSpam(id: string) {
+    const { count } = await prisma.contactSubmission.deleteMany({ where: { id, status: 'SPAM' } });
+    if (count === 0) {
+      throw new NotFoundError('Flagged contact submission not found');
+    }
+    logger.info('Spam contact submission deleted', { submissionId: id });
+  }
+
+  private static async notifyAdmin(submission: ContactSubmission) {
     try {
       await emailService.sendContactNotificationEmail({
-        name: data.name,
-        email: data.email,
-        subject: data.subject,
-        message: data.message,
+        name: submission.name,
+        email: submission.email,
+        subject: submission.subject,
+        message: submission.message,
       });
     } catch (error: any) {
       // Log error but don't fail the submission
@@ -52,8 +135,5 @@ export class ContactService {
         error: error.message,
       });
     }
-
-    return submission;
   }
 }
-
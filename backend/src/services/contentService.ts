@@ -8,7 +8,15 @@
 import { prisma } from '../config/database';
 import { NotFoundError, ValidationError } from '../utils/errors';
 import logger from '../utils/logger';
+import { slugify } from '../utils/slug';
+import { SearchService } from './searchService';
+import { RevisionService } from './revisionService';
+import { TrashService } from './trashService';
+import { contentOrderBy, paginate, PaginatedResult, PaginationOptions } from '../utils/pagination';
+import { publicationData, PublicationInput, publiclyVisibleWhere } from '../utils/publication';
 import {
+  ContentType,
+  Prisma,
   Training,
   TrainingCategory,
   TrainingLevel,
@@ -21,7 +29,7 @@ import {
   CommunityPlatform,
 } from '@prisma/client';
 
-interface CreateTrainingData {
+interface CreateTrainingData extends PublicationInput {
   title: string;
   description: string;
   category: TrainingCategory;
@@ -35,7 +43,31 @@ interface CreateTrainingData {
   displayOrder?: number;
 }
 
-interface UpdateTrainingData {
+export interface TrainingListOptions extends PaginationOptions {
+  category?: TrainingCategory;
+  level?: TrainingLevel;
+  featured?: boolean;
+}
+
+export interface ToolListOptions extends PaginationOptions {
+  featured?: boolean;
+}
+
+export interface ProductListOptions extends PaginationOptions {
+  status?: ProductStatus;
+  featured?: boolean;
+}
+
+export interface KnowledgeListOptions extends PaginationOptions {
+  category?: KnowledgeCategory;
+  featured?: boolean;
+}
+
+export interface CommunityListOptions extends PaginationOptions {
+  platform?: CommunityPlatform;
+}
+
+interface UpdateTrainingData extends PublicationInput {
   title?: string;
   description?: string;
   category?: TrainingCategory;
@@ -64,6 +96,8 @@ export class ContentService {
       throw new ValidationError('Invalid external link URL format');
     }
 
+    const publication = publicationData(data);
+
     const training = await prisma.training.create({
       data: {
         title: data.title,
@@ -77,6 +111,7 @@ export class ContentService {
         featured: data.featured ?? false,
         isActive: data.isActive ?? true,
         displayOrder: data.displayOrder ?? 0,
+        ...publication,
       },
     });
 
@@ -86,9 +121,7 @@ export class ContentService {
 
   static async getActiveTrainings(): Promise<Training[]> {
     const trainings = await prisma.training.findMany({
-      where: {
-        isActive: true,
-      },
+      where: publiclyVisibleWhere(),
       orderBy: {
         displayOrder: 'asc',
       },
@@ -97,11 +130,26 @@ export class ContentService {
     return trainings;
   }
 
+  static async listActiveTrainings(options: TrainingListOptions = {}): Promise<PaginatedResult<Training>> {
+    const where: Prisma.TrainingWhereInput = {
+      ...publiclyVisibleWhere(),
+      ...(options.category && { category: options.category }),
+      ...(options.level && { level: options.level }),
+      ...(options.featured !== undefined && { featured: options.featured }),
+    };
+
+    return paginate(
+      (page) => prisma.training.findMany({ where, orderBy: contentOrderBy(options.sort), ...page }),
+      () => prisma.training.count({ where }),
+      options
+    );
+  }
+
   static async getFeaturedTrainings(): Promise<Training[]> {
     const trainings = await prisma.training.findMany({
       where: {
+        ...publiclyVisibleWhere(),
         featured: true,
-        isActive: true,
       },
       orderBy: {
         displayOrder: 'asc',
@@ -123,13 +171,13 @@ export class ContentService {
     return training;
   }
 
-  static async updateTraining(id: string, data: UpdateTrainingData): Promise<Training> {
+  static async updateTraining(id: string, data: UpdateTrainingData, editorId?: string): Promise<Training> {
     // Check if training exists
     const existing = await prisma.training.findUnique({
       where: { id },
     });
 
-    if (!existing) {
+    if (!existing || existing.deletedAt) {
       throw new NotFoundError('Training not found');
     }
 
@@ -142,44 +190,36 @@ export class ContentService {
       }
     }
 
-    const updated = await prisma.training.update({
-      where: { id },
-      data: {
-        ...(data.title && { title: data.title }),
-        ...(data.description && { description: data.description }),
-        ...(data.category && { category: data.category }),
-        ...(data.level && { level: data.level }),
-        ...(data.externalLink && { externalLink: data.externalLink }),
-        ...(data.duration !== undefined && { duration: data.duration }),
-        ...(data.price !== undefined && { price: data.price }),
-        ...(data.image !== undefined && { image: data.image }),
-        ...(data.featured !== undefined && { featured: data.featured }),
-        ...(data.isActive !== undefined && { isActive: data.isActive }),
-        ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
-      },
+    const publication = publicationData(data, existing);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await RevisionService.record(tx, ContentType.TRAINING, existing, editorId);
+      return tx.training.update({
+        where: { id },
+        data: {
+          ...(data.title && { title: data.title }),
+          ...(data.description && { description: data.description }),
+          ...(data.category && { category: data.category }),
+          ...(data.level && { level: data.level }),
+          ...(data.externalLink && { externalLink: data.externalLink }),
+          ...(data.duration !== undefined && { duration: data.duration }),
+          ...(data.price !== undefined && { price: data.price }),
+          ...(data.image !== undefined && { image: data.image }),
+          ...(data.featured !== undefined && { featured: data.featured }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
+          ...publication,
+        },
+      });
     });
 
     logger.info('Training updated', { trainingId: updated.id });
     return updated;
   }
 
-  static async deleteTraining(id: string): Promise<void> {
-    // Check if training exists
-    const existing = await prisma.training.findUnique({
-      where: { id },
-    });
-
-    if (!existing) {
-      throw new NotFoundError('Training not found');
-    }
-
-    // Soft delete (set isActive to false)
-    await prisma.training.update({
-      where: { id },
-      data: { isActive: false },
-    });
-
-    logger.info('Training deleted', { trainingId: id });
+  static async deleteTraining(id: string, deletedBy?: string): Promise<void> {
+    // Moves the item to the trash; it can be restored until the retention period ends
+    await TrashService.moveToTrash('trainings', id, deletedBy);
   }
 
   // Tool methods
@@ -194,6 +234,8 @@ export class ContentService {
       throw new ValidationError('Invalid external link URL format');
     }
 
+    const publication = publicationData(data);
+
     const tool = await prisma.tool.create({
       data: {
         title: data.title,
@@ -206,6 +248,7 @@ export class ContentService {
         featured: data.featured ?? false,
         isActive: data.isActive ?? true,
         displayOrder: data.displayOrder ?? 0,
+        ...publication,
       },
     });
 
@@ -215,12 +258,25 @@ export class ContentService {
 
   static async getActiveTools(): Promise<Tool[]> {
     const tools = await prisma.tool.findMany({
-      where: { isActive: true },
+      where: publiclyVisibleWhere(),
       orderBy: { displayOrder: 'asc' },
     });
     return tools;
   }
 
+  static async listActiveTools(options: ToolListOptions = {}): Promise<PaginatedResult<Tool>> {
+    const where: Prisma.ToolWhereInput = {
+      ...publiclyVisibleWhere(),
+      ...(options.featured !== undefined && { featured: options.featured }),
+    };
+
+    return paginate(
+      (page) => prisma.tool.findMany({ where, orderBy: contentOrderBy(options.sort), ...page }),
+      () => prisma.tool.count({ where }),
+      options
+    );
+  }
+
   static async getToolById(id: string): Promise<Tool> {
     const tool = await prisma.tool.findUnique({
       where: { id },
@@ -233,9 +289,9 @@ export class ContentService {
     return tool;
   }
 
-  static async updateTool(id: string, data: any): Promise<Tool> {
+  static async updateTool(id: string, data: any, editorId?: string): Promise<Tool> {
     const existing = await prisma.tool.findUnique({ where: { id } });
-    if (!existing) {
+    if (!existing || existing.deletedAt) {
       throw new NotFoundError('Tool not found');
     }
 
@@ -247,38 +303,35 @@ export class ContentService {
       }
     }
 
-    const updated = await prisma.tool.update({
-      where: { id },
-      data: {
-        ...(data.title && { title: data.title }),
-        ...(data.description && { description: data.description }),
-        ...(data.problemSolved && { problemSolved: data.problemSolved }),
-        ...(data.whoShouldUse !== undefined && { whoShouldUse: data.whoShouldUse }),
-        ...(data.externalLink && { externalLink: data.externalLink }),
-        ...(data.image !== undefined && { image: data.image }),
-        ...(data.relatedTrainingIds !== undefined && { relatedTrainingIds: data.relatedTrainingIds }),
-        ...(data.featured !== undefined && { featured: data.featured }),
-        ...(data.isActive !== undefined && { isActive: data.isActive }),
-        ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
-      },
+    const publication = publicationData(data, existing);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await RevisionService.record(tx, ContentType.TOOL, existing, editorId);
+      return tx.tool.update({
+        where: { id },
+        data: {
+          ...(data.title && { title: data.title }),
+          ...(data.description && { description: data.description }),
+          ...(data.problemSolved && { problemSolved: data.problemSolved }),
+          ...(data.whoShouldUse !== undefined && { whoShouldUse: data.whoShouldUse }),
+          ...(data.externalLink && { externalLink: data.externalLink }),
+          ...(data.image !== undefined && { image: data.image }),
+          ...(data.relatedTrainingIds !== undefined && { relatedTrainingIds: data.relatedTrainingIds }),
+          ...(data.featured !== undefined && { featured: data.featured }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
+          ...publication,
+        },
+      });
     });
 
     logger.info('Tool updated', { toolId: updated.id });
     return updated;
   }
 
-  static async deleteTool(id: string): Promise<void> {
-    const existing = await prisma.tool.findUnique({ where: { id } });
-    if (!existing) {
-      throw new NotFoundError('Tool not found');
-    }
-
-    await prisma.tool.update({
-      where: { id },
-      data: { isActive: false },
-    });
-
-    logger.info('Tool deleted', { toolId: id });
+  static async deleteTool(id: string, deletedBy?: string): Promise<void> {
+    // Moves the item to the trash; it can be restored until the retention period ends
+    await TrashService.moveToTrash('tools', id, deletedBy);
   }
 
   // Product methods
@@ -297,6 +350,8 @@ export class ContentService {
       throw new ValidationError('Invalid external link URL format');
     }
 
+    const publication = publicationData(data);
+
     const product = await prisma.product.create({
       data: {
         title: data.title,
@@ -309,6 +364,7 @@ export class ContentService {
         featured: data.featured ?? false,
         isActive: data.isActive ?? true,
         displayOrder: data.displayOrder ?? 0,
+        ...publication,
       },
     });
 
@@ -318,12 +374,26 @@ export class ContentService {
 
   static async getActiveProducts(): Promise<Product[]> {
     const products = await prisma.product.findMany({
-      where: { isActive: true },
+      where: publiclyVisibleWhere(),
       orderBy: { displayOrder: 'asc' },
     });
     return products;
   }
 
+  static async listActiveProducts(options: ProductListOptions = {}): Promise<PaginatedResult<Product>> {
+    const where: Prisma.ProductWhereInput = {
+      ...publiclyVisibleWhere(),
+      ...(options.status && { status: options.status }),
+      ...(options.featured !== undefined && { featured: options.featured }),
+    };
+
+    return paginate(
+      (page) => prisma.product.findMany({ where, orderBy: contentOrderBy(options.sort), ...page }),
+      () => prisma.product.count({ where }),
+      options
+    );
+  }
+
   static async getProductById(id: string): Promise<Product> {
     const product = await prisma.product.findUnique({
       where: { id },
@@ -336,9 +406,9 @@ export class ContentService {
     return product;
   }
 
-  static async updateProduct(id: string, data: any): Promise<Product> {
+  static async updateProduct(id: string, data: any, editorId?: string): Promise<Product> {
     const existing = await prisma.product.findUnique({ where: { id } });
-    if (!existing) {
+    if (!existing || existing.deletedAt) {
       throw new NotFoundError('Product not found');
     }
 
@@ -354,38 +424,35 @@ export class ContentService {
       }
     }
 
-    const updated = await prisma.product.update({
-      where: { id },
-      data: {
-        ...(data.title && { title: data.title }),
-        ...(data.description && { description: data.description }),
-        ...(data.problemSolved && { problemSolved: data.problemSolved }),
-        ...(data.status && { status: data.status }),
-        ...(data.externalLink && { externalLink: data.externalLink }),
-        ...(data.pricing !== undefined && { pricing: data.pricing }),
-        ...(data.image !== undefined && { image: data.image }),
-        ...(data.featured !== undefined && { featured: data.featured }),
-        ...(data.isActive !== undefined && { isActive: data.isActive }),
-        ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
-      },
+    const publication = publicationData(data, existing);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await RevisionService.record(tx, ContentType.PRODUCT, existing, editorId);
+      return tx.product.update({
+        where: { id },
+        data: {
+          ...(data.title && { title: data.title }),
+          ...(data.description && { description: data.description }),
+          ...(data.problemSolved && { problemSolved: data.problemSolved }),
+          ...(data.status && { status: data.status }),
+          ...(data.externalLink && { externalLink: data.externalLink }),
+          ...(data.pricing !== undefined && { pricing: data.pricing }),
+          ...(data.image !== undefined && { image: data.image }),
+          ...(data.featured !== undefined && { featured: data.featured }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
+          ...publication,
+        },
+      });
     });
 
     logger.info('Product updated', { productId: updated.id });
     return updated;
   }
 
-  static async deleteProduct(id: string): Promise<void> {
-    const existing = await prisma.product.findUnique({ where: { id } });
-    if (!existing) {
-      throw new NotFoundError('Product not found');
-    }
-
-    await prisma.product.update({
-      where: { id },
-      data: { isActive: false },
-    });
-
-    logger.info('Product deleted', { productId: id });
+  static async deleteProduct(id: string, deletedBy?: string): Promise<void> {
+    // Moves the item to the trash; it can be restored until the retention period ends
+    await TrashService.moveToTrash('products', id, deletedBy);
   }
 
   // Knowledge Article methods
@@ -406,9 +473,14 @@ export class ContentService {
       }
     }
 
+    const slug = await ContentService.generateUniqueKnowledgeSlug(data.slug || data.title);
+
+    const publication = publicationData(data);
+
     const article = await prisma.knowledgeArticle.create({
       data: {
         title: data.title,
+        slug,
         description: data.description,
         content: data.content,
         category: data.category,
@@ -418,6 +490,7 @@ export class ContentService {
         featured: data.featured ?? false,
         isActive: data.isActive ?? true,
         displayOrder: data.displayOrder ?? 0,
+        ...publication,
       },
     });
 
@@ -427,12 +500,28 @@ export class ContentService {
 
   static async getActiveKnowledgeArticles(): Promise<KnowledgeArticle[]> {
     const articles = await prisma.knowledgeArticle.findMany({
-      where: { isActive: true },
+      where: publiclyVisibleWhere(),
       orderBy: { displayOrder: 'asc' },
     });
     return articles;
   }
 
+  static async listActiveKnowledgeArticles(
+    options: KnowledgeListOptions = {}
+  ): Promise<PaginatedResult<KnowledgeArticle>> {
+    const where: Prisma.KnowledgeArticleWhereInput = {
+      ...publiclyVisibleWhere(),
+      ...(options.category && { category: options.category }),
+      ...(options.featured !== undefined && { featured: options.featured }),
+    };
+
+    return paginate(
+      (page) => prisma.knowledgeArticle.findMany({ where, orderBy: contentOrderBy(options.sort), ...page }),
+      () => prisma.knowledgeArticle.count({ where }),
+      options
+    );
+  }
+
   static async getKnowledgeArticleById(id: string): Promise<KnowledgeArticle> {
     const article = await prisma.knowledgeArticle.findUnique({
       where: { id },
@@ -445,24 +534,54 @@ export class ContentService {
     return article;
   }
 
+  static async getKnowledgeArticleBySlug(slug: string): Promise<KnowledgeArticle> {
+    const article = await prisma.knowledgeArticle.findUnique({
+      where: { slug },
+    });
+
+    if (!article) {
+      throw new NotFoundError('Knowledge article not found');
+    }
+
+    return article;
+  }
+
+  /**
+   * Build a slug from the given text that no other article uses yet.
+   * Slugs are assigned once at creation and never regenerated, so shared URLs stay valid.
+   */
+  private static async generateUniqueKnowledgeSlug(text: string): Promise<string> {
+    const base = slugify(text) || 'article';
+    let candidate = base;
+    let suffix = 2;
+
+    while (await prisma.knowledgeArticle.findUnique({ where: { slug: candidate }, select: { id: true } })) {
+      candidate = `${base}-${suffix}`;
+      suffix++;
+    }
+
+    return candidate;
+  }
+
   static async searchKnowledgeArticles(query: string): Promise<KnowledgeArticle[]> {
+    const ids = await SearchService.searchKnowledgeArticleIds(query);
+    if (ids.length === 0) {
+      return [];
+    }
+
     const articles = await prisma.knowledgeArticle.findMany({
-      where: {
-        isActive: true,
-        OR: [
-          { title: { contains: query, mode: 'insensitive' } },
-          { description: { contains: query, mode: 'insensitive' } },
-          { content: { contains: query, mode: 'insensitive' } },
-        ],
-      },
-      orderBy: { displayOrder: 'asc' },
+      where: { id: { in: ids } },
     });
-    return articles;
+
+    // Keep the relevance order from the full-text search
+    const byId = new Map(articles.map((article) => [article.id, article]));
+    return ids.flatMap((id) => byId.get(id) ?? []);
   }
 
-  static async updateKnowledgeArticle(id: string, data: any): Promise<KnowledgeArticle> {
+
+  static async updateKnowledgeArticle(id: string, data: any, editorId?: string): Promise<KnowledgeArticle> {
     const existing = await prisma.knowledgeArticle.findUnique({ where: { id } });
-    if (!existing) {
+    if (!existing || existing.deletedAt) {
       throw new NotFoundError('Knowledge article not found');
     }
 
@@ -478,38 +597,35 @@ export class ContentService {
       }
     }
 
-    const updated = await prisma.knowledgeArticle.update({
-      where: { id },
-      data: {
-        ...(data.title && { title: data.title }),
-        ...(data.description && { description: data.description }),
-        ...(data.content && { content: data.content }),
-        ...(data.category && { category: data.category }),
-        ...(data.readTime !== undefined && { readTime: data.readTime }),
-        ...(data.image !== undefined && { image: data.image }),
-        ...(data.externalLink !== undefined && { externalLink: data.externalLink }),
-        ...(data.featured !== undefined && { featured: data.featured }),
-        ...(data.isActive !== undefined && { isActive: data.isActive }),
-        ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
-      },
+    const publication = publicationData(data, existing);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await RevisionService.record(tx, ContentType.KNOWLEDGE_ARTICLE, existing, editorId);
+      return tx.knowledgeArticle.update({
+        where: { id },
+        data: {
+          ...(data.title && { title: data.title }),
+          ...(data.description && { description: data.description }),
+          ...(data.content && { content: data.content }),
+          ...(data.category && { category: data.category }),
+          ...(data.readTime !== undefined && { readTime: data.readTime }),
+          ...(data.image !== undefined && { image: data.image }),
+          ...(data.externalLink !== undefined && { externalLink: data.externalLink }),
+          ...(data.featured !== undefined && { featured: data.featured }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
+          ...publication,
+        },
+      });
     });
 
     logger.info('Knowledge article updated', { articleId: updated.id });
     return updated;
   }
 
-  static async deleteKnowledgeArticle(id: string): Promise<void> {
-    const existing = await prisma.knowledgeArticle.findUnique({ where: { id } });
-    if (!existing) {
-      throw new NotFoundError('Knowledge article not found');
-    }
-
-    await prisma.knowledgeArticle.update({
-      where: { id },
-      data: { isActive: false },
-    });
-
-    logger.info('Knowledge article deleted', { articleId: id });
+  static async deleteKnowledgeArticle(id: string, deletedBy?: string): Promise<void> {
+    // Moves the item to the trash; it can be restored until the retention period ends
+    await TrashService.moveToTrash('knowledge', id, deletedBy);
   }
 
   // Community Link methods
@@ -528,6 +644,8 @@ export class ContentService {
       throw new ValidationError('Invalid external link URL format');
     }
 
+    const publication = publicationData(data);
+
     const link = await prisma.communityLink.create({
       data: {
         platform: data.platform,
@@ -537,6 +655,7 @@ export class ContentService {
         image: data.image,
         isActive: data.isActive ?? true,
         displayOrder: data.displayOrder ?? 0,
+        ...publication,
       },
     });
 
@@ -546,12 +665,27 @@ export class ContentService {
 
   static async getActiveCommunityLinks(): Promise<CommunityLink[]> {
     const links = await prisma.communityLink.findMany({
-      where: { isActive: true },
+      where: publiclyVisibleWhere(),
       orderBy: { displayOrder: 'asc' },
     });
     return links;
   }
 
+  static async listActiveCommunityLinks(
+    options: CommunityListOptions = {}
+  ): Promise<PaginatedResult<CommunityLink>> {
+    const where: Prisma.CommunityLinkWhereInput = {
+      ...publiclyVisibleWhere(),
+      ...(options.platform && { platform: options.platform }),
+    };
+
+    return paginate(
+      (page) => prisma.communityLink.findMany({ where, orderBy: contentOrderBy(options.sort), ...page }),
+      () => prisma.communityLink.count({ where }),
+      options
+    );
+  }
+
   static async getCommunityLinkById(id: string): Promise<CommunityLink> {
     const link = await prisma.communityLink.findUnique({
       where: { id },
@@ -564,9 +698,9 @@ export class ContentService {
     return link;
   }
 
-  static async updateCommunityLink(id: string, data: any): Promise<CommunityLink> {
+  static async updateCommunityLink(id: string, data: any, editorId?: string): Promise<CommunityLink> {
     const existing = await prisma.communityLink.findUnique({ where: { id } });
-    if (!existing) {
+    if (!existing || existing.deletedAt) {
       throw new NotFoundError('Community link not found');
     }
 
@@ -582,35 +716,32 @@ export class ContentService {
       }
     }
 
-    const updated = await prisma.communityLink.update({
-      where: { id },
-      data: {
-        ...(data.platform && { platform: data.platform }),
-        ...(data.title && { title: data.title }),
-        ...(data.description !== undefined && { description: data.description }),
-        ...(data.externalLink && { externalLink: data.externalLink }),
-        ...(data.image !== undefined && { image: data.image }),
-        ...(data.isActive !== undefined && { isActive: data.isActive }),
-        ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
-      },
+    const publication = publicationData(data, existing);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await RevisionService.record(tx, ContentType.COMMUNITY_LINK, existing, editorId);
+      return tx.communityLink.update({
+        where: { id },
+        data: {
+          ...(data.platform && { platform: data.platform }),
+          ...(data.title && { title: data.title }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.externalLink && { externalLink: data.externalLink }),
+          ...(data.image !== undefined && { image: data.image }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
+          ...publication,
+        },
+      });
     });
 
     logger.info('Community link updated', { linkId: updated.id });
     return updated;
   }
 
-  static async deleteCommunityLink(id: string): Promise<void> {
-    const existing = await prisma.communityLink.findUnique({ where: { id } });
-    if (!existing) {
-      throw new NotFoundError('Community link not found');
-    }
-
-    await prisma.communityLink.update({
-      where: { id },
-      data: { isActive: false },
-    });
-
-    logger.info('Community link deleted', { linkId: id });
+  static async deleteCommunityLink(id: string, deletedBy?: string): Promise<void> {
+    // Moves the item to the trash; it can be restored until the retention period ends
+    await TrashService.moveToTrash('community', id, deletedBy);
   }
 }
 
@@ -0,0 +1,126 @@
+/**
+ * Content Type Registry
+ *
+ * Maps the admin route segment for each content model (e.g. /api/admin/knowledge)
+ * to its ContentType and Prisma accessors, so features that work across all
+ * content (revisions, publication scheduling, trash, ...) don't need a switch per model.
+ */
+
+import {
+  CommunityPlatform,
+  ContentType,
+  KnowledgeCategory,
+  Prisma,
+  PublicationStatus,
+  TrainingCategory,
+} from '@prisma/client';
+
+export const CONTENT_TYPE_SEGMENTS = ['trainings', 'tools', 'products', 'knowledge', 'community'] as const;
+export type ContentTypeSegment = (typeof CONTENT_TYPE_SEGMENTS)[number];
+
+export type ContentRecord = { id: string } & Record<string, unknown>;
+
+// Filter shared by every content model, used for publication transitions
+export interface PublicationWhere {
+  publicationStatus: { in: PublicationStatus[] };
+  publishAt?: { lte: Date };
+  unpublishAt?: { lte: Date };
+  deletedAt: null;
+}
+
+// Filter for trashed rows: all of them, or those deleted before a cutoff
+export interface TrashWhere {
+  deletedAt: { not: null } | { lte: Date };
+}
+
+export interface TrashedRecord {
+  id: string;
+  title: string;
+  deletedAt: Date | null;
+}
+
+// Enum column used to group items of a type (category, or platform for community links)
+export interface CategoryField {
+  field: string;
+  values: string[];
+}
+
+export interface ContentTypeDefinition {
+  type: ContentType;
+  label: string;
+  featurable: boolean;
+  category?: CategoryField;
+  find: (client: Prisma.TransactionClient, id: string) => Promise<ContentRecord | null>;
+  update: (client: Prisma.TransactionClient, id: string, data: Record<string, unknown>) => Promise<ContentRecord>;
+  findIds: (client: Prisma.TransactionClient, where: PublicationWhere) => Promise<{ id: string }[]>;
+  updateMany: (
+    client: Prisma.TransactionClient,
+    where: PublicationWhere & { id: { in: string[] } },
+    data: Record<string, unknown>
+  ) => Promise<Prisma.BatchPayload>;
+  findTrashed: (client: Prisma.TransactionClient, where: TrashWhere) => Promise<TrashedRecord[]>;
+  delete: (client: Prisma.TransactionClient, id: string) => Promise<ContentRecord>;
+}
+
+const trashedSelect = { id: true, title: true, deletedAt: true } as const;
+
+export const CONTENT_TYPES: Record<ContentTypeSegment, ContentTypeDefinition> = {
+  trainings: {
+    type: ContentType.TRAINING,
+    label: 'Training',
+    featurable: true,
+    category: { field: 'category', values: Object.values(TrainingCategory) },
+    find: (client, id) => client.training.findUnique({ where: { id } }),
+    update: (client, id, data) => client.training.update({ where: { id }, data }),
+    findIds: (client, where) => client.training.findMany({ where, select: { id: true } }),
+    updateMany: (client, where, data) => client.training.updateMany({ where, data }),
+    findTrashed: (client, where) => client.training.findMany({ where, select: trashedSelect }),
+    delete: (client, id) => client.training.delete({ where: { id } }),
+  },
+  tools: {
+    type: ContentType.TOOL,
+    label: 'Tool',
+    featurable: true,
+    find: (client, id) => client.tool.findUnique({ where: { id } }),
+    update: (client, id, data) => client.tool.update({ where: { id }, data }),
+    findIds: (client, where) => client.tool.findMany({ where, select: { id: true } }),
+    updateMany: (client, where, data) => client.tool.updateMany({ where, data }),
+    findTrashed: (client, where) => client.tool.findMany({ where, select: trashedSelect }),
+    delete: (client, id) => client.tool.delete({ where: { id } }),
+  },
+  products: {
+    type: ContentType.PRODUCT,
+    label: 'Product',
+    featurable: true,
+    find: (client, id) => client.product.findUnique({ where: { id } }),
+    update: (client, id, data) => client.product.update({ where: { id }, data }),
+    findIds: (client, where) => client.product.findMany({ where, select: { id: true } }),
+    updateMany: (client, where, data) => client.product.updateMany({ where, data }),
+    findTrashed: (client, where) => client.product.findMany({ where, select: trashedSelect }),
+    delete: (client, id) => client.product.delete({ where: { id } }),
+  },
+  knowledge: {
+    type: ContentType.KNOWLEDGE_ARTICLE,
+    label: 'Knowledge article',
+    featurable: true,
+    category: { field: 'category', values: Object.values(KnowledgeCategory) },
+    find: (client, id) => client.knowledgeArticle.findUnique({ where: { id } }),
+    update: (client, id, data) => client.knowledgeArticle.update({ where: { id }, data }),
+    findIds: (client, where) => client.knowledgeArticle.findMany({ where, select: { id: true } }),
+    updateMany: (client, where, data) => client.knowledgeArticle.updateMany({ where, data }),
+    findTrashed: (client, where) => client.knowledgeArticle.findMany({ where, select: trashedSelect }),
+    delete: (client, id) => client.knowledgeArticle.delete({ where: { id } }),
+  },
+  community: {
+    type: ContentType.COMMUNITY_LINK,
+    label: 'Community link',
+    featurable: false,
+    category: { field: 'platform', values: Object.values(CommunityPlatform) },
+    find: (client, id) => client.communityLink.findUnique({ where: { id } }),
+    update: (client, id, data) => client.communityLink.update({ where: { id }, data }),
+    findIds: (client, where) => client.communityLink.findMany({ where, select: { id: true } }),
+    updateMany: (client, where, data) => client.communityLink.updateMany({ where, data }),
+    findTrashed: (client, where) => client.communityLink.findMany({ where, select: trashedSelect }),
+    delete: (client, id) => client.communityLink.delete({ where: { id } }),
+  },
+};
@@ -191,6 +191,53 @@ export const sendPasswordResetEmail = async (params: {
   });
 };
 
+/**
+ * Tell a user their account was locked after repeated failed logins
+ */
+export const sendAccountLockedEmail = async (params: {
+  to: string;
+  name?: string;
+  failedAttempts: number;
+  lockMinutes: number;
+}) => {
+  const html = renderTemplate('account-locked', {
+    name: params.name || 'User',
+    email: params.to,
+    failedAttempts: params.failedAttempts,
+    lockMinutes: params.lockMinutes,
+    resetUrl: `${config.frontendUrl}/forgot-password`,
+  });
+
+  return sendEmail({
+    to: params.to,
+    subject: 'Your Account Has Been Locked',
+    html,
+  });
+};
+
+/**
+ * Tell a user their data export is ready to download
+ */
+export const sendDataExportReadyEmail = async (params: {
+  to: string;
+  name?: string;
+  downloadUrl: string;
+  expiresAt: Date;
+}) => {
+  const html = renderTemplate('data-export-ready', {
+    name: params.name || 'User',
+    email: params.to,
+    downloadUrl: params.downloadUrl,
+    expiresAt: params.expiresAt.toUTCString(),
+  });
+
+  return sendEmail({
+    to: params.to,
+    subject: 'Your Data Export Is Ready',
+    html,
+  });
+};
+
 /**
  * Send generic notification email
  */
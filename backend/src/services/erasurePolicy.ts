@@ -0,0 +1,357 @@
+/**
+ * Erasure Policy
+ *
+ * What a GDPR deletion does to each table that can hold personal data about a
+ * user: delete the rows, anonymize them (keep the row, clear what identifies the
+ * person) or retain them untouched for a stated reason. Every rule also says how
+ * to find rows that still identify the person, which is checked once all rules
+ * have run. A table that gains personal data needs a rule here.
+ *
+ * Rules are idempotent, so a failed deletion can simply be run again.
+ */
+
+import crypto from 'crypto';
+import { DeletionType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import logger from '../utils/logger';
+import { StorageProviderFactory } from '../providers/StorageProviderFactory';
+import { mentionsEmail, redactUserAuditLogs } from './auditService';
+import { hashPassword } from './authService';
+
+export type ErasureAction = 'delete' | 'anonymize' | 'retain';
+
+/**
+ * The person being erased, as they were before any rule ran
+ */
+export interface ErasureSubject {
+  userId: string;
+  email: string;
+}
+
+export interface ErasureRule {
+  table: string;
+  action: ErasureAction;
+  /** Why the data is handled this way; shown in the deletion report */
+  reason: string;
+  /** Apply the rule and return the number of rows it touched */
+  erase: (subject: ErasureSubject) => Promise<number>;
+  /** Rows that still identify the subject afterwards (always 0 when the rule worked) */
+  remaining: (subject: ErasureSubject) => Promise<number>;
+}
+
+export interface ErasureReportEntry {
+  table: string;
+  action: ErasureAction;
+  reason: string;
+  affected: number;
+}
+
+export interface ErasureReport {
+  deletionType: DeletionType;
+  startedAt: string;
+  completedAt: string;
+  entries: ErasureReportEntry[];
+  verification: {
+    passed: boolean;
+    /** Tables where identifying rows were still found */
+    remaining: { table: string; count: number }[];
+  };
+}
+
+const anonymizedEmail = (userId: string) => `deleted_${userId}@deleted.local`;
+
+const ANONYMIZED_NAME = '[Deleted User]';
+
+// Case-insensitive match on the email address, for tables not linked to the user
+const byEmail = (email: string) => ({ equals: email, mode: 'insensitive' as const });
+
+const hasJson = (field: string) => ({ NOT: { [field]: { equals: Prisma.DbNull } } });
+
+const count = (rows: { count: bigint }[]) => Number(rows[0]?.count ?? 0);
+
+export const ERASURE_POLICY: ErasureRule[] = [
+  {
+    table: 'sessions',
+    action: 'delete',
+    reason: 'Refresh tokens with the IP address and device of each sign-in',
+    erase: async ({ userId }) => (await prisma.session.deleteMany({ where: { userId } })).count,
+    remaining: ({ userId }) => prisma.session.count({ where: { userId } }),
+  },
+  {
+    table: 'password_resets',
+    action: 'delete',
+    reason: 'Only needed while the account exists',
+    erase: async ({ userId }) => (await prisma.passwordReset.deleteMany({ where: { userId } })).count,
+    remaining: ({ userId }) => prisma.passwordReset.count({ where: { userId } }),
+  },
+  {
+    table: 'email_verifications',
+    action: 'delete',
+    reason: 'Only needed while the account exists',
+    erase: async ({ userId }) => (await prisma.emailVerification.deleteMany({ where: { userId } })).count,
+    remaining: ({ userId }) => prisma.emailVerification.count({ where: { userId } }),
+  },
+  {
+    table: 'two_factor_recovery_codes',
+    action: 'delete',
+    reason: 'Only needed while the account exists',
+    erase: async ({ userId }) => (await prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } })).count,
+    remaining: ({ userId }) => prisma.twoFactorRecoveryCode.count({ where: { userId } }),
+  },
+  {
+    table: 'notifications',
+    action: 'delete',
+    reason: 'Messages addressed to the user',
+    erase: async ({ userId }) => (await prisma.notification.deleteMany({ where: { userId } })).count,
+    remaining: ({ userId }) => prisma.notification.count({ where: { userId } }),
+  },
+  {
+    table: 'notification_preferences',
+    action: 'delete',
+    reason: 'Only needed while the account exists',
+    erase: async ({ userId }) => (await prisma.notificationPreference.deleteMany({ where: { userId } })).count,
+    remaining: ({ userId }) => prisma.notificationPreference.count({ where: { userId } }),
+  },
+  {
+    table: 'data_export_requests',
+    action: 'delete',
+    reason: 'Export archives are a full copy of the personal data',
+    erase: async ({ userId }) => {
+      const exports = await prisma.dataExportRequest.findMany({
+        where: { userId, storageKey: { not: null } },
+        select: { storageKey: true },
+      });
+      for (const { storageKey } of exports) {
+        await StorageProviderFactory.getProvider().delete(storageKey!);
+      }
+      return (await prisma.dataExportRequest.deleteMany({ where: { userId } })).count;
+    },
+    remaining: ({ userId }) => prisma.dataExportRequest.count({ where: { userId } }),
+  },
+  {
+    table: 'consent_records',
+    action: 'anonymize',
+    reason: 'Kept as evidence of what was consented to and when; IP address and user agent are cleared',
+    erase: async ({ userId }) =>
+      (await prisma.consentRecord.updateMany({ where: { userId }, data: { ipAddress: null, userAgent: null } }))
+        .count,
+    remaining: ({ userId }) =>
+      prisma.consentRecord.count({
+        where: { userId, OR: [{ ipAddress: { not: null } }, { userAgent: { not: null } }] },
+      }),
+  },
+  {
+    table: 'audit_logs',
+    action: 'anonymize',
+    reason:
+      'Kept for security and accountability; user, IP address, user agent and details are cleared ' +
+      'and the entries are signed as redacted so the audit chain still verifies',
+    erase: ({ userId, email }) => redactUserAuditLogs(userId, email),
+    remaining: async ({ userId, email }) => {
+      const [linked, mentioning] = await Promise.all([
+        prisma.auditLog.count({
+          where: { OR: [{ userId }, { resource: 'users', resourceId: userId, redactedAt: null }] },
+        }),
+        prisma.$queryRaw<{ count: bigint }[]>`
+          SELECT COUNT(*) AS "count" FROM "audit_logs"
+          WHERE ${mentionsEmail('details', email)}
+        `,
+      ]);
+      return linked + count(mentioning);
+    },
+  },
+  {
+    table: 'payments',
+    action: 'anonymize',
+    reason:
+      'Amounts, currencies and dates are kept for accounting and tax records; ' +
+      'metadata, descriptions and error messages are cleared',
+    erase: async ({ userId }) =>
+      (
+        await prisma.payment.updateMany({
+          where: { userId },
+          data: { metadata: Prisma.DbNull, description: null, errorMessage: null },
+        })
+      ).count,
+    remaining: ({ userId }) =>
+      prisma.payment.count({
+        where: { userId, OR: [hasJson('metadata'), { description: { not: null } }, { errorMessage: { not: null } }] },
+      }),
+  },
+  {
+    table: 'payment_refunds',
+    action: 'anonymize',
+    reason: 'Kept for accounting and tax records; metadata and reasons are cleared',
+    erase: async ({ userId }) =>
+      (
+        await prisma.paymentRefund.updateMany({
+          where: { payment: { userId } },
+          data: { metadata: Prisma.DbNull, reason: null },
+        })
+      ).count,
+    remaining: ({ userId }) =>
+      prisma.paymentRefund.count({
+        where: { payment: { userId }, OR: [hasJson('metadata'), { reason: { not: null } }] },
+      }),
+  },
+  {
+    table: 'payment_webhook_logs',
+    action: 'anonymize',
+    reason: 'Kept to trace payment events; provider payloads, which include customer details, are cleared',
+    erase: ({ userId, email }) => prisma.$executeRaw`
+      UPDATE "payment_webhook_logs" SET "payload" = '{}'
+      WHERE "payload"::text <> '{}'
+        AND ("paymentId" IN (SELECT "id" FROM "payments" WHERE "userId" = ${userId})
+          OR ${mentionsEmail('payload', email)})
+    `,
+    remaining: async ({ userId, email }) =>
+      count(
+        await prisma.$queryRaw<{ count: bigint }[]>`
+          SELECT COUNT(*) AS "count" FROM "payment_webhook_logs"
+          WHERE "payload"::text <> '{}'
+            AND ("paymentId" IN (SELECT "id" FROM "payments" WHERE "userId" = ${userId})
+              OR ${mentionsEmail('payload', email)})
+        `
+      ),
+  },
+  {
+    table: 'subscriptions',
+    action: 'anonymize',
+    reason: 'Kept for accounting and tax records; metadata is cleared',
+    erase: async ({ userId }) =>
+      (await prisma.subscription.updateMany({ where: { userId }, data: { metadata: Prisma.DbNull } })).count,
+    remaining: ({ userId }) => prisma.subscription.count({ where: { userId, ...hasJson('metadata') } }),
+  },
+  {
+    table: 'content_revisions',
+    action: 'anonymize',
+    reason: 'Site content belongs to the site; only the link to the editor is removed',
+    erase: async ({ userId }) =>
+      (await prisma.contentRevision.updateMany({ where: { editorId: userId }, data: { editorId: null } })).count,
+    remaining: ({ userId }) => prisma.contentRevision.count({ where: { editorId: userId } }),
+  },
+  {
+    table: 'contact_submissions',
+    action: 'delete',
+    reason: 'Messages sent from the user\'s email address',
+    erase: async ({ email }) => (await prisma.contactSubmission.deleteMany({ where: { email: byEmail(email) } })).count,
+    remaining: ({ email }) => prisma.contactSubmission.count({ where: { email: byEmail(email) } }),
+  },
+  {
+    table: 'newsletter_subscriptions',
+    action: 'delete',
+    reason: 'Sign-ups with the user\'s email address',
+    erase: async ({ email }) =>
+      (await prisma.newsletterSubscription.deleteMany({ where: { email: byEmail(email) } })).count,
+    remaining: ({ email }) => prisma.newsletterSubscription.count({ where: { email: byEmail(email) } }),
+  },
+  {
+    table: 'data_deletion_requests',
+    action: 'anonymize',
+    reason: 'Kept as proof that the erasure was requested and carried out; the stated reason is cleared',
+    erase: async ({ userId }) =>
+      (
+        await prisma.dataDeletionRequest.updateMany({
+          where: { userId },
+          data: { reason: null, confirmationToken: null },
+        })
+      ).count,
+    remaining: ({ userId }) => prisma.dataDeletionRequest.count({ where: { userId, reason: { not: null } } }),
+  },
+  {
+    table: 'rate_limit_counters',
+    action: 'retain',
+    reason: 'Keyed by IP address only, not linked to the user, and gone when their window ends',
+    erase: async () => 0,
+    remaining: async () => 0,
+  },
+];
+
+/**
+ * The account row itself: deactivated and anonymized on a SOFT deletion, removed on a HARD one
+ */
+const eraseUser = async ({ userId }: ErasureSubject, deletionType: DeletionType): Promise<ErasureReportEntry> => {
+  if (deletionType === DeletionType.HARD) {
+    const { count: affected } = await prisma.user.deleteMany({ where: { id: userId } });
+    return { table: 'users', action: 'delete', reason: 'HARD deletion requested', affected };
+  }
+
+  const { count: affected } = await prisma.user.updateMany({
+    where: { id: userId },
+    data: {
+      isActive: false,
+      email: anonymizedEmail(userId),
+      name: ANONYMIZED_NAME,
+      password: await hashPassword(crypto.randomBytes(32).toString('hex')),
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      tokensRevokedAt: new Date(),
+    },
+  });
+  return {
+    table: 'users',
+    action: 'anonymize',
+    reason: 'SOFT deletion: the deactivated account is kept so retained records still point somewhere',
+    affected,
+  };
+};
+
+const userRemaining = async ({ userId, email }: ErasureSubject, deletionType: DeletionType): Promise<number> => {
+  if (deletionType === DeletionType.HARD) {
+    return prisma.user.count({ where: { id: userId } });
+  }
+  return prisma.user.count({
+    where: {
+      OR: [
+        { id: userId, NOT: { email: anonymizedEmail(userId) } },
+        { id: userId, NOT: { name: ANONYMIZED_NAME } },
+        { id: userId, twoFactorSecret: { not: null } },
+        { email: byEmail(email) },
+      ],
+    },
+  });
+};
+
+/**
+ * Apply every rule and check that nothing identifying is left. The account row goes
+ * last, once the rest is verified, so a retry can still find rows by the email address.
+ */
+export const applyErasurePolicy = async (
+  subject: ErasureSubject,
+  deletionType: DeletionType
+): Promise<ErasureReport> => {
+  const startedAt = new Date().toISOString();
+  const entries: ErasureReportEntry[] = [];
+  const remaining: { table: string; count: number }[] = [];
+
+  for (const rule of ERASURE_POLICY) {
+    const affected = await rule.erase(subject);
+    entries.push({ table: rule.table, action: rule.action, reason: rule.reason, affected });
+  }
+  for (const rule of ERASURE_POLICY) {
+    const left = await rule.remaining(subject);
+    if (left > 0) {
+      remaining.push({ table: rule.table, count: left });
+    }
+  }
+
+  if (remaining.length === 0) {
+    entries.push(await eraseUser(subject, deletionType));
+    const usersLeft = await userRemaining(subject, deletionType);
+    if (usersLeft > 0) {
+      remaining.push({ table: 'users', count: usersLeft });
+    }
+  }
+
+  if (remaining.length > 0) {
+    logger.error('Erasure verification found identifying data', { userId: subject.userId, remaining });
+  }
+
+  return {
+    deletionType,
+    startedAt,
+    completedAt: new Date().toISOString(),
+    entries,
+    verification: { passed: remaining.length === 0, remaining },
+  };
+};
@@ -1,16 +1,73 @@
 /**
  * GDPR Compliance Service
  * 
- * Handles data export, deletion, and consent management
+ * Handles data export, deletion, and consent management.
+ * Exports and confirmed deletions run as background jobs (see jobQueue).
+ * Exports are ZIP archives (JSON plus one CSV per table) kept in file storage until
+ * they expire, and downloaded through signed links bound to one export.
  */
 
 import { prisma } from '../config/database';
-import { DataExportStatus, DataDeletionStatus, DeletionType, ConsentType } from '@prisma/client';
+import config from '../config';
+import {
+  ConsentType,
+  DataDeletionStatus,
+  DataExportRequest,
+  DataExportStatus,
+  DeletionType,
+  Prisma,
+} from '@prisma/client';
+import jwt, { TokenExpiredError } from 'jsonwebtoken';
 import logger from '../utils/logger';
-import { AppError, NotFoundError } from '../utils/errors';
+import { AppError, NotFoundError, UnauthorizedError } from '../utils/errors';
+import { toCsv } from '../utils/csv';
+import { deriveSecret } from '../utils/tokens';
+import { createZip } from '../utils/zip';
+import { StorageProviderFactory } from '../providers/StorageProviderFactory';
 import { createAuditLog } from './auditService';
+import * as emailService from './emailService';
+import { JobQueue } from './jobQueue';
+import { applyErasurePolicy } from './erasurePolicy';
 import crypto from 'crypto';
 
+const DOWNLOAD_AUDIENCE = 'data-export-download';
+
+interface DownloadTokenPayload {
+  exportId: string;
+  sub: string;
+}
+
+const downloadTokenSecret = (): string => config.dataExport.downloadTokenSecret || deriveSecret(DOWNLOAD_AUDIENCE);
+
+const exportPath = (requestId: string) => `/api/gdpr/exports/${requestId}/download`;
+
+/**
+ * Signed link to download a completed export, valid until the export expires
+ */
+export const createDownloadUrl = (request: Pick<DataExportRequest, 'id' | 'userId' | 'expiresAt'>): string => {
+  const expiresAt = request.expiresAt ?? new Date();
+  const token = jwt.sign({ exportId: request.id, exp: Math.floor(expiresAt.getTime() / 1000) }, downloadTokenSecret(), {
+    audience: DOWNLOAD_AUDIENCE,
+    subject: request.userId,
+  });
+
+  return `${config.apiUrl}${exportPath(request.id)}?token=${token}`;
+};
+
+/**
+ * Delete an export's archive and mark it EXPIRED
+ */
+const expireExport = async (request: Pick<DataExportRequest, 'id' | 'storageKey'>) => {
+  if (request.storageKey) {
+    await StorageProviderFactory.getProvider().delete(request.storageKey);
+  }
+
+  await prisma.dataExportRequest.updateMany({
+    where: { id: request.id, status: DataExportStatus.COMPLETED },
+    data: { status: DataExportStatus.EXPIRED, storageKey: null, downloadUrl: null },
+  });
+};
+
 /**
  * Request data export
  */
@@ -32,10 +89,14 @@ export const requestDataExport = async (userId: string) => {
       resourceId: exportRequest.id,
     });
 
+    await JobQueue.enqueue(
+      'gdpr.export',
+      { requestId: exportRequest.id },
+      { dedupeKey: `gdpr.export:${exportRequest.id}` }
+    );
+
     logger.info('Data export requested', { userId, requestId: exportRequest.id });
 
-    // In a real system, this would trigger a background job to generate the export
-    // For now, we'll mark it as processing
     return exportRequest;
   } catch (error: any) {
     logger.error('Data export request failed', { userId, error: error.message });
@@ -114,6 +175,7 @@ export const generateDataExport = async (requestId: string) => {
         status: n.status,
       })),
       payments: payments.map(p => ({
+        id: p.id,
         amount: p.amount,
         currency: p.currency,
         status: p.status,
@@ -125,28 +187,41 @@ export const generateDataExport = async (requestId: string) => {
       exportMetadata: {
         requestId,
         generatedAt: new Date().toISOString(),
-        format: 'JSON',
+        format: 'ZIP',
       },
     };
 
-    const exportJson = JSON.stringify(exportData, null, 2);
-    const fileSize = Buffer.byteLength(exportJson, 'utf8');
+    // One CSV per table; nested refunds get a table of their own
+    const tables: Record<string, Record<string, unknown>[]> = {
+      user: [exportData.user],
+      sessions: exportData.sessions,
+      audit_logs: exportData.auditLogs,
+      notifications: exportData.notifications,
+      payments: exportData.payments.map(({ refunds: _refunds, ...payment }) => payment),
+      refunds: payments.flatMap(p => p.refunds),
+      subscriptions: exportData.subscriptions,
+      consents: exportData.consents,
+    };
+
+    const archive = createZip([
+      { name: 'data.json', content: JSON.stringify(exportData, null, 2) },
+      ...Object.entries(tables).map(([table, rows]) => ({ name: `${table}.csv`, content: toCsv(rows) })),
+    ]);
 
-    // In a real system, upload to S3 and get downloadUrl
-    // For now, we'll simulate this
-    const downloadUrl = `/api/gdpr/exports/${requestId}/download`;
+    const storageKey = `data-exports/${userId}/${requestId}.zip`;
+    await StorageProviderFactory.getProvider().put(storageKey, archive, 'application/zip');
 
-    // Update request with completion
     const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days to download
+    expiresAt.setDate(expiresAt.getDate() + config.dataExport.ttlDays);
 
-    await prisma.dataExportRequest.update({
+    const completed = await prisma.dataExportRequest.update({
       where: { id: requestId },
       data: {
         status: DataExportStatus.COMPLETED,
         completedAt: new Date(),
-        downloadUrl,
-        fileSize,
+        downloadUrl: exportPath(requestId),
+        storageKey,
+        fileSize: archive.length,
         expiresAt,
       },
     });
@@ -154,15 +229,31 @@ export const generateDataExport = async (requestId: string) => {
     logger.info('Data export generated', {
       userId,
       requestId,
-      fileSize,
+      fileSize: archive.length,
     });
 
+    const downloadUrl = createDownloadUrl(completed);
+
+    try {
+      await emailService.sendDataExportReadyEmail({
+        to: request.user.email,
+        name: request.user.name || undefined,
+        downloadUrl,
+        expiresAt,
+      });
+    } catch (error: any) {
+      // Log error but don't fail the export; the link is also returned and listed
+      logger.error('Failed to send data export email', {
+        requestId,
+        error: error.message,
+      });
+    }
+
     return {
       requestId,
       downloadUrl,
-      fileSize,
+      fileSize: archive.length,
       expiresAt,
-      data: exportData, // Return data directly for now
     };
   } catch (error: any) {
     // Mark as failed (only if request exists)
@@ -187,6 +278,103 @@ export const generateDataExport = async (requestId: string) => {
   }
 };
 
+/**
+ * Archive of a completed export, for a valid download link
+ */
+export const getExportDownload = async (
+  requestId: string,
+  token: unknown,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  let payload: DownloadTokenPayload;
+  try {
+    payload = jwt.verify(String(token), downloadTokenSecret(), { audience: DOWNLOAD_AUDIENCE }) as DownloadTokenPayload;
+  } catch (error) {
+    if (error instanceof TokenExpiredError) {
+      throw new AppError('This download link has expired', 410);
+    }
+    throw new UnauthorizedError('Invalid download link');
+  }
+
+  const request = await prisma.dataExportRequest.findUnique({ where: { id: requestId } });
+
+  if (payload.exportId !== requestId || request?.userId !== payload.sub) {
+    throw new UnauthorizedError('Invalid download link');
+  }
+  if (request.status === DataExportStatus.EXPIRED) {
+    throw new AppError('This export has expired', 410);
+  }
+  if (request.status !== DataExportStatus.COMPLETED || !request.storageKey) {
+    throw new NotFoundError('Export not found');
+  }
+  if (!request.expiresAt || request.expiresAt <= new Date()) {
+    await expireExport(request);
+    throw new AppError('This export has expired', 410);
+  }
+
+  const archive = await StorageProviderFactory.getProvider().get(request.storageKey);
+  if (!archive) {
+    throw new NotFoundError('Export file not found');
+  }
+
+  await createAuditLog({
+    userId: request.userId,
+    action: 'DATA_EXPORT_DOWNLOADED',
+    resource: 'data_export_requests',
+    resourceId: request.id,
+    ipAddress,
+    userAgent,
+  });
+
+  return {
+    archive,
+    filename: `data-export-${request.completedAt!.toISOString().slice(0, 10)}.zip`,
+  };
+};
+
+/**
+ * Move exports past their expiry to EXPIRED and delete their archives
+ */
+export const expireDataExports = async (): Promise<number> => {
+  const stale = await prisma.dataExportRequest.findMany({
+    where: { status: DataExportStatus.COMPLETED, expiresAt: { lte: new Date() } },
+    select: { id: true, storageKey: true },
+  });
+
+  for (const request of stale) {
+    await expireExport(request);
+  }
+
+  if (stale.length > 0) {
+    logger.info('Expired data exports', { count: stale.length });
+  }
+  return stale.length;
+};
+
+/**
+ * Enqueue jobs for pending exports and due deletions that have none, e.g. requests
+ * made before the job queue existed. Safe to run repeatedly: job keys are deduplicated.
+ */
+export const enqueueDueGdprJobs = async (): Promise<number> => {
+  const [exports, deletions] = await Promise.all([
+    prisma.dataExportRequest.findMany({ where: { status: DataExportStatus.PENDING }, select: { id: true } }),
+    prisma.dataDeletionRequest.findMany({
+      where: { status: DataDeletionStatus.CONFIRMED, scheduledFor: { lte: new Date() } },
+      select: { id: true },
+    }),
+  ]);
+
+  for (const { id } of exports) {
+    await JobQueue.enqueue('gdpr.export', { requestId: id }, { dedupeKey: `gdpr.export:${id}` });
+  }
+  for (const { id } of deletions) {
+    await JobQueue.enqueue('gdpr.deletion', { requestId: id }, { dedupeKey: `gdpr.deletion:${id}` });
+  }
+
+  return exports.length + deletions.length;
+};
+
 /**
  * Request data deletion
  */
@@ -253,7 +441,7 @@ export const confirmDataDeletion = async (confirmationToken: string) => {
     }
 
     // Update status to confirmed
-    await prisma.dataDeletionRequest.update({
+    const confirmed = await prisma.dataDeletionRequest.update({
       where: { id: request.id },
       data: {
         status: DataDeletionStatus.CONFIRMED,
@@ -262,6 +450,12 @@ export const confirmDataDeletion = async (confirmationToken: string) => {
       },
     });
 
+    await JobQueue.enqueue(
+      'gdpr.deletion',
+      { requestId: request.id },
+      { runAt: confirmed.scheduledFor!, dedupeKey: `gdpr.deletion:${request.id}` }
+    );
+
     logger.info('Data deletion confirmed', {
       userId: request.userId,
       requestId: request.id,
@@ -275,22 +469,33 @@ export const confirmDataDeletion = async (confirmationToken: string) => {
 };
 
 /**
- * Execute data deletion
+ * Execute data deletion: apply the erasure policy, verify that nothing identifying
+ * is left and store the report with the request
  */
 export const executeDataDeletion = async (requestId: string) => {
   try {
     const request = await prisma.dataDeletionRequest.findUnique({
       where: { id: requestId },
+      include: { user: { select: { email: true } } },
     });
 
     if (!request) {
       throw new NotFoundError('Deletion request not found');
     }
 
-    if (request.status !== DataDeletionStatus.CONFIRMED) {
+    // A failed run of a confirmed request may be retried, as may one left PROCESSING by a
+    // worker that crashed mid-run (the job queue hands such jobs out again)
+    const retryable =
+      (request.status === DataDeletionStatus.FAILED || request.status === DataDeletionStatus.PROCESSING) &&
+      request.confirmedAt;
+    if (request.status !== DataDeletionStatus.CONFIRMED && !retryable) {
       throw new AppError('Deletion request not confirmed', 400);
     }
 
+    if (!request.userId || !request.user) {
+      throw new AppError('The account of this deletion request no longer exists', 409);
+    }
+
     // Update status to processing
     await prisma.dataDeletionRequest.update({
       where: { id: requestId },
@@ -298,33 +503,35 @@ export const executeDataDeletion = async (requestId: string) => {
     });
 
     const userId = request.userId;
+    const report = await applyErasurePolicy({ userId, email: request.user.email }, request.deletionType);
+    const reportJson = report as unknown as Prisma.InputJsonObject;
 
-    // Mark deletion as completed BEFORE deleting user (to avoid cascade issues)
-    await prisma.dataDeletionRequest.update({
+    if (!report.verification.passed) {
+      const tables = report.verification.remaining.map(({ table }) => table).join(', ');
+      await prisma.dataDeletionRequest.update({
+        where: { id: requestId },
+        data: { report: reportJson },
+      });
+      throw new AppError(`Erasure verification failed: identifying data remains in ${tables}`, 500);
+    }
+
+    const completed = await prisma.dataDeletionRequest.update({
       where: { id: requestId },
       data: {
         status: DataDeletionStatus.COMPLETED,
         completedAt: new Date(),
+        errorMessage: null,
+        report: reportJson,
       },
     });
 
-    if (request.deletionType === DeletionType.SOFT) {
-      // Soft delete - mark user as inactive and anonymize
-      await prisma.user.update({
-        where: { id: userId },
-        data: {
-          isActive: false,
-          email: `deleted_${userId}@deleted.local`,
-          name: '[Deleted User]',
-        },
-      });
-    } else {
-      // Hard delete - permanently delete user and all related data
-      // Note: deletion_requests have CASCADE, so they'll be deleted too
-      await prisma.user.delete({
-        where: { id: userId },
-      });
-    }
+    // Not linked to the user, so the entry survives the erasure it records
+    await createAuditLog({
+      action: 'DATA_DELETION_COMPLETED',
+      resource: 'data_deletion_requests',
+      resourceId: requestId,
+      details: { deletionType: request.deletionType, tables: report.entries.length },
+    });
 
     logger.info('Data deletion executed', {
       userId,
@@ -332,7 +539,7 @@ export const executeDataDeletion = async (requestId: string) => {
       deletionType: request.deletionType,
     });
 
-    return request;
+    return completed;
   } catch (error: any) {
     // Mark as failed (only if request still exists)
     try {
@@ -458,6 +665,88 @@ export const revokeConsent = async (
   }
 };
 
+/**
+ * Consent types a visitor chooses in the cookie banner
+ */
+export const COOKIE_CONSENT_TYPES: ConsentType[] = [
+  ConsentType.COOKIES,
+  ConsentType.ANALYTICS,
+  ConsentType.MARKETING_EMAILS,
+];
+
+/**
+ * Cookie banner choices, as kept in the visitor's consent cookie
+ */
+export interface ConsentChoices {
+  /** When the visitor made the choices (ISO date) */
+  decidedAt: string;
+  version?: string;
+  consents: Partial<Record<ConsentType, boolean>>;
+}
+
+/**
+ * Record cookie banner choices on an account. A choice only replaces a stored
+ * record that is older than it, so a decision made on the account wins over an
+ * older one from an anonymous visit.
+ */
+export const mergeConsents = async (
+  userId: string,
+  choices: ConsentChoices,
+  ipAddress?: string,
+  userAgent?: string
+) => {
+  const parsed = new Date(choices.decidedAt);
+  const decidedAt = Number.isNaN(parsed.getTime()) || parsed > new Date() ? new Date() : parsed;
+  const merged = [];
+
+  for (const consentType of COOKIE_CONSENT_TYPES) {
+    const granted = choices.consents?.[consentType];
+    if (typeof granted !== 'boolean') {
+      continue;
+    }
+
+    const existing = await prisma.consentRecord.findUnique({
+      where: { userId_consentType: { userId, consentType } },
+    });
+    if (existing && existing.updatedAt >= decidedAt) {
+      continue;
+    }
+    if (existing && existing.granted === granted && existing.version === (choices.version ?? null)) {
+      continue;
+    }
+
+    const data = {
+      granted,
+      grantedAt: granted ? decidedAt : existing?.grantedAt ?? null,
+      revokedAt: granted ? null : decidedAt,
+      ipAddress,
+      userAgent,
+      version: choices.version,
+    };
+    const consent = await prisma.consentRecord.upsert({
+      where: { userId_consentType: { userId, consentType } },
+      update: data,
+      create: { userId, consentType, ...data },
+    });
+
+    await createAuditLog({
+      userId,
+      action: granted ? 'CONSENT_GRANTED' : 'CONSENT_REVOKED',
+      resource: 'consent_records',
+      resourceId: consent.id,
+      details: { consentType, source: 'cookie_banner' },
+      ipAddress,
+      userAgent,
+    });
+    merged.push(consent);
+  }
+
+  if (merged.length > 0) {
+    logger.info('Consents merged', { userId, consentTypes: merged.map((consent) => consent.consentType) });
+  }
+  return merged;
+};
+
 /**
  * Get user consents
  */
@@ -488,10 +777,16 @@ export const hasConsent = async (userId: string, consentType: ConsentType): Prom
  * Get user's data export requests
  */
 export const getUserExportRequests = async (userId: string) => {
-  return prisma.dataExportRequest.findMany({
+  const requests = await prisma.dataExportRequest.findMany({
     where: { userId },
     orderBy: { requestedAt: 'desc' },
   });
+
+  // Completed exports get a fresh signed link; the storage location stays internal
+  return requests.map(({ storageKey: _storageKey, ...request }) => ({
+    ...request,
+    downloadUrl: request.status === DataExportStatus.COMPLETED ? createDownloadUrl(request) : null,
+  }));
 };
 
 /**
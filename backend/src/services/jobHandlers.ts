@@ -0,0 +1,34 @@
+/**
+ * Job Handlers
+ *
+ * What each background job type does. Handlers may run more than once for the
+ * same job (a retry after a crash), so they check the current state first.
+ */
+
+import { DataDeletionStatus, DataExportStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import * as gdprService from './gdprService';
+import { JobHandlers } from './jobQueue';
+
+export const JOB_HANDLERS: JobHandlers = {
+  'gdpr.export': async ({ requestId }: { requestId: string }) => {
+    const request = await prisma.dataExportRequest.findUnique({ where: { id: requestId } });
+    if (!request || request.status === DataExportStatus.COMPLETED || request.status === DataExportStatus.EXPIRED) {
+      return { skipped: true };
+    }
+
+    const { fileSize, expiresAt } = await gdprService.generateDataExport(requestId);
+    return { fileSize, expiresAt: expiresAt.toISOString() };
+  },
+
+  'gdpr.deletion': async ({ requestId }: { requestId: string }) => {
+    const request = await prisma.dataDeletionRequest.findUnique({ where: { id: requestId } });
+    // A hard deletion removes the request along with the user
+    if (!request || request.status === DataDeletionStatus.COMPLETED) {
+      return { skipped: true };
+    }
+
+    await gdprService.executeDataDeletion(requestId);
+    return { deletionType: request.deletionType };
+  },
+};
@@ -0,0 +1,270 @@
+/**
+ * Job Queue
+ *
+ * In-process background jobs kept in Postgres, so they survive restarts. Each
+ * instance runs a worker that polls for due jobs and claims them with
+ * SELECT ... FOR UPDATE SKIP LOCKED, so a job is only ever picked up by one
+ * worker. A failed job is retried with exponential backoff until maxAttempts,
+ * then dead-lettered (DEAD) for an admin to look at. A job whose worker died
+ * mid-run is released again once its lock times out.
+ */
+
+import crypto from 'crypto';
+import os from 'os';
+import { Job, JobStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import config from '../config';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+import { StopFn } from '../utils/scheduler';
+
+export type JobType = 'gdpr.export' | 'gdpr.deletion';
+
+export type JobHandler = (payload: any) => Promise<Prisma.InputJsonValue | void>;
+
+export type JobHandlers = Record<JobType, JobHandler>;
+
+export interface EnqueueOptions {
+  /** Not before this time (default: now) */
+  runAt?: Date;
+  maxAttempts?: number;
+  /** Enqueueing the same key again returns the existing job instead of adding one */
+  dedupeKey?: string;
+}
+
+export interface JobFilters {
+  status?: JobStatus;
+  type?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Delay before the next attempt after a number of failed ones
+ */
+export const jobBackoffMs = (attempts: number): number => {
+  const { backoffBaseMs, backoffMaxMs } = config.jobs;
+  return Math.min(backoffBaseMs * 2 ** Math.max(attempts - 1, 0), backoffMaxMs);
+};
+
+export class JobQueue {
+  /**
+   * Add a job to the queue
+   */
+  static async enqueue(type: JobType, payload: Prisma.InputJsonObject, options: EnqueueOptions = {}): Promise<Job> {
+    const data = {
+      type,
+      payload,
+      runAt: options.runAt ?? new Date(),
+      maxAttempts: options.maxAttempts ?? config.jobs.maxAttempts,
+      dedupeKey: options.dedupeKey,
+    };
+
+    const job = options.dedupeKey
+      ? await prisma.job.upsert({ where: { dedupeKey: options.dedupeKey }, update: {}, create: data })
+      : await prisma.job.create({ data });
+
+    logger.info('Job enqueued', { jobId: job.id, type, runAt: job.runAt });
+    return job;
+  }
+
+  /**
+   * Lock up to `limit` due jobs of the given types for a worker. Rows another
+   * worker has locked are skipped rather than waited for.
+   */
+  static async claim(workerId: string, limit: number, types: string[]): Promise<Job[]> {
+    const now = new Date();
+
+    return prisma.$queryRaw<Job[]>`
+      UPDATE "jobs"
+      SET "status" = 'RUNNING', "lockedAt" = ${now}, "lockedBy" = ${workerId},
+          "attempts" = "attempts" + 1, "updatedAt" = ${now}
+      WHERE "id" IN (
+        SELECT "id" FROM "jobs"
+        WHERE "status" = 'PENDING' AND "runAt" <= ${now} AND "type" = ANY(${types})
+        ORDER BY "runAt"
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+  }
+
+  /**
+   * Run a claimed job and record the outcome
+   */
+  static async run(job: Job, handlers: JobHandlers): Promise<void> {
+    const handler = handlers[job.type as JobType];
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler for job type ${job.type}`);
+      }
+      const result = await handler(job.payload);
+
+      await prisma.job.updateMany({
+        where: { id: job.id, lockedBy: job.lockedBy },
+        data: {
+          status: JobStatus.COMPLETED,
+          result: result ?? Prisma.JsonNull,
+          completedAt: new Date(),
+          lockedAt: null,
+          lockedBy: null,
+        },
+      });
+      logger.info('Job completed', { jobId: job.id, type: job.type, attempts: job.attempts });
+    } catch (error: any) {
+      await JobQueue.fail(job, error.message ?? String(error));
+    }
+  }
+
+  /**
+   * Release jobs whose worker died mid-run (locked for longer than lockTimeoutMs),
+   * counting the lost run as a failed attempt
+   */
+  static async recoverStale(): Promise<number> {
+    const staleBefore = new Date(Date.now() - config.jobs.lockTimeoutMs);
+    const stale = await prisma.job.findMany({
+      where: { status: JobStatus.RUNNING, lockedAt: { lt: staleBefore } },
+    });
+
+    for (const job of stale) {
+      await JobQueue.fail(job, 'Worker stopped before the job finished');
+    }
+    return stale.length;
+  }
+
+  /**
+   * Jobs, newest first, with a count per status
+   */
+  static async list(filters: JobFilters = {}) {
+    const where: Prisma.JobWhereInput = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.type && { type: filters.type }),
+    };
+
+    const [jobs, total, byStatus] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit ?? 20,
+        skip: filters.offset ?? 0,
+      }),
+      prisma.job.count({ where }),
+      prisma.job.groupBy({ by: ['status'], _count: { _all: true } }),
+    ]);
+
+    const counts = Object.fromEntries(Object.values(JobStatus).map((status) => [status, 0])) as Record<
+      JobStatus,
+      number
+    >;
+    byStatus.forEach((group) => {
+      counts[group.status] = group._count._all;
+    });
+
+    return { jobs, total, counts };
+  }
+
+  static async get(id: string): Promise<Job> {
+    const job = await prisma.job.findUnique({ where: { id } });
+    if (!job) {
+      throw new NotFoundError('Job not found');
+    }
+    return job;
+  }
+
+  /**
+   * Give a dead-lettered job a fresh set of attempts
+   */
+  static async retry(id: string): Promise<Job> {
+    const job = await JobQueue.get(id);
+    if (job.status !== JobStatus.DEAD) {
+      throw new ValidationError('Only jobs that have given up can be retried');
+    }
+
+    const retried = await prisma.job.update({
+      where: { id },
+      data: { status: JobStatus.PENDING, attempts: 0, runAt: new Date(), lastError: null },
+    });
+    logger.info('Job retried', { jobId: id, type: job.type });
+    return retried;
+  }
+
+  /**
+   * Record a failed attempt: schedule the next one with backoff, or dead-letter the job
+   */
+  private static async fail(job: Job, message: string): Promise<void> {
+    const dead = job.attempts >= job.maxAttempts;
+
+    await prisma.job.updateMany({
+      where: { id: job.id, status: JobStatus.RUNNING, lockedBy: job.lockedBy },
+      data: {
+        status: dead ? JobStatus.DEAD : JobStatus.PENDING,
+        runAt: dead ? undefined : new Date(Date.now() + jobBackoffMs(job.attempts)),
+        lastError: message,
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+
+    if (dead) {
+      logger.error('Job dead-lettered', { jobId: job.id, type: job.type, attempts: job.attempts, error: message });
+    } else {
+      logger.warn('Job failed, will retry', { jobId: job.id, type: job.type, attempts: job.attempts, error: message });
+    }
+  }
+}
+
+/**
+ * Poll for due jobs and run them, at most `concurrency` at a time on this instance
+ */
+export const startJobWorker = (
+  handlers: JobHandlers,
+  options: { concurrency: number; pollIntervalMs: number } = config.jobs
+): StopFn => {
+  const workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  const types = Object.keys(handlers);
+  let active = 0;
+  let polling = false;
+  let stopped = false;
+
+  const poll = async () => {
+    if (polling || stopped) {
+      return;
+    }
+
+    polling = true;
+    try {
+      await JobQueue.recoverStale();
+
+      const free = options.concurrency - active;
+      if (free <= 0) {
+        return;
+      }
+
+      const jobs = await JobQueue.claim(workerId, free, types);
+      for (const job of jobs) {
+        active++;
+        void JobQueue.run(job, handlers).finally(() => {
+          active--;
+        });
+      }
+    } catch (error: any) {
+      logger.error('Job worker poll failed', { workerId, error: error.message });
+    } finally {
+      polling = false;
+    }
+  };
+
+  void poll();
+  const timer = setInterval(poll, options.pollIntervalMs);
+  // Don't keep the process alive just for the worker
+  timer.unref();
+
+  logger.info('Job worker started', { workerId, types, concurrency: options.concurrency });
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+};
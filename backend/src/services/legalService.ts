@@ -0,0 +1,187 @@
+/**
+ * Legal Service
+ *
+ * Versions of the terms of service and privacy policy. A version takes effect at its
+ * effectiveAt and stays current until a later one does, so a new version can be
+ * published ahead of time. Versions in effect are what users accepted and are never
+ * edited or deleted; only upcoming ones are.
+ *
+ * A user has accepted a document when their ConsentRecord of the same type is granted
+ * with the current version. Once a newer version takes effect they have to accept again.
+ */
+
+import { ConsentType, LegalDocument, LegalDocumentType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+import { grantConsent } from './gdprService';
+
+/** Public URL slug of each document, e.g. /terms */
+export const LEGAL_DOCUMENT_SLUGS: Record<string, LegalDocumentType> = {
+  terms: LegalDocumentType.TERMS_OF_SERVICE,
+  privacy: LegalDocumentType.PRIVACY_POLICY,
+};
+
+export interface LegalDocumentInput {
+  type: LegalDocumentType;
+  version: string;
+  title: string;
+  /** Markdown */
+  body: string;
+  summary?: string | null;
+  effectiveAt: Date;
+}
+
+/**
+ * A document in effect that the user has not accepted in its current version
+ */
+export interface PendingAcceptance {
+  documentId: string;
+  type: LegalDocumentType;
+  version: string;
+  title: string;
+  summary: string | null;
+  effectiveAt: Date;
+  /** Version the user accepted before, if any */
+  acceptedVersion: string | null;
+}
+
+const isInEffect = (document: LegalDocument) => document.effectiveAt <= new Date();
+
+export class LegalService {
+  /**
+   * The version of a document in effect now
+   */
+  static async getCurrent(type: LegalDocumentType): Promise<LegalDocument> {
+    const document = await prisma.legalDocument.findFirst({
+      where: { type, effectiveAt: { lte: new Date() } },
+      orderBy: { effectiveAt: 'desc' },
+    });
+    if (!document) {
+      throw new NotFoundError('Document not found');
+    }
+    return document;
+  }
+
+  /**
+   * Every version, newest first
+   */
+  static async list(type?: LegalDocumentType): Promise<LegalDocument[]> {
+    return prisma.legalDocument.findMany({
+      where: type ? { type } : undefined,
+      orderBy: [{ type: 'asc' }, { effectiveAt: 'desc' }],
+    });
+  }
+
+  static async get(id: string): Promise<LegalDocument> {
+    const document = await prisma.legalDocument.findUnique({ where: { id } });
+    if (!document) {
+      throw new NotFoundError('Document not found');
+    }
+    return document;
+  }
+
+  static async create(input: LegalDocumentInput): Promise<LegalDocument> {
+    await LegalService.assertVersionAvailable(input.type, input.version);
+
+    const document = await prisma.legalDocument.create({ data: input });
+    logger.info('Legal document created', { documentId: document.id, type: document.type, version: document.version });
+    return document;
+  }
+
+  /**
+   * Edit a version that has not taken effect yet
+   */
+  static async update(id: string, input: Partial<LegalDocumentInput>): Promise<LegalDocument> {
+    const document = await LegalService.get(id);
+    if (isInEffect(document)) {
+      throw new ConflictError('A version in effect cannot be changed; publish a new version instead');
+    }
+    if (input.type && input.type !== document.type) {
+      throw new ValidationError('The document type cannot be changed');
+    }
+    if (input.version && input.version !== document.version) {
+      await LegalService.assertVersionAvailable(document.type, input.version);
+    }
+
+    return prisma.legalDocument.update({ where: { id }, data: input });
+  }
+
+  /**
+   * Delete a version that has not taken effect yet
+   */
+  static async delete(id: string): Promise<void> {
+    const document = await LegalService.get(id);
+    if (isInEffect(document)) {
+      throw new ConflictError('A version in effect cannot be deleted');
+    }
+
+    await prisma.legalDocument.delete({ where: { id } });
+    logger.info('Legal document deleted', { documentId: id, type: document.type, version: document.version });
+  }
+
+  /**
+   * Documents in effect whose current version the user has not accepted
+   */
+  static async getPendingAcceptances(userId: string): Promise<PendingAcceptance[]> {
+    const current = await Promise.all(
+      Object.values(LegalDocumentType).map((type) => LegalService.getCurrent(type).catch(() => null))
+    );
+    const documents = current.filter((document): document is LegalDocument => document !== null);
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const consents = await prisma.consentRecord.findMany({
+      where: { userId, consentType: { in: documents.map(({ type }) => type as ConsentType) } },
+    });
+
+    return documents.flatMap((document) => {
+      const consent = consents.find(({ consentType }) => consentType === document.type);
+      if (consent?.granted && consent.version === document.version) {
+        return [];
+      }
+      return [
+        {
+          documentId: document.id,
+          type: document.type,
+          version: document.version,
+          title: document.title,
+          summary: document.summary,
+          effectiveAt: document.effectiveAt,
+          acceptedVersion: consent?.granted ? consent.version : null,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Record that the user accepted these documents. Each must be the version in effect,
+   * so an acceptance never covers a version the user was not shown.
+   */
+  static async accept(
+    userId: string,
+    documentIds: string[],
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<PendingAcceptance[]> {
+    for (const id of documentIds) {
+      const document = await LegalService.get(id);
+      const current = await LegalService.getCurrent(document.type);
+      if (current.id !== document.id) {
+        throw new ValidationError(`A newer version of "${current.title}" is in effect; please review it`);
+      }
+
+      await grantConsent(userId, document.type as ConsentType, ipAddress, userAgent, document.version);
+    }
+
+    return LegalService.getPendingAcceptances(userId);
+  }
+
+  private static async assertVersionAvailable(type: LegalDocumentType, version: string): Promise<void> {
+    const existing = await prisma.legalDocument.findUnique({ where: { type_version: { type, version } } });
+    if (existing) {
+      throw new ConflictError(`Version ${version} already exists`);
+    }
+  }
+}
@@ -4,12 +4,23 @@
  */
 
 import { prisma } from '../config/database';
-import { ValidationError } from '../utils/errors';
+import { NotFoundError, ValidationError } from '../utils/errors';
 import logger from '../utils/logger';
 import * as emailService from './emailService';
+import { SpamService, SpamVerdict, SubmissionContext } from './spamService';
+
+export interface FlaggedSubscriptionFilters {
+  limit?: number;
+  offset?: number;
+}
 
 export class NewsletterService {
-  static async subscribe(email: string) {
+  /**
+   * Subscribe an address. With a context (the public form), the spam checks run first:
+   * throttled senders are refused, flagged sign-ups are stored inactive as SPAM without
+   * a confirmation email.
+   */
+  static async subscribe(email: string, context?: SubmissionContext) {
     if (!email) {
       throw new ValidationError('Email is required');
     }
@@ -20,6 +31,17 @@ export class NewsletterService {
       throw new ValidationError('Invalid email format');
     }
 
+    let verdict: SpamVerdict = { isSpam: false, reasons: [] };
+    if (context) {
+      await SpamService.assertNotThrottled('newsletter', email, context.ipAddress);
+      verdict = SpamService.check('newsletter', { email, text: [] }, context);
+    }
+    const spamFields = {
+      status: verdict.isSpam ? 'SPAM' : 'CONFIRMED',
+      spamReasons: verdict.reasons,
+      ipAddress: context?.ipAddress,
+    };
+
     // Check if already subscribed
     const existing = await prisma.newsletterSubscription.findUnique({
       where: { email },
@@ -29,49 +51,84 @@ export class NewsletterService {
       if (existing.isActive) {
         throw new ValidationError('Email is already subscribed');
       }
-      // Reactivate if previously unsubscribed
+      // Reactivate if previously unsubscribed (or flagged, when this attempt is clean)
       const subscription = await prisma.newsletterSubscription.update({
         where: { email },
-        data: { isActive: true, unsubscribedAt: null },
+        data: { isActive: !verdict.isSpam, unsubscribedAt: null, ...spamFields },
       });
-      logger.info('Newsletter subscription reactivated', { email });
-
-      // Send confirmation email on reactivation
-      try {
-        await emailService.sendNewsletterConfirmationEmail({ email });
-      } catch (error: any) {
-        logger.error('Failed to send newsletter confirmation email', {
-          email,
-          error: error.message,
-        });
-      }
+      logger.info('Newsletter subscription reactivated', { email, spam: verdict.isSpam });
 
+      if (!verdict.isSpam) {
+        await NewsletterService.sendConfirmation(email);
+      }
       return subscription;
     }
 
     const subscription = await prisma.newsletterSubscription.create({
       data: {
         email,
-        isActive: true,
+        isActive: !verdict.isSpam,
+        ...spamFields,
       },
     });
 
-    logger.info('Newsletter subscription created', { email });
+    logger.info('Newsletter subscription created', { email, spam: verdict.isSpam });
 
-    // Send confirmation email
-    try {
-      await emailService.sendNewsletterConfirmationEmail({ email });
-    } catch (error: any) {
-      // Log error but don't fail the subscription
-      logger.error('Failed to send newsletter confirmation email', {
-        email,
-        error: error.message,
-      });
+    if (!verdict.isSpam) {
+      await NewsletterService.sendConfirmation(email);
     }
+    return subscription;
+  }
+
+  /**
+   * Sign-ups flagged as spam, newest first, for the review queue
+   */
+  static async listFlagged(filters: FlaggedSubscriptionFilters = {}) {
+    const where = { status: 'SPAM' };
+
+    const [subscriptions, total] = await Promise.all([
+      prisma.newsletterSubscription.findMany({
+        where,
+        orderBy: { subscribedAt: 'desc' },
+        take: filters.limit ?? 20,
+        skip: filters.offset ?? 0,
+      }),
+      prisma.newsletterSubscription.count({ where }),
+    ]);
+
+    return { subscriptions, total };
+  }
 
+  /**
+   * Release a false positive: activate the subscription and send the confirmation it missed
+   */
+  static async releaseSpam(id: string) {
+    const { count } = await prisma.newsletterSubscription.updateMany({
+      where: { id, status: 'SPAM' },
+      data: { status: 'CONFIRMED', spamReasons: [], isActive: true, unsubscribedAt: null },
+    });
+    if (count === 0) {
+      throw new NotFoundError('Flagged newsletter subscription not found');
+    }
+
+    const subscription = await prisma.newsletterSubscription.findUniqueOrThrow({ where: { id } });
+    logger.info('Newsletter subscription released from spam', { email: subscription.email });
+
+    await NewsletterService.sendConfirmation(subscription.email);
     return subscription;
   }
 
+  /**
+   * Delete a sign-up confirmed as spam
+   */
+  static async deleteSpam(id: string) {
+    const { count } = await prisma.newsletterSubscription.deleteMany({ where: { id, status: 'SPAM' } });
+    if (count === 0) {
+      throw new NotFoundError('Flagged newsletter subscription not found');
+    }
+    logger.info('Spam newsletter subscription deleted', { subscriptionId: id });
+  }
+
   static async unsubscribe(email: string) {
     if (!email) {
       throw new ValidationError('Email is required');
@@ -96,5 +153,16 @@ export class NewsletterService {
     logger.info('Newsletter subscription deactivated', { email });
     return updated;
   }
-}
 
+  private static async sendConfirmation(email: string) {
+    try {
+      await emailService.sendNewsletterConfirmationEmail({ email });
+    } catch (error: any) {
+      // Log error but don't fail the subscription
+      logger.error('Failed to send newsletter confirmation email', {
+        email,
+        error: error.message,
+      });
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Permission Service
+ *
+ * Resolves the permission strings (e.g. "content.knowledge.write") a role holds,
+ * from the role_permissions table. SUPER_ADMIN holds every permission without
+ * needing grants. Lookups are cached per role for a short time, since every
+ * guarded request asks for them.
+ */
+
+import { Role } from '@prisma/client';
+import { prisma } from '../config/database';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+interface CachedPermissions {
+  keys: Set<string>;
+  expiresAt: number;
+}
+
+const cache = new Map<Role, CachedPermissions>();
+
+export class PermissionService {
+  /**
+   * All permission keys granted to a role
+   */
+  static async forRole(role: Role): Promise<Set<string>> {
+    const cached = cache.get(role);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.keys;
+    }
+
+    const permissions =
+      role === 'SUPER_ADMIN'
+        ? await prisma.permission.findMany({ select: { key: true } })
+        : await prisma.permission.findMany({ where: { roles: { some: { role } } }, select: { key: true } });
+
+    const keys = new Set(permissions.map((permission) => permission.key));
+    cache.set(role, { keys, expiresAt: Date.now() + CACHE_TTL_MS });
+
+    return keys;
+  }
+
+  /**
+   * Whether a role holds every one of the given permissions
+   */
+  static async hasPermission(role: Role, ...keys: string[]): Promise<boolean> {
+    const granted = await PermissionService.forRole(role);
+    return keys.every((key) => granted.has(key));
+  }
+
+  /**
+   * Forget cached grants, e.g. after role_permissions has been changed
+   */
+  static clearCache(): void {
+    cache.clear();
+  }
+}
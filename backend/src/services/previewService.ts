@@ -0,0 +1,86 @@
+/**
+ * Preview Service
+ *
+ * Signed, expiring links that let stakeholders view unpublished content through
+ * the public detail routes without an admin account. Tokens are stateless JWTs
+ * bound to one content item; they use their own key and audience so they can
+ * never be accepted as access tokens.
+ */
+
+import jwt, { SignOptions } from 'jsonwebtoken';
+import config from '../config';
+import { prisma } from '../config/database';
+import { NotFoundError } from '../utils/errors';
+import { deriveSecret } from '../utils/tokens';
+import { createAuditLog } from './auditService';
+import { CONTENT_TYPES, ContentTypeSegment } from './contentTypes';
+
+const PREVIEW_AUDIENCE = 'content-preview';
+
+interface PreviewPayload {
+  type: ContentTypeSegment;
+  id: string;
+}
+
+const previewSecret = (): string => config.preview.secret || deriveSecret(PREVIEW_AUDIENCE);
+
+export interface PreviewToken {
+  token: string;
+  expiresAt: Date;
+}
+
+export class PreviewService {
+  /**
+   * Issue a preview token for a content item
+   */
+  static async issueToken(
+    segment: ContentTypeSegment,
+    contentId: string,
+    issuedBy?: string,
+    ttlHours: number = config.preview.defaultTtlHours
+  ): Promise<PreviewToken> {
+    const definition = CONTENT_TYPES[segment];
+    const item = await definition.find(prisma, contentId);
+    if (!item) {
+      throw new NotFoundError(`${definition.label} not found`);
+    }
+
+    const hours = Math.min(Math.max(ttlHours, 1), config.preview.maxTtlHours);
+    const payload: PreviewPayload = { type: segment, id: contentId };
+    const token = jwt.sign(payload, previewSecret(), {
+      audience: PREVIEW_AUDIENCE,
+      expiresIn: `${hours}h`,
+      ...(issuedBy && { subject: issuedBy }),
+    } as SignOptions);
+    const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    await createAuditLog({
+      userId: issuedBy,
+      action: 'PREVIEW_TOKEN_CREATED',
+      resource: segment,
+      resourceId: contentId,
+      details: { expiresAt: expiresAt.toISOString() },
+    });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Whether the token grants a preview of this exact item. Invalid, expired or
+   * mismatched tokens simply don't grant access.
+   */
+  static canPreview(token: unknown, segment: ContentTypeSegment, contentId: string): boolean {
+    if (typeof token !== 'string' || token.length === 0) {
+      return false;
+    }
+
+    try {
+      const payload = jwt.verify(token, previewSecret(), { audience: PREVIEW_AUDIENCE }) as PreviewPayload;
+      return payload.type === segment && payload.id === contentId;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export default PreviewService;
@@ -0,0 +1,96 @@
+/**
+ * Publication Service
+ *
+ * Moves content through its publication workflow once publishAt/unpublishAt pass:
+ * SCHEDULED -> PUBLISHED, and SCHEDULED/PUBLISHED -> ARCHIVED. Every flip is
+ * written to the audit log so editors can see when (and why) an item changed.
+ */
+
+import { PublicationStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import logger from '../utils/logger';
+import { appendAuditLog } from './auditService';
+import { CONTENT_TYPE_SEGMENTS, CONTENT_TYPES, PublicationWhere } from './contentTypes';
+
+interface Transition {
+  to: PublicationStatus;
+  action: string;
+  where: (now: Date) => PublicationWhere;
+}
+
+// Publishing runs first, so an item whose whole window has passed ends up ARCHIVED
+const TRANSITIONS: Transition[] = [
+  {
+    to: PublicationStatus.PUBLISHED,
+    action: 'CONTENT_PUBLISHED',
+    where: (now) => ({
+      publicationStatus: { in: [PublicationStatus.SCHEDULED] },
+      publishAt: { lte: now },
+      deletedAt: null,
+    }),
+  },
+  {
+    to: PublicationStatus.ARCHIVED,
+    action: 'CONTENT_ARCHIVED',
+    where: (now) => ({
+      publicationStatus: { in: [PublicationStatus.SCHEDULED, PublicationStatus.PUBLISHED] },
+      unpublishAt: { lte: now },
+      deletedAt: null,
+    }),
+  },
+];
+
+export interface TransitionSummary {
+  published: number;
+  archived: number;
+}
+
+export class PublicationService {
+  /**
+   * Apply all due transitions. Safe to call repeatedly; rows only match while they are due.
+   */
+  static async runScheduledTransitions(now: Date = new Date()): Promise<TransitionSummary> {
+    const summary: TransitionSummary = { published: 0, archived: 0 };
+
+    for (const segment of CONTENT_TYPE_SEGMENTS) {
+      const definition = CONTENT_TYPES[segment];
+
+      for (const transition of TRANSITIONS) {
+        const count = await prisma.$transaction(async (tx) => {
+          const where = transition.where(now);
+          const due = await definition.findIds(tx, where);
+          if (due.length === 0) {
+            return 0;
+          }
+
+          const ids = due.map((row) => row.id);
+          await definition.updateMany(tx, { ...where, id: { in: ids } }, { publicationStatus: transition.to });
+          for (const id of ids) {
+            await appendAuditLog(tx, {
+              action: transition.action,
+              resource: segment,
+              resourceId: id,
+              details: { contentType: definition.type, status: transition.to },
+            });
+          }
+
+          return ids.length;
+        });
+
+        if (transition.to === PublicationStatus.PUBLISHED) {
+          summary.published += count;
+        } else {
+          summary.archived += count;
+        }
+      }
+    }
+
+    if (summary.published > 0 || summary.archived > 0) {
+      logger.info('Scheduled publication transitions applied', { ...summary });
+    }
+
+    return summary;
+  }
+}
+
+export default PublicationService;
@@ -5,9 +5,13 @@ import { NotFoundError, ForbiddenError } from '../utils/errors';
 
 /**
  * Role hierarchy levels (higher number = more privileges)
+ * Staff roles rank with users: what they can do comes from their granted permissions
+ * (see PermissionService), and any admin can manage their accounts.
  */
 const ROLE_HIERARCHY: Record<Role, number> = {
   USER: 1,
+  EDITOR: 1,
+  SUPPORT: 1,
   ADMIN: 2,
   SUPER_ADMIN: 3,
 };
@@ -225,6 +229,14 @@ export const getRoleHierarchy = (role: Role): number => {
   return ROLE_HIERARCHY[role] || 0;
 };
 
+/**
+ * Check if a user with actorRole may manage (deactivate, log out, ...) a user with targetRole.
+ * Only strictly lower roles can be managed, so admins cannot act on each other or on super admins.
+ */
+export const canManageRole = (actorRole: Role, targetRole: Role): boolean => {
+  return getRoleHierarchy(actorRole) > getRoleHierarchy(targetRole);
+};
+
 /**
  * Check if user1 has a higher role than user2
  */
@@ -0,0 +1,165 @@
+/**
+ * Revision Service
+ *
+ * Keeps a history of admin edits to content. Every update first stores the row
+ * as it was, so any earlier version can be compared against or restored.
+ */
+
+import { ContentRevision, ContentType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+import { CONTENT_TYPES, ContentRecord, ContentTypeSegment } from './contentTypes';
+
+// Bookkeeping columns that are never restored from a snapshot. deletedAt is left out so a restore
+// never moves an item in or out of the trash; that goes through TrashService and its audit trail.
+const NON_RESTORABLE_FIELDS = ['id', 'createdAt', 'updatedAt', 'deletedAt'];
+
+const editorSelect = { select: { id: true, name: true, email: true } } as const;
+
+export interface FieldChange {
+  field: string;
+  revision: unknown;
+  current: unknown;
+}
+
+/**
+ * Serialize a row the way it will be stored in the snapshot column
+ * (Dates become ISO strings, Decimals become strings)
+ */
+const toJson = (value: unknown): Prisma.InputJsonValue => JSON.parse(JSON.stringify(value));
+
+export class RevisionService {
+  /**
+   * Store the current state of a content row. Call inside the same transaction as the update.
+   */
+  static async record(
+    client: Prisma.TransactionClient,
+    contentType: ContentType,
+    entity: ContentRecord,
+    editorId?: string
+  ): Promise<ContentRevision> {
+    return client.contentRevision.create({
+      data: {
+        contentType,
+        contentId: entity.id,
+        snapshot: toJson(entity),
+        editorId,
+      },
+    });
+  }
+
+  static async listRevisions(segment: ContentTypeSegment, contentId: string) {
+    const definition = CONTENT_TYPES[segment];
+    await RevisionService.findContent(segment, contentId);
+
+    const revisions = await prisma.contentRevision.findMany({
+      where: { contentType: definition.type, contentId },
+      include: { editor: editorSelect },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Snapshots can be large (article bodies), so the list only carries the title
+    return revisions.map(({ snapshot, ...revision }) => ({
+      ...revision,
+      title: (snapshot as Record<string, unknown>)?.title ?? null,
+    }));
+  }
+
+  /**
+   * Field-level differences between a stored revision and the live row
+   */
+  static async diffRevision(segment: ContentTypeSegment, contentId: string, revisionId: string) {
+    const current = await RevisionService.findContent(segment, contentId);
+    const revision = await RevisionService.findRevision(segment, contentId, revisionId);
+
+    const snapshot = revision.snapshot as Record<string, unknown>;
+    const currentJson = toJson(current) as Record<string, unknown>;
+    const fields = new Set([...Object.keys(snapshot), ...Object.keys(currentJson)]);
+
+    const changes: FieldChange[] = [];
+    for (const field of fields) {
+      if (field === 'updatedAt') {
+        continue;
+      }
+      if (JSON.stringify(snapshot[field]) !== JSON.stringify(currentJson[field])) {
+        changes.push({ field, revision: snapshot[field] ?? null, current: currentJson[field] ?? null });
+      }
+    }
+
+    return {
+      revision: {
+        id: revision.id,
+        createdAt: revision.createdAt,
+        editor: revision.editor,
+      },
+      changes,
+    };
+  }
+
+  /**
+   * Roll a row back to a stored revision.
+   * The state being replaced is itself recorded, so a restore can be undone too.
+   */
+  static async restoreRevision(
+    segment: ContentTypeSegment,
+    contentId: string,
+    revisionId: string,
+    editorId?: string
+  ): Promise<ContentRecord> {
+    const definition = CONTENT_TYPES[segment];
+    const revision = await RevisionService.findRevision(segment, contentId, revisionId);
+
+    const data = Object.fromEntries(
+      Object.entries(revision.snapshot as Record<string, unknown>).filter(
+        ([field]) => !NON_RESTORABLE_FIELDS.includes(field)
+      )
+    );
+
+    try {
+      const restored = await prisma.$transaction(async (tx) => {
+        const current = await definition.find(tx, contentId);
+        if (!current || current.deletedAt) {
+          throw new NotFoundError(`${definition.label} not found`);
+        }
+
+        await RevisionService.record(tx, definition.type, current, editorId);
+        return definition.update(tx, contentId, data);
+      });
+
+      logger.info('Content revision restored', { contentType: definition.type, contentId, revisionId, editorId });
+      return restored;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('This revision conflicts with another record (for example a slug now in use)');
+      }
+      throw error;
+    }
+  }
+
+  private static async findContent(segment: ContentTypeSegment, contentId: string): Promise<ContentRecord> {
+    const definition = CONTENT_TYPES[segment];
+    const entity = await definition.find(prisma, contentId);
+
+    if (!entity || entity.deletedAt) {
+      throw new NotFoundError(`${definition.label} not found`);
+    }
+
+    return entity;
+  }
+
+  private static async findRevision(segment: ContentTypeSegment, contentId: string, revisionId: string) {
+    const revision = await prisma.contentRevision.findFirst({
+      where: { id: revisionId, contentType: CONTENT_TYPES[segment].type, contentId },
+      include: { editor: editorSelect },
+    });
+
+    if (!revision) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    return revision;
+  }
+}
+
+export default RevisionService;
@@ -0,0 +1,152 @@
+/**
+ * Search Service
+ *
+ * Full-text search across all public content types, backed by the generated
+ * "searchVector" tsvector columns and their GIN indexes.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { buildPrefixTsQuery } from '../utils/search';
+
+export const SEARCH_TYPES = ['training', 'tool', 'product', 'knowledge', 'community'] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+export interface SearchOptions {
+  types?: SearchType[];
+  limit?: number;
+}
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  title: string;
+  slug: string | null;
+  externalLink: string | null;
+  /** Title with matched terms wrapped in <mark></mark> */
+  titleHighlight: string;
+  /** Best matching fragment of the body with matched terms wrapped in <mark></mark> */
+  snippet: string;
+  rank: number;
+}
+
+interface SearchRow extends SearchResult {
+  total: bigint;
+}
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2';
+const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+
+/**
+ * SQL counterpart of publiclyVisibleWhere: active, not trashed, live, and not past unpublishAt
+ */
+const publiclyVisible = (alias: string): Prisma.Sql => {
+  const a = Prisma.raw(alias);
+  return Prisma.sql`${a}."isActive" = true AND ${a}."deletedAt" IS NULL
+      AND (${a}."publicationStatus" = 'PUBLISHED'
+        OR (${a}."publicationStatus" = 'SCHEDULED' AND ${a}."publishAt" <= now()))
+      AND (${a}."unpublishAt" IS NULL OR ${a}."unpublishAt" > now())`;
+};
+
+/**
+ * One SELECT per content type, all projecting the same columns so they can be UNIONed.
+ * "body" is the text the snippet is cut from.
+ */
+const SOURCES: Record<SearchType, Prisma.Sql> = {
+  training: Prisma.sql`
+    SELECT 'training' AS type, t.id, t.title, NULL::text AS slug, t."externalLink",
+      t.description AS body, ts_rank(t."searchVector", q.query) AS rank
+    FROM trainings t, q
+    WHERE ${publiclyVisible('t')} AND t."searchVector" @@ q.query`,
+  tool: Prisma.sql`
+    SELECT 'tool' AS type, t.id, t.title, NULL::text AS slug, t."externalLink",
+      t.description || ' ' || t."problemSolved" AS body, ts_rank(t."searchVector", q.query) AS rank
+    FROM tools t, q
+    WHERE ${publiclyVisible('t')} AND t."searchVector" @@ q.query`,
+  product: Prisma.sql`
+    SELECT 'product' AS type, p.id, p.title, NULL::text AS slug, p."externalLink",
+      p.description || ' ' || p."problemSolved" AS body, ts_rank(p."searchVector", q.query) AS rank
+    FROM products p, q
+    WHERE ${publiclyVisible('p')} AND p."searchVector" @@ q.query`,
+  knowledge: Prisma.sql`
+    SELECT 'knowledge' AS type, k.id, k.title, k.slug, k."externalLink",
+      k.description || ' ' || k.content AS body, ts_rank(k."searchVector", q.query) AS rank
+    FROM knowledge_articles k, q
+    WHERE ${publiclyVisible('k')} AND k."searchVector" @@ q.query`,
+  community: Prisma.sql`
+    SELECT 'community' AS type, c.id, c.title, NULL::text AS slug, c."externalLink",
+      coalesce(c.description, '') AS body, ts_rank(c."searchVector", q.query) AS rank
+    FROM community_links c, q
+    WHERE ${publiclyVisible('c')} AND c."searchVector" @@ q.query`,
+};
+
+export class SearchService {
+  /**
+   * Ranked search across content types.
+   * Snippets are only generated for the rows that make the page, since ts_headline is expensive.
+   */
+  static async search(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<{ data: SearchResult[]; meta: { total: number } }> {
+    const tsQuery = buildPrefixTsQuery(query);
+    const types = options.types?.length ? options.types : [...SEARCH_TYPES];
+
+    if (!tsQuery) {
+      return { data: [], meta: { total: 0 } };
+    }
+
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+
+    const rows = await prisma.$queryRaw<SearchRow[]>`
+      WITH q AS (SELECT to_tsquery('english', ${tsQuery}) AS query),
+      matches AS (
+        ${Prisma.join(
+          types.map((type) => SOURCES[type]),
+          ' UNION ALL '
+        )}
+      ),
+      ranked AS (
+        SELECT *, COUNT(*) OVER () AS total
+        FROM matches
+        ORDER BY rank DESC, title ASC
+        LIMIT ${limit}
+      )
+      SELECT ranked.type, ranked.id, ranked.title, ranked.slug, ranked."externalLink", ranked.rank, ranked.total,
+        ts_headline('english', ranked.title, q.query, ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+        ts_headline('english', ranked.body, q.query, ${HEADLINE_OPTIONS}) AS snippet
+      FROM ranked, q
+      ORDER BY ranked.rank DESC, ranked.title ASC
+    `;
+
+    return {
+      data: rows.map(({ total: _total, rank, ...row }) => ({ ...row, rank: Number(rank) })),
+      meta: { total: rows.length > 0 ? Number(rows[0].total) : 0 },
+    };
+  }
+
+  /**
+   * Ids of published knowledge articles matching the query, best match first
+   */
+  static async searchKnowledgeArticleIds(query: string): Promise<string[]> {
+    const tsQuery = buildPrefixTsQuery(query);
+
+    if (!tsQuery) {
+      return [];
+    }
+
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+      SELECT k.id
+      FROM knowledge_articles k, to_tsquery('english', ${tsQuery}) AS query
+      WHERE ${publiclyVisible('k')} AND k."searchVector" @@ query
+      ORDER BY ts_rank(k."searchVector", query) DESC, k."displayOrder" ASC
+    `;
+
+    return rows.map((row) => row.id);
+  }
+}
+
+export default SearchService;
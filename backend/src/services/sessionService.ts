@@ -0,0 +1,209 @@
+/**
+ * Session Service
+ *
+ * A session is one signed-in device, backed by a refresh token. The token rotates
+ * on every refresh: the session only keeps the latest one, and each token names
+ * its session (sid). A valid but superseded token for a live session means it was
+ * copied, so the whole session is revoked, for whoever holds the newer token too.
+ */
+
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { Prisma, Session } from '@prisma/client';
+import { prisma } from '../config/database';
+import config from '../config';
+import { NotFoundError, UnauthorizedError } from '../utils/errors';
+import logger from '../utils/logger';
+import { createAuditLog } from './auditService';
+
+/**
+ * Sessions last 30 days from sign-in; refreshing does not extend them
+ */
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionClient {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  /** Whether this is the session the request was made from */
+  current: boolean;
+}
+
+interface RefreshTokenPayload {
+  userId: string;
+  sid?: string;
+}
+
+// jwtid keeps tokens unique even when two are signed for the same session within a second
+const signRefreshToken = (userId: string, sessionId: string): string =>
+  jwt.sign({ userId, sid: sessionId }, config.jwt.refreshSecret, {
+    expiresIn: config.jwt.refreshExpiresIn,
+    jwtid: crypto.randomUUID(),
+  } as SignOptions);
+
+const activeSessionsWhere = (userId: string): Prisma.SessionWhereInput => ({
+  userId,
+  expiresAt: { gt: new Date() },
+});
+
+export class SessionService {
+  /**
+   * Start a session for a user who just signed in and return its refresh token
+   */
+  static async create(userId: string, client: SessionClient = {}): Promise<string> {
+    const id = crypto.randomUUID();
+    const refreshToken = signRefreshToken(userId, id);
+
+    await prisma.session.create({
+      data: {
+        id,
+        userId,
+        token: refreshToken,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      },
+    });
+
+    return refreshToken;
+  }
+
+  /**
+   * Exchange a refresh token for the next one in its session
+   */
+  static async rotate(
+    refreshToken: string,
+    client: SessionClient = {}
+  ): Promise<{ userId: string; refreshToken: string }> {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = jwt.verify(refreshToken, config.jwt.refreshSecret) as RefreshTokenPayload;
+    } catch (error) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+
+    // Tokens issued before rotation was introduced carry no sid and are looked up by value
+    const session = await prisma.session.findUnique({
+      where: payload.sid ? { id: payload.sid } : { token: refreshToken },
+      include: { user: { select: { isActive: true } } },
+    });
+
+    if (!session || session.userId !== payload.userId || session.expiresAt < new Date()) {
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
+
+    if (session.token !== refreshToken) {
+      await SessionService.revokeReused(session, client);
+    }
+
+    if (!session.user.isActive) {
+      throw new UnauthorizedError('Account is disabled');
+    }
+
+    const nextToken = signRefreshToken(session.userId, session.id);
+
+    // Only one request can swap out a token; a concurrent one presenting the same token is reuse
+    const { count } = await prisma.session.updateMany({
+      where: { id: session.id, token: refreshToken },
+      data: {
+        token: nextToken,
+        lastUsedAt: new Date(),
+        ipAddress: client.ipAddress ?? session.ipAddress,
+      },
+    });
+
+    if (count === 0) {
+      await SessionService.revokeReused(session, client);
+    }
+
+    return { userId: session.userId, refreshToken: nextToken };
+  }
+
+  /**
+   * Active sessions of a user, most recently used first (refresh tokens are never returned)
+   */
+  static async list(userId: string, currentToken?: string): Promise<ActiveSession[]> {
+    const sessions = await prisma.session.findMany({
+      where: activeSessionsWhere(userId),
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map(({ token, userId: _userId, ...session }) => ({
+      ...session,
+      current: Boolean(currentToken) && token === currentToken,
+    }));
+  }
+
+  /**
+   * End one of the user's own sessions
+   */
+  static async revoke(userId: string, sessionId: string): Promise<void> {
+    const { count } = await prisma.session.deleteMany({ where: { id: sessionId, userId } });
+
+    if (count === 0) {
+      throw new NotFoundError('Session not found');
+    }
+
+    logger.info('Session revoked', { userId, sessionId });
+  }
+
+  /**
+   * End the session a refresh token belongs to (logout)
+   */
+  static async revokeByToken(refreshToken: string): Promise<void> {
+    await prisma.session.deleteMany({ where: { token: refreshToken } });
+  }
+
+  /**
+   * End every session of a user: refresh tokens are deleted and access tokens already issued stop working
+   */
+  static async revokeAll(tx: Prisma.TransactionClient, userId: string): Promise<number> {
+    const { count } = await tx.session.deleteMany({ where: { userId } });
+    await tx.user.update({ where: { id: userId }, data: { tokensRevokedAt: new Date() } });
+    return count;
+  }
+
+  /**
+   * Delete sessions past their expiry
+   */
+  static async purgeExpired(): Promise<number> {
+    const { count } = await prisma.session.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+
+    if (count > 0) {
+      logger.info('Expired sessions purged', { count });
+    }
+
+    return count;
+  }
+
+  /**
+   * A superseded refresh token was presented: revoke the session and reject the request
+   */
+  private static async revokeReused(session: Session, client: SessionClient): Promise<never> {
+    await prisma.session.deleteMany({ where: { id: session.id } });
+
+    await createAuditLog({
+      userId: session.userId,
+      action: 'REFRESH_TOKEN_REUSED',
+      resource: 'sessions',
+      resourceId: session.id,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    });
+
+    logger.warn('Refresh token reuse detected, session revoked', {
+      userId: session.userId,
+      sessionId: session.id,
+    });
+
+    throw new UnauthorizedError('Refresh token has already been used');
+  }
+}
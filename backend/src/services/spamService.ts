@@ -0,0 +1,194 @@
+/**
+ * Spam Service
+ *
+ * Layered checks for the public contact and newsletter forms:
+ * - a honeypot field that people never see, so only bots fill it in
+ * - a form token issued by the API when the form loads; it proves the form was
+ *   loaded and records when, so submissions faster than a person can type stand out
+ * - content heuristics: too many links, blocked phrases, disposable email domains
+ * - throttling per email address and IP, which refuses the request outright
+ *
+ * A submission failing the other checks is still stored, with a SPAM status and the
+ * reasons, but nobody is emailed about it; the admin review queue can release it.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import config from '../config';
+import { TooManyRequestsError } from '../utils/errors';
+import logger from '../utils/logger';
+import { deriveSecret } from '../utils/tokens';
+
+export type SpamForm = 'contact' | 'newsletter';
+
+export const SPAM_FORMS: SpamForm[] = ['contact', 'newsletter'];
+
+export type SpamReason =
+  | 'honeypot'
+  | 'missing_token'
+  | 'invalid_token'
+  | 'too_fast'
+  | 'too_many_links'
+  | 'blocked_phrase'
+  | 'disposable_email';
+
+/**
+ * Where a public submission came from, as sent by the form
+ */
+export interface SubmissionContext {
+  ipAddress?: string;
+  /** Value of the hidden honeypot field */
+  honeypot?: string;
+  formToken?: string;
+}
+
+export interface SpamVerdict {
+  isSpam: boolean;
+  reasons: SpamReason[];
+}
+
+const FORM_TOKEN_PURPOSE = 'spam-form-token';
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+/gi;
+
+// Extended with SPAM_BLOCKED_PHRASES
+const BLOCKED_PHRASES = [
+  'viagra',
+  'cialis',
+  'casino',
+  'crypto investment',
+  'forex signals',
+  'seo services',
+  'buy backlinks',
+  'guest post',
+  'make money fast',
+  'payday loan',
+];
+
+// Extended with SPAM_DISPOSABLE_DOMAINS
+const DISPOSABLE_EMAIL_DOMAINS = [
+  'mailinator.com',
+  'guerrillamail.com',
+  '10minutemail.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'yopmail.com',
+  'trashmail.com',
+  'sharklasers.com',
+  'getnada.com',
+  'dispostable.com',
+  'maildrop.cc',
+  'throwawaymail.com',
+  'fakeinbox.com',
+];
+
+const tokenSecret = (): string => config.spam.formTokenSecret || deriveSecret(FORM_TOKEN_PURPOSE);
+
+const sign = (payload: string): string =>
+  crypto.createHmac('sha256', tokenSecret()).update(payload).digest('base64url');
+
+const isDisposableEmail = (email: string): boolean => {
+  const domain = email.split('@').pop()?.toLowerCase() ?? '';
+  return [...DISPOSABLE_EMAIL_DOMAINS, ...config.spam.disposableDomains].some(
+    (blocked) => domain === blocked.toLowerCase() || domain.endsWith(`.${blocked.toLowerCase()}`)
+  );
+};
+
+export class SpamService {
+  /**
+   * Token for a form to send back with its submission: the form and when it was loaded, signed
+   */
+  static issueFormToken(form: SpamForm, issuedAt: number = Date.now()): string {
+    const payload = `${form}.${issuedAt}`;
+    return `${payload}.${sign(payload)}`;
+  }
+
+  /**
+   * Run the honeypot, form token and content checks on a submission
+   */
+  static check(form: SpamForm, fields: { email: string; text: string[] }, context: SubmissionContext): SpamVerdict {
+    const reasons: SpamReason[] = [];
+
+    if (context.honeypot?.trim()) {
+      reasons.push('honeypot');
+    }
+
+    const tokenReason = SpamService.checkFormToken(form, context.formToken);
+    if (tokenReason) {
+      reasons.push(tokenReason);
+    }
+
+    const text = fields.text.join('\n').toLowerCase();
+    if ((text.match(LINK_PATTERN)?.length ?? 0) > config.spam.maxLinks) {
+      reasons.push('too_many_links');
+    }
+    if ([...BLOCKED_PHRASES, ...config.spam.blockedPhrases].some((phrase) => text.includes(phrase.toLowerCase()))) {
+      reasons.push('blocked_phrase');
+    }
+
+    if (isDisposableEmail(fields.email)) {
+      reasons.push('disposable_email');
+    }
+
+    if (reasons.length > 0) {
+      logger.warn('Form submission flagged as spam', { form, reasons, ipAddress: context.ipAddress });
+    }
+    return { isSpam: reasons.length > 0, reasons };
+  }
+
+  /**
+   * Refuse a submission when the same email address or IP has sent too many recently
+   */
+  static async assertNotThrottled(form: SpamForm, email: string, ipAddress?: string): Promise<void> {
+    const since = new Date(Date.now() - config.spam.throttleWindowMinutes * 60 * 1000);
+
+    let byEmail = 0;
+    let byIp = 0;
+
+    if (form === 'contact') {
+      [byEmail, byIp] = await Promise.all([
+        prisma.contactSubmission.count({
+          where: { email: { equals: email, mode: 'insensitive' }, createdAt: { gte: since } },
+        }),
+        ipAddress ? prisma.contactSubmission.count({ where: { ipAddress, createdAt: { gte: since } } }) : 0,
+      ]);
+    } else if (ipAddress) {
+      // Newsletter addresses are unique, so only the IP is counted
+      byIp = await prisma.newsletterSubscription.count({ where: { ipAddress, subscribedAt: { gte: since } } });
+    }
+
+    if (byEmail >= config.spam.maxPerEmail || byIp >= config.spam.maxPerIp) {
+      logger.warn('Form submission throttled', { form, ipAddress });
+      throw new TooManyRequestsError('Too many submissions, please try again later');
+    }
+  }
+
+  private static checkFormToken(form: SpamForm, token?: string): SpamReason | null {
+    if (!token) {
+      return 'missing_token';
+    }
+
+    const [tokenForm, issuedAtRaw, signature] = token.split('.');
+    const expected = sign(`${tokenForm}.${issuedAtRaw}`);
+    const issuedAt = Number(issuedAtRaw);
+
+    if (
+      tokenForm !== form ||
+      !signature ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected)) ||
+      !Number.isFinite(issuedAt)
+    ) {
+      return 'invalid_token';
+    }
+
+    const age = Date.now() - issuedAt;
+    if (age > config.spam.formTokenTtlHours * 60 * 60 * 1000) {
+      return 'invalid_token';
+    }
+    if (age < config.spam.minSubmitSeconds * 1000) {
+      return 'too_fast';
+    }
+    return null;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Trash Service
+ *
+ * Deleting content moves it to the trash (deletedAt is set) instead of removing
+ * the row. Trashed items are hidden everywhere except the trash view, can be
+ * restored or purged by a super admin, and are purged automatically once the
+ * retention period has passed. Every transition is written to the audit log.
+ */
+
+import config from '../config';
+import { prisma } from '../config/database';
+import { ContentType, Prisma } from '@prisma/client';
+import { NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+import { appendAuditLog } from './auditService';
+import { CONTENT_TYPE_SEGMENTS, CONTENT_TYPES, ContentRecord, ContentTypeSegment } from './contentTypes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashItem {
+  type: ContentTypeSegment;
+  contentType: ContentType;
+  id: string;
+  title: string;
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+const purgeDate = (deletedAt: Date): Date => new Date(deletedAt.getTime() + config.trash.retentionDays * DAY_MS);
+
+export class TrashService {
+  /**
+   * Move an item to the trash
+   */
+  static async moveToTrash(segment: ContentTypeSegment, id: string, userId?: string): Promise<void> {
+    const definition = CONTENT_TYPES[segment];
+
+    await prisma.$transaction(async (tx) => {
+      const item = await definition.find(tx, id);
+      if (!item || item.deletedAt) {
+        throw new NotFoundError(`${definition.label} not found`);
+      }
+
+      await TrashService.trashItem(tx, segment, item, userId);
+    });
+
+    logger.info('Content moved to trash', { contentType: definition.type, id, userId });
+  }
+
+  /**
+   * Trash a row that is known to exist, inside the caller's transaction
+   */
+  static async trashItem(
+    tx: Prisma.TransactionClient,
+    segment: ContentTypeSegment,
+    item: ContentRecord,
+    userId?: string
+  ): Promise<void> {
+    const definition = CONTENT_TYPES[segment];
+
+    await definition.update(tx, item.id, { deletedAt: new Date() });
+    await appendAuditLog(tx, {
+      userId,
+      action: 'CONTENT_TRASHED',
+      resource: segment,
+      resourceId: item.id,
+      details: { contentType: definition.type, title: item.title as string },
+    });
+  }
+
+  /**
+   * Trashed items across all (or one) content types, most recently deleted first
+   */
+  static async listTrash(segment?: ContentTypeSegment): Promise<TrashItem[]> {
+    const segments = segment ? [segment] : [...CONTENT_TYPE_SEGMENTS];
+
+    const groups = await Promise.all(
+      segments.map(async (type) => {
+        const definition = CONTENT_TYPES[type];
+        const rows = await definition.findTrashed(prisma, { deletedAt: { not: null } });
+        return rows.map((row) => ({
+          type,
+          contentType: definition.type,
+          id: row.id,
+          title: row.title,
+          deletedAt: row.deletedAt!,
+          purgeAt: purgeDate(row.deletedAt!),
+        }));
+      })
+    );
+
+    return groups.flat().sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  /**
+   * Take an item back out of the trash
+   */
+  static async restore(segment: ContentTypeSegment, id: string, userId?: string): Promise<ContentRecord> {
+    const definition = CONTENT_TYPES[segment];
+
+    const restored = await prisma.$transaction(async (tx) => {
+      await TrashService.findTrashed(tx, segment, id);
+
+      const item = await definition.update(tx, id, { deletedAt: null });
+      await appendAuditLog(tx, {
+        userId,
+        action: 'CONTENT_RESTORED',
+        resource: segment,
+        resourceId: id,
+        details: { contentType: definition.type, title: item.title as string },
+      });
+      return item;
+    });
+
+    logger.info('Content restored from trash', { contentType: definition.type, id, userId });
+    return restored;
+  }
+
+  /**
+   * Permanently delete a trashed item together with its revision history
+   */
+  static async purge(segment: ContentTypeSegment, id: string, userId?: string): Promise<void> {
+    const definition = CONTENT_TYPES[segment];
+
+    await prisma.$transaction(async (tx) => {
+      const item = await TrashService.findTrashed(tx, segment, id);
+      await TrashService.purgeItem(tx, segment, item, userId);
+    });
+
+    logger.info('Content purged', { contentType: definition.type, id, userId });
+  }
+
+  /**
+   * Purge everything that has been in the trash longer than the retention period
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - config.trash.retentionDays * DAY_MS);
+    let purged = 0;
+
+    for (const segment of CONTENT_TYPE_SEGMENTS) {
+      const expired = await CONTENT_TYPES[segment].findTrashed(prisma, { deletedAt: { lte: cutoff } });
+
+      for (const item of expired) {
+        await prisma.$transaction((tx) => TrashService.purgeItem(tx, segment, item));
+        purged++;
+      }
+    }
+
+    if (purged > 0) {
+      logger.info('Expired trash purged', { purged, retentionDays: config.trash.retentionDays });
+    }
+
+    return purged;
+  }
+
+  private static async purgeItem(
+    tx: Prisma.TransactionClient,
+    segment: ContentTypeSegment,
+    item: { id: string; title?: unknown },
+    userId?: string
+  ): Promise<void> {
+    const definition = CONTENT_TYPES[segment];
+
+    await tx.contentRevision.deleteMany({ where: { contentType: definition.type, contentId: item.id } });
+    await definition.delete(tx, item.id);
+    await appendAuditLog(tx, {
+      userId,
+      action: 'CONTENT_PURGED',
+      resource: segment,
+      resourceId: item.id,
+      details: {
+        contentType: definition.type,
+        title: item.title as string,
+        automatic: !userId,
+      },
+    });
+  }
+
+  private static async findTrashed(
+    tx: Prisma.TransactionClient,
+    segment: ContentTypeSegment,
+    id: string
+  ): Promise<ContentRecord> {
+    const definition = CONTENT_TYPES[segment];
+    const item = await definition.find(tx, id);
+
+    if (!item || !item.deletedAt) {
+      throw new NotFoundError(`${definition.label} not found in trash`);
+    }
+
+    return item;
+  }
+}
+
+export default TrashService;
@@ -0,0 +1,355 @@
+/**
+ * Two-Factor Service
+ *
+ * Optional TOTP second factor. Enrollment stores an encrypted secret, and 2FA is
+ * only switched on once the user proves their app produces matching codes; at that
+ * point they get one-time recovery codes (stored hashed). A user with 2FA signs in
+ * in two steps: the password yields a short-lived challenge token, which is
+ * exchanged for a session together with a code.
+ *
+ * The security policy can require 2FA for ADMIN and SUPER_ADMIN accounts; it is
+ * enforced by requirePermission(), so such accounts can still sign in and enroll.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Prisma, Role, SecurityPolicy } from '@prisma/client';
+import { prisma } from '../config/database';
+import config from '../config';
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+import { deriveSecret, hashToken } from '../utils/tokens';
+import {
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotpSecret,
+  otpauthUri,
+  verifyTotp,
+} from '../utils/totp';
+import { appendAuditLog } from './auditService';
+
+const CHALLENGE_AUDIENCE = 'two-factor-challenge';
+const POLICY_ID = 1;
+const POLICY_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Roles the "require 2FA for admins" policy applies to
+ */
+export const TWO_FACTOR_POLICY_ROLES: Role[] = ['ADMIN', 'SUPER_ADMIN'];
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  /** Whether the security policy requires 2FA for this user's role */
+  required: boolean;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+interface ChallengePayload {
+  userId: string;
+}
+
+let cachedPolicy: { policy: SecurityPolicy; expiresAt: number } | null = null;
+
+const challengeSecret = (): string => deriveSecret(CHALLENGE_AUDIENCE);
+
+// Recovery codes are matched without regard to case, spaces or dashes
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[\s-]/g, '');
+
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: config.twoFactor.recoveryCodeCount }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+export class TwoFactorService {
+  /**
+   * 2FA state of a user's account
+   */
+  static async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await TwoFactorService.findUser(userId);
+    const recoveryCodesRemaining = await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } });
+
+    return {
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      recoveryCodesRemaining: user.twoFactorEnabled ? recoveryCodesRemaining : 0,
+      required: await TwoFactorService.isRequiredFor(user.role),
+    };
+  }
+
+  /**
+   * Start enrollment: generate a secret for the user's authenticator app.
+   * Starting again replaces a secret that was never confirmed.
+   */
+  static async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await TwoFactorService.findUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: encryptTotpSecret(secret), twoFactorLastStep: null },
+    });
+
+    return { secret, otpauthUri: otpauthUri(config.twoFactor.issuer, user.email, secret) };
+  }
+
+  /**
+   * Finish enrollment with a code from the app. Returns the recovery codes, which are only shown this once.
+   */
+  static async confirmEnrollment(userId: string, code: string, ipAddress?: string, userAgent?: string) {
+    const user = await TwoFactorService.findUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+    if (!user.twoFactorSecret) {
+      throw new ValidationError('Start two-factor setup first');
+    }
+
+    const step = verifyTotp(decryptTotpSecret(user.twoFactorSecret), code);
+    if (step === null) {
+      throw new ValidationError('Invalid authentication code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+      });
+      await TwoFactorService.replaceRecoveryCodes(tx, userId, recoveryCodes);
+      await appendAuditLog(tx, {
+        userId,
+        action: 'TWO_FACTOR_ENABLED',
+        resource: 'users',
+        resourceId: userId,
+        ipAddress,
+        userAgent,
+      });
+    });
+
+    logger.info('Two-factor authentication enabled', { userId });
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn 2FA off, confirmed with a current code or a recovery code
+   */
+  static async disable(userId: string, code: string, ipAddress?: string, userAgent?: string): Promise<void> {
+    const user = await TwoFactorService.findUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+    if (await TwoFactorService.isRequiredFor(user.role)) {
+      throw new ForbiddenError('Two-factor authentication is required for your role');
+    }
+
+    await TwoFactorService.verifyCode(userId, code);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+      });
+      await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+      await appendAuditLog(tx, {
+        userId,
+        action: 'TWO_FACTOR_DISABLED',
+        resource: 'users',
+        resourceId: userId,
+        ipAddress,
+        userAgent,
+      });
+    });
+
+    logger.info('Two-factor authentication disabled', { userId });
+  }
+
+  /**
+   * Replace all recovery codes, confirmed with a current code from the app
+   */
+  static async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await TwoFactorService.findUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+
+    await TwoFactorService.verifyTotpCode(userId, code);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.$transaction((tx) => TwoFactorService.replaceRecoveryCodes(tx, userId, recoveryCodes));
+
+    logger.info('Two-factor recovery codes regenerated', { userId });
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a code from the app (6 digits) or a recovery code, consuming it.
+   * Throws UnauthorizedError if it does not match.
+   */
+  static async verifyCode(userId: string, code: string): Promise<'totp' | 'recovery'> {
+    if (/^\d{6}$/.test(code.trim())) {
+      await TwoFactorService.verifyTotpCode(userId, code.trim());
+      return 'totp';
+    }
+
+    const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: hashToken(normalizeRecoveryCode(code)), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new UnauthorizedError('Invalid authentication code');
+    }
+
+    logger.info('Two-factor recovery code used', { userId });
+    return 'recovery';
+  }
+
+  /**
+   * Token proving the password step of a login succeeded, exchanged with a code for a session
+   */
+  static issueChallenge(userId: string): string {
+    return jwt.sign({ userId }, challengeSecret(), {
+      audience: CHALLENGE_AUDIENCE,
+      expiresIn: config.twoFactor.challengeTtlMinutes * 60,
+    });
+  }
+
+  /**
+   * The user a login challenge was issued to
+   */
+  static verifyChallenge(challengeToken: string): string {
+    try {
+      const payload = jwt.verify(challengeToken, challengeSecret(), {
+        audience: CHALLENGE_AUDIENCE,
+      }) as ChallengePayload;
+      return payload.userId;
+    } catch (error) {
+      throw new UnauthorizedError('Login challenge is invalid or has expired; please sign in again');
+    }
+  }
+
+  /**
+   * Current security policy (defaults apply until a super admin changes it)
+   */
+  static async getPolicy(): Promise<SecurityPolicy> {
+    if (cachedPolicy && cachedPolicy.expiresAt > Date.now()) {
+      return cachedPolicy.policy;
+    }
+
+    const policy =
+      (await prisma.securityPolicy.findUnique({ where: { id: POLICY_ID } })) ??
+      ({ id: POLICY_ID, requireAdminTwoFactor: false, updatedById: null, updatedAt: new Date(0) } as SecurityPolicy);
+
+    cachedPolicy = { policy, expiresAt: Date.now() + POLICY_CACHE_TTL_MS };
+    return policy;
+  }
+
+  /**
+   * Require (or stop requiring) 2FA for admin accounts.
+   * The actor must have 2FA themselves, so they cannot lock themselves out of the admin area.
+   */
+  static async updatePolicy(actorId: string, requireAdminTwoFactor: boolean): Promise<SecurityPolicy> {
+    const actor = await TwoFactorService.findUser(actorId);
+
+    if (requireAdminTwoFactor && !actor.twoFactorEnabled) {
+      throw new ValidationError('Enable two-factor authentication on your own account first');
+    }
+
+    const policy = await prisma.securityPolicy.upsert({
+      where: { id: POLICY_ID },
+      create: { id: POLICY_ID, requireAdminTwoFactor, updatedById: actorId },
+      update: { requireAdminTwoFactor, updatedById: actorId },
+    });
+
+    TwoFactorService.clearCache();
+    logger.info('Security policy updated', { requireAdminTwoFactor, updatedBy: actorId });
+    return policy;
+  }
+
+  /**
+   * Whether the policy requires 2FA for a role
+   */
+  static async isRequiredFor(role: Role): Promise<boolean> {
+    if (!TWO_FACTOR_POLICY_ROLES.includes(role)) {
+      return false;
+    }
+    return (await TwoFactorService.getPolicy()).requireAdminTwoFactor;
+  }
+
+  /**
+   * Forget the cached policy
+   */
+  static clearCache(): void {
+    cachedPolicy = null;
+  }
+
+  private static async findUser(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorEnabledAt: true,
+        twoFactorLastStep: true,
+      },
+    });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  /**
+   * Accept a TOTP code at most once: its step must be later than the last accepted one
+   */
+  private static async verifyTotpCode(userId: string, code: string): Promise<void> {
+    const user = await TwoFactorService.findUser(userId);
+    const step = user.twoFactorSecret ? verifyTotp(decryptTotpSecret(user.twoFactorSecret), code) : null;
+
+    if (step === null || (user.twoFactorLastStep !== null && step <= user.twoFactorLastStep)) {
+      throw new UnauthorizedError('Invalid authentication code');
+    }
+
+    // Conditional update so two requests cannot both spend the same code
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+
+    if (count === 0) {
+      throw new UnauthorizedError('Invalid authentication code');
+    }
+  }
+
+  private static async replaceRecoveryCodes(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    codes: string[]
+  ): Promise<void> {
+    await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+    await tx.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })),
+    });
+  }
+}
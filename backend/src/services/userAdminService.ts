@@ -0,0 +1,225 @@
+/**
+ * User Admin Service
+ *
+ * Backs the admin user console: searching and paging through accounts, and
+ * inspecting their sessions, payments and consents. Actions on an account
+ * (deactivating it, forcing a logout, lifting a lockout) follow the role hierarchy: an admin can
+ * only act on users whose role is strictly lower than their own.
+ */
+
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+import { canManageRole } from './rbacService';
+import { SessionService } from './sessionService';
+
+export interface UserActor {
+  id: string;
+  role: Role;
+}
+
+export interface UserListFilters {
+  /** Partial, case-insensitive match on email or name */
+  search?: string;
+  role?: Role;
+  isActive?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+const userSummarySelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  emailVerified: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+type UserSummary = Prisma.UserGetPayload<{ select: typeof userSummarySelect }>;
+
+export type ManagedUser = UserSummary & {
+  activeSessions: number;
+  /** Whether the requesting admin may act on this account */
+  canManage: boolean;
+};
+
+const activeSessionsWhere = (): Prisma.SessionWhereInput => ({ expiresAt: { gt: new Date() } });
+
+export class UserAdminService {
+  /**
+   * Search users, newest first
+   */
+  static async list(actor: UserActor, filters: UserListFilters = {}): Promise<{ users: ManagedUser[]; total: number }> {
+    const where: Prisma.UserWhereInput = {
+      ...(filters.search && {
+        OR: [
+          { email: { contains: filters.search, mode: 'insensitive' } },
+          { name: { contains: filters.search, mode: 'insensitive' } },
+        ],
+      }),
+      ...(filters.role && { role: filters.role }),
+      ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        take: filters.limit,
+        skip: filters.offset,
+        select: {
+          ...userSummarySelect,
+          _count: { select: { sessions: { where: activeSessionsWhere() } } },
+        },
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    const users = rows.map(({ _count, ...user }) => ({
+      ...user,
+      activeSessions: _count.sessions,
+      canManage: canManageRole(actor.role, user.role),
+    }));
+
+    return { users, total };
+  }
+
+  /**
+   * One user with their active session count
+   */
+  static async get(actor: UserActor, userId: string): Promise<ManagedUser> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        ...userSummarySelect,
+        _count: { select: { sessions: { where: activeSessionsWhere() } } },
+      },
+    });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const { _count, ...summary } = user;
+    return { ...summary, activeSessions: _count.sessions, canManage: canManageRole(actor.role, user.role) };
+  }
+
+  /**
+   * Activate or deactivate an account. Deactivating also ends all of its sessions.
+   */
+  static async setActive(actor: UserActor, userId: string, isActive: boolean): Promise<UserSummary> {
+    await UserAdminService.findManageable(actor, userId);
+
+    const user = await prisma.$transaction(async (tx) => {
+      if (!isActive) {
+        await SessionService.revokeAll(tx, userId);
+      }
+      return tx.user.update({ where: { id: userId }, data: { isActive }, select: userSummarySelect });
+    });
+
+    logger.info('User status changed', { userId, isActive, changedBy: actor.id });
+    return user;
+  }
+
+  /**
+   * End every session of a user: refresh tokens are deleted and access tokens already issued stop working
+   */
+  static async forceLogout(actor: UserActor, userId: string): Promise<{ revokedSessions: number }> {
+    await UserAdminService.findManageable(actor, userId);
+
+    const revokedSessions = await prisma.$transaction((tx) => SessionService.revokeAll(tx, userId));
+
+    logger.info('User logged out by admin', { userId, revokedSessions, changedBy: actor.id });
+    return { revokedSessions };
+  }
+
+  /**
+   * Lift a lockout caused by failed logins and forget the failed attempts
+   */
+  static async unlock(actor: UserActor, userId: string): Promise<UserSummary> {
+    await UserAdminService.findManageable(actor, userId);
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+      select: userSummarySelect,
+    });
+
+    logger.info('User unlocked by admin', { userId, changedBy: actor.id });
+    return user;
+  }
+
+  /**
+   * Active sessions of a user, newest first (refresh tokens are never returned)
+   */
+  static async listSessions(userId: string) {
+    await UserAdminService.findUser(userId);
+
+    return prisma.session.findMany({
+      where: { userId, ...activeSessionsWhere() },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, createdAt: true, expiresAt: true, ipAddress: true, userAgent: true },
+    });
+  }
+
+  /**
+   * Payments made by a user, newest first
+   */
+  static async listPayments(userId: string) {
+    await UserAdminService.findUser(userId);
+
+    return prisma.payment.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        provider: true,
+        amount: true,
+        currency: true,
+        status: true,
+        description: true,
+        refundedAmount: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  /**
+   * Consent records of a user
+   */
+  static async listConsents(userId: string) {
+    await UserAdminService.findUser(userId);
+
+    return prisma.consentRecord.findMany({
+      where: { userId },
+      orderBy: { consentType: 'asc' },
+      select: { consentType: true, granted: true, grantedAt: true, revokedAt: true, version: true, updatedAt: true },
+    });
+  }
+
+  private static async findUser(userId: string): Promise<{ id: string; role: Role }> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, role: true } });
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  private static async findManageable(actor: UserActor, userId: string): Promise<{ id: string; role: Role }> {
+    const user = await UserAdminService.findUser(userId);
+
+    if (user.id === actor.id) {
+      throw new ForbiddenError('You cannot change your own account from the user console');
+    }
+    if (!canManageRole(actor.role, user.role)) {
+      throw new ForbiddenError(`Only a role above ${user.role} can manage this user`);
+    }
+
+    return user;
+  }
+}
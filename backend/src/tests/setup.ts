@@ -16,6 +16,7 @@ afterAll(async () => {
 beforeEach(async () => {
   // Delete all data in reverse order of dependencies
   await prisma.auditLog.deleteMany();
+  await prisma.auditCheckpoint.deleteMany();
   await prisma.passwordReset.deleteMany();
   await prisma.session.deleteMany();
   await prisma.user.deleteMany();
@@ -0,0 +1,31 @@
+/**
+ * File Storage Type Definitions
+ *
+ * Generated files (such as data exports) are kept through a storage provider,
+ * so the backend can move from local disk to object storage without touching callers
+ */
+
+export type StorageProviderType = 'LOCAL';
+
+/**
+ * Storage Provider Interface
+ * Keys are slash-separated paths such as "data-exports/<userId>/<id>.zip"
+ */
+export interface IStorageProvider {
+  readonly name: StorageProviderType;
+
+  /**
+   * Store a file, replacing any file with the same key
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Read a file, or null if there is none
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Delete a file (a missing file is not an error)
+   */
+  delete(key: string): Promise<void>;
+}
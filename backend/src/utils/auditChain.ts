@@ -0,0 +1,148 @@
+/**
+ * Audit Chain Utilities
+ *
+ * Hashing and signing for the tamper-evident audit log. Each entry stores a
+ * SHA-256 of its contents together with the previous entry's hash, so editing,
+ * deleting or reordering a row breaks the link to the entry after it. Retention
+ * prunes leave an HMAC-signed checkpoint that vouches for the removed prefix, and
+ * entries whose personal fields are erased carry an HMAC-signed redaction in place
+ * of a recomputable hash.
+ */
+
+import crypto from 'crypto';
+import config from '../config';
+import { deriveSecret } from './tokens';
+
+const CHECKPOINT_PURPOSE = 'audit-checkpoint';
+const REDACTION_PURPOSE = 'audit-redaction';
+
+export interface ChainedAuditFields {
+  id: string;
+  userId: string | null;
+  action: string;
+  resource: string | null;
+  resourceId: string | null;
+  details: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  createdAt: Date;
+  previousHash: string | null;
+}
+
+export interface RedactedAuditFields extends ChainedAuditFields {
+  hash: string | null;
+  redactedAt: Date;
+}
+
+export interface CheckpointFields {
+  id: string;
+  sequence: number;
+  hash: string | null;
+  prunedCount: number;
+  cutoff: Date;
+  createdAt: Date;
+}
+
+/**
+ * Serialise a value as JSON with object keys sorted.
+ * Postgres stores details as jsonb, which does not keep key order, so hashes
+ * must not depend on it.
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Hash an audit entry's contents and its link to the previous entry
+ */
+export const hashAuditEntry = (fields: ChainedAuditFields): string => {
+  const payload = canonicalJson({
+    id: fields.id,
+    userId: fields.userId,
+    action: fields.action,
+    resource: fields.resource,
+    resourceId: fields.resourceId,
+    details: fields.details,
+    ipAddress: fields.ipAddress,
+    userAgent: fields.userAgent,
+    requestId: fields.requestId,
+    createdAt: fields.createdAt,
+    previousHash: fields.previousHash,
+  });
+  return crypto.createHash('sha256').update(payload).digest('hex');
+};
+
+const checkpointSecret = (): string => config.audit.checkpointSecret || deriveSecret(CHECKPOINT_PURPOSE);
+
+/**
+ * Sign a retention checkpoint
+ */
+export const signCheckpoint = (fields: CheckpointFields): string => {
+  const payload = canonicalJson({
+    id: fields.id,
+    sequence: fields.sequence,
+    hash: fields.hash,
+    prunedCount: fields.prunedCount,
+    cutoff: fields.cutoff,
+    createdAt: fields.createdAt,
+  });
+  return crypto.createHmac('sha256', checkpointSecret()).update(payload).digest('hex');
+};
+
+/**
+ * Check a checkpoint's signature in constant time
+ */
+export const isCheckpointSignatureValid = (fields: CheckpointFields, signature: string): boolean => {
+  const expected = Buffer.from(signCheckpoint(fields), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const redactionSecret = (): string => config.audit.checkpointSecret || deriveSecret(REDACTION_PURPOSE);
+
+/**
+ * Sign a redacted entry: its remaining contents, the hash of the original and when it was redacted
+ */
+export const signRedaction = (fields: RedactedAuditFields): string => {
+  const payload = canonicalJson({
+    id: fields.id,
+    userId: fields.userId,
+    action: fields.action,
+    resource: fields.resource,
+    resourceId: fields.resourceId,
+    details: fields.details,
+    ipAddress: fields.ipAddress,
+    userAgent: fields.userAgent,
+    requestId: fields.requestId,
+    createdAt: fields.createdAt,
+    previousHash: fields.previousHash,
+    hash: fields.hash,
+    redactedAt: fields.redactedAt,
+  });
+  return crypto.createHmac('sha256', redactionSecret()).update(`${REDACTION_PURPOSE}:${payload}`).digest('hex');
+};
+
+/**
+ * Check a redaction signature in constant time
+ */
+export const isRedactionSignatureValid = (fields: RedactedAuditFields, signature: string): boolean => {
+  const expected = Buffer.from(signRedaction(fields), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,82 @@
+/**
+ * Audit Trail Utilities
+ *
+ * Redaction and before/after diffing for audit log details. Anything that looks
+ * like a credential is replaced before it reaches the database, and long text
+ * fields are shortened so an edit to an article does not store it twice.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+const SECRET_KEY = /pass(word)?|token|secret|authorization|cookie|api[-_]?key|otp|recovery|^code$/i;
+const MAX_STRING_LENGTH = 500;
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = new Set(['updatedAt', 'searchVector']);
+
+type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+
+/**
+ * Deep-copy a value as plain JSON, masking secret-looking keys and truncating long strings
+ */
+export const redact = (value: unknown): Json => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (typeof value === 'object') {
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      return redact((value as { toJSON: () => unknown }).toJSON());
+    }
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        SECRET_KEY.test(key) ? REDACTED : redact(item),
+      ])
+    );
+  }
+  return String(value);
+};
+
+export interface FieldChange {
+  before: Json;
+  after: Json;
+}
+
+/**
+ * Fields that differ between two states of a record (either side may be missing, e.g. on create or delete)
+ */
+export const diffChanges = (
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): Record<string, FieldChange> => {
+  const previous = (redact(before ?? {}) ?? {}) as Record<string, Json>;
+  const next = (redact(after ?? {}) ?? {}) as Record<string, Json>;
+  const changes: Record<string, FieldChange> = {};
+
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const from = previous[field] ?? null;
+    const to = next[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+
+  return changes;
+};
@@ -0,0 +1,33 @@
+/**
+ * CSV helpers for exports (RFC 4180 quoting)
+ */
+
+// Leading characters that make a spreadsheet read the cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV cell: dates as ISO strings, objects as JSON, quoted when needed.
+ * Text that a spreadsheet would run as a formula (e.g. a User-Agent of "=HYPERLINK(...)")
+ * is prefixed with ' so it is shown as text.
+ */
+export const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text =
+    typeof value === 'string'
+      ? value.replace(FORMULA_PREFIX, "'$&")
+      : value instanceof Date
+        ? value.toISOString()
+        : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * A header row plus one row per record. Columns default to the keys of every record, in first-seen order.
+ */
+export const toCsv = (rows: Record<string, unknown>[], columns?: readonly string[]): string => {
+  const header = columns ?? [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const lines = [header.join(','), ...rows.map((row) => header.map((column) => csvCell(row[column])).join(','))];
+  return `${lines.join('\n')}\n`;
+};
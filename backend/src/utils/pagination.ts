@@ -0,0 +1,78 @@
+/**
+ * Pagination Utilities
+ *
+ * Cursor-based pagination shared by the public content list endpoints.
+ * The cursor is the id of the last item on the previous page; Prisma resolves
+ * it against the active sort so pages stay stable while rows are added.
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const CONTENT_SORTS = ['order', 'newest', 'oldest', 'title'] as const;
+export type ContentSort = (typeof CONTENT_SORTS)[number];
+
+export interface PaginationOptions {
+  limit?: number;
+  cursor?: string;
+  sort?: ContentSort;
+}
+
+export interface PaginatedResult<T> {
+  data: T[];
+  meta: {
+    total: number;
+    nextCursor: string | null;
+  };
+}
+
+type SortOrder = 'asc' | 'desc';
+
+/**
+ * Map a public sort key to a Prisma orderBy.
+ * The trailing id keeps ordering deterministic when the primary field ties.
+ */
+export const contentOrderBy = (sort: ContentSort = 'order'): Array<Record<string, SortOrder>> => {
+  switch (sort) {
+    case 'newest':
+      return [{ createdAt: 'desc' }, { id: 'asc' }];
+    case 'oldest':
+      return [{ createdAt: 'asc' }, { id: 'asc' }];
+    case 'title':
+      return [{ title: 'asc' }, { id: 'asc' }];
+    case 'order':
+    default:
+      return [{ displayOrder: 'asc' }, { id: 'asc' }];
+  }
+};
+
+/**
+ * Fetch one page plus the total count.
+ * One extra row is requested to find out whether another page exists.
+ */
+export const paginate = async <T extends { id: string }>(
+  findMany: (args: { take: number; skip?: number; cursor?: { id: string } }) => Promise<T[]>,
+  count: () => Promise<number>,
+  options: PaginationOptions = {}
+): Promise<PaginatedResult<T>> => {
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const [rows, total] = await Promise.all([
+    findMany({
+      take: limit + 1,
+      ...(options.cursor && { skip: 1, cursor: { id: options.cursor } }),
+    }),
+    count(),
+  ]);
+
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    data,
+    meta: {
+      total,
+      nextCursor: hasMore ? data[data.length - 1].id : null,
+    },
+  };
+};
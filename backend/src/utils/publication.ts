@@ -0,0 +1,99 @@
+/**
+ * Publication Utilities
+ *
+ * Content moves through DRAFT -> SCHEDULED -> PUBLISHED -> ARCHIVED.
+ * The scheduler flips SCHEDULED/PUBLISHED rows once publishAt/unpublishAt pass,
+ * but public queries also check the timestamps so nothing goes live early or
+ * stays up late between scheduler runs.
+ */
+
+import { PublicationStatus } from '@prisma/client';
+import { ValidationError } from './errors';
+
+export interface PublicationFields {
+  isActive: boolean;
+  publicationStatus: PublicationStatus;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+  deletedAt: Date | null;
+}
+
+export interface PublicationInput {
+  publicationStatus?: PublicationStatus;
+  publishAt?: string | Date | null;
+  unpublishAt?: string | Date | null;
+}
+
+/**
+ * Prisma where clause matching rows the public may see at the given moment.
+ * Has the same shape for every content model, so it can be spread into any of their where inputs.
+ */
+export const publiclyVisibleWhere = (now: Date = new Date()) => ({
+  isActive: true,
+  deletedAt: null,
+  OR: [
+    { publicationStatus: PublicationStatus.PUBLISHED },
+    { publicationStatus: PublicationStatus.SCHEDULED, publishAt: { lte: now } },
+  ],
+  AND: [{ OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] }],
+});
+
+/**
+ * In-memory counterpart of publiclyVisibleWhere for single-item lookups
+ */
+export const isPubliclyVisible = (item: PublicationFields, now: Date = new Date()): boolean => {
+  if (!item.isActive || item.deletedAt) {
+    return false;
+  }
+
+  const live =
+    item.publicationStatus === PublicationStatus.PUBLISHED ||
+    (item.publicationStatus === PublicationStatus.SCHEDULED && !!item.publishAt && item.publishAt <= now);
+
+  return live && (!item.unpublishAt || item.unpublishAt > now);
+};
+
+const toDate = (value: string | Date | null | undefined): Date | null | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '') {
+    return null;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError('Invalid publication date');
+  }
+  return date;
+};
+
+/**
+ * Validate publication input against the current row (if any) and return the Prisma data to write.
+ * Only fields present in the input are returned; null clears a date.
+ */
+export const publicationData = (input: PublicationInput, existing?: Partial<PublicationFields>) => {
+  const publishAt = toDate(input.publishAt);
+  const unpublishAt = toDate(input.unpublishAt);
+
+  const status = input.publicationStatus ?? existing?.publicationStatus ?? PublicationStatus.PUBLISHED;
+  const effectivePublishAt = publishAt !== undefined ? publishAt : existing?.publishAt ?? null;
+  const effectiveUnpublishAt = unpublishAt !== undefined ? unpublishAt : existing?.unpublishAt ?? null;
+
+  if (!Object.values(PublicationStatus).includes(status)) {
+    throw new ValidationError('Invalid publication status');
+  }
+
+  if (status === PublicationStatus.SCHEDULED && !effectivePublishAt) {
+    throw new ValidationError('Scheduled content needs a publishAt date');
+  }
+
+  if (effectivePublishAt && effectiveUnpublishAt && effectiveUnpublishAt <= effectivePublishAt) {
+    throw new ValidationError('unpublishAt must be after publishAt');
+  }
+
+  return {
+    ...(input.publicationStatus !== undefined && { publicationStatus: input.publicationStatus }),
+    ...(publishAt !== undefined && { publishAt }),
+    ...(unpublishAt !== undefined && { unpublishAt }),
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * Scheduler
+ *
+ * Minimal in-process recurring task runner for background maintenance
+ * (publication transitions, cleanups). A run is skipped while the previous
+ * one is still in progress, and failures are logged rather than thrown.
+ */
+
+import logger from './logger';
+
+export type StopFn = () => void;
+
+export const scheduleRecurring = (
+  name: string,
+  intervalMs: number,
+  task: () => Promise<unknown>
+): StopFn => {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      logger.warn('Scheduled task still running, skipping this tick', { task: name });
+      return;
+    }
+
+    running = true;
+    try {
+      await task();
+    } catch (error: any) {
+      logger.error('Scheduled task failed', { task: name, error: error.message });
+    } finally {
+      running = false;
+    }
+  };
+
+  // Run once right away so work that came due while the server was down isn't delayed
+  void run();
+  const timer = setInterval(run, intervalMs);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+
+  logger.info('Scheduled task registered', { task: name, intervalMs });
+
+  return () => clearInterval(timer);
+};
+
+export default scheduleRecurring;
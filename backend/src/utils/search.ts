@@ -0,0 +1,27 @@
+/**
+ * Search Utilities
+ */
+
+const MAX_SEARCH_TERMS = 10;
+
+/**
+ * Turn free-form user input into a Postgres tsquery string with prefix matching.
+ * Every term must match ("ai prom" -> "ai:* & prom:*"). Punctuation is dropped so
+ * user input can never inject tsquery operators. Returns null when nothing searchable is left.
+ */
+export const buildPrefixTsQuery = (input: string): string | null => {
+  const terms = input
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean)
+    .slice(0, MAX_SEARCH_TERMS);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `${term}:*`).join(' & ');
+};
+
+export default buildPrefixTsQuery;
@@ -0,0 +1,18 @@
+/**
+ * Convert arbitrary text into a URL-safe slug
+ *
+ * Usage:
+ * slugify('Understanding Transformers: Part 1') // 'understanding-transformers-part-1'
+ */
+export const slugify = (text: string, maxLength: number = 80): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip diacritics
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/g, '');
+};
+
+export default slugify;
@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+import config from '../config';
+
+/**
+ * Generate a random, URL-safe token to hand to a user (email links, etc.)
+ */
+export const generateToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+/**
+ * Hash a token for storage
+ * Only the hash is persisted, so a leaked database row cannot be replayed as a link
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Derive a signing or encryption secret for one purpose from JWT_SECRET,
+ * so each kind of token gets its own key without another env var
+ */
+export const deriveSecret = (purpose: string): string => {
+  return crypto.createHmac('sha256', config.jwt.secret).update(purpose).digest('hex');
+};
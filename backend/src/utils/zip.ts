@@ -0,0 +1,131 @@
+/**
+ * ZIP archives
+ *
+ * Minimal writer and reader for the small archives the app generates (data exports).
+ * Entries are compressed with deflate; there is no ZIP64, encryption or streaming,
+ * so archives must fit in memory and stay under 4 GB.
+ */
+
+import zlib from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  content: string | Buffer;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as stored in ZIP headers
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const DEFLATE = 8;
+const UTF8_NAMES = 1 << 11;
+
+/**
+ * Build a ZIP archive from in-memory entries
+ */
+export const createZip = (entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer => {
+  const { time, date } = dosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(UTF8_NAMES, 6);
+    local.writeUInt16LE(DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // Extra field length
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6); // Version needed to extract
+    central.writeUInt16LE(UTF8_NAMES, 8);
+    central.writeUInt16LE(DEFLATE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42); // Local header offset (the other fields stay 0)
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+/**
+ * Read the entries of an archive written by createZip (stored or deflated entries, no comment)
+ */
+export const readZip = (archive: Buffer): Map<string, Buffer> => {
+  const endOffset = archive.length - 22;
+  if (endOffset < 0 || archive.readUInt32LE(endOffset) !== 0x06054b50) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const count = archive.readUInt16LE(endOffset + 10);
+  const entries = new Map<string, Buffer>();
+  let pointer = archive.readUInt32LE(endOffset + 16);
+
+  for (let i = 0; i < count; i++) {
+    const method = archive.readUInt16LE(pointer + 10);
+    const compressedSize = archive.readUInt32LE(pointer + 20);
+    const nameLength = archive.readUInt16LE(pointer + 28);
+    const extraLength = archive.readUInt16LE(pointer + 30);
+    const commentLength = archive.readUInt16LE(pointer + 32);
+    const localOffset = archive.readUInt32LE(pointer + 42);
+    const name = archive.toString('utf8', pointer + 46, pointer + 46 + nameLength);
+
+    const localNameLength = archive.readUInt16LE(localOffset + 26);
+    const localExtraLength = archive.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === DEFLATE ? zlib.inflateRawSync(data) : Buffer.from(data));
+
+    pointer += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
@@ -4,10 +4,13 @@ import "./index.css";
 import Layout from "./components/Layout";
 import ProtectedRoute from "./components/ProtectedRoute";
 import { AuthProvider } from "./contexts/AuthContext";
+import { ConsentProvider } from "./contexts/ConsentContext";
+import { ConsentScript } from "./components/CookieConsent";
 import Home from "./pages/Home";
 import Training from "./pages/Training";
 import TrainingDetail from "./pages/TrainingDetail";
 import KnowledgeHub from "./pages/KnowledgeHub";
+import KnowledgeArticleDetail from "./pages/KnowledgeArticleDetail";
 import Tools from "./pages/Tools";
 import Products from "./pages/Products";
 import Community from "./pages/Community";
@@ -22,9 +25,21 @@ import KnowledgeList from "./pages/admin/KnowledgeList";
 import KnowledgeForm from "./pages/admin/KnowledgeForm";
 import CommunityList from "./pages/admin/CommunityList";
 import CommunityForm from "./pages/admin/CommunityForm";
+import Trash from "./pages/admin/Trash";
+import AuditLog from "./pages/admin/AuditLog";
+import Users from "./pages/admin/Users";
+import SpamQueue from "./pages/admin/SpamQueue";
+import Jobs from "./pages/admin/Jobs";
+import LegalDocuments from "./pages/admin/LegalDocuments";
+import LegalDocumentForm from "./pages/admin/LegalDocumentForm";
 import Contact from "./pages/Contact";
+import LegalDocumentPage from "./pages/LegalDocument";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
+import AccountSecurity from "./pages/AccountSecurity";
 
 // Create a client for React Query
 const queryClient = new QueryClient({
@@ -40,61 +55,88 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <BrowserRouter>
-          <Routes>
-            {/* Public routes with layout */}
-            <Route
-              path="/*"
-              element={
-                <Layout>
-                  <Routes>
-                    <Route path="/" element={<Home />} />
-                    <Route path="/trainings" element={<Training />} />
-                    <Route path="/trainings/:id" element={<TrainingDetail />} />
-                    <Route path="/knowledge" element={<KnowledgeHub />} />
-                    <Route path="/tools" element={<Tools />} />
-                    <Route path="/products" element={<Products />} />
-                    <Route path="/community" element={<Community />} />
-                    <Route path="/contact" element={<Contact />} />
-                  </Routes>
-                </Layout>
-              }
-            />
-
-            {/* Auth routes without layout */}
-            <Route path="/login" element={<Login />} />
-            <Route path="/register" element={<Register />} />
-
-            {/* Admin routes (protected) */}
-            <Route
-              path="/admin/*"
-              element={
-                <ProtectedRoute requiredRole="ADMIN">
+        <ConsentProvider>
+          {/* Third-party tags, loaded only with the visitor's consent */}
+          <ConsentScript category="ANALYTICS" src={import.meta.env.VITE_ANALYTICS_SCRIPT_URL} />
+          <ConsentScript category="MARKETING_EMAILS" src={import.meta.env.VITE_MARKETING_SCRIPT_URL} />
+          <BrowserRouter>
+            <Routes>
+              {/* Public routes with layout */}
+              <Route
+                path="/*"
+                element={
                   <Layout>
                     <Routes>
-                      <Route path="/" element={<AdminDashboard />} />
-                      <Route path="/trainings" element={<TrainingList />} />
-                      <Route path="/trainings/new" element={<TrainingForm />} />
-                      <Route path="/trainings/:id/edit" element={<TrainingForm />} />
-                      <Route path="/tools" element={<ToolList />} />
-                      <Route path="/tools/new" element={<ToolForm />} />
-                      <Route path="/tools/:id/edit" element={<ToolForm />} />
-                      <Route path="/products" element={<ProductList />} />
-                      <Route path="/products/new" element={<ProductForm />} />
-                      <Route path="/products/:id/edit" element={<ProductForm />} />
-                      <Route path="/knowledge" element={<KnowledgeList />} />
-                      <Route path="/knowledge/new" element={<KnowledgeForm />} />
-                      <Route path="/knowledge/:id/edit" element={<KnowledgeForm />} />
-                      <Route path="/community" element={<CommunityList />} />
-                      <Route path="/community/new" element={<CommunityForm />} />
-                      <Route path="/community/:id/edit" element={<CommunityForm />} />
+                      <Route path="/" element={<Home />} />
+                      <Route path="/trainings" element={<Training />} />
+                      <Route path="/trainings/:id" element={<TrainingDetail />} />
+                      <Route path="/knowledge" element={<KnowledgeHub />} />
+                      <Route path="/knowledge/:slug" element={<KnowledgeArticleDetail />} />
+                      <Route path="/tools" element={<Tools />} />
+                      <Route path="/products" element={<Products />} />
+                      <Route path="/community" element={<Community />} />
+                      <Route path="/contact" element={<Contact />} />
+                      <Route path="/terms" element={<LegalDocumentPage slug="terms" />} />
+                      <Route path="/privacy" element={<LegalDocumentPage slug="privacy" />} />
+                      <Route
+                        path="/account/security"
+                        element={
+                          <ProtectedRoute>
+                            <AccountSecurity />
+                          </ProtectedRoute>
+                        }
+                      />
                     </Routes>
                   </Layout>
-                </ProtectedRoute>
-              }
-            />
-          </Routes>
-        </BrowserRouter>
+                }
+              />
+
+              {/* Auth routes without layout */}
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route path="/verify-email" element={<VerifyEmail />} />
+
+              {/* Admin routes (protected) */}
+              <Route
+                path="/admin/*"
+                element={
+                  <ProtectedRoute requiredRole="ADMIN">
+                    <Layout>
+                      <Routes>
+                        <Route path="/" element={<AdminDashboard />} />
+                        <Route path="/trainings" element={<TrainingList />} />
+                        <Route path="/trainings/new" element={<TrainingForm />} />
+                        <Route path="/trainings/:id/edit" element={<TrainingForm />} />
+                        <Route path="/tools" element={<ToolList />} />
+                        <Route path="/tools/new" element={<ToolForm />} />
+                        <Route path="/tools/:id/edit" element={<ToolForm />} />
+                        <Route path="/products" element={<ProductList />} />
+                        <Route path="/products/new" element={<ProductForm />} />
+                        <Route path="/products/:id/edit" element={<ProductForm />} />
+                        <Route path="/knowledge" element={<KnowledgeList />} />
+                        <Route path="/knowledge/new" element={<KnowledgeForm />} />
+                        <Route path="/knowledge/:id/edit" element={<KnowledgeForm />} />
+                        <Route path="/community" element={<CommunityList />} />
+                        <Route path="/community/new" element={<CommunityForm />} />
+                        <Route path="/community/:id/edit" element={<CommunityForm />} />
+                        <Route path="/trash" element={<Trash />} />
+                        <Route path="/audit" element={<AuditLog />} />
+                        <Route path="/users" element={<Users />} />
+                        <Route path="/spam" element={<SpamQueue />} />
+                        <Route path="/jobs" element={<Jobs />} />
+                        <Route path="/legal" element={<LegalDocuments />} />
+                        <Route path="/legal/new" element={<LegalDocumentForm />} />
+                        <Route path="/legal/:id/edit" element={<LegalDocumentForm />} />
+                      </Routes>
+                    </Layout>
+                  </ProtectedRoute>
+                }
+              />
+            </Routes>
+          </BrowserRouter>
+        </ConsentProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
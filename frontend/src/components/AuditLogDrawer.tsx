@@ -0,0 +1,66 @@
+/**
+ * Audit Log Drawer
+ * Side panel showing one audit entry with its details JSON pretty-printed
+ */
+
+import { AuditLog } from '../services/api/auditService';
+import { Button } from './ui/button';
+
+interface AuditLogDrawerProps {
+  log: AuditLog | null;
+  onClose: () => void;
+}
+
+const AuditLogDrawer = ({ log, onClose }: AuditLogDrawerProps) => {
+  if (!log) {
+    return null;
+  }
+
+  const fields: [string, string | null][] = [
+    ['Time', new Date(log.createdAt).toLocaleString()],
+    ['User', log.user ? `${log.user.email}${log.user.name ? ` (${log.user.name})` : ''}` : log.userId],
+    ['Resource', log.resource],
+    ['Resource ID', log.resourceId],
+    ['IP address', log.ipAddress],
+    ['User agent', log.userAgent],
+    ['Request ID', log.requestId],
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        role="dialog"
+        aria-label="Audit log entry"
+        className="h-full w-full max-w-xl overflow-y-auto bg-background p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold">{log.action}</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <dl className="grid grid-cols-3 gap-2 text-sm mb-6">
+          {fields.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="font-medium text-muted-foreground">{label}</dt>
+              <dd className="col-span-2 break-all">{value || '—'}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <h3 className="font-medium mb-2">Details</h3>
+        {log.details ? (
+          <pre data-testid="audit-details" className="text-xs bg-muted rounded p-4 overflow-x-auto whitespace-pre-wrap">
+            {JSON.stringify(log.details, null, 2)}
+          </pre>
+        ) : (
+          <p className="text-sm text-muted-foreground">No details recorded.</p>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default AuditLogDrawer;
@@ -0,0 +1,76 @@
+/**
+ * Audit Stats Charts
+ * Totals and horizontal bar charts of audit activity by action and by resource
+ */
+
+import { AuditStats } from '../services/api/auditService';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+
+const MAX_BARS = 8;
+
+interface BarChartProps {
+  title: string;
+  counts: Record<string, number>;
+}
+
+const BarChart = ({ title, counts }: BarChartProps) => {
+  const entries = Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_BARS);
+  const max = Math.max(1, ...entries.map(([, count]) => count));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity.</p>
+        ) : (
+          <ul aria-label={title} className="space-y-2">
+            {entries.map(([label, count]) => (
+              <li key={label} className="text-sm">
+                <div className="flex justify-between mb-1">
+                  <span className="truncate">{label}</span>
+                  <span className="text-muted-foreground">{count}</span>
+                </div>
+                <div className="h-2 rounded bg-muted">
+                  <div className="h-2 rounded bg-primary" style={{ width: `${(count / max) * 100}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+interface AuditStatsChartsProps {
+  stats: AuditStats;
+}
+
+const AuditStatsCharts = ({ stats }: AuditStatsChartsProps) => (
+  <div className="grid gap-4 md:grid-cols-3 mb-6">
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Activity</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p>
+          <span className="text-3xl font-bold">{stats.totalLogs}</span>{' '}
+          <span className="text-sm text-muted-foreground">entries</span>
+        </p>
+        <p>
+          <span className="text-3xl font-bold">{stats.uniqueUsers}</span>{' '}
+          <span className="text-sm text-muted-foreground">users</span>
+        </p>
+      </CardContent>
+    </Card>
+    <BarChart title="Top actions" counts={stats.actionCounts} />
+    <BarChart title="By resource" counts={stats.resourceCounts} />
+  </div>
+);
+
+export default AuditStatsCharts;
@@ -0,0 +1,188 @@
+/**
+ * Bulk Actions
+ * Select-all checkbox and the action bar shown on admin content lists while rows are selected
+ */
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AdminContentType, BulkAction, BulkRequest, bulkService } from '../services/api/adminService';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+export interface BulkOption {
+  value: string;
+  label: string;
+}
+
+interface SelectAllCheckboxProps {
+  ids: string[];
+  selected: string[];
+  onToggle: (ids: string[]) => void;
+}
+
+export const SelectAllCheckbox = ({ ids, selected, onToggle }: SelectAllCheckboxProps) => (
+  <label className="flex items-center gap-2 text-sm mb-4">
+    <input
+      type="checkbox"
+      checked={ids.length > 0 && ids.every((id) => selected.includes(id))}
+      onChange={() => onToggle(ids)}
+      disabled={ids.length === 0}
+    />
+    Select all
+  </label>
+);
+
+interface BulkActionBarProps {
+  type: AdminContentType;
+  selected: string[];
+  onClear: () => void;
+  /** Options for "Change category"; omit for types without a category */
+  categories?: BulkOption[];
+  /** Label of the category field, e.g. "Platform" for community links */
+  categoryLabel?: string;
+  featurable?: boolean;
+}
+
+export const BulkActionBar = ({
+  type,
+  selected,
+  onClear,
+  categories,
+  categoryLabel = 'Category',
+  featurable = true,
+}: BulkActionBarProps) => {
+  const queryClient = useQueryClient();
+  const [action, setAction] = useState<BulkAction | ''>('');
+  const [category, setCategory] = useState('');
+  const [displayOrder, setDisplayOrder] = useState('');
+
+  const actions: BulkOption[] = [
+    { value: 'activate', label: 'Activate' },
+    { value: 'deactivate', label: 'Deactivate' },
+    ...(featurable
+      ? [
+          { value: 'feature', label: 'Feature' },
+          { value: 'unfeature', label: 'Unfeature' },
+        ]
+      : []),
+    ...(categories ? [{ value: 'changeCategory', label: `Change ${categoryLabel.toLowerCase()}` }] : []),
+    { value: 'setDisplayOrder', label: 'Set display order' },
+    { value: 'delete', label: 'Delete' },
+  ];
+
+  const bulkMutation = useMutation({
+    mutationFn: (request: BulkRequest) => bulkService.apply(type, request),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', type] });
+      if (result.failed === 0) {
+        setAction('');
+        onClear();
+      }
+    },
+  });
+
+  const ready =
+    action !== '' &&
+    (action !== 'changeCategory' || category !== '') &&
+    (action !== 'setDisplayOrder' || displayOrder !== '');
+
+  const apply = () => {
+    if (!ready) {
+      return;
+    }
+    if (action === 'delete' && !confirm(`Are you sure you want to delete ${selected.length} item(s)?`)) {
+      return;
+    }
+    bulkMutation.mutate({
+      ids: selected,
+      action,
+      ...(action === 'changeCategory' && { category }),
+      ...(action === 'setDisplayOrder' && { displayOrder: Number(displayOrder) }),
+    });
+  };
+
+  const result = bulkMutation.data;
+
+  if (selected.length === 0 && !result) {
+    return null;
+  }
+
+  return (
+    <div role="region" aria-label="Bulk actions" className="border rounded-md p-4 mb-4 space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">{selected.length} selected</span>
+          <select
+            aria-label="Bulk action"
+            value={action}
+            onChange={(e) => setAction(e.target.value as BulkAction | '')}
+            className="px-3 py-2 border border-input bg-background rounded-md text-sm"
+          >
+            <option value="">Choose an action</option>
+            {actions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          {action === 'changeCategory' && categories && (
+            <select
+              aria-label={`New ${categoryLabel.toLowerCase()}`}
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="px-3 py-2 border border-input bg-background rounded-md text-sm"
+            >
+              <option value="">Select {categoryLabel.toLowerCase()}</option>
+              {categories.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {action === 'setDisplayOrder' && (
+            <Input
+              type="number"
+              aria-label="Starting display order"
+              value={displayOrder}
+              onChange={(e) => setDisplayOrder(e.target.value)}
+              className="w-32"
+            />
+          )}
+
+          <Button size="sm" onClick={apply} disabled={!ready || bulkMutation.isPending}>
+            {bulkMutation.isPending ? 'Applying...' : 'Apply'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClear}>
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      {action === 'setDisplayOrder' && selected.length > 1 && (
+        <p className="text-xs text-muted-foreground">Items are numbered in the order they were selected.</p>
+      )}
+
+      {bulkMutation.isError && <p className="text-sm text-destructive">The bulk action failed. Nothing was changed.</p>}
+
+      {result && (
+        <div role="status" className="text-sm">
+          {result.succeeded} updated{result.failed > 0 && `, ${result.failed} failed`}
+          {result.failed > 0 && (
+            <ul className="list-disc pl-5 text-destructive">
+              {result.results
+                .filter((item) => !item.success)
+                .map((item) => (
+                  <li key={item.id}>
+                    {item.id}: {item.error}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
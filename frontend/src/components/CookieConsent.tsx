@@ -0,0 +1,129 @@
+/**
+ * Cookie Consent
+ * Banner shown until the visitor decides, and a preferences dialog to change the choices
+ * per category at any time (opened from the footer)
+ */
+
+import { useEffect, useState } from 'react';
+import { useConsent } from '../contexts/ConsentContext';
+import { CONSENT_CATEGORIES, CookieConsentType } from '../lib/consent';
+import { Button } from './ui/button';
+
+const CookiePreferences = () => {
+  const { choices, save, closePreferences } = useConsent();
+  const [consents, setConsents] = useState<Record<CookieConsentType, boolean>>(
+    choices?.consents ?? { COOKIES: false, ANALYTICS: false, MARKETING_EMAILS: false }
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={closePreferences}>
+      <div
+        role="dialog"
+        aria-label="Cookie preferences"
+        className="w-full max-w-lg rounded-lg bg-background p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-semibold mb-2">Cookie Preferences</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Choose which cookies we may use. You can change this at any time from the link in the footer.
+        </p>
+
+        <ul className="space-y-4 mb-6">
+          <li className="flex items-start gap-3">
+            <input type="checkbox" className="mt-1" checked disabled aria-label="Strictly necessary" />
+            <div>
+              <p className="text-sm font-medium">Strictly necessary</p>
+              <p className="text-sm text-muted-foreground">Needed for signing in and security. Always on.</p>
+            </div>
+          </li>
+          {CONSENT_CATEGORIES.map(({ type, label, description }) => (
+            <li key={type} className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                className="mt-1"
+                aria-label={label}
+                checked={consents[type]}
+                onChange={(e) => setConsents({ ...consents, [type]: e.target.checked })}
+              />
+              <div>
+                <p className="text-sm font-medium">{label}</p>
+                <p className="text-sm text-muted-foreground">{description}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={closePreferences}>
+            Cancel
+          </Button>
+          <Button onClick={() => save(consents)}>Save preferences</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CookieConsent = () => {
+  const { hasDecided, acceptAll, rejectAll, preferencesOpen, openPreferences } = useConsent();
+
+  return (
+    <>
+      {!hasDecided && !preferencesOpen && (
+        <div
+          role="region"
+          aria-label="Cookie consent"
+          className="fixed inset-x-0 bottom-0 z-40 border-t bg-background p-4 shadow-lg"
+        >
+          <div className="container mx-auto flex flex-col md:flex-row md:items-center gap-4">
+            <p className="flex-1 text-sm text-muted-foreground">
+              We use cookies to keep the site working and, with your permission, to remember your preferences,
+              measure usage and support our marketing.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={openPreferences}>
+                Manage preferences
+              </Button>
+              <Button variant="outline" size="sm" onClick={rejectAll}>
+                Reject all
+              </Button>
+              <Button size="sm" onClick={acceptAll}>
+                Accept all
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+      {preferencesOpen && <CookiePreferences />}
+    </>
+  );
+};
+
+/**
+ * Load a third-party script only while its consent category is granted
+ * (e.g. an analytics tag behind ANALYTICS). Withdrawing consent removes the tag;
+ * a reload is needed to fully unload what it already set up.
+ */
+export const ConsentScript = ({ category, src }: { category: CookieConsentType; src?: string }) => {
+  const { isGranted } = useConsent();
+  const granted = isGranted(category);
+
+  useEffect(() => {
+    if (!granted || !src) {
+      return;
+    }
+
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.dataset.consentCategory = category;
+    document.head.appendChild(script);
+    return () => {
+      script.remove();
+    };
+  }, [granted, src, category]);
+
+  return null;
+};
+
+export default CookieConsent;
@@ -0,0 +1,172 @@
+/**
+ * Global Search Component
+ * Header search box that queries every content type and shows results grouped by type
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { searchService, SearchResult, SearchResultType } from '../services/api/contentService';
+import { Input } from './ui/input';
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 300;
+
+const GROUPS: { type: SearchResultType; label: string }[] = [
+  { type: 'training', label: 'Trainings' },
+  { type: 'knowledge', label: 'Knowledge' },
+  { type: 'tool', label: 'Tools' },
+  { type: 'product', label: 'Products' },
+  { type: 'community', label: 'Community' },
+];
+
+/**
+ * Render a server highlight ("foo <mark>bar</mark>") without injecting HTML:
+ * only the <mark> delimiters are interpreted, everything else stays text.
+ */
+export const Highlight = ({ text }: { text: string }) => (
+  <>
+    {text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+      part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+        <mark key={index} className="bg-yellow-200 text-foreground rounded-sm">
+          {part.slice(6, -7)}
+        </mark>
+      ) : (
+        part
+      )
+    )}
+  </>
+);
+
+const ResultLink = ({ result, onSelect }: { result: SearchResult; onSelect: () => void }) => {
+  const content = (
+    <>
+      <p className="text-sm font-medium">
+        <Highlight text={result.titleHighlight} />
+      </p>
+      {result.snippet && (
+        <p className="text-xs text-muted-foreground line-clamp-2">
+          <Highlight text={result.snippet} />
+        </p>
+      )}
+    </>
+  );
+  const className = 'block px-3 py-2 rounded hover:bg-accent';
+
+  if (result.type === 'knowledge' && result.slug) {
+    return (
+      <Link to={`/knowledge/${result.slug}`} className={className} onClick={onSelect}>
+        {content}
+      </Link>
+    );
+  }
+
+  if (result.type === 'training') {
+    return (
+      <Link to={`/trainings/${result.id}`} className={className} onClick={onSelect}>
+        {content}
+      </Link>
+    );
+  }
+
+  return (
+    <a
+      href={result.externalLink ?? '#'}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={className}
+      onClick={onSelect}
+    >
+      {content}
+    </a>
+  );
+};
+
+const GlobalSearch = () => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const location = useLocation();
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Close the panel after navigating to a result
+  useEffect(() => {
+    setOpen(false);
+  }, [location.pathname]);
+
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['search', debouncedQuery],
+    queryFn: () => searchService.search(debouncedQuery),
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+  });
+
+  const results = data?.data ?? [];
+  const showPanel = open && debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div ref={containerRef} className="relative w-64">
+      <Input
+        type="search"
+        placeholder="Search everything..."
+        aria-label="Search all content"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            setOpen(false);
+          }
+        }}
+      />
+
+      {showPanel && (
+        <div
+          role="region"
+          aria-label="Search results"
+          className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto rounded-md border bg-background shadow-lg p-2"
+        >
+          {isFetching && results.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-muted-foreground">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-muted-foreground">No results for "{debouncedQuery}"</p>
+          ) : (
+            GROUPS.map(({ type, label }) => {
+              const group = results.filter((result) => result.type === type);
+              if (group.length === 0) {
+                return null;
+              }
+              return (
+                <div key={type} className="mb-2 last:mb-0">
+                  <h4 className="px-3 py-1 text-xs font-semibold uppercase text-muted-foreground">{label}</h4>
+                  {group.map((result) => (
+                    <ResultLink key={result.id} result={result} onSelect={() => setOpen(false)} />
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
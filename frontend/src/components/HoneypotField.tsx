@@ -0,0 +1,20 @@
+/**
+ * HoneypotField Component
+ * A form field people never see or reach with the keyboard, so only bots fill it in.
+ * The API flags any submission where it has a value.
+ */
+
+import { forwardRef, type ComponentProps } from 'react';
+
+const HoneypotField = forwardRef<HTMLInputElement, ComponentProps<'input'>>((props, ref) => (
+  <div aria-hidden="true" className="absolute -left-[10000px] h-px w-px overflow-hidden">
+    <label>
+      Website
+      <input type="text" name="website" tabIndex={-1} autoComplete="off" ref={ref} {...props} />
+    </label>
+  </div>
+));
+
+HoneypotField.displayName = 'HoneypotField';
+
+export default HoneypotField;
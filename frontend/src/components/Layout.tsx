@@ -5,7 +5,11 @@
 
 import { Link } from 'react-router-dom';
 import { Button } from './ui/button';
+import GlobalSearch from './GlobalSearch';
+import CookieConsent from './CookieConsent';
+import LegalAcceptanceGate from './LegalAcceptanceGate';
 import { useAuth } from '../contexts/AuthContext';
+import { useConsent } from '../contexts/ConsentContext';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -13,6 +17,7 @@ interface LayoutProps {
 
 const Layout = ({ children }: LayoutProps) => {
   const { user, logout, isAuthenticated } = useAuth();
+  const { openPreferences } = useConsent();
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -47,8 +52,9 @@ const Layout = ({ children }: LayoutProps) => {
               </Link>
             </nav>
 
-            {/* Auth Actions */}
+            {/* Search + Auth Actions */}
             <div className="hidden md:flex items-center gap-4">
+              <GlobalSearch />
               {isAuthenticated && user ? (
                 <>
                   <Link to="/admin">
@@ -56,6 +62,11 @@ const Layout = ({ children }: LayoutProps) => {
                       Admin
                     </Button>
                   </Link>
+                  <Link to="/account/security">
+                    <Button variant="ghost" size="sm">
+                      Security
+                    </Button>
+                  </Link>
                   <Button 
                     variant="ghost" 
                     size="sm" 
@@ -159,6 +170,21 @@ const Layout = ({ children }: LayoutProps) => {
                     Contact Us
                   </Link>
                 </li>
+                <li>
+                  <Link to="/terms" className="text-muted-foreground hover:text-primary">
+                    Terms of Service
+                  </Link>
+                </li>
+                <li>
+                  <Link to="/privacy" className="text-muted-foreground hover:text-primary">
+                    Privacy Policy
+                  </Link>
+                </li>
+                <li>
+                  <button type="button" onClick={openPreferences} className="text-muted-foreground hover:text-primary">
+                    Cookie preferences
+                  </button>
+                </li>
               </ul>
             </div>
           </div>
@@ -169,6 +195,9 @@ const Layout = ({ children }: LayoutProps) => {
           </div>
         </div>
       </footer>
+
+      <CookieConsent />
+      <LegalAcceptanceGate />
     </div>
   );
 };
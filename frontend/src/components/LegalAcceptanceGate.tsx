@@ -0,0 +1,140 @@
+/**
+ * Legal Acceptance Gate
+ * Blocks the app for a signed-in user until they accept the current versions of the terms
+ * and privacy policy. Shown when the acceptance check says so, or when an API call is
+ * refused with LEGAL_ACCEPTANCE_REQUIRED (e.g. a newer version took effect mid-session).
+ */
+
+import { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../services/api/authService';
+import {
+  LEGAL_ACCEPTANCE_REQUIRED,
+  LEGAL_DOCUMENT_SLUG,
+  LegalAcceptance,
+  legalService,
+} from '../services/api/legalService';
+import { Button } from './ui/button';
+
+const acceptanceKey = (userId?: string) => ['legal', 'acceptance', userId];
+
+const LegalAcceptanceGate = () => {
+  const { user, isAuthenticated, logout } = useAuth();
+  const { pathname } = useLocation();
+  const queryClient = useQueryClient();
+  const [agreed, setAgreed] = useState(false);
+  const queryKey = acceptanceKey(user?.id);
+
+  const { data: acceptance } = useQuery({
+    queryKey,
+    queryFn: legalService.getAcceptance,
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  // Pick up refusals from routes that need the current versions accepted
+  useEffect(() => {
+    if (!isAuthenticated || !api?.interceptors?.response) return;
+
+    const interceptor = api.interceptors.response.use(
+      (response) => response,
+      (error) => {
+        const data = error.response?.data;
+        if (error.response?.status === 403 && data?.code === LEGAL_ACCEPTANCE_REQUIRED) {
+          queryClient.setQueryData<LegalAcceptance>(acceptanceKey(user?.id), { required: true, pending: data.pending });
+        }
+        return Promise.reject(error);
+      }
+    );
+
+    return () => {
+      api.interceptors.response.eject(interceptor);
+    };
+  }, [isAuthenticated, user?.id, queryClient]);
+
+  const acceptMutation = useMutation({
+    mutationFn: (documentIds: string[]) => legalService.accept(documentIds),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKey, data);
+      setAgreed(false);
+    },
+  });
+
+  // The documents themselves stay readable
+  const onLegalPage = Object.values(LEGAL_DOCUMENT_SLUG).some((slug) => pathname === `/${slug}`);
+  if (!isAuthenticated || !acceptance?.required || onLegalPage) {
+    return null;
+  }
+
+  const updated = acceptance.pending.some((document) => document.acceptedVersion);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+      <div
+        role="dialog"
+        aria-label="Accept updated terms"
+        className="w-full max-w-lg rounded-lg bg-background p-6 shadow-xl"
+      >
+        <h2 className="text-xl font-semibold mb-2">
+          {updated ? 'We have updated our terms' : 'Please review our terms'}
+        </h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          To continue using your account, please read and accept the following:
+        </p>
+
+        <ul className="space-y-3 mb-4">
+          {acceptance.pending.map((document) => (
+            <li key={document.documentId} className="text-sm">
+              <Link
+                to={`/${LEGAL_DOCUMENT_SLUG[document.type]}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-primary hover:underline"
+              >
+                {document.title}
+              </Link>{' '}
+              <span className="text-muted-foreground">(version {document.version})</span>
+              {document.summary && <p className="text-muted-foreground">{document.summary}</p>}
+            </li>
+          ))}
+        </ul>
+
+        <label className="flex items-center gap-2 text-sm mb-4">
+          <input type="checkbox" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} />
+          I have read and accept these documents
+        </label>
+
+        {acceptMutation.isError && (
+          <p className="text-sm text-destructive mb-4">
+            {(acceptMutation.error as any)?.response?.data?.error || 'Could not record your acceptance'}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            onClick={async () => {
+              try {
+                await logout();
+              } catch (error) {
+                console.error('Logout failed:', error);
+              }
+            }}
+          >
+            Log out
+          </Button>
+          <Button
+            disabled={!agreed || acceptMutation.isPending}
+            onClick={() => acceptMutation.mutate(acceptance.pending.map((document) => document.documentId))}
+          >
+            {acceptMutation.isPending ? 'Saving...' : 'Accept and continue'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LegalAcceptanceGate;
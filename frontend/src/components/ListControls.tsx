@@ -0,0 +1,64 @@
+/**
+ * List Controls
+ * Sort selector and "load more" button shared by the paginated content pages
+ */
+
+import { ContentSort } from '../services/api/contentService';
+import { Button } from './ui/button';
+
+const SORT_OPTIONS: { value: ContentSort; label: string }[] = [
+  { value: 'order', label: 'Recommended' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'title', label: 'Title (A-Z)' },
+];
+
+interface SortSelectProps {
+  value?: string;
+  onChange: (value?: ContentSort) => void;
+}
+
+export const SortSelect = ({ value, onChange }: SortSelectProps) => (
+  <div className="flex-1 max-w-xs">
+    <label htmlFor="sort-select" className="block text-sm font-medium mb-2">
+      Sort by
+    </label>
+    <select
+      id="sort-select"
+      value={value || 'order'}
+      onChange={(e) => {
+        const next = e.target.value as ContentSort;
+        // The default order is implied, so keep it out of the URL
+        onChange(next === 'order' ? undefined : next);
+      }}
+      className="w-full px-4 py-2 border border-input bg-background rounded-md"
+    >
+      {SORT_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+interface LoadMoreProps {
+  shown: number;
+  total: number;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+}
+
+export const LoadMore = ({ shown, total, hasNextPage, isFetchingNextPage, onLoadMore }: LoadMoreProps) => (
+  <div className="mt-8 flex flex-col items-center gap-3">
+    <p className="text-sm text-muted-foreground">
+      Showing {shown} of {total}
+    </p>
+    {hasNextPage && (
+      <Button variant="outline" onClick={onLoadMore} disabled={isFetchingNextPage}>
+        {isFetchingNextPage ? 'Loading...' : 'Load more'}
+      </Button>
+    )}
+  </div>
+);
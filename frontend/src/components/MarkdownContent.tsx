@@ -0,0 +1,46 @@
+/**
+ * Markdown Content Component
+ * Renders trusted-but-user-authored Markdown (GFM) with safe link handling
+ */
+
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { cn } from '@/lib/utils';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const isExternalLink = (href?: string) => !!href && /^https?:\/\//i.test(href);
+
+// Raw HTML is never rendered and react-markdown strips unsafe protocols (javascript:, data:, ...)
+const components: Components = {
+  a: ({ href, children, node: _node, ...props }) =>
+    isExternalLink(href) ? (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow" {...props}>
+        {children}
+      </a>
+    ) : (
+      <a href={href} {...props}>
+        {children}
+      </a>
+    ),
+  table: ({ children, node: _node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props}>{children}</table>
+    </div>
+  ),
+};
+
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => {
+  return (
+    <div className={cn('prose prose-neutral dark:prose-invert max-w-none', className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,76 @@
+/**
+ * Preview Controls
+ * Admin button that issues a shareable preview link, and the banner shown on public pages opened through one
+ */
+
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { AdminContentType, previewService } from '../services/api/adminService';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+interface PreviewLinkButtonProps {
+  type: AdminContentType;
+  id: string;
+  /** Public page path of the item, e.g. /knowledge/my-article */
+  path: string;
+}
+
+export const PreviewLinkButton = ({ type, id, path }: PreviewLinkButtonProps) => {
+  const [copied, setCopied] = useState(false);
+
+  const previewMutation = useMutation({
+    mutationFn: () => previewService.createToken(type, id),
+    onSuccess: () => setCopied(false),
+  });
+
+  const url = previewMutation.data
+    ? `${window.location.origin}${path}?preview=${encodeURIComponent(previewMutation.data.token)}`
+    : '';
+
+  const copy = async () => {
+    await navigator.clipboard?.writeText(url);
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => previewMutation.mutate()}
+        disabled={previewMutation.isPending}
+      >
+        {previewMutation.isPending ? 'Creating link...' : 'Preview link'}
+      </Button>
+
+      {previewMutation.isError && <p className="text-sm text-destructive">Could not create a preview link.</p>}
+
+      {previewMutation.data && (
+        <div className="space-y-1">
+          <div className="flex gap-2">
+            <Input readOnly value={url} aria-label="Preview URL" onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="sm" onClick={copy}>
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <a href={url} target="_blank" rel="noopener noreferrer">
+                Open
+              </a>
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Anyone with this link can view the item until {new Date(previewMutation.data.expiresAt).toLocaleString()}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const PreviewBanner = () => (
+  <div role="status" className="bg-yellow-100 text-yellow-900 text-sm text-center px-4 py-2">
+    Preview: this content may not be published yet. Please don't share this link publicly.
+  </div>
+);
@@ -0,0 +1,102 @@
+/**
+ * Publication Controls
+ * Status fields for the admin content forms, plus the status badge and filter used by the admin lists
+ */
+
+import { FieldError, UseFormRegisterReturn } from 'react-hook-form';
+import { PublicationStatus } from '../services/api/contentService';
+import { PUBLICATION_STATUSES, PUBLICATION_STATUS_LABELS } from '../lib/publication';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+type PublicationField = 'publicationStatus' | 'publishAt' | 'unpublishAt';
+
+interface PublicationFieldsProps {
+  register: (name: PublicationField) => UseFormRegisterReturn;
+  errors?: Partial<Record<PublicationField, FieldError>>;
+}
+
+export const PublicationFields = ({ register, errors = {} }: PublicationFieldsProps) => (
+  <fieldset className="space-y-4 rounded-md border p-4">
+    <legend className="px-1 text-sm font-medium">Publication</legend>
+
+    <div>
+      <Label htmlFor="publicationStatus">Publication status</Label>
+      <select
+        id="publicationStatus"
+        {...register('publicationStatus')}
+        className="w-full px-3 py-2 border border-input bg-background rounded-md"
+      >
+        {PUBLICATION_STATUSES.map((status) => (
+          <option key={status} value={status}>
+            {PUBLICATION_STATUS_LABELS[status]}
+          </option>
+        ))}
+      </select>
+    </div>
+
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div>
+        <Label htmlFor="publishAt">Publish at</Label>
+        <Input id="publishAt" type="datetime-local" {...register('publishAt')} />
+        {errors.publishAt && <p className="text-sm text-destructive mt-1">{errors.publishAt.message}</p>}
+      </div>
+      <div>
+        <Label htmlFor="unpublishAt">Unpublish at</Label>
+        <Input id="unpublishAt" type="datetime-local" {...register('unpublishAt')} />
+        {errors.unpublishAt && <p className="text-sm text-destructive mt-1">{errors.unpublishAt.message}</p>}
+      </div>
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Scheduled items go live at the publish time. Any item is archived once its unpublish time passes.
+    </p>
+  </fieldset>
+);
+
+const BADGE_STYLES: Record<PublicationStatus, string> = {
+  DRAFT: 'bg-muted text-muted-foreground',
+  SCHEDULED: 'bg-blue-500/10 text-blue-700',
+  PUBLISHED: 'bg-green-500/10 text-green-700',
+  ARCHIVED: 'bg-orange-500/10 text-orange-700',
+};
+
+interface PublicationStatusBadgeProps {
+  status?: PublicationStatus;
+  publishAt?: string | null;
+}
+
+export const PublicationStatusBadge = ({ status = 'PUBLISHED', publishAt }: PublicationStatusBadgeProps) => (
+  <span
+    data-testid="publication-status"
+    className={`inline-block rounded px-2 py-0.5 text-xs font-medium ${BADGE_STYLES[status]}`}
+  >
+    {PUBLICATION_STATUS_LABELS[status]}
+    {status === 'SCHEDULED' && publishAt && ` · ${new Date(publishAt).toLocaleString()}`}
+  </span>
+);
+
+interface PublicationStatusFilterProps {
+  value?: string;
+  onChange: (value?: PublicationStatus) => void;
+}
+
+export const PublicationStatusFilter = ({ value, onChange }: PublicationStatusFilterProps) => (
+  <div className="max-w-xs mb-6">
+    <label htmlFor="publication-status-filter" className="block text-sm font-medium mb-2">
+      Publication status
+    </label>
+    <select
+      id="publication-status-filter"
+      value={value || ''}
+      onChange={(e) => onChange((e.target.value || undefined) as PublicationStatus | undefined)}
+      className="w-full px-4 py-2 border border-input bg-background rounded-md"
+    >
+      <option value="">All statuses</option>
+      {PUBLICATION_STATUSES.map((status) => (
+        <option key={status} value={status}>
+          {PUBLICATION_STATUS_LABELS[status]}
+        </option>
+      ))}
+    </select>
+  </div>
+);
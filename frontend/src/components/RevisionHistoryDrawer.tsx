@@ -0,0 +1,138 @@
+/**
+ * Revision History Drawer
+ * Side panel for admin forms: lists earlier versions of an item, shows what changed, and restores one
+ */
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AdminContentType, revisionService } from '../services/api/adminService';
+import { Button } from './ui/button';
+
+interface RevisionHistoryDrawerProps {
+  type: AdminContentType;
+  id: string;
+  open: boolean;
+  onClose: () => void;
+  onRestored?: () => void;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') {
+    return '(empty)';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const RevisionHistoryDrawer = ({ type, id, open, onClose, onRestored }: RevisionHistoryDrawerProps) => {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: ['revisions', type, id],
+    queryFn: () => revisionService.list(type, id),
+    enabled: open,
+  });
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery({
+    queryKey: ['revisions', type, id, selectedId, 'diff'],
+    queryFn: () => revisionService.diff(type, id, selectedId!),
+    enabled: open && !!selectedId,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revisionId: string) => revisionService.restore(type, id, revisionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['revisions', type, id] });
+      setSelectedId(null);
+      onRestored?.();
+    },
+  });
+
+  if (!open) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        role="dialog"
+        aria-label="Revision history"
+        className="h-full w-full max-w-xl overflow-y-auto bg-background p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold">Revision History</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading revisions...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No earlier versions yet. A revision is saved on every update.</p>
+        ) : (
+          <ul className="space-y-2">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(revision.id === selectedId ? null : revision.id)}
+                  className={`w-full text-left rounded-md border px-3 py-2 hover:bg-accent ${
+                    revision.id === selectedId ? 'border-primary' : ''
+                  }`}
+                >
+                  <p className="text-sm font-medium">{new Date(revision.createdAt).toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {revision.title ?? 'Untitled'} · replaced by {revision.editor?.name || revision.editor?.email || 'unknown'}
+                  </p>
+                </button>
+
+                {revision.id === selectedId && (
+                  <div className="mt-2 rounded-md border p-3 space-y-3">
+                    {isDiffLoading || !diff ? (
+                      <p className="text-sm text-muted-foreground">Loading changes...</p>
+                    ) : diff.changes.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Identical to the current version.</p>
+                    ) : (
+                      diff.changes.map((change) => (
+                        <div key={change.field} data-testid="revision-change">
+                          <p className="text-xs font-semibold uppercase text-muted-foreground">{change.field}</p>
+                          <div className="grid grid-cols-2 gap-2 text-xs">
+                            <pre className="whitespace-pre-wrap break-words rounded bg-red-500/10 p-2">
+                              {formatValue(change.revision)}
+                            </pre>
+                            <pre className="whitespace-pre-wrap break-words rounded bg-green-500/10 p-2">
+                              {formatValue(change.current)}
+                            </pre>
+                          </div>
+                        </div>
+                      ))
+                    )}
+
+                    {restoreMutation.isError && (
+                      <p className="text-sm text-destructive">Could not restore this version.</p>
+                    )}
+                    <Button
+                      size="sm"
+                      disabled={restoreMutation.isPending || diff?.changes.length === 0}
+                      onClick={() => {
+                        if (window.confirm('Restore this version? The current version will be kept in the history.')) {
+                          restoreMutation.mutate(revision.id);
+                        }
+                      }}
+                    >
+                      {restoreMutation.isPending ? 'Restoring...' : 'Restore this version'}
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default RevisionHistoryDrawer;
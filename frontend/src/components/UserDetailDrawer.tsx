@@ -0,0 +1,226 @@
+/**
+ * User Detail Drawer
+ * Side panel for one account: status, lockout and session actions, plus its sessions, payments and consents
+ */
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ManagedUser, userAdminService } from '../services/api/adminService';
+import { Button } from './ui/button';
+
+type Tab = 'sessions' | 'payments' | 'consents';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'sessions', label: 'Sessions' },
+  { id: 'payments', label: 'Payments' },
+  { id: 'consents', label: 'Consents' },
+];
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+interface UserDetailDrawerProps {
+  user: ManagedUser | null;
+  onClose: () => void;
+}
+
+const UserDetailDrawer = ({ user, onClose }: UserDetailDrawerProps) => {
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<Tab>('sessions');
+  const userId = user?.id ?? '';
+
+  const { data: sessions } = useQuery({
+    queryKey: ['admin', 'users', userId, 'sessions'],
+    queryFn: () => userAdminService.sessions(userId),
+    enabled: !!user && tab === 'sessions',
+  });
+
+  const { data: payments } = useQuery({
+    queryKey: ['admin', 'users', userId, 'payments'],
+    queryFn: () => userAdminService.payments(userId),
+    enabled: !!user && tab === 'payments',
+  });
+
+  const { data: consents } = useQuery({
+    queryKey: ['admin', 'users', userId, 'consents'],
+    queryFn: () => userAdminService.consents(userId),
+    enabled: !!user && tab === 'consents',
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin', 'users'] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: (isActive: boolean) => userAdminService.setActive(userId, isActive),
+    onSuccess,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => userAdminService.forceLogout(userId),
+    onSuccess,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: () => userAdminService.unlock(userId),
+    onSuccess,
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const isLocked = !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+  const handleStatus = () => {
+    if (!user.isActive || confirm(`Deactivate ${user.email}? They will be logged out everywhere.`)) {
+      statusMutation.mutate(!user.isActive);
+    }
+  };
+
+  const handleLogout = () => {
+    if (confirm(`Log ${user.email} out of every session?`)) {
+      logoutMutation.mutate();
+    }
+  };
+
+  const error = statusMutation.error || logoutMutation.error || unlockMutation.error;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        role="dialog"
+        aria-label="User details"
+        className="h-full w-full max-w-xl overflow-y-auto bg-background p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-semibold">{user.name || user.email}</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mb-6">
+          {user.email} · {user.role} · {user.isActive ? 'Active' : 'Deactivated'}
+        </p>
+        {isLocked && (
+          <p className="text-sm p-3 rounded bg-yellow-100 text-yellow-800 mb-6">
+            Locked until {formatDate(user.lockedUntil)} after {user.failedLoginAttempts} failed login attempts.
+          </p>
+        )}
+
+        {user.canManage ? (
+          <div className="flex gap-2 mb-6">
+            <Button
+              variant={user.isActive ? 'destructive' : 'default'}
+              size="sm"
+              onClick={handleStatus}
+              disabled={statusMutation.isPending}
+            >
+              {user.isActive ? 'Deactivate' : 'Activate'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleLogout} disabled={logoutMutation.isPending}>
+              Force logout
+            </Button>
+            {isLocked && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => unlockMutation.mutate()}
+                disabled={unlockMutation.isPending}
+              >
+                Unlock
+              </Button>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground mb-6">Your role cannot manage this account.</p>
+        )}
+
+        {error && <p className="text-sm text-destructive mb-4">The action failed. Please try again.</p>}
+        {logoutMutation.data && (
+          <p role="status" className="text-sm mb-4">
+            Revoked {logoutMutation.data.revokedSessions} session(s).
+          </p>
+        )}
+
+        <div role="tablist" className="flex gap-2 border-b mb-4">
+          {TABS.map(({ id, label }) => (
+            <button
+              key={id}
+              type="button"
+              role="tab"
+              aria-selected={tab === id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-2 text-sm ${
+                tab === id ? 'border-b-2 border-primary font-medium' : 'text-muted-foreground'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'sessions' &&
+          (sessions?.length ? (
+            <ul className="space-y-3 text-sm">
+              {sessions.map((session) => (
+                <li key={session.id} className="border rounded-md p-3">
+                  <p>{session.userAgent || 'Unknown device'}</p>
+                  <p className="text-muted-foreground">
+                    {session.ipAddress || 'Unknown IP'} · signed in {formatDate(session.createdAt)} · expires{' '}
+                    {formatDate(session.expiresAt)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No active sessions.</p>
+          ))}
+
+        {tab === 'payments' &&
+          (payments?.length ? (
+            <ul className="space-y-3 text-sm">
+              {payments.map((payment) => (
+                <li key={payment.id} className="border rounded-md p-3 flex justify-between gap-4">
+                  <span>
+                    {payment.description || payment.provider}
+                    <span className="block text-muted-foreground">{formatDate(payment.createdAt)}</span>
+                  </span>
+                  <span className="text-right">
+                    {payment.amount} {payment.currency}
+                    <span className="block text-muted-foreground">{payment.status}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No payments.</p>
+          ))}
+
+        {tab === 'consents' &&
+          (consents?.length ? (
+            <ul className="space-y-3 text-sm">
+              {consents.map((consent) => (
+                <li key={consent.consentType} className="border rounded-md p-3 flex justify-between gap-4">
+                  <span>
+                    {consent.consentType}
+                    {consent.version && <span className="text-muted-foreground"> (v{consent.version})</span>}
+                  </span>
+                  <span className="text-right">
+                    {consent.granted ? 'Granted' : 'Not granted'}
+                    <span className="block text-muted-foreground">
+                      {formatDate(consent.granted ? consent.grantedAt : consent.revokedAt)}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No consent records.</p>
+          ))}
+      </aside>
+    </div>
+  );
+};
+
+export default UserDetailDrawer;
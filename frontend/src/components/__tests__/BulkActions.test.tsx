@@ -0,0 +1,155 @@
+/**
+ * Bulk Actions Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { BulkActionBar, SelectAllCheckbox } from '../BulkActions';
+import * as adminService from '../../services/api/adminService';
+
+vi.mock('../../services/api/adminService', () => ({
+  bulkService: {
+    apply: vi.fn(),
+  },
+}));
+
+const categories = [
+  { value: 'GLOSSARY', label: 'Glossary' },
+  { value: 'CASE_STUDIES', label: 'Case Studies' },
+];
+
+describe('BulkActionBar', () => {
+  let queryClient: QueryClient;
+
+  const renderBar = (props: Partial<Parameters<typeof BulkActionBar>[0]> = {}) => {
+    const onClear = vi.fn();
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BulkActionBar type="knowledge" selected={['a', 'b']} onClear={onClear} {...props} />
+      </QueryClientProvider>
+    );
+    return { onClear };
+  };
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+  });
+
+  it('should render nothing when no rows are selected', () => {
+    renderBar({ selected: [] });
+
+    expect(screen.queryByRole('region', { name: /bulk actions/i })).not.toBeInTheDocument();
+  });
+
+  it('should apply an action to the selected items and clear the selection', async () => {
+    const user = userEvent.setup();
+    vi.mocked(adminService.bulkService.apply).mockResolvedValue({
+      action: 'deactivate',
+      succeeded: 2,
+      failed: 0,
+      results: [
+        { id: 'a', success: true },
+        { id: 'b', success: true },
+      ],
+    });
+    const { onClear } = renderBar();
+
+    expect(screen.getByText('2 selected')).toBeInTheDocument();
+    await user.selectOptions(screen.getByLabelText(/^bulk action$/i), 'deactivate');
+    await user.click(screen.getByRole('button', { name: /apply/i }));
+
+    await waitFor(() => {
+      expect(adminService.bulkService.apply).toHaveBeenCalledWith('knowledge', {
+        ids: ['a', 'b'],
+        action: 'deactivate',
+      });
+    });
+    expect(onClear).toHaveBeenCalled();
+  });
+
+  it('should send the chosen category', async () => {
+    const user = userEvent.setup();
+    vi.mocked(adminService.bulkService.apply).mockResolvedValue({
+      action: 'changeCategory',
+      succeeded: 2,
+      failed: 0,
+      results: [],
+    });
+    renderBar({ categories });
+
+    await user.selectOptions(screen.getByLabelText(/^bulk action$/i), 'changeCategory');
+    expect(screen.getByRole('button', { name: /apply/i })).toBeDisabled();
+
+    await user.selectOptions(screen.getByLabelText(/new category/i), 'CASE_STUDIES');
+    await user.click(screen.getByRole('button', { name: /apply/i }));
+
+    await waitFor(() => {
+      expect(adminService.bulkService.apply).toHaveBeenCalledWith('knowledge', {
+        ids: ['a', 'b'],
+        action: 'changeCategory',
+        category: 'CASE_STUDIES',
+      });
+    });
+  });
+
+  it('should only offer actions the content type supports', () => {
+    renderBar({ featurable: false });
+
+    const options = Array.from(screen.getByLabelText(/^bulk action$/i).querySelectorAll('option')).map(
+      (option) => option.getAttribute('value')
+    );
+    expect(options).not.toContain('feature');
+    expect(options).not.toContain('changeCategory');
+  });
+
+  it('should show items that failed', async () => {
+    const user = userEvent.setup();
+    vi.mocked(adminService.bulkService.apply).mockResolvedValue({
+      action: 'activate',
+      succeeded: 1,
+      failed: 1,
+      results: [
+        { id: 'a', success: true },
+        { id: 'b', success: false, error: 'Knowledge article not found' },
+      ],
+    });
+    const { onClear } = renderBar();
+
+    await user.selectOptions(screen.getByLabelText(/^bulk action$/i), 'activate');
+    await user.click(screen.getByRole('button', { name: /apply/i }));
+
+    expect(await screen.findByText(/1 updated, 1 failed/i)).toBeInTheDocument();
+    expect(screen.getByText(/knowledge article not found/i)).toBeInTheDocument();
+    expect(onClear).not.toHaveBeenCalled();
+  });
+
+  it('should ask for confirmation before deleting', async () => {
+    const user = userEvent.setup();
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(false);
+    renderBar();
+
+    await user.selectOptions(screen.getByLabelText(/^bulk action$/i), 'delete');
+    await user.click(screen.getByRole('button', { name: /apply/i }));
+
+    expect(confirmSpy).toHaveBeenCalled();
+    expect(adminService.bulkService.apply).not.toHaveBeenCalled();
+    confirmSpy.mockRestore();
+  });
+});
+
+describe('SelectAllCheckbox', () => {
+  it('should be checked when every id is selected', async () => {
+    const user = userEvent.setup();
+    const onToggle = vi.fn();
+    render(<SelectAllCheckbox ids={['a', 'b']} selected={['a', 'b']} onToggle={onToggle} />);
+
+    const checkbox = screen.getByLabelText(/select all/i);
+    expect(checkbox).toBeChecked();
+
+    await user.click(checkbox);
+    expect(onToggle).toHaveBeenCalledWith(['a', 'b']);
+  });
+});
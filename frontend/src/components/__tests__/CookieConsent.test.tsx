@@ -0,0 +1,139 @@
+/**
+ * Cookie Consent Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import CookieConsent, { ConsentScript } from '../CookieConsent';
+import { ConsentProvider } from '../../contexts/ConsentContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { consentService } from '../../services/api/consentService';
+import { CONSENT_COOKIE, buildConsentChoices, readConsentCookie, writeConsentCookie } from '../../lib/consent';
+
+vi.mock('../../contexts/AuthContext', () => ({
+  useAuth: vi.fn(),
+}));
+
+vi.mock('../../services/api/consentService', () => ({
+  consentService: {
+    list: vi.fn(),
+    save: vi.fn(),
+  },
+}));
+
+const SCRIPT_URL = 'https://analytics.example.com/tag.js';
+
+describe('CookieConsent', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+    document.cookie = `${CONSENT_COOKIE}=; Max-Age=0; Path=/`;
+    document.head.querySelectorAll('script[data-consent-category]').forEach((script) => script.remove());
+    vi.mocked(useAuth).mockReturnValue({ user: null, isAuthenticated: false } as any);
+  });
+
+  const renderBanner = () =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <ConsentProvider>
+          <CookieConsent />
+          <ConsentScript category="ANALYTICS" src={SCRIPT_URL} />
+        </ConsentProvider>
+      </QueryClientProvider>
+    );
+
+  const analyticsScript = () => document.head.querySelector(`script[src="${SCRIPT_URL}"]`);
+
+  it('should ask a new visitor and load no optional scripts', () => {
+    renderBanner();
+
+    expect(screen.getByRole('region', { name: /cookie consent/i })).toBeInTheDocument();
+    expect(analyticsScript()).toBeNull();
+  });
+
+  it('should remember accepting all in the consent cookie and load the scripts', async () => {
+    const user = userEvent.setup();
+    renderBanner();
+
+    await user.click(screen.getByRole('button', { name: /accept all/i }));
+
+    expect(screen.queryByRole('region', { name: /cookie consent/i })).not.toBeInTheDocument();
+    expect(readConsentCookie()?.consents).toEqual({ COOKIES: true, ANALYTICS: true, MARKETING_EMAILS: true });
+    expect(analyticsScript()).not.toBeNull();
+    expect(consentService.save).not.toHaveBeenCalled();
+  });
+
+  it('should not ask again once the visitor has decided', () => {
+    writeConsentCookie(buildConsentChoices({ COOKIES: false, ANALYTICS: false, MARKETING_EMAILS: false }));
+
+    renderBanner();
+
+    expect(screen.queryByRole('region', { name: /cookie consent/i })).not.toBeInTheDocument();
+    expect(analyticsScript()).toBeNull();
+  });
+
+  it('should save choices per category from the preferences dialog', async () => {
+    const user = userEvent.setup();
+    renderBanner();
+
+    await user.click(screen.getByRole('button', { name: /manage preferences/i }));
+    const dialog = screen.getByRole('dialog', { name: /cookie preferences/i });
+    expect(screen.getByLabelText(/strictly necessary/i)).toBeDisabled();
+
+    await user.click(screen.getByLabelText('Analytics'));
+    await user.click(screen.getByRole('button', { name: /save preferences/i }));
+
+    expect(dialog).not.toBeInTheDocument();
+    expect(readConsentCookie()?.consents).toEqual({ COOKIES: false, ANALYTICS: true, MARKETING_EMAILS: false });
+  });
+
+  it('should save a signed-in user\'s choices to their account', async () => {
+    vi.mocked(useAuth).mockReturnValue({ user: { id: 'u1' }, isAuthenticated: true } as any);
+    vi.mocked(consentService.list).mockResolvedValue([]);
+    vi.mocked(consentService.save).mockResolvedValue([]);
+    const user = userEvent.setup();
+    renderBanner();
+
+    await user.click(screen.getByRole('button', { name: /reject all/i }));
+
+    await waitFor(() => {
+      expect(consentService.save).toHaveBeenCalledWith(
+        { COOKIES: false, ANALYTICS: false, MARKETING_EMAILS: false },
+        '1'
+      );
+    });
+  });
+
+  it('should adopt newer choices stored on the account', async () => {
+    writeConsentCookie({
+      ...buildConsentChoices({ COOKIES: false, ANALYTICS: false, MARKETING_EMAILS: false }),
+      decidedAt: '2026-01-01T00:00:00.000Z',
+    });
+    vi.mocked(useAuth).mockReturnValue({ user: { id: 'u1' }, isAuthenticated: true } as any);
+    const record = (consentType: string, granted: boolean) => ({
+      id: consentType,
+      consentType,
+      granted,
+      grantedAt: null,
+      revokedAt: null,
+      version: '1',
+      updatedAt: '2026-02-01T00:00:00.000Z',
+    });
+    vi.mocked(consentService.list).mockResolvedValue([
+      record('COOKIES', true),
+      record('ANALYTICS', true),
+      record('MARKETING_EMAILS', false),
+    ]);
+
+    renderBanner();
+
+    await waitFor(() => {
+      expect(analyticsScript()).not.toBeNull();
+    });
+    expect(readConsentCookie()?.consents.ANALYTICS).toBe(true);
+  });
+});
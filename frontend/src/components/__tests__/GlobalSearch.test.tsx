@@ -0,0 +1,125 @@
+/**
+ * Global Search Component Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { BrowserRouter } from 'react-router-dom';
+import GlobalSearch from '../GlobalSearch';
+import * as contentService from '../../services/api/contentService';
+
+vi.mock('../../services/api/contentService', () => ({
+  searchService: {
+    search: vi.fn(),
+  },
+}));
+
+describe('GlobalSearch', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false } },
+    });
+    vi.clearAllMocks();
+  });
+
+  const renderSearch = () => {
+    return render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <GlobalSearch />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+  };
+
+  it('should show results grouped by content type with highlights', async () => {
+    const user = userEvent.setup();
+    vi.mocked(contentService.searchService.search).mockResolvedValue({
+      data: [
+        {
+          type: 'knowledge',
+          id: 'k1',
+          title: 'Prompt Patterns',
+          slug: 'prompt-patterns',
+          externalLink: null,
+          titleHighlight: '<mark>Prompt</mark> Patterns',
+          snippet: 'Reusable <mark>prompt</mark> structures',
+          rank: 0.9,
+        },
+        {
+          type: 'tool',
+          id: 't1',
+          title: 'Prompt Lab',
+          slug: null,
+          externalLink: 'https://example.com/lab',
+          titleHighlight: '<mark>Prompt</mark> Lab',
+          snippet: '',
+          rank: 0.5,
+        },
+      ],
+      meta: { total: 2 },
+    });
+
+    renderSearch();
+    await user.type(screen.getByLabelText(/search all content/i), 'prompt');
+
+    const panel = await screen.findByRole('region', { name: /search results/i });
+    await waitFor(() => {
+      expect(contentService.searchService.search).toHaveBeenCalledWith('prompt');
+      expect(within(panel).getByText('Knowledge')).toBeInTheDocument();
+    });
+
+    expect(within(panel).getByText('Tools')).toBeInTheDocument();
+    expect(within(panel).getByRole('link', { name: /prompt patterns/i })).toHaveAttribute(
+      'href',
+      '/knowledge/prompt-patterns'
+    );
+    expect(within(panel).getByRole('link', { name: /prompt lab/i })).toHaveAttribute(
+      'href',
+      'https://example.com/lab'
+    );
+    expect(within(panel).getAllByText('Prompt')[0].tagName).toBe('MARK');
+  });
+
+  it('should not search for very short queries', async () => {
+    const user = userEvent.setup();
+    renderSearch();
+
+    await user.type(screen.getByLabelText(/search all content/i), 'a');
+    await new Promise((resolve) => setTimeout(resolve, 400));
+
+    expect(contentService.searchService.search).not.toHaveBeenCalled();
+    expect(screen.queryByRole('region', { name: /search results/i })).not.toBeInTheDocument();
+  });
+
+  it('should render markup in results as text', async () => {
+    const user = userEvent.setup();
+    vi.mocked(contentService.searchService.search).mockResolvedValue({
+      data: [
+        {
+          type: 'training',
+          id: 'tr1',
+          title: '<img src=x> Course',
+          slug: null,
+          externalLink: 'https://example.com',
+          titleHighlight: '<img src=x> <mark>Course</mark>',
+          snippet: '',
+          rank: 0.1,
+        },
+      ],
+      meta: { total: 1 },
+    });
+
+    renderSearch();
+    await user.type(screen.getByLabelText(/search all content/i), 'course');
+
+    const link = await screen.findByRole('link', { name: /course/i });
+    expect(link).toHaveAttribute('href', '/trainings/tr1');
+    expect(link.querySelector('img')).toBeNull();
+    expect(link).toHaveTextContent('<img src=x> Course');
+  });
+});
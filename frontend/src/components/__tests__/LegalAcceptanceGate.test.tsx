@@ -0,0 +1,104 @@
+/**
+ * Legal Acceptance Gate Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import LegalAcceptanceGate from '../LegalAcceptanceGate';
+import { useAuth } from '../../contexts/AuthContext';
+import { legalService } from '../../services/api/legalService';
+
+vi.mock('../../contexts/AuthContext', () => ({
+  useAuth: vi.fn(),
+}));
+
+vi.mock('../../services/api/authService', () => ({
+  api: {
+    interceptors: { response: { use: vi.fn(() => 1), eject: vi.fn() } },
+  },
+}));
+
+vi.mock('../../services/api/legalService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/api/legalService')>()),
+  legalService: {
+    getAcceptance: vi.fn(),
+    accept: vi.fn(),
+  },
+}));
+
+const pendingTerms = {
+  documentId: 'doc-2',
+  type: 'TERMS_OF_SERVICE' as const,
+  version: '2',
+  title: 'Terms of Service',
+  summary: 'New section on refunds',
+  effectiveAt: '2026-01-01T00:00:00.000Z',
+  acceptedVersion: '1',
+};
+
+describe('LegalAcceptanceGate', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+    vi.mocked(useAuth).mockReturnValue({ user: { id: 'u1' }, isAuthenticated: true, logout: vi.fn() } as any);
+  });
+
+  const renderGate = (path = '/') =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <MemoryRouter initialEntries={[path]}>
+          <LegalAcceptanceGate />
+        </MemoryRouter>
+      </QueryClientProvider>
+    );
+
+  it('should stay hidden when everything is accepted', async () => {
+    vi.mocked(legalService.getAcceptance).mockResolvedValue({ required: false, pending: [] });
+
+    renderGate();
+
+    await waitFor(() => expect(legalService.getAcceptance).toHaveBeenCalled());
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should ask to accept an updated version and close once accepted', async () => {
+    vi.mocked(legalService.getAcceptance).mockResolvedValue({ required: true, pending: [pendingTerms] });
+    vi.mocked(legalService.accept).mockResolvedValue({ required: false, pending: [] });
+    const user = userEvent.setup();
+    renderGate();
+
+    expect(await screen.findByText('We have updated our terms')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Terms of Service' })).toHaveAttribute('href', '/terms');
+    expect(screen.getByText('New section on refunds')).toBeInTheDocument();
+
+    const accept = screen.getByRole('button', { name: /accept and continue/i });
+    expect(accept).toBeDisabled();
+    await user.click(screen.getByLabelText(/i have read and accept/i));
+    await user.click(accept);
+
+    expect(legalService.accept).toHaveBeenCalledWith(['doc-2']);
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+  });
+
+  it('should leave the documents themselves readable', async () => {
+    vi.mocked(legalService.getAcceptance).mockResolvedValue({ required: true, pending: [pendingTerms] });
+
+    renderGate('/terms');
+
+    await waitFor(() => expect(legalService.getAcceptance).toHaveBeenCalled());
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should not check anonymous visitors', () => {
+    vi.mocked(useAuth).mockReturnValue({ user: null, isAuthenticated: false, logout: vi.fn() } as any);
+
+    renderGate();
+
+    expect(legalService.getAcceptance).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Preview Controls Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { PreviewLinkButton } from '../PreviewControls';
+import * as adminService from '../../services/api/adminService';
+
+vi.mock('../../services/api/adminService', () => ({
+  previewService: {
+    createToken: vi.fn(),
+  },
+}));
+
+describe('PreviewLinkButton', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+  });
+
+  it('should create a preview link for the public page of the item', async () => {
+    const user = userEvent.setup();
+    vi.mocked(adminService.previewService.createToken).mockResolvedValue({
+      token: 'signed-token',
+      expiresAt: '2025-12-27T10:00:00.000Z',
+    });
+
+    render(
+      <QueryClientProvider client={queryClient}>
+        <PreviewLinkButton type="knowledge" id="article-1" path="/knowledge/draft-article" />
+      </QueryClientProvider>
+    );
+
+    await user.click(screen.getByRole('button', { name: /preview link/i }));
+
+    expect(await screen.findByLabelText(/preview url/i)).toHaveValue(
+      `${window.location.origin}/knowledge/draft-article?preview=signed-token`
+    );
+    expect(adminService.previewService.createToken).toHaveBeenCalledWith('knowledge', 'article-1');
+    expect(screen.getByText(/anyone with this link/i)).toBeInTheDocument();
+  });
+
+  it('should show an error when the link cannot be created', async () => {
+    const user = userEvent.setup();
+    vi.mocked(adminService.previewService.createToken).mockRejectedValue(new Error('Forbidden'));
+
+    render(
+      <QueryClientProvider client={queryClient}>
+        <PreviewLinkButton type="trainings" id="training-1" path="/trainings/training-1" />
+      </QueryClientProvider>
+    );
+
+    await user.click(screen.getByRole('button', { name: /preview link/i }));
+
+    expect(await screen.findByText(/could not create a preview link/i)).toBeInTheDocument();
+  });
+});
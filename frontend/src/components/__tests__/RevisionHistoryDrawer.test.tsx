@@ -0,0 +1,88 @@
+/**
+ * Revision History Drawer Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import RevisionHistoryDrawer from '../RevisionHistoryDrawer';
+import * as adminService from '../../services/api/adminService';
+
+vi.mock('../../services/api/adminService', () => ({
+  revisionService: {
+    list: vi.fn(),
+    diff: vi.fn(),
+    restore: vi.fn(),
+  },
+}));
+
+const revision = {
+  id: 'rev-1',
+  contentType: 'KNOWLEDGE_ARTICLE',
+  contentId: 'article-1',
+  title: 'Original Title',
+  editor: { id: 'u1', name: 'Ada Admin', email: 'ada@example.com' },
+  createdAt: '2025-12-20T10:00:00.000Z',
+};
+
+describe('RevisionHistoryDrawer', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+  });
+
+  const renderDrawer = (props: Partial<Parameters<typeof RevisionHistoryDrawer>[0]> = {}) => {
+    return render(
+      <QueryClientProvider client={queryClient}>
+        <RevisionHistoryDrawer type="knowledge" id="article-1" open onClose={vi.fn()} {...props} />
+      </QueryClientProvider>
+    );
+  };
+
+  it('should not fetch anything while closed', () => {
+    renderDrawer({ open: false });
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(adminService.revisionService.list).not.toHaveBeenCalled();
+  });
+
+  it('should list revisions with their editor', async () => {
+    vi.mocked(adminService.revisionService.list).mockResolvedValue([revision]);
+
+    renderDrawer();
+
+    expect(await screen.findByText(/original title/i)).toBeInTheDocument();
+    expect(screen.getByText(/ada admin/i)).toBeInTheDocument();
+    expect(adminService.revisionService.list).toHaveBeenCalledWith('knowledge', 'article-1');
+  });
+
+  it('should show the field diff and restore a revision', async () => {
+    const user = userEvent.setup();
+    const onRestored = vi.fn();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.mocked(adminService.revisionService.list).mockResolvedValue([revision]);
+    vi.mocked(adminService.revisionService.diff).mockResolvedValue({
+      revision: { id: 'rev-1', createdAt: revision.createdAt, editor: revision.editor },
+      changes: [{ field: 'content', revision: '# Original body', current: '# Broken body' }],
+    });
+    vi.mocked(adminService.revisionService.restore).mockResolvedValue({});
+
+    renderDrawer({ onRestored });
+
+    await user.click(await screen.findByText(/original title/i));
+
+    expect(await screen.findByTestId('revision-change')).toHaveTextContent('content');
+    expect(screen.getByText('# Original body')).toBeInTheDocument();
+    expect(screen.getByText('# Broken body')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /restore this version/i }));
+
+    await waitFor(() => {
+      expect(adminService.revisionService.restore).toHaveBeenCalledWith('knowledge', 'article-1', 'rev-1');
+      expect(onRestored).toHaveBeenCalled();
+    });
+  });
+});
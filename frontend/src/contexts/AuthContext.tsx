@@ -5,15 +5,42 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { authService, User, LoginData, RegisterData, api } from '../services/api/authService';
+import {
+  authService,
+  User,
+  LoginData,
+  LoginResponse,
+  TwoFactorChallenge,
+  RegisterData,
+  RegisterResponse,
+  api,
+} from '../services/api/authService';
+import { readConsentCookie } from '../lib/consent';
+
+/**
+ * What a login attempt led to: either a session, or a pending two-factor step
+ */
+export interface LoginOutcome {
+  twoFactorRequired: boolean;
+  /** Signed in, but the security policy wants 2FA enabled on this account */
+  twoFactorSetupRequired: boolean;
+}
+
+const isTwoFactorChallenge = (response: LoginResponse | TwoFactorChallenge): response is TwoFactorChallenge =>
+  'twoFactorRequired' in response && response.twoFactorRequired === true;
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  register: (data: RegisterData) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginOutcome>;
+  /** Set after a password login on an account with 2FA, until a code is verified */
+  twoFactorPending: boolean;
+  verifyTwoFactor: (code: string) => Promise<LoginOutcome>;
+  cancelTwoFactor: () => void;
+  register: (data: RegisterData) => Promise<RegisterResponse>;
   logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
   refreshAuth: () => Promise<void>;
 }
 
@@ -35,8 +62,17 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [accessToken, setAccessToken] = useState<string | null>(
     localStorage.getItem('accessToken')
   );
+  // Challenge token from the password step of a login on an account with 2FA
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
+  const startSession = (data: LoginResponse) => {
+    setTwoFactorChallenge(null);
+    setAccessToken(data.accessToken);
+    localStorage.setItem('accessToken', data.accessToken);
+    queryClient.setQueryData(['auth', 'me'], data.user);
+  };
+
   // Get current user
   const { data: user, isLoading: isLoadingUser } = useQuery({
     queryKey: ['auth', 'me'],
@@ -60,9 +96,11 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const loginMutation = useMutation({
     mutationFn: (data: LoginData) => authService.login(data),
     onSuccess: (data) => {
-      setAccessToken(data.accessToken);
-      localStorage.setItem('accessToken', data.accessToken);
-      queryClient.setQueryData(['auth', 'me'], data.user);
+      if (isTwoFactorChallenge(data)) {
+        setTwoFactorChallenge(data.challengeToken);
+        return;
+      }
+      startSession(data);
     },
     onError: (error) => {
       setAccessToken(null);
@@ -71,6 +109,17 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     },
   });
 
+  // Second login step: exchange the challenge and a code for a session
+  const twoFactorMutation = useMutation({
+    mutationFn: (code: string) => {
+      if (!twoFactorChallenge) {
+        throw new Error('No login is waiting for a two-factor code');
+      }
+      return authService.verifyTwoFactorLogin(twoFactorChallenge, code, readConsentCookie() ?? undefined);
+    },
+    onSuccess: startSession,
+  });
+
   // Register mutation
   const registerMutation = useMutation({
     mutationFn: (data: RegisterData) => authService.register(data),
@@ -90,6 +139,17 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     },
   });
 
+  // Log out of every device (this one included)
+  const logoutEverywhereMutation = useMutation({
+    mutationFn: () => authService.logoutEverywhere(),
+    onSuccess: () => {
+      setAccessToken(null);
+      localStorage.removeItem('accessToken');
+      queryClient.setQueryData(['auth', 'me'], null);
+      queryClient.clear();
+    },
+  });
+
   // Refresh token
   const refreshMutation = useMutation({
     mutationFn: () => authService.refreshToken(),
@@ -167,18 +227,36 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     isLoading: isLoadingUser,
     login: async (email: string, password: string) => {
       try {
-        await loginMutation.mutateAsync({ email, password });
+        const data = await loginMutation.mutateAsync({
+          email,
+          password,
+          consents: readConsentCookie() ?? undefined,
+        });
+        return isTwoFactorChallenge(data)
+          ? { twoFactorRequired: true, twoFactorSetupRequired: false }
+          : { twoFactorRequired: false, twoFactorSetupRequired: !!data.twoFactorSetupRequired };
       } catch (error) {
         // Error is already handled in onError, but we re-throw for component handling
         throw error;
       }
     },
+    twoFactorPending: !!twoFactorChallenge,
+    verifyTwoFactor: async (code: string) => {
+      const data = await twoFactorMutation.mutateAsync(code);
+      return { twoFactorRequired: false, twoFactorSetupRequired: !!data.twoFactorSetupRequired };
+    },
+    cancelTwoFactor: () => {
+      setTwoFactorChallenge(null);
+    },
     register: async (data: RegisterData) => {
-      await registerMutation.mutateAsync(data);
+      return registerMutation.mutateAsync({ ...data, consents: readConsentCookie() ?? undefined });
     },
     logout: async () => {
       await logoutMutation.mutateAsync();
     },
+    logoutEverywhere: async () => {
+      await logoutEverywhereMutation.mutateAsync();
+    },
     refreshAuth: async () => {
       await refreshMutation.mutateAsync();
     },
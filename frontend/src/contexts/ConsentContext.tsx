@@ -0,0 +1,121 @@
+/**
+ * Consent Context
+ * Cookie banner choices for the whole app. Anonymous visitors' choices are kept in the
+ * consent cookie; once signed in they are saved to, and kept in step with, the account.
+ */
+
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './AuthContext';
+import { consentService } from '../services/api/consentService';
+import {
+  ConsentChoices,
+  CookieConsentType,
+  COOKIE_CONSENT_TYPES,
+  CONSENT_VERSION,
+  buildConsentChoices,
+  readConsentCookie,
+  writeConsentCookie,
+} from '../lib/consent';
+
+interface ConsentContextType {
+  choices: ConsentChoices | null;
+  /** False until the visitor accepts, rejects or saves their preferences */
+  hasDecided: boolean;
+  /** Whether a script or feature in this category may run; always false before a decision */
+  isGranted: (type: CookieConsentType) => boolean;
+  acceptAll: () => Promise<void>;
+  rejectAll: () => Promise<void>;
+  save: (consents: Record<CookieConsentType, boolean>) => Promise<void>;
+  preferencesOpen: boolean;
+  openPreferences: () => void;
+  closePreferences: () => void;
+}
+
+const ConsentContext = createContext<ConsentContextType | undefined>(undefined);
+
+export const useConsent = () => {
+  const context = useContext(ConsentContext);
+  if (!context) {
+    throw new Error('useConsent must be used within ConsentProvider');
+  }
+  return context;
+};
+
+const allConsents = (granted: boolean) =>
+  Object.fromEntries(COOKIE_CONSENT_TYPES.map((type) => [type, granted])) as Record<CookieConsentType, boolean>;
+
+interface ConsentProviderProps {
+  children: ReactNode;
+}
+
+export const ConsentProvider = ({ children }: ConsentProviderProps) => {
+  const { user, isAuthenticated } = useAuth();
+  const [choices, setChoices] = useState<ConsentChoices | null>(readConsentCookie);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data: records } = useQuery({
+    queryKey: ['consents', user?.id],
+    queryFn: consentService.list,
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  // Adopt the account's choices when they are newer than this browser's, e.g. made on another device
+  useEffect(() => {
+    const cookieRecords = records?.filter(
+      ({ consentType, version }) =>
+        COOKIE_CONSENT_TYPES.includes(consentType as CookieConsentType) && version === CONSENT_VERSION
+    );
+    if (!cookieRecords || cookieRecords.length !== COOKIE_CONSENT_TYPES.length) {
+      return;
+    }
+
+    const decidedAt = cookieRecords.map((record) => record.updatedAt).sort().reverse()[0];
+    if (choices && new Date(choices.decidedAt) >= new Date(decidedAt)) {
+      return;
+    }
+
+    const accountChoices: ConsentChoices = {
+      decidedAt,
+      version: CONSENT_VERSION,
+      consents: Object.fromEntries(
+        cookieRecords.map((record) => [record.consentType, record.granted])
+      ) as Record<CookieConsentType, boolean>,
+    };
+    writeConsentCookie(accountChoices);
+    setChoices(accountChoices);
+  }, [records]);
+
+  const save = async (consents: Record<CookieConsentType, boolean>) => {
+    const next = buildConsentChoices(consents);
+    writeConsentCookie(next);
+    setChoices(next);
+    setPreferencesOpen(false);
+
+    if (isAuthenticated) {
+      try {
+        const saved = await consentService.save(consents, CONSENT_VERSION);
+        queryClient.setQueryData(['consents', user?.id], saved);
+      } catch (error) {
+        // Kept in the cookie; merged into the account at the next sign-in
+        console.error('Failed to save consent preferences:', error);
+      }
+    }
+  };
+
+  const value: ConsentContextType = {
+    choices,
+    hasDecided: !!choices,
+    isGranted: (type) => choices?.consents[type] === true,
+    acceptAll: () => save(allConsents(true)),
+    rejectAll: () => save(allConsents(false)),
+    save,
+    preferencesOpen,
+    openPreferences: () => setPreferencesOpen(true),
+    closePreferences: () => setPreferencesOpen(false),
+  };
+
+  return <ConsentContext.Provider value={value}>{children}</ConsentContext.Provider>;
+};
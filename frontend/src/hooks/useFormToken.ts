@@ -0,0 +1,38 @@
+/**
+ * useFormToken Hook
+ * Fetches the spam-protection token a public form sends back with its submission.
+ * The API records when the form was loaded, so instant bot submissions stand out.
+ */
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+
+export type PublicForm = 'contact' | 'newsletter';
+
+export const useFormToken = (form: PublicForm) => {
+  const [formToken, setFormToken] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    axios
+      .get(`${API_URL}/${form}/form-token`)
+      .then((response) => {
+        if (!cancelled) {
+          setFormToken(response.data.data.formToken);
+        }
+      })
+      .catch(() => {
+        // Submitting without a token still works; the submission is held for review
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [form]);
+
+  return formToken;
+};
+
+export default useFormToken;
@@ -0,0 +1,41 @@
+/**
+ * useListFilters Hook
+ * Keeps list filters in the URL query string so filtered views can be shared and survive reloads
+ */
+
+import { useSearchParams } from 'react-router-dom';
+
+export const useListFilters = <K extends string>(keys: readonly K[]) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = Object.fromEntries(
+    keys.map((key) => [key, searchParams.get(key) || undefined])
+  ) as Record<K, string | undefined>;
+
+  const hasFilters = keys.some((key) => searchParams.has(key));
+
+  // Several keys can change together, e.g. a filter and the page number it resets
+  const setFilters = (values: Partial<Record<K, string | undefined>>) => {
+    const next = new URLSearchParams(searchParams);
+    (Object.entries(values) as [K, string | undefined][]).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next, { replace: true });
+  };
+
+  const setFilter = (key: K, value?: string) => setFilters({ [key]: value } as Partial<Record<K, string>>);
+
+  const clearFilters = () => {
+    const next = new URLSearchParams(searchParams);
+    keys.forEach((key) => next.delete(key));
+    setSearchParams(next, { replace: true });
+  };
+
+  return { filters, hasFilters, setFilter, setFilters, clearFilters };
+};
+
+export default useListFilters;
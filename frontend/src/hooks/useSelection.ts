@@ -0,0 +1,27 @@
+/**
+ * useSelection Hook
+ * Tracks which rows of a list are checked for bulk actions
+ */
+
+import { useState } from 'react';
+
+export const useSelection = () => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const isSelected = (id: string) => selected.includes(id);
+
+  const toggle = (id: string) => {
+    setSelected((current) => (current.includes(id) ? current.filter((item) => item !== id) : [...current, id]));
+  };
+
+  // Select every id, or clear the selection when all of them are already selected
+  const toggleAll = (ids: string[]) => {
+    setSelected((current) => (ids.length > 0 && ids.every((id) => current.includes(id)) ? [] : ids));
+  };
+
+  const clear = () => setSelected([]);
+
+  return { selected, isSelected, toggle, toggleAll, clear };
+};
+
+export default useSelection;
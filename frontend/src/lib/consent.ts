@@ -0,0 +1,82 @@
+/**
+ * Cookie consent helpers
+ * Visitors' banner choices live in a first-party cookie until they sign in, when the API
+ * merges them into their consent records
+ */
+
+export type CookieConsentType = 'COOKIES' | 'ANALYTICS' | 'MARKETING_EMAILS';
+
+export interface ConsentChoices {
+  /** When the visitor made these choices (ISO timestamp) */
+  decidedAt: string;
+  /** Policy version they were shown; choices for an older version are asked for again */
+  version: string;
+  consents: Record<CookieConsentType, boolean>;
+}
+
+export const CONSENT_COOKIE = 'cookie_consent';
+export const CONSENT_VERSION = '1';
+const CONSENT_COOKIE_MAX_AGE = 180 * 24 * 60 * 60;
+
+export const CONSENT_CATEGORIES: { type: CookieConsentType; label: string; description: string }[] = [
+  {
+    type: 'COOKIES',
+    label: 'Functional',
+    description: 'Remember preferences such as filters and layout between visits.',
+  },
+  {
+    type: 'ANALYTICS',
+    label: 'Analytics',
+    description: 'Help us understand how the site is used so we can improve it.',
+  },
+  {
+    type: 'MARKETING_EMAILS',
+    label: 'Marketing',
+    description: 'Measure campaigns and show you relevant offers from us.',
+  },
+];
+
+export const COOKIE_CONSENT_TYPES = CONSENT_CATEGORIES.map(({ type }) => type);
+
+/**
+ * Choices for every category, decided now
+ */
+export const buildConsentChoices = (consents: Record<CookieConsentType, boolean>): ConsentChoices => ({
+  decidedAt: new Date().toISOString(),
+  version: CONSENT_VERSION,
+  consents,
+});
+
+/**
+ * Choices stored in the consent cookie, or null when the visitor has not decided
+ * (or decided on an older version of the policy)
+ */
+export const readConsentCookie = (): ConsentChoices | null => {
+  const entry = document.cookie.split('; ').find((cookie) => cookie.startsWith(`${CONSENT_COOKIE}=`));
+  if (!entry) {
+    return null;
+  }
+
+  try {
+    const choices = JSON.parse(decodeURIComponent(entry.slice(CONSENT_COOKIE.length + 1))) as ConsentChoices;
+    if (choices.version !== CONSENT_VERSION || !choices.consents) {
+      return null;
+    }
+    return {
+      decidedAt: choices.decidedAt,
+      version: choices.version,
+      consents: Object.fromEntries(
+        COOKIE_CONSENT_TYPES.map((type) => [type, choices.consents[type] === true])
+      ) as Record<CookieConsentType, boolean>,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const writeConsentCookie = (choices: ConsentChoices) => {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie =
+    `${CONSENT_COOKIE}=${encodeURIComponent(JSON.stringify(choices))}; ` +
+    `Max-Age=${CONSENT_COOKIE_MAX_AGE}; Path=/; SameSite=Lax${secure}`;
+};
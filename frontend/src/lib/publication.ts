@@ -0,0 +1,55 @@
+/**
+ * Publication helpers shared by the admin content forms
+ * Converts between API timestamps and datetime-local inputs and enforces the scheduling rules client-side
+ */
+
+import { z } from 'zod';
+import { PublicationStatus } from '../services/api/contentService';
+
+export const PUBLICATION_STATUSES: PublicationStatus[] = ['DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED'];
+
+export const PUBLICATION_STATUS_LABELS: Record<PublicationStatus, string> = {
+  DRAFT: 'Draft',
+  SCHEDULED: 'Scheduled',
+  PUBLISHED: 'Published',
+  ARCHIVED: 'Archived',
+};
+
+// Form fields; dates hold datetime-local strings ("" when unset)
+export const publicationSchema = z.object({
+  publicationStatus: z.enum(['DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED']).optional(),
+  publishAt: z.string().optional(),
+  unpublishAt: z.string().optional(),
+});
+
+type PublicationFormValues = z.infer<typeof publicationSchema>;
+
+export const refinePublication = (data: PublicationFormValues, ctx: z.RefinementCtx) => {
+  if (data.publicationStatus === 'SCHEDULED' && !data.publishAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['publishAt'], message: 'Scheduled content needs a publish date' });
+  }
+  if (data.publishAt && data.unpublishAt && new Date(data.unpublishAt) <= new Date(data.publishAt)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['unpublishAt'], message: 'Unpublish date must be after the publish date' });
+  }
+};
+
+/**
+ * ISO timestamp -> value for an <input type="datetime-local"> in the browser's time zone
+ */
+export const toDateTimeLocal = (value?: string | null): string => {
+  if (!value) {
+    return '';
+  }
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+/**
+ * Form values -> API payload; an empty date clears it
+ */
+export const toPublicationPayload = <T extends PublicationFormValues>(data: T) => ({
+  ...data,
+  publishAt: data.publishAt ? new Date(data.publishAt).toISOString() : null,
+  unpublishAt: data.unpublishAt ? new Date(data.unpublishAt).toISOString() : null,
+});
@@ -0,0 +1,314 @@
+/**
+ * Account Security Page
+ * Two-factor authentication settings, and the devices the user is signed in on
+ */
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { authService, TwoFactorEnrollment } from '../services/api/authService';
+import { securityPolicyService } from '../services/api/adminService';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const errorMessage = (error: unknown) =>
+  (error as any)?.response?.data?.error || 'The action failed. Please try again.';
+
+const RecoveryCodes = ({ codes }: { codes: string[] }) => (
+  <div className="border rounded-md p-3 bg-muted/50 mb-4">
+    <p className="text-sm font-medium mb-2">
+      Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app, and
+      they won't be shown again.
+    </p>
+    <ul className="grid grid-cols-2 gap-1 font-mono text-sm" aria-label="Recovery codes">
+      {codes.map((code) => (
+        <li key={code}>{code}</li>
+      ))}
+    </ul>
+  </div>
+);
+
+/**
+ * Enroll in, manage and (for super admins) require two-factor authentication
+ */
+const TwoFactorSettings = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const isSuperAdmin = user?.role === 'SUPER_ADMIN';
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['auth', '2fa'],
+    queryFn: authService.twoFactorStatus,
+  });
+
+  const { data: policy } = useQuery({
+    queryKey: ['admin', 'security', 'policy'],
+    queryFn: securityPolicyService.get,
+    enabled: isSuperAdmin,
+  });
+
+  const onChanged = () => {
+    setCode('');
+    queryClient.invalidateQueries({ queryKey: ['auth', '2fa'] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => authService.setupTwoFactor(),
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setRecoveryCodes(null);
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => authService.enableTwoFactor(code),
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      onChanged();
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => authService.disableTwoFactor(code),
+    onSuccess: () => {
+      setRecoveryCodes(null);
+      onChanged();
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => authService.regenerateRecoveryCodes(code),
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      onChanged();
+    },
+  });
+
+  const policyMutation = useMutation({
+    mutationFn: (requireAdminTwoFactor: boolean) => securityPolicyService.update(requireAdminTwoFactor),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['admin', 'security', 'policy'], data);
+      queryClient.invalidateQueries({ queryKey: ['auth', '2fa'] });
+    },
+  });
+
+  const error =
+    setupMutation.error ||
+    enableMutation.error ||
+    disableMutation.error ||
+    regenerateMutation.error ||
+    policyMutation.error;
+
+  const codeInput = (
+    <div className="max-w-xs">
+      <Label htmlFor="two-factor-code">Authentication code</Label>
+      <Input
+        id="two-factor-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        autoComplete="one-time-code"
+      />
+    </div>
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app, as well as your password, when you sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {error && <p className="text-destructive">{errorMessage(error)}</p>}
+        {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+
+        {isLoading || !status ? (
+          <p>Loading...</p>
+        ) : status.enabled ? (
+          <>
+            <p>
+              <span className="px-2 py-1 rounded text-xs bg-green-100 text-green-800">On</span>
+              {status.enabledAt && <span className="ml-2">since {formatDate(status.enabledAt)}</span>} ·{' '}
+              {status.recoveryCodesRemaining} recovery codes left
+            </p>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                disabled={!code || regenerateMutation.isPending}
+                onClick={() => regenerateMutation.mutate()}
+              >
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="destructive"
+                  disabled={!code || disableMutation.isPending}
+                  onClick={() => disableMutation.mutate()}
+                >
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </>
+        ) : enrollment ? (
+          <>
+            <p>
+              Add this account to your authenticator app by{' '}
+              <a href={enrollment.otpauthUri} className="text-primary hover:underline">
+                opening the setup link
+              </a>{' '}
+              or entering the key <code className="font-mono break-all">{enrollment.secret}</code>, then type the
+              code it shows.
+            </p>
+            {codeInput}
+            <Button disabled={!code || enableMutation.isPending} onClick={() => enableMutation.mutate()}>
+              Turn on
+            </Button>
+          </>
+        ) : (
+          <>
+            {status.required && (
+              <p className="p-3 bg-destructive/10 text-destructive rounded">
+                Your role requires two-factor authentication. Set it up to use the admin area.
+              </p>
+            )}
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              Set up two-factor authentication
+            </Button>
+          </>
+        )}
+
+        {isSuperAdmin && policy && (
+          <div className="border-t pt-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={policy.requireAdminTwoFactor}
+                disabled={policyMutation.isPending}
+                onChange={(e) => policyMutation.mutate(e.target.checked)}
+              />
+              Require two-factor authentication for all admins
+            </label>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const AccountSecurity = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { logoutEverywhere } = useAuth();
+
+  const { data: sessions, isLoading, isError } = useQuery({
+    queryKey: ['auth', 'sessions'],
+    queryFn: authService.listSessions,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => authService.revokeSession(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'sessions'] });
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: () => logoutEverywhere(),
+    onSuccess: () => {
+      navigate('/login');
+    },
+  });
+
+  const handleLogoutAll = () => {
+    if (confirm('Log out of every device, including this one?')) {
+      logoutAllMutation.mutate();
+    }
+  };
+
+  const error = revokeMutation.error || logoutAllMutation.error;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-3xl font-bold mb-6">Account Security</h1>
+
+      <TwoFactorSettings />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Where you're signed in</CardTitle>
+          <CardDescription>
+            Sign out any device you don't recognise. Signing a device out ends its session straight away.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-destructive mb-4">The action failed. Please try again.</p>}
+
+          {isLoading ? (
+            <p>Loading...</p>
+          ) : isError ? (
+            <p className="text-destructive">Could not load your sessions.</p>
+          ) : !sessions?.length ? (
+            <p className="text-muted-foreground">No active sessions.</p>
+          ) : (
+            <ul className="space-y-3 text-sm">
+              {sessions.map((session) => {
+                const device = session.userAgent || 'Unknown device';
+
+                return (
+                  <li key={session.id} className="border rounded-md p-3 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium">
+                        {device}
+                        {session.current && (
+                          <span className="ml-2 px-2 py-1 rounded text-xs bg-green-100 text-green-800">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-muted-foreground">
+                        {session.ipAddress || 'Unknown IP'} · last active {formatDate(session.lastUsedAt)} · signed
+                        in {formatDate(session.createdAt)}
+                      </p>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        aria-label={`Sign out ${device}`}
+                        disabled={revokeMutation.isPending}
+                        onClick={() => revokeMutation.mutate(session.id)}
+                      >
+                        Sign out
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="mt-6 border-t pt-4 flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">Lost a device or changed your password elsewhere?</p>
+            <Button variant="destructive" onClick={handleLogoutAll} disabled={logoutAllMutation.isPending}>
+              Log out everywhere
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AccountSecurity;
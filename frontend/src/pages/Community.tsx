@@ -3,17 +3,23 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useQuery } from '@tanstack/react-query';
-import { communityService, CommunityLink } from '../services/api/contentService';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { communityService } from '../services/api/contentService';
+import { LoadMore } from '../components/ListControls';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 
 const Community = () => {
-  const { data: links = [], isLoading } = useQuery({
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
     queryKey: ['community'],
-    queryFn: communityService.getAll,
+    queryFn: ({ pageParam }) => communityService.list({ cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.meta.nextCursor ?? undefined,
   });
 
+  const links = data?.pages.flatMap((page) => page.data) ?? [];
+  const total = data?.pages[0]?.meta.total ?? 0;
+
   const formatPlatform = (platform: string) => {
     return platform.charAt(0) + platform.slice(1).toLowerCase();
   };
@@ -35,37 +41,46 @@ const Community = () => {
             <p className="text-lg text-muted-foreground">No community links available at the moment.</p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-4xl mx-auto">
-            {links.map((link) => (
-              <Card key={link.id} className="hover:shadow-lg transition-shadow">
-                <CardHeader>
-                  <div className="flex items-center justify-between">
-                    <CardTitle>{link.title}</CardTitle>
-                    <span className="px-2 py-1 bg-muted rounded text-xs">
-                      {formatPlatform(link.platform)}
-                    </span>
-                  </div>
-                  {link.description && (
-                    <CardDescription>{link.description}</CardDescription>
-                  )}
-                </CardHeader>
-                <CardContent>
-                  <Button
-                    asChild
-                    className="w-full"
-                  >
-                    <a
-                      href={link.externalLink}
-                      target="_blank"
-                      rel="noopener noreferrer"
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-4xl mx-auto">
+              {links.map((link) => (
+                <Card key={link.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle>{link.title}</CardTitle>
+                      <span className="px-2 py-1 bg-muted rounded text-xs">
+                        {formatPlatform(link.platform)}
+                      </span>
+                    </div>
+                    {link.description && (
+                      <CardDescription>{link.description}</CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <Button
+                      asChild
+                      className="w-full"
                     >
-                      Join Community
-                    </a>
-                  </Button>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+                      <a
+                        href={link.externalLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        Join Community
+                      </a>
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <LoadMore
+              shown={links.length}
+              total={total}
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              onLoadMore={() => fetchNextPage()}
+            />
+          </>
         )}
       </div>
     </div>
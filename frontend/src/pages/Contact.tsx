@@ -10,6 +10,8 @@ import { z } from 'zod';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import HoneypotField from '../components/HoneypotField';
+import { useFormToken } from '../hooks/useFormToken';
 import axios from 'axios';
 
 const contactSchema = z.object({
@@ -17,6 +19,7 @@ const contactSchema = z.object({
   email: z.string().email('Valid email is required'),
   subject: z.string().min(1, 'Subject is required'),
   message: z.string().min(10, 'Message must be at least 10 characters'),
+  website: z.string().optional(), // Honeypot
 });
 
 type ContactFormData = z.infer<typeof contactSchema>;
@@ -24,6 +27,7 @@ type ContactFormData = z.infer<typeof contactSchema>;
 const Contact = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const formToken = useFormToken('contact');
 
   const {
     register,
@@ -40,7 +44,7 @@ const Contact = () => {
 
     try {
       const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
-      await axios.post(`${API_URL}/contact`, data);
+      await axios.post(`${API_URL}/contact`, { ...data, formToken });
       setSubmitStatus('success');
       reset();
     } catch (error) {
@@ -112,6 +116,8 @@ const Contact = () => {
                   )}
                 </div>
 
+                <HoneypotField {...register('website')} />
+
                 {submitStatus === 'success' && (
                   <div className="p-4 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded">
                     Message sent successfully! We'll get back to you soon.
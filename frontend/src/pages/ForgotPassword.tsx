@@ -0,0 +1,93 @@
+/**
+ * Forgot Password Page Component
+ * Requests a password reset link by email
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { authService } from '../services/api/authService';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Label } from '../components/ui/label';
+
+const ForgotPassword = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await authService.forgotPassword(email);
+      setSubmitted(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Request failed. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">Forgot Password</CardTitle>
+          <CardDescription>Enter your email and we'll send you a reset link</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {submitted ? (
+            <div className="space-y-4">
+              <div className="p-3 bg-green-500/10 text-green-600 dark:text-green-400 text-sm rounded">
+                If an account exists for {email}, a password reset link is on its way. The link
+                expires in 1 hour.
+              </div>
+              <div className="text-center text-sm">
+                <Link to="/login" className="text-primary hover:underline">
+                  Back to login
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  autoComplete="email"
+                />
+              </div>
+
+              {error && (
+                <div className="p-3 bg-destructive/10 text-destructive text-sm rounded">
+                  {error}
+                </div>
+              )}
+
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? 'Sending...' : 'Send Reset Link'}
+              </Button>
+
+              <div className="text-center text-sm text-muted-foreground">
+                Remembered it?{' '}
+                <Link to="/login" className="text-primary hover:underline">
+                  Login
+                </Link>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -7,10 +7,12 @@ import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import axios from 'axios';
-import { trainingService, productService, toolService, knowledgeService } from '../services/api/contentService';
+import { trainingService } from '../services/api/contentService';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Input } from '../components/ui/input';
+import HoneypotField from '../components/HoneypotField';
+import { useFormToken } from '../hooks/useFormToken';
 
 const Home = () => {
   // Fetch featured content
@@ -19,21 +21,6 @@ const Home = () => {
     queryFn: trainingService.getFeatured,
   });
 
-  const { data: products = [] } = useQuery({
-    queryKey: ['products'],
-    queryFn: productService.getAll,
-  });
-
-  const { data: tools = [] } = useQuery({
-    queryKey: ['tools'],
-    queryFn: toolService.getAll,
-  });
-
-  const { data: knowledgeArticles = [] } = useQuery({
-    queryKey: ['knowledge'],
-    queryFn: knowledgeService.getAll,
-  });
-
   return (
     <div className="min-h-screen bg-background">
       {/* Hero Section */}
@@ -194,6 +181,8 @@ const Home = () => {
 // Newsletter Form Component
 const NewsletterForm = () => {
   const [email, setEmail] = useState('');
+  const [website, setWebsite] = useState('');
+  const formToken = useFormToken('newsletter');
   const [status, setStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -204,7 +193,7 @@ const NewsletterForm = () => {
 
     try {
       const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
-      await axios.post(`${API_URL}/newsletter/subscribe`, { email });
+      await axios.post(`${API_URL}/newsletter/subscribe`, { email, website, formToken });
       setStatus('success');
       setEmail('');
     } catch (error) {
@@ -225,6 +214,7 @@ const NewsletterForm = () => {
           required
           className="flex-1"
         />
+        <HoneypotField value={website} onChange={(e) => setWebsite(e.target.value)} />
         <Button type="submit" disabled={isSubmitting}>
           {isSubmitting ? '...' : 'Subscribe'}
         </Button>
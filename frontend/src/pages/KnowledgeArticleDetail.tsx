@@ -0,0 +1,101 @@
+/**
+ * Knowledge Article Detail Page Component
+ * Renders a single article by slug; legacy /knowledge/:id links redirect to the slug URL
+ */
+
+import { useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { knowledgeService } from '../services/api/contentService';
+import MarkdownContent from '../components/MarkdownContent';
+import { Button } from '../components/ui/button';
+import { PreviewBanner } from '../components/PreviewControls';
+
+interface KnowledgeArticleDetailProps {
+  slug?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const KnowledgeArticleDetail = ({ slug: propSlug }: KnowledgeArticleDetailProps) => {
+  const { slug: paramSlug } = useParams<{ slug: string }>();
+  const slug = propSlug || paramSlug || '';
+  const isLegacyId = UUID_PATTERN.test(slug);
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const preview = searchParams.get('preview') || undefined;
+
+  const { data: article, isLoading, error } = useQuery({
+    queryKey: ['knowledge', 'article', slug, preview],
+    queryFn: () =>
+      isLegacyId ? knowledgeService.getById(slug, preview) : knowledgeService.getBySlug(slug, preview),
+    enabled: !!slug,
+  });
+
+  // Old links used the article id; move them onto the canonical slug URL (keeping any preview token)
+  useEffect(() => {
+    if (isLegacyId && article?.slug) {
+      const query = preview ? `?preview=${encodeURIComponent(preview)}` : '';
+      navigate(`/knowledge/${article.slug}${query}`, { replace: true });
+    }
+  }, [isLegacyId, article, preview, navigate]);
+
+  const formatCategory = (category: string) => {
+    return category.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, (l) => l.toUpperCase());
+  };
+
+  if (isLoading) {
+    return <div className="container mx-auto px-4 py-12 text-center">Loading...</div>;
+  }
+
+  if (error || !article) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center space-y-4">
+        <p>Article not found</p>
+        <Button asChild variant="outline">
+          <Link to="/knowledge">Back to Knowledge Hub</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {preview && <PreviewBanner />}
+      <article className="container mx-auto px-4 py-12 max-w-3xl">
+        <Link to="/knowledge" className="text-sm text-muted-foreground hover:text-primary">
+          ← Back to Knowledge Hub
+        </Link>
+
+        <header className="mt-6 mb-8 space-y-4">
+          <h1 className="text-4xl font-bold">{article.title}</h1>
+          <p className="text-lg text-muted-foreground">{article.description}</p>
+          <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+            <span className="px-2 py-1 bg-muted rounded">{formatCategory(article.category)}</span>
+            {article.readTime && (
+              <span className="px-2 py-1 bg-muted rounded">{article.readTime} min read</span>
+            )}
+          </div>
+        </header>
+
+        {article.image && (
+          <img src={article.image} alt={article.title} className="w-full rounded-lg mb-8" />
+        )}
+
+        <MarkdownContent content={article.content} />
+
+        {article.externalLink && (
+          <div className="mt-8">
+            <Button asChild variant="outline">
+              <a href={article.externalLink} target="_blank" rel="noopener noreferrer">
+                Read the original
+              </a>
+            </Button>
+          </div>
+        )}
+      </article>
+    </div>
+  );
+};
+
+export default KnowledgeArticleDetail;
@@ -3,24 +3,43 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { knowledgeService, KnowledgeArticle } from '../services/api/contentService';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { knowledgeService, ContentSort } from '../services/api/contentService';
+import { useListFilters } from '../hooks/useListFilters';
+import { LoadMore, SortSelect } from '../components/ListControls';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Input } from '../components/ui/input';
 
+const FILTER_KEYS = ['q', 'category', 'sort'] as const;
+const CATEGORIES = ['GLOSSARY', 'CORE_CONCEPTS', 'BEST_PRACTICES', 'CASE_STUDIES', 'SAAS_SCAFFOLDING'];
+
 const KnowledgeHub = () => {
-  const [searchQuery, setSearchQuery] = useState('');
+  const { filters, hasFilters, setFilter, clearFilters } = useListFilters(FILTER_KEYS);
+  const searchQuery = filters.q || '';
 
-  const { data: articles = [], isLoading } = useQuery({
-    queryKey: ['knowledge', searchQuery],
-    queryFn: () => searchQuery 
-      ? knowledgeService.search(searchQuery)
-      : knowledgeService.getAll(),
-    enabled: true,
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['knowledge', filters],
+    queryFn: async ({ pageParam }) => {
+      // Search results come back as a single unpaginated list
+      if (searchQuery) {
+        const results = await knowledgeService.search(searchQuery);
+        return { data: results, meta: { total: results.length, nextCursor: null } };
+      }
+      return knowledgeService.list({
+        category: filters.category,
+        sort: filters.sort as ContentSort | undefined,
+        cursor: pageParam,
+      });
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.meta.nextCursor ?? undefined,
   });
 
+  const articles = data?.pages.flatMap((page) => page.data) ?? [];
+  const total = data?.pages[0]?.meta.total ?? 0;
+
   const formatCategory = (category: string) => {
     return category.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
   };
@@ -39,47 +58,90 @@ const KnowledgeHub = () => {
           <Input
             placeholder="Search articles..."
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => setFilter('q', e.target.value)}
             className="w-full"
           />
         </div>
 
+        {!searchQuery && (
+          <div className="mb-8 flex flex-col sm:flex-row gap-4 justify-center">
+            <div className="flex-1 max-w-xs">
+              <label htmlFor="category-filter" className="block text-sm font-medium mb-2">
+                Category
+              </label>
+              <select
+                id="category-filter"
+                value={filters.category || 'ALL'}
+                onChange={(e) => setFilter('category', e.target.value === 'ALL' ? undefined : e.target.value)}
+                className="w-full px-4 py-2 border border-input bg-background rounded-md"
+              >
+                <option value="ALL">All</option>
+                {CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {formatCategory(category)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <SortSelect value={filters.sort} onChange={(sort) => setFilter('sort', sort)} />
+          </div>
+        )}
+
         {isLoading ? (
           <div className="text-center py-12 text-muted-foreground">Loading articles...</div>
         ) : articles.length === 0 ? (
           <div className="text-center py-12">
-            <p className="text-lg text-muted-foreground">
-              {searchQuery ? 'No articles found matching your search.' : 'No articles available.'}
+            <p className="text-lg text-muted-foreground mb-4">
+              {searchQuery
+                ? 'No articles found matching your search.'
+                : hasFilters
+                  ? 'No articles match your selected filters.'
+                  : 'No articles available.'}
             </p>
+            {hasFilters && (
+              <Button variant="outline" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            )}
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {articles.map((article) => (
-              <Card key={article.id} className="hover:shadow-lg transition-shadow">
-                <CardHeader>
-                  <CardTitle>{article.title}</CardTitle>
-                  <CardDescription>{article.description}</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
-                      <span className="px-2 py-1 bg-muted rounded">
-                        {formatCategory(article.category)}
-                      </span>
-                      {article.readTime && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {articles.map((article) => (
+                <Card key={article.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <CardTitle>{article.title}</CardTitle>
+                    <CardDescription>{article.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
                         <span className="px-2 py-1 bg-muted rounded">
-                          {article.readTime} min read
+                          {formatCategory(article.category)}
                         </span>
-                      )}
+                        {article.readTime && (
+                          <span className="px-2 py-1 bg-muted rounded">
+                            {article.readTime} min read
+                          </span>
+                        )}
+                      </div>
+                      <Button asChild variant="outline" className="w-full">
+                        <Link to={`/knowledge/${article.slug}`}>Read Article</Link>
+                      </Button>
                     </div>
-                    <Button asChild variant="outline" className="w-full">
-                      <a href={`/knowledge/${article.id}`}>Read Article</a>
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <LoadMore
+              shown={articles.length}
+              total={total}
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              onLoadMore={() => fetchNextPage()}
+            />
+          </>
         )}
       </div>
     </div>
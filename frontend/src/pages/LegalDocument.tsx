@@ -0,0 +1,41 @@
+/**
+ * Legal Document Page Component
+ * The version in effect of the terms of service (/terms) or privacy policy (/privacy)
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { LegalDocumentSlug, legalService } from '../services/api/legalService';
+import MarkdownContent from '../components/MarkdownContent';
+
+interface LegalDocumentPageProps {
+  slug: LegalDocumentSlug;
+}
+
+const LegalDocumentPage = ({ slug }: LegalDocumentPageProps) => {
+  const { data: document, isLoading, error } = useQuery({
+    queryKey: ['legal', slug],
+    queryFn: () => legalService.getCurrent(slug),
+  });
+
+  if (isLoading) {
+    return <div className="container mx-auto px-4 py-12 text-center">Loading...</div>;
+  }
+
+  if (error || !document) {
+    return <div className="container mx-auto px-4 py-12 text-center">This document has not been published yet.</div>;
+  }
+
+  return (
+    <article className="container mx-auto px-4 py-12 max-w-3xl">
+      <header className="mb-8 space-y-2">
+        <h1 className="text-4xl font-bold">{document.title}</h1>
+        <p className="text-sm text-muted-foreground">
+          Version {document.version} · Effective {new Date(document.effectiveAt).toLocaleDateString()}
+        </p>
+      </header>
+      <MarkdownContent content={document.body} />
+    </article>
+  );
+};
+
+export default LegalDocumentPage;
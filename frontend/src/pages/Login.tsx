@@ -5,7 +5,7 @@
 
 import { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth, LoginOutcome } from '../contexts/AuthContext';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
@@ -14,27 +14,101 @@ import { Label } from '../components/ui/label';
 const Login = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const { login } = useAuth();
+  const { login, twoFactorPending, verifyTwoFactor, cancelTwoFactor } = useAuth();
   const navigate = useNavigate();
 
+  // Accounts the security policy requires 2FA for are sent to set it up first
+  const finishLogin = (outcome: LoginOutcome) => {
+    navigate(outcome.twoFactorSetupRequired ? '/account/security' : '/admin');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setIsSubmitting(true);
 
     try {
-      await login(email, password);
-      navigate('/admin');
+      const outcome = await login(email, password);
+      if (!outcome.twoFactorRequired) {
+        finishLogin(outcome);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Login failed. Please check your credentials.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      finishLogin(await verifyTwoFactor(code));
     } catch (err: any) {
-      setError(err.message || 'Login failed. Please check your credentials.');
+      setError(err.response?.data?.error || err.message || 'Invalid authentication code.');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleCancel = () => {
+    cancelTwoFactor();
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  if (twoFactorPending) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-2xl">Two-factor authentication</CardTitle>
+            <CardDescription>
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleVerify} className="space-y-4">
+              <div>
+                <Label htmlFor="code">Authentication code</Label>
+                <Input
+                  id="code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoFocus
+                  autoComplete="one-time-code"
+                  inputMode="text"
+                />
+              </div>
+
+              {error && (
+                <div className="p-3 bg-destructive/10 text-destructive text-sm rounded">
+                  {error}
+                </div>
+              )}
+
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? 'Verifying...' : 'Verify'}
+              </Button>
+
+              <Button type="button" variant="ghost" className="w-full" onClick={handleCancel}>
+                Back to login
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center px-4">
       <Card className="w-full max-w-md">
@@ -57,7 +131,12 @@ const Login = () => {
             </div>
 
             <div>
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                  Forgot your password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
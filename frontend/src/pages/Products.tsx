@@ -3,17 +3,34 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useQuery } from '@tanstack/react-query';
-import { productService, Product } from '../services/api/contentService';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { productService, ContentSort, Product } from '../services/api/contentService';
+import { useListFilters } from '../hooks/useListFilters';
+import { LoadMore, SortSelect } from '../components/ListControls';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 
+const FILTER_KEYS = ['status', 'sort'] as const;
+const STATUSES: Product['status'][] = ['LIVE', 'BETA', 'COMING_SOON'];
+
 const Products = () => {
-  const { data: products = [], isLoading } = useQuery({
-    queryKey: ['products'],
-    queryFn: productService.getAll,
+  const { filters, hasFilters, setFilter, clearFilters } = useListFilters(FILTER_KEYS);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['products', filters],
+    queryFn: ({ pageParam }) =>
+      productService.list({
+        status: filters.status as Product['status'] | undefined,
+        sort: filters.sort as ContentSort | undefined,
+        cursor: pageParam,
+      }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.meta.nextCursor ?? undefined,
   });
 
+  const products = data?.pages.flatMap((page) => page.data) ?? [];
+  const total = data?.pages[0]?.meta.total ?? 0;
+
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
       case 'LIVE':
@@ -37,54 +54,96 @@ const Products = () => {
           </p>
         </div>
 
+        <div className="mb-8 flex flex-col sm:flex-row gap-4 justify-center">
+          <div className="flex-1 max-w-xs">
+            <label htmlFor="status-filter" className="block text-sm font-medium mb-2">
+              Status
+            </label>
+            <select
+              id="status-filter"
+              value={filters.status || 'ALL'}
+              onChange={(e) => setFilter('status', e.target.value === 'ALL' ? undefined : e.target.value)}
+              className="w-full px-4 py-2 border border-input bg-background rounded-md"
+            >
+              <option value="ALL">All</option>
+              {STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {status.replace('_', ' ')}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <SortSelect value={filters.sort} onChange={(sort) => setFilter('sort', sort)} />
+        </div>
+
         {isLoading ? (
           <div className="text-center py-12 text-muted-foreground">Loading products...</div>
         ) : products.length === 0 ? (
           <div className="text-center py-12">
-            <p className="text-lg text-muted-foreground">No products available at the moment.</p>
+            <p className="text-lg text-muted-foreground mb-4">
+              {hasFilters ? 'No products match your selected filters.' : 'No products available at the moment.'}
+            </p>
+            {hasFilters && (
+              <Button variant="outline" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            )}
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {products.map((product) => (
-              <Card key={product.id} className="hover:shadow-lg transition-shadow">
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <CardTitle>{product.title}</CardTitle>
-                    <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusBadgeColor(product.status)}`}>
-                      {product.status.replace('_', ' ')}
-                    </span>
-                  </div>
-                  <CardDescription>{product.description}</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div>
-                      <p className="text-sm font-medium mb-1">Problem Solved:</p>
-                      <p className="text-sm text-muted-foreground">{product.problemSolved}</p>
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {products.map((product) => (
+                <Card key={product.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <CardTitle>{product.title}</CardTitle>
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-medium ${getStatusBadgeColor(product.status)}`}
+                        data-testid="product-status"
+                      >
+                        {product.status.replace('_', ' ')}
+                      </span>
                     </div>
-                    {product.pricing && (
-                      <p className="text-sm text-muted-foreground">
-                        <span className="font-medium">Pricing: </span>
-                        {product.pricing}
-                      </p>
-                    )}
-                    <Button
-                      asChild
-                      className="w-full"
-                    >
-                      <a
-                        href={product.externalLink}
-                        target="_blank"
-                        rel="noopener noreferrer"
+                    <CardDescription>{product.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div>
+                        <p className="text-sm font-medium mb-1">Problem Solved:</p>
+                        <p className="text-sm text-muted-foreground">{product.problemSolved}</p>
+                      </div>
+                      {product.pricing && (
+                        <p className="text-sm text-muted-foreground">
+                          <span className="font-medium">Pricing: </span>
+                          {product.pricing}
+                        </p>
+                      )}
+                      <Button
+                        asChild
+                        className="w-full"
                       >
-                        {product.status === 'LIVE' ? 'Try Now' : product.status === 'BETA' ? 'Join Beta' : 'Join Waitlist'}
-                      </a>
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+                        <a
+                          href={product.externalLink}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          {product.status === 'LIVE' ? 'Try Now' : product.status === 'BETA' ? 'Join Beta' : 'Join Waitlist'}
+                        </a>
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <LoadMore
+              shown={products.length}
+              total={total}
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              onLoadMore={() => fetchNextPage()}
+            />
+          </>
         )}
       </div>
     </div>
@@ -6,6 +6,7 @@
 import { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { authService } from '../services/api/authService';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
@@ -18,6 +19,8 @@ const Register = () => {
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [awaitingVerification, setAwaitingVerification] = useState(false);
+  const [resendStatus, setResendStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
 
   const { register } = useAuth();
   const navigate = useNavigate();
@@ -29,8 +32,15 @@ const Register = () => {
     setIsSubmitting(true);
 
     try {
-      await register({ name, email, password });
+      const result = await register({ name, email, password });
       setSuccess(true);
+
+      // With email verification on, the account stays locked until the link is clicked
+      if (result?.verificationRequired) {
+        setAwaitingVerification(true);
+        return;
+      }
+
       // Redirect to login after successful registration
       setTimeout(() => {
         navigate('/login');
@@ -42,6 +52,15 @@ const Register = () => {
     }
   };
 
+  const handleResend = async () => {
+    setResendStatus('sending');
+    try {
+      await authService.resendVerification(email);
+    } finally {
+      setResendStatus('sent');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center px-4">
       <Card className="w-full max-w-md">
@@ -50,7 +69,32 @@ const Register = () => {
           <CardDescription>Sign up to access the admin panel</CardDescription>
         </CardHeader>
         <CardContent>
-          {success ? (
+          {success && awaitingVerification ? (
+            <div className="space-y-4">
+              <div className="p-3 bg-green-500/10 text-green-600 dark:text-green-400 text-sm rounded">
+                Check your inbox! We sent a verification link to <strong>{email}</strong>. Click it
+                to activate your account, then log in.
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleResend}
+                disabled={resendStatus !== 'idle'}
+              >
+                {resendStatus === 'sent'
+                  ? 'Verification email sent'
+                  : resendStatus === 'sending'
+                    ? 'Sending...'
+                    : 'Resend verification email'}
+              </Button>
+              <div className="text-center text-sm">
+                <Link to="/login" className="text-primary hover:underline">
+                  Go to login
+                </Link>
+              </div>
+            </div>
+          ) : success ? (
             <div className="space-y-4">
               <div className="p-3 bg-green-500/10 text-green-600 dark:text-green-400 text-sm rounded">
                 Registration successful! Redirecting to login...
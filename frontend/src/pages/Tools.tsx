@@ -3,17 +3,33 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useQuery } from '@tanstack/react-query';
-import { toolService, Tool } from '../services/api/contentService';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { toolService, ContentSort } from '../services/api/contentService';
+import { useListFilters } from '../hooks/useListFilters';
+import { LoadMore, SortSelect } from '../components/ListControls';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 
+const FILTER_KEYS = ['featured', 'sort'] as const;
+
 const Tools = () => {
-  const { data: tools = [], isLoading } = useQuery({
-    queryKey: ['tools'],
-    queryFn: toolService.getAll,
+  const { filters, hasFilters, setFilter, clearFilters } = useListFilters(FILTER_KEYS);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['tools', filters],
+    queryFn: ({ pageParam }) =>
+      toolService.list({
+        featured: filters.featured === 'true' ? true : undefined,
+        sort: filters.sort as ContentSort | undefined,
+        cursor: pageParam,
+      }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.meta.nextCursor ?? undefined,
   });
 
+  const tools = data?.pages.flatMap((page) => page.data) ?? [];
+  const total = data?.pages[0]?.meta.total ?? 0;
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-12">
@@ -24,49 +40,77 @@ const Tools = () => {
           </p>
         </div>
 
+        <div className="mb-8 flex flex-col sm:flex-row gap-4 justify-center items-end">
+          <SortSelect value={filters.sort} onChange={(sort) => setFilter('sort', sort)} />
+          <label className="flex items-center gap-2 text-sm font-medium py-2">
+            <input
+              type="checkbox"
+              checked={filters.featured === 'true'}
+              onChange={(e) => setFilter('featured', e.target.checked ? 'true' : undefined)}
+            />
+            Featured only
+          </label>
+        </div>
+
         {isLoading ? (
           <div className="text-center py-12 text-muted-foreground">Loading tools...</div>
         ) : tools.length === 0 ? (
           <div className="text-center py-12">
-            <p className="text-lg text-muted-foreground">No tools available at the moment.</p>
+            <p className="text-lg text-muted-foreground mb-4">
+              {hasFilters ? 'No tools match your selected filters.' : 'No tools available at the moment.'}
+            </p>
+            {hasFilters && (
+              <Button variant="outline" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            )}
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {tools.map((tool) => (
-              <Card key={tool.id} className="hover:shadow-lg transition-shadow">
-                <CardHeader>
-                  <CardTitle>{tool.title}</CardTitle>
-                  <CardDescription>{tool.description}</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div>
-                      <p className="text-sm font-medium mb-1">Problem Solved:</p>
-                      <p className="text-sm text-muted-foreground">{tool.problemSolved}</p>
-                    </div>
-                    {tool.whoShouldUse && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {tools.map((tool) => (
+                <Card key={tool.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <CardTitle>{tool.title}</CardTitle>
+                    <CardDescription>{tool.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
                       <div>
-                        <p className="text-sm font-medium mb-1">Who Should Use:</p>
-                        <p className="text-sm text-muted-foreground">{tool.whoShouldUse}</p>
+                        <p className="text-sm font-medium mb-1">Problem Solved:</p>
+                        <p className="text-sm text-muted-foreground">{tool.problemSolved}</p>
                       </div>
-                    )}
-                    <Button
-                      asChild
-                      className="w-full"
-                    >
-                      <a
-                        href={tool.externalLink}
-                        target="_blank"
-                        rel="noopener noreferrer"
+                      {tool.whoShouldUse && (
+                        <div>
+                          <p className="text-sm font-medium mb-1">Who Should Use:</p>
+                          <p className="text-sm text-muted-foreground">{tool.whoShouldUse}</p>
+                        </div>
+                      )}
+                      <Button
+                        asChild
+                        className="w-full"
                       >
-                        Learn More
-                      </a>
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+                        <a
+                          href={tool.externalLink}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          Learn More
+                        </a>
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <LoadMore
+              shown={tools.length}
+              total={total}
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              onLoadMore={() => fetchNextPage()}
+            />
+          </>
         )}
       </div>
     </div>
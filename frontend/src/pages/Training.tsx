@@ -3,32 +3,38 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useState, useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { trainingService, Training } from '../services/api/contentService';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { trainingService, ContentSort } from '../services/api/contentService';
+import { useListFilters } from '../hooks/useListFilters';
+import { LoadMore, SortSelect } from '../components/ListControls';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 
 type TrainingCategory = 'ALL' | 'INTRODUCTORY' | 'NICHE_TOPICS' | 'TOOL_BASED' | 'CODE_ALONG' | 'APPS' | 'UTILITIES' | 'SAAS_SCAFFOLDING';
 type TrainingLevel = 'ALL' | 'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED';
 
+const FILTER_KEYS = ['category', 'level', 'sort'] as const;
+
 const Training = () => {
-  const [selectedCategory, setSelectedCategory] = useState<TrainingCategory>('ALL');
-  const [selectedLevel, setSelectedLevel] = useState<TrainingLevel>('ALL');
+  const { filters, hasFilters, setFilter, clearFilters } = useListFilters(FILTER_KEYS);
+  const selectedCategory = (filters.category || 'ALL') as TrainingCategory;
+  const selectedLevel = (filters.level || 'ALL') as TrainingLevel;
 
-  const { data: trainings = [], isLoading, error } = useQuery({
-    queryKey: ['trainings'],
-    queryFn: trainingService.getAll,
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['trainings', filters],
+    queryFn: ({ pageParam }) =>
+      trainingService.list({
+        category: filters.category,
+        level: filters.level,
+        sort: filters.sort as ContentSort | undefined,
+        cursor: pageParam,
+      }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.meta.nextCursor ?? undefined,
   });
 
-  // Filter trainings based on selected filters
-  const filteredTrainings = useMemo(() => {
-    return trainings.filter((training) => {
-      const categoryMatch = selectedCategory === 'ALL' || training.category === selectedCategory;
-      const levelMatch = selectedLevel === 'ALL' || training.level === selectedLevel;
-      return categoryMatch && levelMatch;
-    });
-  }, [trainings, selectedCategory, selectedLevel]);
+  const trainings = data?.pages.flatMap((page) => page.data) ?? [];
+  const total = data?.pages[0]?.meta.total ?? 0;
 
   const categories: TrainingCategory[] = ['ALL', 'INTRODUCTORY', 'NICHE_TOPICS', 'TOOL_BASED', 'CODE_ALONG', 'APPS', 'UTILITIES', 'SAAS_SCAFFOLDING'];
   const levels: TrainingLevel[] = ['ALL', 'BEGINNER', 'INTERMEDIATE', 'ADVANCED'];
@@ -62,7 +68,7 @@ const Training = () => {
             <select
               id="category-filter"
               value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value as TrainingCategory)}
+              onChange={(e) => setFilter('category', e.target.value === 'ALL' ? undefined : e.target.value)}
               className="w-full px-4 py-2 border border-input bg-background rounded-md"
             >
               {categories.map((cat) => (
@@ -80,7 +86,7 @@ const Training = () => {
             <select
               id="level-filter"
               value={selectedLevel}
-              onChange={(e) => setSelectedLevel(e.target.value as TrainingLevel)}
+              onChange={(e) => setFilter('level', e.target.value === 'ALL' ? undefined : e.target.value)}
               className="w-full px-4 py-2 border border-input bg-background rounded-md"
             >
               {levels.map((level) => (
@@ -90,6 +96,8 @@ const Training = () => {
               ))}
             </select>
           </div>
+
+          <SortSelect value={filters.sort} onChange={(sort) => setFilter('sort', sort)} />
         </div>
 
         {/* Training List */}
@@ -99,70 +107,73 @@ const Training = () => {
           <div className="text-center py-12 text-destructive">
             Error loading trainings. Please try again later.
           </div>
-        ) : filteredTrainings.length === 0 ? (
+        ) : trainings.length === 0 ? (
           <div className="text-center py-12">
             <p className="text-lg text-muted-foreground mb-4">
-              {trainings.length === 0
-                ? 'No trainings available at the moment. Check back soon!'
-                : 'No trainings match your selected filters.'}
+              {hasFilters
+                ? 'No trainings match your selected filters.'
+                : 'No trainings available at the moment. Check back soon!'}
             </p>
-            {(selectedCategory !== 'ALL' || selectedLevel !== 'ALL') && (
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setSelectedCategory('ALL');
-                  setSelectedLevel('ALL');
-                }}
-              >
+            {hasFilters && (
+              <Button variant="outline" onClick={clearFilters}>
                 Clear Filters
               </Button>
             )}
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredTrainings.map((training) => (
-              <Card key={training.id} className="hover:shadow-lg transition-shadow">
-                <CardHeader>
-                  <CardTitle>{training.title}</CardTitle>
-                  <CardDescription>{training.description}</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
-                      <span className="px-2 py-1 bg-muted rounded" data-testid="training-category">
-                        {formatCategory(training.category)}
-                      </span>
-                      <span className="px-2 py-1 bg-muted rounded" data-testid="training-level">
-                        {formatLevel(training.level)}
-                      </span>
-                      {training.duration && (
-                        <span className="px-2 py-1 bg-muted rounded">
-                          {training.duration} min
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {trainings.map((training) => (
+                <Card key={training.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader>
+                    <CardTitle>{training.title}</CardTitle>
+                    <CardDescription>{training.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+                        <span className="px-2 py-1 bg-muted rounded" data-testid="training-category">
+                          {formatCategory(training.category)}
                         </span>
-                      )}
-                      {training.price !== undefined && training.price > 0 && (
-                        <span className="px-2 py-1 bg-muted rounded">
-                          ${training.price}
+                        <span className="px-2 py-1 bg-muted rounded" data-testid="training-level">
+                          {formatLevel(training.level)}
                         </span>
-                      )}
-                    </div>
-                    <Button
-                      asChild
-                      className="w-full"
-                    >
-                      <a
-                        href={training.externalLink}
-                        target="_blank"
-                        rel="noopener noreferrer"
+                        {training.duration && (
+                          <span className="px-2 py-1 bg-muted rounded">
+                            {training.duration} min
+                          </span>
+                        )}
+                        {training.price !== undefined && training.price > 0 && (
+                          <span className="px-2 py-1 bg-muted rounded">
+                            ${training.price}
+                          </span>
+                        )}
+                      </div>
+                      <Button
+                        asChild
+                        className="w-full"
                       >
-                        View Training
-                      </a>
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+                        <a
+                          href={training.externalLink}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          View Training
+                        </a>
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <LoadMore
+              shown={trainings.length}
+              total={total}
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              onLoadMore={() => fetchNextPage()}
+            />
+          </>
         )}
       </div>
     </div>
@@ -3,10 +3,11 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { trainingService } from '../services/api/contentService';
 import { Button } from '../components/ui/button';
+import { PreviewBanner } from '../components/PreviewControls';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 
 interface TrainingDetailProps {
@@ -16,10 +17,12 @@ interface TrainingDetailProps {
 const TrainingDetail = ({ trainingId: propTrainingId }: TrainingDetailProps) => {
   const { id } = useParams<{ id: string }>();
   const trainingId = propTrainingId || id || '';
+  const [searchParams] = useSearchParams();
+  const preview = searchParams.get('preview') || undefined;
 
   const { data: training, isLoading, error } = useQuery({
-    queryKey: ['training', trainingId],
-    queryFn: () => trainingService.getById(trainingId),
+    queryKey: ['training', trainingId, preview],
+    queryFn: () => trainingService.getById(trainingId, preview),
     enabled: !!trainingId,
   });
 
@@ -33,6 +36,7 @@ const TrainingDetail = ({ trainingId: propTrainingId }: TrainingDetailProps) =>
 
   return (
     <div className="min-h-screen bg-background">
+      {preview && <PreviewBanner />}
       <div className="container mx-auto px-4 py-12">
         <Card>
           <CardHeader>
@@ -0,0 +1,98 @@
+/**
+ * Verify Email Page Component
+ * Landing page for the emailed verification link (?token=...)
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { authService } from '../services/api/authService';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmail = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(token ? null : 'This link is missing its token.');
+  const [email, setEmail] = useState('');
+  const [resent, setResent] = useState(false);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so guard against StrictMode's double effect run
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    authService
+      .verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err: any) => {
+        setStatus('failed');
+        setError(err.response?.data?.error || 'Verification failed.');
+      });
+  }, [token]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await authService.resendVerification(email);
+    } finally {
+      setResent(true);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">Email Verification</CardTitle>
+          <CardDescription>
+            {status === 'verifying' && 'Verifying your email address...'}
+            {status === 'verified' && 'Your email address has been verified.'}
+            {status === 'failed' && 'We could not verify your email address.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === 'failed' && (
+            <>
+              {error && (
+                <div className="p-3 bg-destructive/10 text-destructive text-sm rounded">{error}</div>
+              )}
+              {resent ? (
+                <p className="text-sm text-muted-foreground">
+                  If that account still needs verifying, a new link is on its way.
+                </p>
+              ) : (
+                <form onSubmit={handleResend} className="space-y-2">
+                  <Label htmlFor="email">Send a new link to</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    autoComplete="email"
+                  />
+                  <Button type="submit" variant="outline" className="w-full">
+                    Resend verification email
+                  </Button>
+                </form>
+              )}
+            </>
+          )}
+          {status !== 'verifying' && (
+            <Button asChild className="w-full">
+              <Link to="/login">Continue to login</Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyEmail;
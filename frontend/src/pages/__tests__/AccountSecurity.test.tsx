@@ -0,0 +1,145 @@
+/**
+ * Account Security Page Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import AccountSecurity from '../AccountSecurity';
+import { authService } from '../../services/api/authService';
+
+const logoutEverywhere = vi.fn();
+
+vi.mock('../../services/api/authService', () => ({
+  authService: {
+    listSessions: vi.fn(),
+    revokeSession: vi.fn(),
+    twoFactorStatus: vi.fn(),
+    setupTwoFactor: vi.fn(),
+    enableTwoFactor: vi.fn(),
+    disableTwoFactor: vi.fn(),
+    regenerateRecoveryCodes: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/api/adminService', () => ({
+  securityPolicyService: {
+    get: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../contexts/AuthContext', () => ({
+  useAuth: () => ({ user: { role: 'ADMIN' }, logoutEverywhere }),
+}));
+
+const twoFactorOff = { enabled: false, enabledAt: null, recoveryCodesRemaining: 0, required: false };
+
+const sessions = [
+  {
+    id: 'session-1',
+    userAgent: 'Firefox on Linux',
+    ipAddress: '10.0.0.1',
+    createdAt: '2025-12-20T10:00:00.000Z',
+    lastUsedAt: '2025-12-21T10:00:00.000Z',
+    expiresAt: '2026-01-19T10:00:00.000Z',
+    current: true,
+  },
+  {
+    id: 'session-2',
+    userAgent: 'Safari on iPhone',
+    ipAddress: '10.0.0.2',
+    createdAt: '2025-12-18T10:00:00.000Z',
+    lastUsedAt: '2025-12-19T10:00:00.000Z',
+    expiresAt: '2026-01-17T10:00:00.000Z',
+    current: false,
+  },
+];
+
+describe('Account Security Page', () => {
+  let queryClient: QueryClient;
+
+  const renderPage = () =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <AccountSecurity />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+    vi.mocked(authService.listSessions).mockResolvedValue(sessions);
+    vi.mocked(authService.twoFactorStatus).mockResolvedValue(twoFactorOff);
+  });
+
+  it('should list devices and mark the current one', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Firefox on Linux')).toBeInTheDocument();
+    expect(screen.getByText('This device')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Sign out Firefox on Linux' })).not.toBeInTheDocument();
+  });
+
+  it('should sign out another device', async () => {
+    const user = userEvent.setup();
+    vi.mocked(authService.revokeSession).mockResolvedValue(undefined);
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Sign out Safari on iPhone' }));
+
+    await waitFor(() => {
+      expect(authService.revokeSession).toHaveBeenCalledWith('session-2');
+    });
+    expect(authService.listSessions).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log out everywhere after confirmation', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    logoutEverywhere.mockResolvedValue(undefined);
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Log out everywhere' }));
+
+    await waitFor(() => {
+      expect(logoutEverywhere).toHaveBeenCalled();
+    });
+  });
+
+  it('should set up two-factor authentication and show the recovery codes', async () => {
+    const user = userEvent.setup();
+    vi.mocked(authService.setupTwoFactor).mockResolvedValue({
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUri: 'otpauth://totp/App%3Auser?secret=JBSWY3DPEHPK3PXP',
+    });
+    vi.mocked(authService.enableTwoFactor).mockResolvedValue({ recoveryCodes: ['aaaaa-bbbbb', 'ccccc-ddddd'] });
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Set up two-factor authentication' }));
+    expect(await screen.findByText('JBSWY3DPEHPK3PXP')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Authentication code'), '123456');
+    await user.click(screen.getByRole('button', { name: 'Turn on' }));
+
+    expect(await screen.findByText('aaaaa-bbbbb')).toBeInTheDocument();
+    expect(authService.enableTwoFactor).toHaveBeenCalledWith('123456');
+  });
+
+  it('should not offer to turn 2FA off while the policy requires it', async () => {
+    vi.mocked(authService.twoFactorStatus).mockResolvedValue({
+      enabled: true,
+      enabledAt: '2025-12-20T10:00:00.000Z',
+      recoveryCodesRemaining: 8,
+      required: true,
+    });
+    renderPage();
+
+    expect(await screen.findByText(/8 recovery codes left/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Turn off' })).not.toBeInTheDocument();
+  });
+});
@@ -9,14 +9,6 @@ import { BrowserRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import AdminDashboard from '../AdminDashboard';
 
-vi.mock('../../services/api/contentService', () => ({
-  trainingService: { getAll: vi.fn() },
-  toolService: { getAll: vi.fn() },
-  productService: { getAll: vi.fn() },
-  knowledgeService: { getAll: vi.fn() },
-  communityService: { getAll: vi.fn() },
-}));
-
 describe('Admin Dashboard', () => {
   let queryClient: QueryClient;
 
@@ -12,10 +12,12 @@ import * as contentService from '../../services/api/contentService';
 
 vi.mock('../../services/api/contentService', () => ({
   communityService: {
-    getAll: vi.fn(),
+    list: vi.fn(),
   },
 }));
 
+const page = (data: any[]) => ({ data, meta: { total: data.length, nextCursor: null } });
+
 describe('Community Page', () => {
   let queryClient: QueryClient;
 
@@ -37,7 +39,7 @@ describe('Community Page', () => {
   };
 
   it('should render page title', () => {
-    vi.mocked(contentService.communityService.getAll).mockResolvedValue([]);
+    vi.mocked(contentService.communityService.list).mockResolvedValue(page([]));
     renderCommunity();
     expect(screen.getByRole('heading', { name: /community/i })).toBeInTheDocument();
   });
@@ -57,7 +59,7 @@ describe('Community Page', () => {
       },
     ];
 
-    vi.mocked(contentService.communityService.getAll).mockResolvedValue(mockLinks as any);
+    vi.mocked(contentService.communityService.list).mockResolvedValue(page(mockLinks) as any);
     renderCommunity();
 
     await waitFor(() => {
@@ -0,0 +1,58 @@
+/**
+ * Forgot Password Page Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import ForgotPassword from '../ForgotPassword';
+import { authService } from '../../services/api/authService';
+
+vi.mock('../../services/api/authService', () => ({
+  authService: {
+    forgotPassword: vi.fn(),
+  },
+}));
+
+describe('Forgot Password Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderPage = () =>
+    render(
+      <BrowserRouter>
+        <ForgotPassword />
+      </BrowserRouter>
+    );
+
+  it('should request a reset link and show confirmation', async () => {
+    const user = userEvent.setup();
+    vi.mocked(authService.forgotPassword).mockResolvedValue(undefined);
+
+    renderPage();
+
+    await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+    await user.click(screen.getByRole('button', { name: /send reset link/i }));
+
+    await waitFor(() => {
+      expect(authService.forgotPassword).toHaveBeenCalledWith('test@example.com');
+      expect(screen.getByText(/reset link is on its way/i)).toBeInTheDocument();
+    });
+  });
+
+  it('should display an error when the request fails', async () => {
+    const user = userEvent.setup();
+    vi.mocked(authService.forgotPassword).mockRejectedValue(new Error('Network Error'));
+
+    renderPage();
+
+    await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+    await user.click(screen.getByRole('button', { name: /send reset link/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Network Error')).toBeInTheDocument();
+    });
+  });
+});
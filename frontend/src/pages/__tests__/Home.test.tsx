@@ -15,15 +15,6 @@ vi.mock('../../services/api/contentService', () => ({
   trainingService: {
     getFeatured: vi.fn(),
   },
-  productService: {
-    getAll: vi.fn(),
-  },
-  toolService: {
-    getAll: vi.fn(),
-  },
-  knowledgeService: {
-    getAll: vi.fn(),
-  },
 }));
 
 describe('Home Page', () => {
@@ -53,9 +44,6 @@ describe('Home Page', () => {
   describe('Hero Section', () => {
     it('should render hero section with title', () => {
       vi.mocked(contentService.trainingService.getFeatured).mockResolvedValue([]);
-      vi.mocked(contentService.productService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.toolService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
 
       renderHome();
 
@@ -64,9 +52,6 @@ describe('Home Page', () => {
 
     it('should render hero section with description', () => {
       vi.mocked(contentService.trainingService.getFeatured).mockResolvedValue([]);
-      vi.mocked(contentService.productService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.toolService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
 
       renderHome();
 
@@ -108,9 +93,6 @@ describe('Home Page', () => {
       ];
 
       vi.mocked(contentService.trainingService.getFeatured).mockResolvedValue(mockTrainings as any);
-      vi.mocked(contentService.productService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.toolService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
 
       renderHome();
 
@@ -122,9 +104,6 @@ describe('Home Page', () => {
 
     it('should display empty state when no featured trainings', async () => {
       vi.mocked(contentService.trainingService.getFeatured).mockResolvedValue([]);
-      vi.mocked(contentService.productService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.toolService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
 
       renderHome();
 
@@ -138,9 +117,6 @@ describe('Home Page', () => {
   describe('Quick Links Section', () => {
     it('should render quick links to main sections', () => {
       vi.mocked(contentService.trainingService.getFeatured).mockResolvedValue([]);
-      vi.mocked(contentService.productService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.toolService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
 
       renderHome();
 
@@ -158,9 +134,6 @@ describe('Home Page', () => {
   describe('API Integration', () => {
     it('should fetch featured trainings on mount', async () => {
       vi.mocked(contentService.trainingService.getFeatured).mockResolvedValue([]);
-      vi.mocked(contentService.productService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.toolService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
 
       renderHome();
 
@@ -173,9 +146,6 @@ describe('Home Page', () => {
       vi.mocked(contentService.trainingService.getFeatured).mockRejectedValue(
         new Error('API Error')
       );
-      vi.mocked(contentService.productService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.toolService.getAll).mockResolvedValue([]);
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
 
       renderHome();
 
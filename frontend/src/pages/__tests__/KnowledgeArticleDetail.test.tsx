@@ -0,0 +1,114 @@
+/**
+ * Knowledge Article Detail Page Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import KnowledgeArticleDetail from '../KnowledgeArticleDetail';
+import * as contentService from '../../services/api/contentService';
+
+vi.mock('../../services/api/contentService', () => ({
+  knowledgeService: {
+    getById: vi.fn(),
+    getBySlug: vi.fn(),
+  },
+}));
+
+const mockArticle = {
+  id: '3f2a8c1e-5b6d-4e7f-8a9b-0c1d2e3f4a5b',
+  title: 'Understanding Transformers',
+  slug: 'understanding-transformers',
+  description: 'An introduction to attention',
+  content: [
+    '## Attention',
+    '',
+    '| Model | Year |',
+    '| ----- | ---- |',
+    '| GPT   | 2018 |',
+    '',
+    '```ts',
+    'const x = 1;',
+    '```',
+    '',
+    '[Paper](https://arxiv.org/abs/1706.03762) and [bad](javascript:alert(1))',
+  ].join('\n'),
+  category: 'CORE_CONCEPTS',
+  readTime: 10,
+  featured: false,
+  isActive: true,
+  displayOrder: 0,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+describe('Knowledge Article Detail Page', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+  });
+
+  const renderAt = (path: string) =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <MemoryRouter initialEntries={[path]}>
+          <Routes>
+            <Route path="/knowledge/:slug" element={<KnowledgeArticleDetail />} />
+          </Routes>
+        </MemoryRouter>
+      </QueryClientProvider>
+    );
+
+  it('should render the markdown content of the article', async () => {
+    vi.mocked(contentService.knowledgeService.getBySlug).mockResolvedValue(mockArticle as any);
+
+    renderAt('/knowledge/understanding-transformers');
+
+    await waitFor(() => {
+      expect(screen.getByRole('heading', { name: 'Understanding Transformers' })).toBeInTheDocument();
+    });
+    expect(contentService.knowledgeService.getBySlug).toHaveBeenCalledWith('understanding-transformers', undefined);
+    expect(screen.getByRole('heading', { name: 'Attention' })).toBeInTheDocument();
+    expect(screen.getByRole('table')).toBeInTheDocument();
+    expect(screen.getByText('const x = 1;')).toBeInTheDocument();
+
+    const paperLink = screen.getByRole('link', { name: 'Paper' });
+    expect(paperLink).toHaveAttribute('target', '_blank');
+    expect(paperLink.getAttribute('rel')).toContain('noopener');
+    expect(screen.getByText('bad').getAttribute('href') || '').not.toContain('javascript:');
+  });
+
+  it('should redirect legacy id URLs to the slug URL', async () => {
+    vi.mocked(contentService.knowledgeService.getById).mockResolvedValue(mockArticle as any);
+    vi.mocked(contentService.knowledgeService.getBySlug).mockResolvedValue(mockArticle as any);
+
+    renderAt(`/knowledge/${mockArticle.id}`);
+
+    await waitFor(() => {
+      expect(contentService.knowledgeService.getBySlug).toHaveBeenCalledWith('understanding-transformers', undefined);
+    });
+    expect(contentService.knowledgeService.getById).toHaveBeenCalledWith(mockArticle.id, undefined);
+  });
+
+  it('should show not found state when the article does not exist', async () => {
+    vi.mocked(contentService.knowledgeService.getBySlug).mockRejectedValue(new Error('Not found'));
+
+    renderAt('/knowledge/missing');
+
+    await waitFor(() => {
+      expect(screen.getByText('Article not found')).toBeInTheDocument();
+    });
+  });
+
+  it('should pass the preview token through and show the preview banner', async () => {
+    vi.mocked(contentService.knowledgeService.getBySlug).mockResolvedValue(mockArticle as any);
+
+    renderAt('/knowledge/understanding-transformers?preview=signed-token');
+
+    expect(await screen.findByRole('status')).toHaveTextContent(/preview/i);
+    expect(contentService.knowledgeService.getBySlug).toHaveBeenCalledWith('understanding-transformers', 'signed-token');
+  });
+});
@@ -13,11 +13,16 @@ import * as contentService from '../../services/api/contentService';
 
 vi.mock('../../services/api/contentService', () => ({
   knowledgeService: {
-    getAll: vi.fn(),
+    list: vi.fn(),
     search: vi.fn(),
   },
 }));
 
+const page = (data: any[]) => ({
+  data,
+  meta: { total: data.length, nextCursor: null },
+});
+
 describe('Knowledge Hub Page', () => {
   let queryClient: QueryClient;
 
@@ -28,6 +33,7 @@ describe('Knowledge Hub Page', () => {
       },
     });
     vi.clearAllMocks();
+    window.history.replaceState({}, '', '/');
   });
 
   const renderKnowledgeHub = () => {
@@ -42,7 +48,7 @@ describe('Knowledge Hub Page', () => {
 
   describe('Page Header', () => {
     it('should render page title', () => {
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
+      vi.mocked(contentService.knowledgeService.list).mockResolvedValue(page([]));
       renderKnowledgeHub();
       expect(screen.getByRole('heading', { name: /knowledge/i })).toBeInTheDocument();
     });
@@ -50,14 +56,14 @@ describe('Knowledge Hub Page', () => {
 
   describe('Search Functionality', () => {
     it('should have search input', () => {
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
+      vi.mocked(contentService.knowledgeService.list).mockResolvedValue(page([]));
       renderKnowledgeHub();
       expect(screen.getByPlaceholderText(/search/i)).toBeInTheDocument();
     });
 
     it('should search articles when query is entered', async () => {
       const user = userEvent.setup();
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue([]);
+      vi.mocked(contentService.knowledgeService.list).mockResolvedValue(page([]));
       vi.mocked(contentService.knowledgeService.search).mockResolvedValue([]);
 
       renderKnowledgeHub();
@@ -67,6 +73,20 @@ describe('Knowledge Hub Page', () => {
       await waitFor(() => {
         expect(contentService.knowledgeService.search).toHaveBeenCalledWith('AI');
       });
+      expect(window.location.search).toContain('q=AI');
+    });
+
+    it('should restore the search query from the URL', async () => {
+      window.history.replaceState({}, '', '/knowledge?q=prompts');
+      vi.mocked(contentService.knowledgeService.search).mockResolvedValue([]);
+
+      renderKnowledgeHub();
+
+      expect(screen.getByPlaceholderText(/search/i)).toHaveValue('prompts');
+      await waitFor(() => {
+        expect(contentService.knowledgeService.search).toHaveBeenCalledWith('prompts');
+      });
+      expect(contentService.knowledgeService.list).not.toHaveBeenCalled();
     });
   });
 
@@ -88,7 +108,7 @@ describe('Knowledge Hub Page', () => {
         },
       ];
 
-      vi.mocked(contentService.knowledgeService.getAll).mockResolvedValue(mockArticles as any);
+      vi.mocked(contentService.knowledgeService.list).mockResolvedValue(page(mockArticles) as any);
       renderKnowledgeHub();
 
       await waitFor(() => {
@@ -18,8 +18,12 @@ vi.mock('../../contexts/AuthContext', () => ({
 describe('Login Page', () => {
   let queryClient: QueryClient;
   const mockLogin = vi.fn();
+  const mockVerifyTwoFactor = vi.fn();
   const mockUseAuth = {
     login: mockLogin,
+    twoFactorPending: false,
+    verifyTwoFactor: mockVerifyTwoFactor,
+    cancelTwoFactor: vi.fn(),
     isLoading: false,
     isAuthenticated: false,
   };
@@ -50,7 +54,7 @@ describe('Login Page', () => {
 
   it('should submit login form with email and password', async () => {
     const user = userEvent.setup();
-    mockLogin.mockResolvedValue(undefined);
+    mockLogin.mockResolvedValue({ twoFactorRequired: false, twoFactorSetupRequired: false });
 
     renderLogin();
 
@@ -85,5 +89,43 @@ describe('Login Page', () => {
       expect(screen.getByText(/invalid|error|failed/i)).toBeInTheDocument();
     });
   });
-});
 
+  describe('two-factor step', () => {
+    beforeEach(() => {
+      vi.mocked(useAuth).mockReturnValue({ ...mockUseAuth, twoFactorPending: true } as any);
+    });
+
+    it('should ask for an authentication code instead of a password', () => {
+      renderLogin();
+
+      expect(screen.getByLabelText(/authentication code/i)).toBeInTheDocument();
+      expect(screen.queryByLabelText(/password/i)).not.toBeInTheDocument();
+    });
+
+    it('should verify the code', async () => {
+      const user = userEvent.setup();
+      mockVerifyTwoFactor.mockResolvedValue({ twoFactorRequired: false, twoFactorSetupRequired: false });
+
+      renderLogin();
+
+      await user.type(screen.getByLabelText(/authentication code/i), '123456');
+      await user.click(screen.getByRole('button', { name: /verify/i }));
+
+      await waitFor(() => {
+        expect(mockVerifyTwoFactor).toHaveBeenCalledWith('123456');
+      });
+    });
+
+    it('should show an error for a wrong code', async () => {
+      const user = userEvent.setup();
+      mockVerifyTwoFactor.mockRejectedValue(new Error('Invalid authentication code'));
+
+      renderLogin();
+
+      await user.type(screen.getByLabelText(/authentication code/i), '000000');
+      await user.click(screen.getByRole('button', { name: /verify/i }));
+
+      expect(await screen.findByText('Invalid authentication code')).toBeInTheDocument();
+    });
+  });
+});
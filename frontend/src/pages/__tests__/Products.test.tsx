@@ -5,6 +5,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter } from 'react-router-dom';
 import Products from '../Products';
@@ -12,10 +13,15 @@ import * as contentService from '../../services/api/contentService';
 
 vi.mock('../../services/api/contentService', () => ({
   productService: {
-    getAll: vi.fn(),
+    list: vi.fn(),
   },
 }));
 
+const page = (data: any[]) => ({
+  data,
+  meta: { total: data.length, nextCursor: null },
+});
+
 describe('Products Page', () => {
   let queryClient: QueryClient;
 
@@ -24,6 +30,7 @@ describe('Products Page', () => {
       defaultOptions: { queries: { retry: false } },
     });
     vi.clearAllMocks();
+    window.history.replaceState({}, '', '/');
   });
 
   const renderProducts = () => {
@@ -37,7 +44,7 @@ describe('Products Page', () => {
   };
 
   it('should render page title', () => {
-    vi.mocked(contentService.productService.getAll).mockResolvedValue([]);
+    vi.mocked(contentService.productService.list).mockResolvedValue(page([]));
     renderProducts();
     expect(screen.getByRole('heading', { name: /products?/i })).toBeInTheDocument();
   });
@@ -59,13 +66,29 @@ describe('Products Page', () => {
       },
     ];
 
-    vi.mocked(contentService.productService.getAll).mockResolvedValue(mockProducts as any);
+    vi.mocked(contentService.productService.list).mockResolvedValue(page(mockProducts) as any);
     renderProducts();
 
     await waitFor(() => {
       expect(screen.getByText('PDF Parser')).toBeInTheDocument();
-      expect(screen.getByText(/live/i)).toBeInTheDocument();
+      expect(screen.getByTestId('product-status')).toHaveTextContent(/live/i);
+    });
+  });
+
+  it('should request products for the selected status and keep it in the URL', async () => {
+    const user = userEvent.setup();
+    vi.mocked(contentService.productService.list).mockResolvedValue(page([]));
+    renderProducts();
+
+    await user.selectOptions(screen.getByLabelText(/status/i), 'BETA');
+
+    await waitFor(() => {
+      expect(contentService.productService.list).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'BETA' })
+      );
     });
+    expect(window.location.search).toContain('status=BETA');
+    expect(await screen.findByText(/no products match your selected filters/i)).toBeInTheDocument();
   });
 });
 
@@ -95,6 +95,31 @@ describe('Register Page', () => {
     });
   });
 
+  it('should show a check-your-inbox state when email verification is required', async () => {
+    const user = userEvent.setup();
+    mockRegister.mockResolvedValue({
+      id: '1',
+      email: 'test@example.com',
+      name: 'Test User',
+      role: 'USER',
+      isActive: true,
+      emailVerified: false,
+      verificationRequired: true,
+    });
+
+    renderRegister();
+
+    await user.type(screen.getByLabelText(/name/i), 'Test User');
+    await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+    await user.type(screen.getByLabelText(/password/i), 'Password123!');
+    await user.click(screen.getByRole('button', { name: /register|sign up/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/check your inbox/i)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /resend verification email/i })).toBeInTheDocument();
+    });
+  });
+
   it('should have link to login page', () => {
     renderRegister();
 
@@ -0,0 +1,64 @@
+/**
+ * Reset Password Page Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import ResetPassword from '../ResetPassword';
+import { authService } from '../../services/api/authService';
+
+vi.mock('../../services/api/authService', () => ({
+  authService: {
+    resetPassword: vi.fn(),
+  },
+}));
+
+describe('Reset Password Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderPage = (path: string) =>
+    render(
+      <MemoryRouter initialEntries={[path]}>
+        <ResetPassword />
+      </MemoryRouter>
+    );
+
+  it('should submit the token from the URL with the new password', async () => {
+    const user = userEvent.setup();
+    vi.mocked(authService.resetPassword).mockResolvedValue(undefined);
+
+    renderPage('/reset-password?token=abc123');
+
+    await user.type(screen.getByLabelText(/new password/i), 'NewPassword123!');
+    await user.type(screen.getByLabelText(/confirm password/i), 'NewPassword123!');
+    await user.click(screen.getByRole('button', { name: /reset password/i }));
+
+    await waitFor(() => {
+      expect(authService.resetPassword).toHaveBeenCalledWith('abc123', 'NewPassword123!');
+      expect(screen.getByText(/password reset successful/i)).toBeInTheDocument();
+    });
+  });
+
+  it('should not submit when passwords do not match', async () => {
+    const user = userEvent.setup();
+
+    renderPage('/reset-password?token=abc123');
+
+    await user.type(screen.getByLabelText(/new password/i), 'NewPassword123!');
+    await user.type(screen.getByLabelText(/confirm password/i), 'Different123!');
+    await user.click(screen.getByRole('button', { name: /reset password/i }));
+
+    expect(screen.getByText('Passwords do not match')).toBeInTheDocument();
+    expect(authService.resetPassword).not.toHaveBeenCalled();
+  });
+
+  it('should show an invalid link message without a token', () => {
+    renderPage('/reset-password');
+
+    expect(screen.getByText('Invalid Link')).toBeInTheDocument();
+  });
+});
@@ -12,10 +12,15 @@ import * as contentService from '../../services/api/contentService';
 
 vi.mock('../../services/api/contentService', () => ({
   toolService: {
-    getAll: vi.fn(),
+    list: vi.fn(),
   },
 }));
 
+const page = (data: any[]) => ({
+  data,
+  meta: { total: data.length, nextCursor: null },
+});
+
 describe('Tools Page', () => {
   let queryClient: QueryClient;
 
@@ -24,6 +29,7 @@ describe('Tools Page', () => {
       defaultOptions: { queries: { retry: false } },
     });
     vi.clearAllMocks();
+    window.history.replaceState({}, '', '/');
   });
 
   const renderTools = () => {
@@ -37,7 +43,7 @@ describe('Tools Page', () => {
   };
 
   it('should render page title', () => {
-    vi.mocked(contentService.toolService.getAll).mockResolvedValue([]);
+    vi.mocked(contentService.toolService.list).mockResolvedValue(page([]));
     renderTools();
     expect(screen.getByRole('heading', { name: /tools?/i })).toBeInTheDocument();
   });
@@ -58,7 +64,7 @@ describe('Tools Page', () => {
       },
     ];
 
-    vi.mocked(contentService.toolService.getAll).mockResolvedValue(mockTools as any);
+    vi.mocked(contentService.toolService.list).mockResolvedValue(page(mockTools) as any);
     renderTools();
 
     await waitFor(() => {
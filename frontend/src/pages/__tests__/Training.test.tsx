@@ -14,10 +14,15 @@ import * as contentService from '../../services/api/contentService';
 // Mock the API services
 vi.mock('../../services/api/contentService', () => ({
   trainingService: {
-    getAll: vi.fn(),
+    list: vi.fn(),
   },
 }));
 
+const page = (data: any[], nextCursor: string | null = null) => ({
+  data,
+  meta: { total: data.length, nextCursor },
+});
+
 describe('Training Page', () => {
   let queryClient: QueryClient;
 
@@ -30,6 +35,7 @@ describe('Training Page', () => {
       },
     });
     vi.clearAllMocks();
+    window.history.replaceState({}, '', '/trainings');
   });
 
   const renderTraining = () => {
@@ -44,7 +50,7 @@ describe('Training Page', () => {
 
   describe('Page Header', () => {
     it('should render page title', () => {
-      vi.mocked(contentService.trainingService.getAll).mockResolvedValue([]);
+      vi.mocked(contentService.trainingService.list).mockResolvedValue(page([]));
 
       renderTraining();
 
@@ -53,7 +59,7 @@ describe('Training Page', () => {
     });
 
     it('should render page description', () => {
-      vi.mocked(contentService.trainingService.getAll).mockResolvedValue([]);
+      vi.mocked(contentService.trainingService.list).mockResolvedValue(page([]));
 
       renderTraining();
 
@@ -98,7 +104,7 @@ describe('Training Page', () => {
         },
       ];
 
-      vi.mocked(contentService.trainingService.getAll).mockResolvedValue(mockTrainings as any);
+      vi.mocked(contentService.trainingService.list).mockResolvedValue(page(mockTrainings) as any);
 
       renderTraining();
 
@@ -127,7 +133,7 @@ describe('Training Page', () => {
         },
       ];
 
-      vi.mocked(contentService.trainingService.getAll).mockResolvedValue(mockTrainings as any);
+      vi.mocked(contentService.trainingService.list).mockResolvedValue(page(mockTrainings) as any);
 
       renderTraining();
 
@@ -142,12 +148,12 @@ describe('Training Page', () => {
     });
 
     it('should display empty state when no trainings', async () => {
-      vi.mocked(contentService.trainingService.getAll).mockResolvedValue([]);
+      vi.mocked(contentService.trainingService.list).mockResolvedValue(page([]));
 
       renderTraining();
 
       await waitFor(() => {
-        expect(contentService.trainingService.getAll).toHaveBeenCalled();
+        expect(contentService.trainingService.list).toHaveBeenCalled();
         // Should show some empty state message
         const emptyMessage = screen.queryByText(/no trainings|no courses|coming soon/i);
         expect(emptyMessage || screen.getByText(/trainings?/i)).toBeInTheDocument();
@@ -187,7 +193,9 @@ describe('Training Page', () => {
         },
       ];
 
-      vi.mocked(contentService.trainingService.getAll).mockResolvedValue(mockTrainings as any);
+      vi.mocked(contentService.trainingService.list).mockImplementation(async (params = {}) =>
+        page(mockTrainings.filter((t) => !params.category || t.category === params.category)) as any
+      );
 
       renderTraining();
 
@@ -200,6 +208,11 @@ describe('Training Page', () => {
       const categoryFilter = screen.getByLabelText(/category/i);
       await user.selectOptions(categoryFilter, 'TOOL_BASED');
 
+      expect(contentService.trainingService.list).toHaveBeenLastCalledWith(
+        expect.objectContaining({ category: 'TOOL_BASED' })
+      );
+      expect(window.location.search).toContain('category=TOOL_BASED');
+
       await waitFor(() => {
         // After filtering, only Tool Training should be visible
         expect(screen.queryByText('Intro Training')).not.toBeInTheDocument();
@@ -238,7 +251,9 @@ describe('Training Page', () => {
         },
       ];
 
-      vi.mocked(contentService.trainingService.getAll).mockResolvedValue(mockTrainings as any);
+      vi.mocked(contentService.trainingService.list).mockImplementation(async (params = {}) =>
+        page(mockTrainings.filter((t) => !params.level || t.level === params.level)) as any
+      );
 
       renderTraining();
 
@@ -251,12 +266,67 @@ describe('Training Page', () => {
       const levelFilter = screen.getByLabelText(/level/i);
       await user.selectOptions(levelFilter, 'ADVANCED');
 
+      expect(contentService.trainingService.list).toHaveBeenLastCalledWith(
+        expect.objectContaining({ level: 'ADVANCED' })
+      );
+
       await waitFor(() => {
         // After filtering, only Advanced Training should be visible
         expect(screen.queryByText('Beginner Training')).not.toBeInTheDocument();
         expect(screen.getByText('Advanced Training')).toBeInTheDocument();
       });
     });
+
+    it('should apply filters from the URL on load', async () => {
+      window.history.replaceState({}, '', '/trainings?category=APPS&sort=newest');
+      vi.mocked(contentService.trainingService.list).mockResolvedValue(page([]));
+
+      renderTraining();
+
+      await waitFor(() => {
+        expect(contentService.trainingService.list).toHaveBeenCalledWith(
+          expect.objectContaining({ category: 'APPS', sort: 'newest' })
+        );
+      });
+      expect(screen.getByLabelText(/category/i)).toHaveValue('APPS');
+      expect(await screen.findByText(/no trainings match your selected filters/i)).toBeInTheDocument();
+    });
+  });
+
+  describe('Pagination', () => {
+    it('should load the next page with the returned cursor', async () => {
+      const user = userEvent.setup();
+      const makeTraining = (id: string, title: string) => ({
+        id,
+        title,
+        description: 'Description',
+        category: 'INTRODUCTORY',
+        level: 'BEGINNER',
+        externalLink: `https://example.com/${id}`,
+        featured: false,
+        isActive: true,
+        displayOrder: 1,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+
+      vi.mocked(contentService.trainingService.list).mockImplementation(async (params = {}) =>
+        (params.cursor === 'cursor-1'
+          ? { data: [makeTraining('2', 'Second Page Training')], meta: { total: 2, nextCursor: null } }
+          : { data: [makeTraining('1', 'First Page Training')], meta: { total: 2, nextCursor: 'cursor-1' } }) as any
+      );
+
+      renderTraining();
+
+      expect(await screen.findByText('First Page Training')).toBeInTheDocument();
+      expect(screen.getByText(/showing 1 of 2/i)).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /load more/i }));
+
+      expect(await screen.findByText('Second Page Training')).toBeInTheDocument();
+      expect(screen.getByText('First Page Training')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /load more/i })).not.toBeInTheDocument();
+    });
   });
 
   describe('External Links', () => {
@@ -277,7 +347,7 @@ describe('Training Page', () => {
         },
       ];
 
-      vi.mocked(contentService.trainingService.getAll).mockResolvedValue(mockTrainings as any);
+      vi.mocked(contentService.trainingService.list).mockResolvedValue(page(mockTrainings) as any);
 
       renderTraining();
 
@@ -291,17 +361,17 @@ describe('Training Page', () => {
 
   describe('API Integration', () => {
     it('should fetch trainings on mount', async () => {
-      vi.mocked(contentService.trainingService.getAll).mockResolvedValue([]);
+      vi.mocked(contentService.trainingService.list).mockResolvedValue(page([]));
 
       renderTraining();
 
       await waitFor(() => {
-        expect(contentService.trainingService.getAll).toHaveBeenCalledTimes(1);
+        expect(contentService.trainingService.list).toHaveBeenCalledTimes(1);
       });
     });
 
     it('should handle API errors gracefully', async () => {
-      vi.mocked(contentService.trainingService.getAll).mockRejectedValue(
+      vi.mocked(contentService.trainingService.list).mockRejectedValue(
         new Error('API Error')
       );
 
@@ -0,0 +1,53 @@
+/**
+ * Verify Email Page Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import VerifyEmail from '../VerifyEmail';
+import { authService } from '../../services/api/authService';
+
+vi.mock('../../services/api/authService', () => ({
+  authService: {
+    verifyEmail: vi.fn(),
+    resendVerification: vi.fn(),
+  },
+}));
+
+describe('Verify Email Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderPage = (path: string) =>
+    render(
+      <MemoryRouter initialEntries={[path]}>
+        <VerifyEmail />
+      </MemoryRouter>
+    );
+
+  it('should verify the token from the URL', async () => {
+    vi.mocked(authService.verifyEmail).mockResolvedValue({} as any);
+
+    renderPage('/verify-email?token=abc123');
+
+    await waitFor(() => {
+      expect(screen.getByText(/has been verified/i)).toBeInTheDocument();
+    });
+    expect(authService.verifyEmail).toHaveBeenCalledWith('abc123');
+  });
+
+  it('should offer to resend when verification fails', async () => {
+    vi.mocked(authService.verifyEmail).mockRejectedValue({
+      response: { data: { error: 'Invalid or expired verification token' } },
+    });
+
+    renderPage('/verify-email?token=expired');
+
+    await waitFor(() => {
+      expect(screen.getByText('Invalid or expired verification token')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /resend verification email/i })).toBeInTheDocument();
+    });
+  });
+});
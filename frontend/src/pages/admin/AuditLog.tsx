@@ -0,0 +1,263 @@
+/**
+ * Admin Audit Log Explorer
+ * Filterable, paginated audit log with a detail drawer, activity charts and CSV/NDJSON export.
+ * Filters and the page number live in the URL so a view can be shared.
+ */
+
+import { useState } from 'react';
+import { keepPreviousData, useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import AuditLogDrawer from '../../components/AuditLogDrawer';
+import AuditStatsCharts from '../../components/AuditStatsCharts';
+import { useListFilters } from '../../hooks/useListFilters';
+import { AuditExportFormat, AuditLog, AuditLogFilters, auditService } from '../../services/api/auditService';
+
+const PAGE_SIZE = 25;
+
+const FILTER_KEYS = ['userEmail', 'action', 'resource', 'from', 'to', 'page'] as const;
+
+// Date inputs hold local calendar days; the API takes instants
+const startOfDay = (day?: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const endOfDay = (day?: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const AuditLogPage = () => {
+  const { filters, hasFilters, setFilter, setFilters, clearFilters } = useListFilters(FILTER_KEYS);
+  const [selected, setSelected] = useState<AuditLog | null>(null);
+
+  const page = Math.max(1, Number(filters.page) || 1);
+  const apiFilters: AuditLogFilters = {
+    userEmail: filters.userEmail,
+    action: filters.action,
+    resource: filters.resource,
+    startDate: startOfDay(filters.from),
+    endDate: endOfDay(filters.to),
+  };
+
+  // Changing a filter starts again from the first page
+  const updateFilter = (key: Exclude<(typeof FILTER_KEYS)[number], 'page'>, value?: string) => {
+    setFilters({ [key]: value, page: undefined });
+  };
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['admin', 'audit', 'logs', apiFilters, page],
+    queryFn: () => auditService.list(apiFilters, PAGE_SIZE, (page - 1) * PAGE_SIZE),
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: stats } = useQuery({
+    queryKey: ['admin', 'audit', 'stats', apiFilters],
+    queryFn: () => auditService.stats(apiFilters),
+  });
+
+  // Unfiltered stats provide the choices for the action and resource filters
+  const { data: allStats } = useQuery({
+    queryKey: ['admin', 'audit', 'stats', {}],
+    queryFn: () => auditService.stats({}),
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: (format: AuditExportFormat) => auditService.export(apiFilters, format),
+    onSuccess: (blob, format) => downloadBlob(blob, `audit-logs.${format}`),
+  });
+
+  const actions = Object.keys(allStats?.actionCounts ?? {}).sort();
+  const resources = Object.keys(allStats?.resourceCounts ?? {}).sort();
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const logs = data?.logs ?? [];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h1 className="text-3xl font-bold">Audit Log</h1>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => exportMutation.mutate('csv')}
+            disabled={exportMutation.isPending}
+          >
+            Export CSV
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => exportMutation.mutate('ndjson')}
+            disabled={exportMutation.isPending}
+          >
+            Export NDJSON
+          </Button>
+        </div>
+      </div>
+
+      {exportMutation.isError && <p className="text-sm text-destructive mb-4">The export failed. Please try again.</p>}
+
+      <div className="grid gap-4 md:grid-cols-5 mb-6">
+        <div>
+          <label htmlFor="audit-user" className="block text-sm font-medium mb-2">
+            User email
+          </label>
+          <Input
+            id="audit-user"
+            defaultValue={filters.userEmail}
+            placeholder="Any user"
+            onBlur={(e) => updateFilter('userEmail', e.target.value.trim() || undefined)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                updateFilter('userEmail', e.currentTarget.value.trim() || undefined);
+              }
+            }}
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-action" className="block text-sm font-medium mb-2">
+            Action
+          </label>
+          <select
+            id="audit-action"
+            value={filters.action || ''}
+            onChange={(e) => updateFilter('action', e.target.value || undefined)}
+            className="w-full px-4 py-2 border border-input bg-background rounded-md"
+          >
+            <option value="">All actions</option>
+            {actions.map((action) => (
+              <option key={action} value={action}>
+                {action}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="audit-resource" className="block text-sm font-medium mb-2">
+            Resource
+          </label>
+          <select
+            id="audit-resource"
+            value={filters.resource || ''}
+            onChange={(e) => updateFilter('resource', e.target.value || undefined)}
+            className="w-full px-4 py-2 border border-input bg-background rounded-md"
+          >
+            <option value="">All resources</option>
+            {resources.map((resource) => (
+              <option key={resource} value={resource}>
+                {resource}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="audit-from" className="block text-sm font-medium mb-2">
+            From
+          </label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateFilter('from', e.target.value || undefined)}
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-to" className="block text-sm font-medium mb-2">
+            To
+          </label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => updateFilter('to', e.target.value || undefined)}
+          />
+        </div>
+      </div>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" className="mb-4" onClick={clearFilters}>
+          Clear filters
+        </Button>
+      )}
+
+      {stats && <AuditStatsCharts stats={stats} />}
+
+      {isLoading ? (
+        <p>Loading...</p>
+      ) : isError ? (
+        <p className="text-destructive">Could not load the audit log.</p>
+      ) : logs.length === 0 ? (
+        <p className="text-muted-foreground">No audit entries match these filters.</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-md">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-left">
+              <tr>
+                <th className="px-4 py-2 font-medium">Time</th>
+                <th className="px-4 py-2 font-medium">User</th>
+                <th className="px-4 py-2 font-medium">Action</th>
+                <th className="px-4 py-2 font-medium">Resource</th>
+                <th className="px-4 py-2 font-medium">IP address</th>
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map((log) => (
+                <tr
+                  key={log.id}
+                  className="border-t cursor-pointer hover:bg-muted/50"
+                  onClick={() => setSelected(log)}
+                >
+                  <td className="px-4 py-2 whitespace-nowrap">{new Date(log.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-2">{log.user?.email ?? log.userId ?? '—'}</td>
+                  <td className="px-4 py-2">
+                    <button type="button" className="font-mono text-left hover:underline">
+                      {log.action}
+                    </button>
+                  </td>
+                  <td className="px-4 py-2">
+                    {log.resource ?? '—'}
+                    {log.resourceId && <span className="text-muted-foreground"> / {log.resourceId}</span>}
+                  </td>
+                  <td className="px-4 py-2">{log.ipAddress ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4 text-sm">
+        <span className="text-muted-foreground">
+          {total === 0
+            ? 'No entries'
+            : `Showing ${(page - 1) * PAGE_SIZE + 1}–${Math.min(page * PAGE_SIZE, total)} of ${total}`}
+        </span>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => setFilter('page', page - 1 > 1 ? String(page - 1) : undefined)}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= pageCount}
+            onClick={() => setFilter('page', String(page + 1))}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+
+      <AuditLogDrawer log={selected} onClose={() => setSelected(null)} />
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -3,27 +3,34 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { communityService } from '../../services/api/contentService';
+import { CommunityLink } from '../../services/api/contentService';
+import { adminContentService } from '../../services/api/adminService';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import RevisionHistoryDrawer from '../../components/RevisionHistoryDrawer';
+import { PublicationFields } from '../../components/PublicationControls';
+import { publicationSchema, refinePublication, toDateTimeLocal, toPublicationPayload } from '../../lib/publication';
 import axios from 'axios';
 
-const communitySchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().optional(),
-  platform: z.enum(['SKOOL', 'SLACK', 'DISCORD', 'OTHER']),
-  externalLink: z.string().url('Valid URL is required'),
-  isActive: z.boolean().optional(),
-  displayOrder: z.number().min(0).optional(),
-});
+const communitySchema = z
+  .object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().optional(),
+    platform: z.enum(['SKOOL', 'SLACK', 'DISCORD', 'OTHER']),
+    externalLink: z.string().url('Valid URL is required'),
+    isActive: z.boolean().optional(),
+    displayOrder: z.number().min(0).optional(),
+  })
+  .merge(publicationSchema)
+  .superRefine(refinePublication);
 
 type CommunityFormData = z.infer<typeof communitySchema>;
 
@@ -37,10 +44,11 @@ const CommunityForm = ({ linkId: propLinkId }: CommunityFormProps) => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const isEditMode = !!linkId;
+  const [showHistory, setShowHistory] = useState(false);
 
   const { data: link } = useQuery({
     queryKey: ['community', linkId],
-    queryFn: () => communityService.getById(linkId!),
+    queryFn: () => adminContentService.getById<CommunityLink>('community', linkId!),
     enabled: isEditMode,
   });
 
@@ -54,6 +62,7 @@ const CommunityForm = ({ linkId: propLinkId }: CommunityFormProps) => {
     defaultValues: {
       isActive: true,
       displayOrder: 0,
+      publicationStatus: 'PUBLISHED',
     },
   });
 
@@ -66,6 +75,9 @@ const CommunityForm = ({ linkId: propLinkId }: CommunityFormProps) => {
         externalLink: link.externalLink,
         isActive: link.isActive,
         displayOrder: link.displayOrder,
+        publicationStatus: link.publicationStatus,
+        publishAt: toDateTimeLocal(link.publishAt),
+        unpublishAt: toDateTimeLocal(link.unpublishAt),
       });
     }
   }, [link, reset]);
@@ -74,7 +86,7 @@ const CommunityForm = ({ linkId: propLinkId }: CommunityFormProps) => {
 
   const createMutation = useMutation({
     mutationFn: (data: CommunityFormData) =>
-      axios.post(`${API_URL}/admin/community`, data, {
+      axios.post(`${API_URL}/admin/community`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -85,7 +97,7 @@ const CommunityForm = ({ linkId: propLinkId }: CommunityFormProps) => {
 
   const updateMutation = useMutation({
     mutationFn: (data: CommunityFormData) =>
-      axios.put(`${API_URL}/admin/community/${linkId}`, data, {
+      axios.put(`${API_URL}/admin/community/${linkId}`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -107,10 +119,19 @@ const CommunityForm = ({ linkId: propLinkId }: CommunityFormProps) => {
     <div className="container mx-auto px-4 py-8">
       <Card>
         <CardHeader>
-          <CardTitle>{isEditMode ? 'Edit Community Link' : 'Create Community Link'}</CardTitle>
-          <CardDescription>
-            {isEditMode ? 'Update community link information' : 'Add a new community link'}
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{isEditMode ? 'Edit Community Link' : 'Create Community Link'}</CardTitle>
+              <CardDescription>
+                {isEditMode ? 'Update community link information' : 'Add a new community link'}
+              </CardDescription>
+            </div>
+            {isEditMode && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+                History
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -158,6 +179,8 @@ const CommunityForm = ({ linkId: propLinkId }: CommunityFormProps) => {
               )}
             </div>
 
+            <PublicationFields register={register} errors={errors} />
+
             <div className="flex gap-4">
               <Button
                 type="button"
@@ -173,6 +196,16 @@ const CommunityForm = ({ linkId: propLinkId }: CommunityFormProps) => {
           </form>
         </CardContent>
       </Card>
+
+      {isEditMode && (
+        <RevisionHistoryDrawer
+          type="community"
+          id={linkId!}
+          open={showHistory}
+          onClose={() => setShowHistory(false)}
+          onRestored={() => queryClient.invalidateQueries({ queryKey: ['community', linkId] })}
+        />
+      )}
     </div>
   );
 };
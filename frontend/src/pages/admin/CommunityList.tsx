@@ -7,17 +7,31 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { Button } from '../../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { PublicationStatusBadge, PublicationStatusFilter } from '../../components/PublicationControls';
+import { BulkActionBar, SelectAllCheckbox } from '../../components/BulkActions';
+import { useListFilters } from '../../hooks/useListFilters';
+import { useSelection } from '../../hooks/useSelection';
 import axios from 'axios';
 
+const PLATFORM_OPTIONS = [
+  { value: 'SKOOL', label: 'Skool' },
+  { value: 'SLACK', label: 'Slack' },
+  { value: 'DISCORD', label: 'Discord' },
+  { value: 'OTHER', label: 'Other' },
+];
+
 const CommunityList = () => {
   const queryClient = useQueryClient();
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+  const { filters, setFilter } = useListFilters(['publicationStatus'] as const);
+  const selection = useSelection();
 
   const { data: links = [], isLoading } = useQuery({
-    queryKey: ['admin', 'community'],
+    queryKey: ['admin', 'community', filters.publicationStatus],
     queryFn: async () => {
       const token = localStorage.getItem('accessToken');
       const response = await axios.get(`${API_URL}/admin/community`, {
+        params: { publicationStatus: filters.publicationStatus },
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       return response.data.data;
@@ -53,13 +67,37 @@ const CommunityList = () => {
         </Button>
       </div>
 
+      <PublicationStatusFilter
+        value={filters.publicationStatus}
+        onChange={(status) => {
+          setFilter('publicationStatus', status);
+          selection.clear();
+        }}
+      />
+
+      <BulkActionBar type="community" selected={selection.selected} onClear={selection.clear} categories={PLATFORM_OPTIONS} categoryLabel="Platform" featurable={false} />
+      <SelectAllCheckbox
+        ids={links.map((link: any) => link.id)}
+        selected={selection.selected}
+        onToggle={selection.toggleAll}
+      />
+
       <div className="grid gap-4">
         {links.map((link: any) => (
           <Card key={link.id}>
             <CardHeader>
               <div className="flex justify-between items-start">
                 <div>
-                  <CardTitle>{link.title}</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${link.title}`}
+                      checked={selection.isSelected(link.id)}
+                      onChange={() => selection.toggle(link.id)}
+                    />
+                    <CardTitle>{link.title}</CardTitle>
+                    <PublicationStatusBadge status={link.publicationStatus} publishAt={link.publishAt} />
+                  </div>
                   <p className="text-sm text-muted-foreground mt-1">{link.description || 'No description'}</p>
                   <span className="text-xs text-muted-foreground mt-1">
                     Platform: {link.platform}
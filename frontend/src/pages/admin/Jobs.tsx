@@ -0,0 +1,144 @@
+/**
+ * Admin Background Jobs Component
+ * Status of the job queue that generates data exports and runs scheduled deletions.
+ * Jobs that used up their attempts are dead-lettered and can be retried from here.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../../components/ui/button';
+import { useListFilters } from '../../hooks/useListFilters';
+import { Job, JobStatus, jobService } from '../../services/api/adminService';
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  PENDING: 'Pending',
+  RUNNING: 'Running',
+  COMPLETED: 'Completed',
+  DEAD: 'Failed',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  'gdpr.export': 'Data export',
+  'gdpr.deletion': 'Data deletion',
+};
+
+const Jobs = () => {
+  const queryClient = useQueryClient();
+  const { filters, setFilter } = useListFilters(['status'] as const);
+  const status = filters.status as JobStatus | undefined;
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['admin', 'jobs', status],
+    queryFn: () => jobService.list({ status, limit: 50 }),
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (job: Job) => jobService.retry(job.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'jobs'] });
+    },
+  });
+
+  const jobs = data?.jobs ?? [];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Background Jobs</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Failed attempts are retried automatically with a growing delay. Jobs that run out of attempts need a retry
+          here.
+        </p>
+      </div>
+
+      {data && (
+        <div className="flex flex-wrap gap-4 mb-6 text-sm">
+          {(Object.keys(STATUS_LABELS) as JobStatus[]).map((key) => (
+            <span key={key}>
+              {STATUS_LABELS[key]}: <span className="font-medium">{data.counts[key] ?? 0}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="max-w-xs mb-6">
+        <label htmlFor="job-status-filter" className="block text-sm font-medium mb-2">
+          Status
+        </label>
+        <select
+          id="job-status-filter"
+          value={status ?? ''}
+          onChange={(e) => setFilter('status', e.target.value || undefined)}
+          className="w-full px-4 py-2 border border-input bg-background rounded-md"
+        >
+          <option value="">All statuses</option>
+          {(Object.keys(STATUS_LABELS) as JobStatus[]).map((key) => (
+            <option key={key} value={key}>
+              {STATUS_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {retryMutation.isError && (
+        <p className="text-sm text-destructive mb-4">Could not retry the job. Please try again.</p>
+      )}
+
+      {isLoading ? (
+        <p>Loading...</p>
+      ) : isError ? (
+        <p className="text-destructive">Could not load the jobs.</p>
+      ) : jobs.length === 0 ? (
+        <p className="text-muted-foreground">No jobs match this filter.</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-md">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-left">
+              <tr>
+                <th className="px-4 py-2 font-medium">Job</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2 font-medium">Attempts</th>
+                <th className="px-4 py-2 font-medium">Next run</th>
+                <th className="px-4 py-2 font-medium">Last error</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map((job) => (
+                <tr key={job.id} className="border-t">
+                  <td className="px-4 py-2">
+                    {TYPE_LABELS[job.type] ?? job.type}
+                    <div className="text-xs text-muted-foreground">
+                      Created {new Date(job.createdAt).toLocaleString()}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">{STATUS_LABELS[job.status]}</td>
+                  <td className="px-4 py-2">
+                    {job.attempts} / {job.maxAttempts}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {job.status === 'PENDING' ? new Date(job.runAt).toLocaleString() : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-destructive">{job.lastError ?? ''}</td>
+                  <td className="px-4 py-2 text-right">
+                    {job.status === 'DEAD' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => retryMutation.mutate(job)}
+                        disabled={retryMutation.isPending}
+                      >
+                        Retry
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Jobs;
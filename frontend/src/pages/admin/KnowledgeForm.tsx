@@ -3,30 +3,38 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { knowledgeService } from '../../services/api/contentService';
+import { KnowledgeArticle } from '../../services/api/contentService';
+import { adminContentService } from '../../services/api/adminService';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import RevisionHistoryDrawer from '../../components/RevisionHistoryDrawer';
+import { PublicationFields } from '../../components/PublicationControls';
+import { PreviewLinkButton } from '../../components/PreviewControls';
+import { publicationSchema, refinePublication, toDateTimeLocal, toPublicationPayload } from '../../lib/publication';
 import axios from 'axios';
 
-const knowledgeSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().min(1, 'Description is required'),
-  content: z.string().min(1, 'Content is required'),
-  category: z.enum(['GLOSSARY', 'CORE_CONCEPTS', 'BEST_PRACTICES', 'CASE_STUDIES', 'SAAS_SCAFFOLDING']),
-  readTime: z.number().min(0).optional(),
-  externalLink: z.string().url().optional().or(z.literal('')),
-  featured: z.boolean().optional(),
-  isActive: z.boolean().optional(),
-  displayOrder: z.number().min(0).optional(),
-});
+const knowledgeSchema = z
+  .object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().min(1, 'Description is required'),
+    content: z.string().min(1, 'Content is required'),
+    category: z.enum(['GLOSSARY', 'CORE_CONCEPTS', 'BEST_PRACTICES', 'CASE_STUDIES', 'SAAS_SCAFFOLDING']),
+    readTime: z.number().min(0).optional(),
+    externalLink: z.string().url().optional().or(z.literal('')),
+    featured: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+    displayOrder: z.number().min(0).optional(),
+  })
+  .merge(publicationSchema)
+  .superRefine(refinePublication);
 
 type KnowledgeFormData = z.infer<typeof knowledgeSchema>;
 
@@ -40,10 +48,11 @@ const KnowledgeForm = ({ articleId: propArticleId }: KnowledgeFormProps) => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const isEditMode = !!articleId;
+  const [showHistory, setShowHistory] = useState(false);
 
   const { data: article } = useQuery({
     queryKey: ['knowledge', articleId],
-    queryFn: () => knowledgeService.getById(articleId!),
+    queryFn: () => adminContentService.getById<KnowledgeArticle>('knowledge', articleId!),
     enabled: isEditMode,
   });
 
@@ -58,6 +67,7 @@ const KnowledgeForm = ({ articleId: propArticleId }: KnowledgeFormProps) => {
       featured: false,
       isActive: true,
       displayOrder: 0,
+      publicationStatus: 'PUBLISHED',
     },
   });
 
@@ -73,6 +83,9 @@ const KnowledgeForm = ({ articleId: propArticleId }: KnowledgeFormProps) => {
         featured: article.featured,
         isActive: article.isActive,
         displayOrder: article.displayOrder,
+        publicationStatus: article.publicationStatus,
+        publishAt: toDateTimeLocal(article.publishAt),
+        unpublishAt: toDateTimeLocal(article.unpublishAt),
       });
     }
   }, [article, reset]);
@@ -81,7 +94,7 @@ const KnowledgeForm = ({ articleId: propArticleId }: KnowledgeFormProps) => {
 
   const createMutation = useMutation({
     mutationFn: (data: KnowledgeFormData) =>
-      axios.post(`${API_URL}/admin/knowledge`, data, {
+      axios.post(`${API_URL}/admin/knowledge`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -92,7 +105,7 @@ const KnowledgeForm = ({ articleId: propArticleId }: KnowledgeFormProps) => {
 
   const updateMutation = useMutation({
     mutationFn: (data: KnowledgeFormData) =>
-      axios.put(`${API_URL}/admin/knowledge/${articleId}`, data, {
+      axios.put(`${API_URL}/admin/knowledge/${articleId}`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -119,10 +132,24 @@ const KnowledgeForm = ({ articleId: propArticleId }: KnowledgeFormProps) => {
     <div className="container mx-auto px-4 py-8">
       <Card>
         <CardHeader>
-          <CardTitle>{isEditMode ? 'Edit Knowledge Article' : 'Create Knowledge Article'}</CardTitle>
-          <CardDescription>
-            {isEditMode ? 'Update article information' : 'Add a new knowledge article'}
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{isEditMode ? 'Edit Knowledge Article' : 'Create Knowledge Article'}</CardTitle>
+              <CardDescription>
+                {isEditMode ? 'Update article information' : 'Add a new knowledge article'}
+              </CardDescription>
+            </div>
+            {isEditMode && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+                History
+              </Button>
+            )}
+          </div>
+          {isEditMode && article && (
+            <div className="mt-4">
+              <PreviewLinkButton type="knowledge" id={articleId!} path={`/knowledge/${article.slug}`} />
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -192,6 +219,8 @@ const KnowledgeForm = ({ articleId: propArticleId }: KnowledgeFormProps) => {
               <Input id="externalLink" type="url" {...register('externalLink')} />
             </div>
 
+            <PublicationFields register={register} errors={errors} />
+
             <div className="flex gap-4">
               <Button
                 type="button"
@@ -207,6 +236,16 @@ const KnowledgeForm = ({ articleId: propArticleId }: KnowledgeFormProps) => {
           </form>
         </CardContent>
       </Card>
+
+      {isEditMode && (
+        <RevisionHistoryDrawer
+          type="knowledge"
+          id={articleId!}
+          open={showHistory}
+          onClose={() => setShowHistory(false)}
+          onRestored={() => queryClient.invalidateQueries({ queryKey: ['knowledge', articleId] })}
+        />
+      )}
     </div>
   );
 };
@@ -7,17 +7,32 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { Button } from '../../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { PublicationStatusBadge, PublicationStatusFilter } from '../../components/PublicationControls';
+import { BulkActionBar, SelectAllCheckbox } from '../../components/BulkActions';
+import { useListFilters } from '../../hooks/useListFilters';
+import { useSelection } from '../../hooks/useSelection';
 import axios from 'axios';
 
+const CATEGORY_OPTIONS = [
+  { value: 'GLOSSARY', label: 'Glossary' },
+  { value: 'CORE_CONCEPTS', label: 'Core Concepts' },
+  { value: 'BEST_PRACTICES', label: 'Best Practices' },
+  { value: 'CASE_STUDIES', label: 'Case Studies' },
+  { value: 'SAAS_SCAFFOLDING', label: 'SaaS Scaffolding' },
+];
+
 const KnowledgeList = () => {
   const queryClient = useQueryClient();
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+  const { filters, setFilter } = useListFilters(['publicationStatus'] as const);
+  const selection = useSelection();
 
   const { data: articles = [], isLoading } = useQuery({
-    queryKey: ['admin', 'knowledge'],
+    queryKey: ['admin', 'knowledge', filters.publicationStatus],
     queryFn: async () => {
       const token = localStorage.getItem('accessToken');
       const response = await axios.get(`${API_URL}/admin/knowledge`, {
+        params: { publicationStatus: filters.publicationStatus },
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       return response.data.data;
@@ -53,13 +68,37 @@ const KnowledgeList = () => {
         </Button>
       </div>
 
+      <PublicationStatusFilter
+        value={filters.publicationStatus}
+        onChange={(status) => {
+          setFilter('publicationStatus', status);
+          selection.clear();
+        }}
+      />
+
+      <BulkActionBar type="knowledge" selected={selection.selected} onClear={selection.clear} categories={CATEGORY_OPTIONS} />
+      <SelectAllCheckbox
+        ids={articles.map((article: any) => article.id)}
+        selected={selection.selected}
+        onToggle={selection.toggleAll}
+      />
+
       <div className="grid gap-4">
         {articles.map((article: any) => (
           <Card key={article.id}>
             <CardHeader>
               <div className="flex justify-between items-start">
                 <div>
-                  <CardTitle>{article.title}</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${article.title}`}
+                      checked={selection.isSelected(article.id)}
+                      onChange={() => selection.toggle(article.id)}
+                    />
+                    <CardTitle>{article.title}</CardTitle>
+                    <PublicationStatusBadge status={article.publicationStatus} publishAt={article.publishAt} />
+                  </div>
                   <p className="text-sm text-muted-foreground mt-1">{article.description}</p>
                   <span className="text-xs text-muted-foreground mt-1">
                     Category: {article.category}
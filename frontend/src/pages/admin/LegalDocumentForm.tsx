@@ -0,0 +1,167 @@
+/**
+ * Admin Legal Document Form Component
+ * Publishes a new version of the terms or privacy policy, or edits one that has not taken effect yet
+ */
+
+import { useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { LegalDocumentInput, legalDocumentService } from '../../services/api/adminService';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { toDateTimeLocal } from '../../lib/publication';
+
+const legalDocumentSchema = z.object({
+  type: z.enum(['TERMS_OF_SERVICE', 'PRIVACY_POLICY']),
+  version: z.string().min(1, 'Version is required').max(20),
+  title: z.string().min(1, 'Title is required'),
+  body: z.string().min(1, 'Body is required'),
+  summary: z.string().optional(),
+  effectiveAt: z.string().min(1, 'Effective date is required'),
+});
+
+type LegalDocumentFormData = z.infer<typeof legalDocumentSchema>;
+
+const toPayload = (data: LegalDocumentFormData): LegalDocumentInput => ({
+  ...data,
+  summary: data.summary || null,
+  effectiveAt: new Date(data.effectiveAt).toISOString(),
+});
+
+interface LegalDocumentFormProps {
+  documentId?: string;
+}
+
+const LegalDocumentForm = ({ documentId: propDocumentId }: LegalDocumentFormProps) => {
+  const { id: paramId } = useParams<{ id: string }>();
+  const documentId = propDocumentId || paramId;
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isEditMode = !!documentId;
+
+  const { data: document } = useQuery({
+    queryKey: ['admin', 'legal', documentId],
+    queryFn: () => legalDocumentService.get(documentId!),
+    enabled: isEditMode,
+  });
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<LegalDocumentFormData>({
+    resolver: zodResolver(legalDocumentSchema),
+    defaultValues: { type: 'TERMS_OF_SERVICE' },
+  });
+
+  useEffect(() => {
+    if (document) {
+      reset({
+        type: document.type,
+        version: document.version,
+        title: document.title,
+        body: document.body,
+        summary: document.summary ?? '',
+        effectiveAt: toDateTimeLocal(document.effectiveAt),
+      });
+    }
+  }, [document, reset]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: LegalDocumentFormData) =>
+      isEditMode
+        ? legalDocumentService.update(documentId!, toPayload(data))
+        : legalDocumentService.create(toPayload(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'legal'] });
+      navigate('/admin/legal');
+    },
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>{isEditMode ? 'Edit Upcoming Version' : 'New Version'}</CardTitle>
+          <CardDescription>
+            Signed-in users are asked to accept a new version once its effective date has passed. After that it
+            can no longer be changed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="type">Document *</Label>
+                <select
+                  id="type"
+                  {...register('type')}
+                  className="w-full px-3 py-2 border border-input bg-background rounded-md"
+                >
+                  <option value="TERMS_OF_SERVICE">Terms of Service</option>
+                  <option value="PRIVACY_POLICY">Privacy Policy</option>
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="version">Version *</Label>
+                <Input id="version" {...register('version')} />
+                {errors.version && <p className="text-sm text-destructive mt-1">{errors.version.message}</p>}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="title">Title *</Label>
+              <Input id="title" {...register('title')} />
+              {errors.title && <p className="text-sm text-destructive mt-1">{errors.title.message}</p>}
+            </div>
+
+            <div>
+              <Label htmlFor="effectiveAt">Effective from *</Label>
+              <Input id="effectiveAt" type="datetime-local" {...register('effectiveAt')} />
+              {errors.effectiveAt && <p className="text-sm text-destructive mt-1">{errors.effectiveAt.message}</p>}
+            </div>
+
+            <div>
+              <Label htmlFor="summary">Summary of changes (shown when asking users to accept)</Label>
+              <Input id="summary" {...register('summary')} />
+            </div>
+
+            <div>
+              <Label htmlFor="body">Body (Markdown) *</Label>
+              <textarea
+                id="body"
+                {...register('body')}
+                className="w-full px-3 py-2 border border-input bg-background rounded-md min-h-[300px] font-mono"
+              />
+              {errors.body && <p className="text-sm text-destructive mt-1">{errors.body.message}</p>}
+            </div>
+
+            {saveMutation.isError && (
+              <p className="text-sm text-destructive">
+                {(saveMutation.error as any)?.response?.data?.error || 'Could not save the document'}
+              </p>
+            )}
+
+            <div className="flex gap-4">
+              <Button type="button" variant="outline" onClick={() => navigate('/admin/legal')}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {isEditMode ? 'Update Version' : 'Create Version'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LegalDocumentForm;
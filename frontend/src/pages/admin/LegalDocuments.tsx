@@ -0,0 +1,139 @@
+/**
+ * Admin Legal Documents Component
+ * Versions of the terms of service and privacy policy: the one in effect, upcoming ones
+ * (which can still be edited or deleted) and earlier ones
+ */
+
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../../components/ui/button';
+import { AdminLegalDocument, LegalDocumentType, legalDocumentService } from '../../services/api/adminService';
+
+const TYPE_LABELS: Record<LegalDocumentType, string> = {
+  TERMS_OF_SERVICE: 'Terms of Service',
+  PRIVACY_POLICY: 'Privacy Policy',
+};
+
+type VersionState = 'upcoming' | 'current' | 'superseded';
+
+const STATE_LABELS: Record<VersionState, string> = {
+  upcoming: 'Upcoming',
+  current: 'In effect',
+  superseded: 'Superseded',
+};
+
+/**
+ * State of each version; the list is sorted newest first per type, so the first
+ * version that has taken effect is the current one
+ */
+const versionStates = (documents: AdminLegalDocument[]) => {
+  const now = new Date();
+  const seen = new Set<LegalDocumentType>();
+
+  return new Map(
+    documents.map((document) => {
+      if (new Date(document.effectiveAt) > now) {
+        return [document.id, 'upcoming' as VersionState];
+      }
+      const state: VersionState = seen.has(document.type) ? 'superseded' : 'current';
+      seen.add(document.type);
+      return [document.id, state];
+    })
+  );
+};
+
+const LegalDocuments = () => {
+  const queryClient = useQueryClient();
+
+  const { data: documents = [], isLoading, isError } = useQuery({
+    queryKey: ['admin', 'legal'],
+    queryFn: () => legalDocumentService.list(),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => legalDocumentService.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'legal'] });
+    },
+  });
+
+  const states = versionStates(documents);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Legal Documents</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Users accept the version in effect. Publish changes as a new version with a future effective date.
+          </p>
+        </div>
+        <Button asChild>
+          <Link to="/admin/legal/new">New Version</Link>
+        </Button>
+      </div>
+
+      {deleteMutation.isError && (
+        <p className="text-sm text-destructive mb-4">Could not delete the version. Please try again.</p>
+      )}
+
+      {isLoading ? (
+        <p>Loading...</p>
+      ) : isError ? (
+        <p className="text-destructive">Could not load the documents.</p>
+      ) : documents.length === 0 ? (
+        <p className="text-muted-foreground">No documents published yet.</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-md">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-left">
+              <tr>
+                <th className="px-4 py-2 font-medium">Document</th>
+                <th className="px-4 py-2 font-medium">Version</th>
+                <th className="px-4 py-2 font-medium">Effective</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {documents.map((document) => (
+                <tr key={document.id} className="border-t">
+                  <td className="px-4 py-2">
+                    {document.title}
+                    <div className="text-xs text-muted-foreground">{TYPE_LABELS[document.type]}</div>
+                  </td>
+                  <td className="px-4 py-2">{document.version}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{new Date(document.effectiveAt).toLocaleString()}</td>
+                  <td className="px-4 py-2">{STATE_LABELS[states.get(document.id)!]}</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    {states.get(document.id) === 'upcoming' && (
+                      <div className="flex justify-end gap-2">
+                        <Button asChild variant="outline" size="sm">
+                          <Link to={`/admin/legal/${document.id}/edit`}>Edit</Link>
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(`Delete version ${document.version}?`)) {
+                              deleteMutation.mutate(document.id);
+                            }
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LegalDocuments;
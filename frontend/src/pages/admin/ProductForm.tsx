@@ -3,30 +3,37 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { productService } from '../../services/api/contentService';
+import { Product } from '../../services/api/contentService';
+import { adminContentService } from '../../services/api/adminService';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import RevisionHistoryDrawer from '../../components/RevisionHistoryDrawer';
+import { PublicationFields } from '../../components/PublicationControls';
+import { publicationSchema, refinePublication, toDateTimeLocal, toPublicationPayload } from '../../lib/publication';
 import axios from 'axios';
 
-const productSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().min(1, 'Description is required'),
-  problemSolved: z.string().min(1, 'Problem solved is required'),
-  status: z.enum(['LIVE', 'BETA', 'COMING_SOON']),
-  externalLink: z.string().url('Valid URL is required'),
-  pricing: z.string().optional(),
-  featured: z.boolean().optional(),
-  isActive: z.boolean().optional(),
-  displayOrder: z.number().min(0).optional(),
-});
+const productSchema = z
+  .object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().min(1, 'Description is required'),
+    problemSolved: z.string().min(1, 'Problem solved is required'),
+    status: z.enum(['LIVE', 'BETA', 'COMING_SOON']),
+    externalLink: z.string().url('Valid URL is required'),
+    pricing: z.string().optional(),
+    featured: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+    displayOrder: z.number().min(0).optional(),
+  })
+  .merge(publicationSchema)
+  .superRefine(refinePublication);
 
 type ProductFormData = z.infer<typeof productSchema>;
 
@@ -40,10 +47,11 @@ const ProductForm = ({ productId: propProductId }: ProductFormProps) => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const isEditMode = !!productId;
+  const [showHistory, setShowHistory] = useState(false);
 
   const { data: product } = useQuery({
     queryKey: ['product', productId],
-    queryFn: () => productService.getById(productId!),
+    queryFn: () => adminContentService.getById<Product>('products', productId!),
     enabled: isEditMode,
   });
 
@@ -58,6 +66,7 @@ const ProductForm = ({ productId: propProductId }: ProductFormProps) => {
       featured: false,
       isActive: true,
       displayOrder: 0,
+      publicationStatus: 'PUBLISHED',
     },
   });
 
@@ -73,6 +82,9 @@ const ProductForm = ({ productId: propProductId }: ProductFormProps) => {
         featured: product.featured,
         isActive: product.isActive,
         displayOrder: product.displayOrder,
+        publicationStatus: product.publicationStatus,
+        publishAt: toDateTimeLocal(product.publishAt),
+        unpublishAt: toDateTimeLocal(product.unpublishAt),
       });
     }
   }, [product, reset]);
@@ -81,7 +93,7 @@ const ProductForm = ({ productId: propProductId }: ProductFormProps) => {
 
   const createMutation = useMutation({
     mutationFn: (data: ProductFormData) =>
-      axios.post(`${API_URL}/admin/products`, data, {
+      axios.post(`${API_URL}/admin/products`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -92,7 +104,7 @@ const ProductForm = ({ productId: propProductId }: ProductFormProps) => {
 
   const updateMutation = useMutation({
     mutationFn: (data: ProductFormData) =>
-      axios.put(`${API_URL}/admin/products/${productId}`, data, {
+      axios.put(`${API_URL}/admin/products/${productId}`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -114,10 +126,19 @@ const ProductForm = ({ productId: propProductId }: ProductFormProps) => {
     <div className="container mx-auto px-4 py-8">
       <Card>
         <CardHeader>
-          <CardTitle>{isEditMode ? 'Edit Product' : 'Create Product'}</CardTitle>
-          <CardDescription>
-            {isEditMode ? 'Update product information' : 'Add a new product to the platform'}
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{isEditMode ? 'Edit Product' : 'Create Product'}</CardTitle>
+              <CardDescription>
+                {isEditMode ? 'Update product information' : 'Add a new product to the platform'}
+              </CardDescription>
+            </div>
+            {isEditMode && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+                History
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -184,6 +205,8 @@ const ProductForm = ({ productId: propProductId }: ProductFormProps) => {
               )}
             </div>
 
+            <PublicationFields register={register} errors={errors} />
+
             <div className="flex gap-4">
               <Button
                 type="button"
@@ -199,6 +222,16 @@ const ProductForm = ({ productId: propProductId }: ProductFormProps) => {
           </form>
         </CardContent>
       </Card>
+
+      {isEditMode && (
+        <RevisionHistoryDrawer
+          type="products"
+          id={productId!}
+          open={showHistory}
+          onClose={() => setShowHistory(false)}
+          onRestored={() => queryClient.invalidateQueries({ queryKey: ['product', productId] })}
+        />
+      )}
     </div>
   );
 };
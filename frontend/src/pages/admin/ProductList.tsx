@@ -7,17 +7,24 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { Button } from '../../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { PublicationStatusBadge, PublicationStatusFilter } from '../../components/PublicationControls';
+import { BulkActionBar, SelectAllCheckbox } from '../../components/BulkActions';
+import { useListFilters } from '../../hooks/useListFilters';
+import { useSelection } from '../../hooks/useSelection';
 import axios from 'axios';
 
 const ProductList = () => {
   const queryClient = useQueryClient();
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+  const { filters, setFilter } = useListFilters(['publicationStatus'] as const);
+  const selection = useSelection();
 
   const { data: products = [], isLoading } = useQuery({
-    queryKey: ['admin', 'products'],
+    queryKey: ['admin', 'products', filters.publicationStatus],
     queryFn: async () => {
       const token = localStorage.getItem('accessToken');
       const response = await axios.get(`${API_URL}/admin/products`, {
+        params: { publicationStatus: filters.publicationStatus },
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       return response.data.data;
@@ -53,13 +60,37 @@ const ProductList = () => {
         </Button>
       </div>
 
+      <PublicationStatusFilter
+        value={filters.publicationStatus}
+        onChange={(status) => {
+          setFilter('publicationStatus', status);
+          selection.clear();
+        }}
+      />
+
+      <BulkActionBar type="products" selected={selection.selected} onClear={selection.clear} />
+      <SelectAllCheckbox
+        ids={products.map((product: any) => product.id)}
+        selected={selection.selected}
+        onToggle={selection.toggleAll}
+      />
+
       <div className="grid gap-4">
         {products.map((product: any) => (
           <Card key={product.id}>
             <CardHeader>
               <div className="flex justify-between items-start">
                 <div>
-                  <CardTitle>{product.title}</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${product.title}`}
+                      checked={selection.isSelected(product.id)}
+                      onChange={() => selection.toggle(product.id)}
+                    />
+                    <CardTitle>{product.title}</CardTitle>
+                    <PublicationStatusBadge status={product.publicationStatus} publishAt={product.publishAt} />
+                  </div>
                   <p className="text-sm text-muted-foreground mt-1">{product.description}</p>
                   <span className="text-xs text-muted-foreground mt-1">
                     Status: {product.status}
@@ -0,0 +1,147 @@
+/**
+ * Admin Spam Queue Component
+ * Contact messages and newsletter sign-ups flagged by the spam checks.
+ * Release false positives (the missed email goes out then) or delete confirmed spam.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { useListFilters } from '../../hooks/useListFilters';
+import { FlaggedSubmission, SpamReason, SpamType, spamService } from '../../services/api/adminService';
+
+const TYPE_LABELS: Record<SpamType, string> = {
+  contact: 'Contact messages',
+  newsletter: 'Newsletter sign-ups',
+};
+
+const REASON_LABELS: Record<SpamReason, string> = {
+  honeypot: 'Hidden field filled in',
+  missing_token: 'No form token',
+  invalid_token: 'Invalid or expired form token',
+  too_fast: 'Submitted too quickly',
+  too_many_links: 'Too many links',
+  blocked_phrase: 'Blocked phrase',
+  disposable_email: 'Disposable email address',
+};
+
+const SpamQueue = () => {
+  const queryClient = useQueryClient();
+  const { filters, setFilter } = useListFilters(['type'] as const);
+  const type = (filters.type as SpamType | undefined) ?? 'contact';
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin', 'spam', type],
+    queryFn: () => spamService.list(type),
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin', 'spam'] });
+  };
+
+  const releaseMutation = useMutation({
+    mutationFn: (item: FlaggedSubmission) => spamService.release(type, item.id),
+    onSuccess,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (item: FlaggedSubmission) => spamService.remove(type, item.id),
+    onSuccess,
+  });
+
+  const handleRemove = (item: FlaggedSubmission) => {
+    if (confirm(`Delete the flagged submission from ${item.email}? This cannot be undone.`)) {
+      removeMutation.mutate(item);
+    }
+  };
+
+  const items = data?.items ?? [];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Spam Queue</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Flagged submissions are stored without notifying anyone. Release the ones that are genuine.
+        </p>
+      </div>
+
+      <div className="max-w-xs mb-6">
+        <label htmlFor="spam-type-filter" className="block text-sm font-medium mb-2">
+          Form
+        </label>
+        <select
+          id="spam-type-filter"
+          value={type}
+          onChange={(e) => setFilter('type', e.target.value)}
+          className="w-full px-4 py-2 border border-input bg-background rounded-md"
+        >
+          {(Object.keys(TYPE_LABELS) as SpamType[]).map((key) => (
+            <option key={key} value={key}>
+              {TYPE_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {(releaseMutation.isError || removeMutation.isError) && (
+        <p className="text-sm text-destructive mb-4">Could not update the spam queue. Please try again.</p>
+      )}
+
+      {isLoading ? (
+        <p>Loading...</p>
+      ) : items.length === 0 ? (
+        <p className="text-muted-foreground">Nothing is waiting for review.</p>
+      ) : (
+        <div className="grid gap-4">
+          {items.map((item) => (
+            <Card key={item.id}>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle>{item.subject ?? item.email}</CardTitle>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {item.name ? `${item.name} <${item.email}>` : item.email}
+                      {item.ipAddress && ` · ${item.ipAddress}`} ·{' '}
+                      {new Date((item.createdAt ?? item.subscribedAt)!).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => releaseMutation.mutate(item)}
+                      disabled={releaseMutation.isPending}
+                    >
+                      Not spam
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleRemove(item)}
+                      disabled={removeMutation.isPending}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {item.message && <p className="text-sm whitespace-pre-wrap mb-3">{item.message}</p>}
+                <div className="flex flex-wrap gap-2">
+                  {item.spamReasons.map((reason) => (
+                    <span key={reason} className="text-xs px-2 py-1 rounded bg-muted text-muted-foreground">
+                      {REASON_LABELS[reason] ?? reason}
+                    </span>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpamQueue;
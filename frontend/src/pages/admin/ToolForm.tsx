@@ -3,30 +3,37 @@
  * TDD Approach: Implemented to make tests pass (GREEN phase)
  */
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { toolService } from '../../services/api/contentService';
+import { Tool } from '../../services/api/contentService';
+import { adminContentService } from '../../services/api/adminService';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import RevisionHistoryDrawer from '../../components/RevisionHistoryDrawer';
+import { PublicationFields } from '../../components/PublicationControls';
+import { publicationSchema, refinePublication, toDateTimeLocal, toPublicationPayload } from '../../lib/publication';
 import axios from 'axios';
 
-const toolSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().min(1, 'Description is required'),
-  problemSolved: z.string().min(1, 'Problem solved is required'),
-  whoShouldUse: z.string().optional(),
-  externalLink: z.string().url('Valid URL is required'),
-  relatedTrainingIds: z.array(z.string()).optional(),
-  featured: z.boolean().optional(),
-  isActive: z.boolean().optional(),
-  displayOrder: z.number().min(0).optional(),
-});
+const toolSchema = z
+  .object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().min(1, 'Description is required'),
+    problemSolved: z.string().min(1, 'Problem solved is required'),
+    whoShouldUse: z.string().optional(),
+    externalLink: z.string().url('Valid URL is required'),
+    relatedTrainingIds: z.array(z.string()).optional(),
+    featured: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+    displayOrder: z.number().min(0).optional(),
+  })
+  .merge(publicationSchema)
+  .superRefine(refinePublication);
 
 type ToolFormData = z.infer<typeof toolSchema>;
 
@@ -40,10 +47,11 @@ const ToolForm = ({ toolId: propToolId }: ToolFormProps) => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const isEditMode = !!toolId;
+  const [showHistory, setShowHistory] = useState(false);
 
   const { data: tool } = useQuery({
     queryKey: ['tool', toolId],
-    queryFn: () => toolService.getById(toolId!),
+    queryFn: () => adminContentService.getById<Tool>('tools', toolId!),
     enabled: isEditMode,
   });
 
@@ -58,6 +66,7 @@ const ToolForm = ({ toolId: propToolId }: ToolFormProps) => {
       featured: false,
       isActive: true,
       displayOrder: 0,
+      publicationStatus: 'PUBLISHED',
       relatedTrainingIds: [],
     },
   });
@@ -74,6 +83,9 @@ const ToolForm = ({ toolId: propToolId }: ToolFormProps) => {
         featured: tool.featured,
         isActive: tool.isActive,
         displayOrder: tool.displayOrder,
+        publicationStatus: tool.publicationStatus,
+        publishAt: toDateTimeLocal(tool.publishAt),
+        unpublishAt: toDateTimeLocal(tool.unpublishAt),
       });
     }
   }, [tool, reset]);
@@ -82,7 +94,7 @@ const ToolForm = ({ toolId: propToolId }: ToolFormProps) => {
 
   const createMutation = useMutation({
     mutationFn: (data: ToolFormData) =>
-      axios.post(`${API_URL}/admin/tools`, data, {
+      axios.post(`${API_URL}/admin/tools`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -93,7 +105,7 @@ const ToolForm = ({ toolId: propToolId }: ToolFormProps) => {
 
   const updateMutation = useMutation({
     mutationFn: (data: ToolFormData) =>
-      axios.put(`${API_URL}/admin/tools/${toolId}`, data, {
+      axios.put(`${API_URL}/admin/tools/${toolId}`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -115,10 +127,19 @@ const ToolForm = ({ toolId: propToolId }: ToolFormProps) => {
     <div className="container mx-auto px-4 py-8">
       <Card>
         <CardHeader>
-          <CardTitle>{isEditMode ? 'Edit Tool' : 'Create Tool'}</CardTitle>
-          <CardDescription>
-            {isEditMode ? 'Update tool information' : 'Add a new tool to the platform'}
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{isEditMode ? 'Edit Tool' : 'Create Tool'}</CardTitle>
+              <CardDescription>
+                {isEditMode ? 'Update tool information' : 'Add a new tool to the platform'}
+              </CardDescription>
+            </div>
+            {isEditMode && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+                History
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -171,6 +192,8 @@ const ToolForm = ({ toolId: propToolId }: ToolFormProps) => {
               )}
             </div>
 
+            <PublicationFields register={register} errors={errors} />
+
             <div className="flex gap-4">
               <Button
                 type="button"
@@ -186,6 +209,16 @@ const ToolForm = ({ toolId: propToolId }: ToolFormProps) => {
           </form>
         </CardContent>
       </Card>
+
+      {isEditMode && (
+        <RevisionHistoryDrawer
+          type="tools"
+          id={toolId!}
+          open={showHistory}
+          onClose={() => setShowHistory(false)}
+          onRestored={() => queryClient.invalidateQueries({ queryKey: ['tool', toolId] })}
+        />
+      )}
     </div>
   );
 };
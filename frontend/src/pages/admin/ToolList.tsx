@@ -7,17 +7,24 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { Button } from '../../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { PublicationStatusBadge, PublicationStatusFilter } from '../../components/PublicationControls';
+import { BulkActionBar, SelectAllCheckbox } from '../../components/BulkActions';
+import { useListFilters } from '../../hooks/useListFilters';
+import { useSelection } from '../../hooks/useSelection';
 import axios from 'axios';
 
 const ToolList = () => {
   const queryClient = useQueryClient();
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+  const { filters, setFilter } = useListFilters(['publicationStatus'] as const);
+  const selection = useSelection();
 
   const { data: tools = [], isLoading } = useQuery({
-    queryKey: ['admin', 'tools'],
+    queryKey: ['admin', 'tools', filters.publicationStatus],
     queryFn: async () => {
       const token = localStorage.getItem('accessToken');
       const response = await axios.get(`${API_URL}/admin/tools`, {
+        params: { publicationStatus: filters.publicationStatus },
         headers: token ? { Authorization: `Bearer ${token}` } : {},
       });
       return response.data.data;
@@ -53,13 +60,37 @@ const ToolList = () => {
         </Button>
       </div>
 
+      <PublicationStatusFilter
+        value={filters.publicationStatus}
+        onChange={(status) => {
+          setFilter('publicationStatus', status);
+          selection.clear();
+        }}
+      />
+
+      <BulkActionBar type="tools" selected={selection.selected} onClear={selection.clear} />
+      <SelectAllCheckbox
+        ids={tools.map((tool: any) => tool.id)}
+        selected={selection.selected}
+        onToggle={selection.toggleAll}
+      />
+
       <div className="grid gap-4">
         {tools.map((tool: any) => (
           <Card key={tool.id}>
             <CardHeader>
               <div className="flex justify-between items-start">
                 <div>
-                  <CardTitle>{tool.title}</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${tool.title}`}
+                      checked={selection.isSelected(tool.id)}
+                      onChange={() => selection.toggle(tool.id)}
+                    />
+                    <CardTitle>{tool.title}</CardTitle>
+                    <PublicationStatusBadge status={tool.publicationStatus} publishAt={tool.publishAt} />
+                  </div>
                   <p className="text-sm text-muted-foreground mt-1">{tool.description}</p>
                 </div>
                 <div className="flex gap-2">
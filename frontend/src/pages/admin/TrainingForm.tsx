@@ -9,26 +9,34 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { trainingService, Training } from '../../services/api/contentService';
+import { Training } from '../../services/api/contentService';
+import { adminContentService } from '../../services/api/adminService';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import RevisionHistoryDrawer from '../../components/RevisionHistoryDrawer';
+import { PublicationFields } from '../../components/PublicationControls';
+import { PreviewLinkButton } from '../../components/PreviewControls';
+import { publicationSchema, refinePublication, toDateTimeLocal, toPublicationPayload } from '../../lib/publication';
 import ImageUpload from '../../components/ImageUpload';
 import axios from 'axios';
 
-const trainingSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().min(1, 'Description is required'),
-  category: z.enum(['INTRODUCTORY', 'NICHE_TOPICS', 'TOOL_BASED', 'CODE_ALONG', 'APPS', 'UTILITIES', 'SAAS_SCAFFOLDING']),
-  level: z.enum(['BEGINNER', 'INTERMEDIATE', 'ADVANCED']),
-  externalLink: z.string().url('Valid URL is required'),
-  duration: z.number().min(0).optional(),
-  price: z.number().min(0).optional(),
-  featured: z.boolean().optional(),
-  isActive: z.boolean().optional(),
-  displayOrder: z.number().min(0).optional(),
-});
+const trainingSchema = z
+  .object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().min(1, 'Description is required'),
+    category: z.enum(['INTRODUCTORY', 'NICHE_TOPICS', 'TOOL_BASED', 'CODE_ALONG', 'APPS', 'UTILITIES', 'SAAS_SCAFFOLDING']),
+    level: z.enum(['BEGINNER', 'INTERMEDIATE', 'ADVANCED']),
+    externalLink: z.string().url('Valid URL is required'),
+    duration: z.number().min(0).optional(),
+    price: z.number().min(0).optional(),
+    featured: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+    displayOrder: z.number().min(0).optional(),
+  })
+  .merge(publicationSchema)
+  .superRefine(refinePublication);
 
 type TrainingFormData = z.infer<typeof trainingSchema>;
 
@@ -42,10 +50,11 @@ const TrainingForm = ({ trainingId: propTrainingId }: TrainingFormProps) => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const isEditMode = !!trainingId;
+  const [showHistory, setShowHistory] = useState(false);
 
   const { data: training } = useQuery({
     queryKey: ['training', trainingId],
-    queryFn: () => trainingService.getById(trainingId!),
+    queryFn: () => adminContentService.getById<Training>('trainings', trainingId!),
     enabled: isEditMode,
   });
 
@@ -63,6 +72,7 @@ const TrainingForm = ({ trainingId: propTrainingId }: TrainingFormProps) => {
       featured: false,
       isActive: true,
       displayOrder: 0,
+      publicationStatus: 'PUBLISHED',
     },
   });
 
@@ -80,6 +90,9 @@ const TrainingForm = ({ trainingId: propTrainingId }: TrainingFormProps) => {
         featured: training.featured,
         isActive: training.isActive,
         displayOrder: training.displayOrder,
+        publicationStatus: training.publicationStatus,
+        publishAt: toDateTimeLocal(training.publishAt),
+        unpublishAt: toDateTimeLocal(training.unpublishAt),
       });
       setImageUrl(training.image || undefined);
     }
@@ -95,7 +108,7 @@ const TrainingForm = ({ trainingId: propTrainingId }: TrainingFormProps) => {
 
   const createMutation = useMutation({
     mutationFn: (data: TrainingFormData) =>
-      axios.post(`${API_URL}/admin/trainings`, data, {
+      axios.post(`${API_URL}/admin/trainings`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -106,7 +119,7 @@ const TrainingForm = ({ trainingId: propTrainingId }: TrainingFormProps) => {
 
   const updateMutation = useMutation({
     mutationFn: (data: TrainingFormData) =>
-      axios.put(`${API_URL}/admin/trainings/${trainingId}`, data, {
+      axios.put(`${API_URL}/admin/trainings/${trainingId}`, toPublicationPayload(data), {
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       }),
     onSuccess: () => {
@@ -132,10 +145,24 @@ const TrainingForm = ({ trainingId: propTrainingId }: TrainingFormProps) => {
     <div className="container mx-auto px-4 py-8">
       <Card>
         <CardHeader>
-          <CardTitle>{isEditMode ? 'Edit Training' : 'Create Training'}</CardTitle>
-          <CardDescription>
-            {isEditMode ? 'Update training information' : 'Add a new training to the platform'}
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{isEditMode ? 'Edit Training' : 'Create Training'}</CardTitle>
+              <CardDescription>
+                {isEditMode ? 'Update training information' : 'Add a new training to the platform'}
+              </CardDescription>
+            </div>
+            {isEditMode && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+                History
+              </Button>
+            )}
+          </div>
+          {isEditMode && (
+            <div className="mt-4">
+              <PreviewLinkButton type="trainings" id={trainingId!} path={`/trainings/${trainingId}`} />
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -234,6 +261,8 @@ const TrainingForm = ({ trainingId: propTrainingId }: TrainingFormProps) => {
               </div>
             </div>
 
+            <PublicationFields register={register} errors={errors} />
+
             <div className="flex gap-4">
               <Button
                 type="button"
@@ -249,6 +278,16 @@ const TrainingForm = ({ trainingId: propTrainingId }: TrainingFormProps) => {
           </form>
         </CardContent>
       </Card>
+
+      {isEditMode && (
+        <RevisionHistoryDrawer
+          type="trainings"
+          id={trainingId!}
+          open={showHistory}
+          onClose={() => setShowHistory(false)}
+          onRestored={() => queryClient.invalidateQueries({ queryKey: ['training', trainingId] })}
+        />
+      )}
     </div>
   );
 };
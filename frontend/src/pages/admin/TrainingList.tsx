@@ -8,16 +8,33 @@ import { Link } from 'react-router-dom';
 import { trainingService } from '../../services/api/contentService';
 import { Button } from '../../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { PublicationStatusBadge, PublicationStatusFilter } from '../../components/PublicationControls';
+import { BulkActionBar, SelectAllCheckbox } from '../../components/BulkActions';
+import { useListFilters } from '../../hooks/useListFilters';
+import { useSelection } from '../../hooks/useSelection';
 import axios from 'axios';
 
+const CATEGORY_OPTIONS = [
+  { value: 'INTRODUCTORY', label: 'Introductory' },
+  { value: 'NICHE_TOPICS', label: 'Niche Topics' },
+  { value: 'TOOL_BASED', label: 'Tool Based' },
+  { value: 'CODE_ALONG', label: 'Code Along' },
+  { value: 'APPS', label: 'Apps' },
+  { value: 'UTILITIES', label: 'Utilities' },
+  { value: 'SAAS_SCAFFOLDING', label: 'SaaS Scaffolding' },
+];
+
 const TrainingList = () => {
   const queryClient = useQueryClient();
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+  const { filters, setFilter } = useListFilters(['publicationStatus'] as const);
+  const selection = useSelection();
 
   const { data: trainings = [], isLoading } = useQuery({
-    queryKey: ['admin', 'trainings'],
+    queryKey: ['admin', 'trainings', filters.publicationStatus],
     queryFn: async () => {
       const response = await axios.get(`${API_URL}/admin/trainings`, {
+        params: { publicationStatus: filters.publicationStatus },
         headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
       });
       return response.data.data;
@@ -53,13 +70,37 @@ const TrainingList = () => {
         </Button>
       </div>
 
+      <PublicationStatusFilter
+        value={filters.publicationStatus}
+        onChange={(status) => {
+          setFilter('publicationStatus', status);
+          selection.clear();
+        }}
+      />
+
+      <BulkActionBar type="trainings" selected={selection.selected} onClear={selection.clear} categories={CATEGORY_OPTIONS} />
+      <SelectAllCheckbox
+        ids={trainings.map((training: any) => training.id)}
+        selected={selection.selected}
+        onToggle={selection.toggleAll}
+      />
+
       <div className="grid gap-4">
         {trainings.map((training: any) => (
           <Card key={training.id}>
             <CardHeader>
               <div className="flex justify-between items-start">
                 <div>
-                  <CardTitle>{training.title}</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${training.title}`}
+                      checked={selection.isSelected(training.id)}
+                      onChange={() => selection.toggle(training.id)}
+                    />
+                    <CardTitle>{training.title}</CardTitle>
+                    <PublicationStatusBadge status={training.publicationStatus} publishAt={training.publishAt} />
+                  </div>
                   <p className="text-sm text-muted-foreground mt-1">{training.description}</p>
                 </div>
                 <div className="flex gap-2">
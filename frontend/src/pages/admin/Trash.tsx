@@ -0,0 +1,138 @@
+/**
+ * Admin Trash Component
+ * Lists deleted content; super admins can restore items or delete them forever
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../../components/ui/button';
+import { Card, CardHeader, CardTitle } from '../../components/ui/card';
+import { useAuth } from '../../contexts/AuthContext';
+import { useListFilters } from '../../hooks/useListFilters';
+import { AdminContentType, TrashItem, trashService } from '../../services/api/adminService';
+
+const TYPE_LABELS: Record<AdminContentType, string> = {
+  trainings: 'Training',
+  tools: 'Tool',
+  products: 'Product',
+  knowledge: 'Knowledge article',
+  community: 'Community link',
+};
+
+const Trash = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const canManage = user?.role === 'SUPER_ADMIN';
+  const { filters, setFilter } = useListFilters(['type'] as const);
+  const type = filters.type as AdminContentType | undefined;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin', 'trash', type],
+    queryFn: () => trashService.list(type),
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) => trashService.restore(item.type, item.id),
+    onSuccess,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (item: TrashItem) => trashService.purge(item.type, item.id),
+    onSuccess,
+  });
+
+  const handlePurge = (item: TrashItem) => {
+    if (confirm(`Permanently delete "${item.title}"? This cannot be undone.`)) {
+      purgeMutation.mutate(item);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="container mx-auto px-4 py-8">Loading...</div>;
+  }
+
+  const items = data?.items ?? [];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Trash</h1>
+        {data && (
+          <p className="text-sm text-muted-foreground mt-1">
+            Deleted items are purged automatically after {data.retentionDays} days.
+          </p>
+        )}
+      </div>
+
+      <div className="max-w-xs mb-6">
+        <label htmlFor="trash-type-filter" className="block text-sm font-medium mb-2">
+          Content type
+        </label>
+        <select
+          id="trash-type-filter"
+          value={type || ''}
+          onChange={(e) => setFilter('type', e.target.value || undefined)}
+          className="w-full px-4 py-2 border border-input bg-background rounded-md"
+        >
+          <option value="">All types</option>
+          {(Object.keys(TYPE_LABELS) as AdminContentType[]).map((key) => (
+            <option key={key} value={key}>
+              {TYPE_LABELS[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {(restoreMutation.isError || purgeMutation.isError) && (
+        <p className="text-sm text-destructive mb-4">Could not update the trash. Please try again.</p>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-muted-foreground">The trash is empty.</p>
+      ) : (
+        <div className="grid gap-4">
+          {items.map((item) => (
+            <Card key={`${item.type}-${item.id}`}>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle>{item.title}</CardTitle>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {TYPE_LABELS[item.type]} · deleted {new Date(item.deletedAt).toLocaleDateString()} · purged on{' '}
+                      {new Date(item.purgeAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(item)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handlePurge(item)}
+                        disabled={purgeMutation.isPending}
+                      >
+                        Delete forever
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,206 @@
+/**
+ * Admin Users Component
+ * Search, page through and manage user accounts. Actions are only offered on
+ * accounts the current admin outranks.
+ */
+
+import { useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import UserDetailDrawer from '../../components/UserDetailDrawer';
+import { useListFilters } from '../../hooks/useListFilters';
+import { UserListFilters, UserRole, userAdminService } from '../../services/api/adminService';
+
+const PAGE_SIZE = 20;
+
+const FILTER_KEYS = ['search', 'role', 'status', 'page'] as const;
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  USER: 'User',
+  EDITOR: 'Editor',
+  SUPPORT: 'Support',
+  ADMIN: 'Admin',
+  SUPER_ADMIN: 'Super Admin',
+};
+
+const Users = () => {
+  const { filters, hasFilters, setFilter, setFilters, clearFilters } = useListFilters(FILTER_KEYS);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const page = Math.max(1, Number(filters.page) || 1);
+  const apiFilters: UserListFilters = {
+    search: filters.search,
+    role: filters.role as UserRole | undefined,
+    isActive: filters.status ? filters.status === 'active' : undefined,
+  };
+
+  // Changing a filter starts again from the first page
+  const updateFilter = (key: Exclude<(typeof FILTER_KEYS)[number], 'page'>, value?: string) => {
+    setFilters({ [key]: value, page: undefined });
+  };
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['admin', 'users', apiFilters, page],
+    queryFn: () => userAdminService.list(apiFilters, PAGE_SIZE, (page - 1) * PAGE_SIZE),
+    placeholderData: keepPreviousData,
+  });
+
+  const users = data?.users ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  // Read the selection from the latest list so the drawer reflects status changes
+  const selected = users.find((user) => user.id === selectedId) ?? null;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Users</h1>
+
+      <div className="grid gap-4 md:grid-cols-3 mb-6">
+        <div>
+          <label htmlFor="user-search" className="block text-sm font-medium mb-2">
+            Search
+          </label>
+          <Input
+            id="user-search"
+            defaultValue={filters.search}
+            placeholder="Email or name"
+            onBlur={(e) => updateFilter('search', e.target.value.trim() || undefined)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                updateFilter('search', e.currentTarget.value.trim() || undefined);
+              }
+            }}
+          />
+        </div>
+        <div>
+          <label htmlFor="user-role" className="block text-sm font-medium mb-2">
+            Role
+          </label>
+          <select
+            id="user-role"
+            value={filters.role || ''}
+            onChange={(e) => updateFilter('role', e.target.value || undefined)}
+            className="w-full px-4 py-2 border border-input bg-background rounded-md"
+          >
+            <option value="">All roles</option>
+            {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+              <option key={role} value={role}>
+                {ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="user-status" className="block text-sm font-medium mb-2">
+            Status
+          </label>
+          <select
+            id="user-status"
+            value={filters.status || ''}
+            onChange={(e) => updateFilter('status', e.target.value || undefined)}
+            className="w-full px-4 py-2 border border-input bg-background rounded-md"
+          >
+            <option value="">Any status</option>
+            <option value="active">Active</option>
+            <option value="inactive">Deactivated</option>
+          </select>
+        </div>
+      </div>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" className="mb-4" onClick={clearFilters}>
+          Clear filters
+        </Button>
+      )}
+
+      {isLoading ? (
+        <p>Loading...</p>
+      ) : isError ? (
+        <p className="text-destructive">Could not load users.</p>
+      ) : users.length === 0 ? (
+        <p className="text-muted-foreground">No users match these filters.</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-md">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-left">
+              <tr>
+                <th className="px-4 py-2 font-medium">User</th>
+                <th className="px-4 py-2 font-medium">Role</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2 font-medium">Sessions</th>
+                <th className="px-4 py-2 font-medium">Joined</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((user) => (
+                <tr key={user.id} className="border-t">
+                  <td className="px-4 py-2">
+                    {user.name && <span className="block font-medium">{user.name}</span>}
+                    <span className="text-muted-foreground">{user.email}</span>
+                  </td>
+                  <td className="px-4 py-2">{ROLE_LABELS[user.role]}</td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`px-2 py-1 rounded text-xs ${
+                        user.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {user.isActive ? 'Active' : 'Deactivated'}
+                    </span>
+                    {user.lockedUntil && new Date(user.lockedUntil) > new Date() && (
+                      <span className="ml-2 px-2 py-1 rounded text-xs bg-yellow-100 text-yellow-800">Locked</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{user.activeSessions}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{new Date(user.createdAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-2 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      aria-label={`${user.canManage ? 'Manage' : 'View'} ${user.email}`}
+                      onClick={() => setSelectedId(user.id)}
+                    >
+                      {user.canManage ? 'Manage' : 'View'}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4 text-sm">
+        <span className="text-muted-foreground">
+          {total === 0
+            ? 'No users'
+            : `Showing ${(page - 1) * PAGE_SIZE + 1}–${Math.min(page * PAGE_SIZE, total)} of ${total}`}
+        </span>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => setFilter('page', page - 1 > 1 ? String(page - 1) : undefined)}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= pageCount}
+            onClick={() => setFilter('page', String(page + 1))}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+
+      <UserDetailDrawer key={selectedId ?? 'none'} user={selected} onClose={() => setSelectedId(null)} />
+    </div>
+  );
+};
+
+export default Users;
@@ -0,0 +1,156 @@
+/**
+ * Admin Audit Log Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import AuditLog from '../AuditLog';
+import { auditService } from '../../../services/api/auditService';
+
+vi.mock('../../../services/api/auditService', () => ({
+  auditService: {
+    list: vi.fn(),
+    stats: vi.fn(),
+    export: vi.fn(),
+  },
+}));
+
+const updateLog = {
+  id: 'log-1',
+  userId: 'user-1',
+  user: { id: 'user-1', email: 'editor@test.com', name: 'Editor' },
+  action: 'CONTENT_UPDATE',
+  resource: 'tools',
+  resourceId: 'tool-1',
+  details: { method: 'PUT', changes: { title: { from: 'Old', to: 'New' } } },
+  ipAddress: '127.0.0.1',
+  userAgent: 'jest',
+  requestId: 'req-1',
+  createdAt: '2025-12-20T10:00:00.000Z',
+};
+
+const stats = {
+  totalLogs: 30,
+  uniqueUsers: 2,
+  actionCounts: { CONTENT_UPDATE: 20, AUTH_LOGIN: 10 },
+  resourceCounts: { tools: 20, users: 10 },
+};
+
+describe('Admin Audit Log', () => {
+  let queryClient: QueryClient;
+
+  const renderAuditLog = () =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <AuditLog />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+    window.history.replaceState({}, '', '/');
+    vi.mocked(auditService.list).mockResolvedValue({ logs: [updateLog], total: 30 });
+    vi.mocked(auditService.stats).mockResolvedValue(stats);
+  });
+
+  it('should list entries with the total and charts', async () => {
+    renderAuditLog();
+
+    expect(await screen.findByText('editor@test.com')).toBeInTheDocument();
+    expect(screen.getByText('Showing 1–25 of 30')).toBeInTheDocument();
+    expect(await screen.findByRole('list', { name: 'Top actions' })).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'By resource' })).toBeInTheDocument();
+    expect(auditService.list).toHaveBeenCalledWith(expect.any(Object), 25, 0);
+  });
+
+  it('should filter by action and reset to the first page', async () => {
+    const user = userEvent.setup();
+    window.history.replaceState({}, '', '/?page=2');
+    renderAuditLog();
+    await screen.findByText('editor@test.com');
+    await screen.findByRole('option', { name: 'AUTH_LOGIN' });
+
+    await user.selectOptions(screen.getByLabelText('Action'), 'AUTH_LOGIN');
+
+    await waitFor(() => {
+      expect(auditService.list).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'AUTH_LOGIN' }), 25, 0);
+    });
+    expect(auditService.stats).toHaveBeenCalledWith(expect.objectContaining({ action: 'AUTH_LOGIN' }));
+    expect(window.location.search).toContain('action=AUTH_LOGIN');
+    expect(window.location.search).not.toContain('page=');
+  });
+
+  it('should send the date range as whole days', async () => {
+    window.history.replaceState({}, '', '/?from=2025-12-01&to=2025-12-31');
+    renderAuditLog();
+
+    await waitFor(() => {
+      expect(auditService.list).toHaveBeenCalledWith(
+        expect.objectContaining({
+          startDate: new Date('2025-12-01T00:00:00').toISOString(),
+          endDate: new Date('2025-12-31T23:59:59.999').toISOString(),
+        }),
+        25,
+        0
+      );
+    });
+  });
+
+  it('should page through results', async () => {
+    const user = userEvent.setup();
+    renderAuditLog();
+    await screen.findByText('editor@test.com');
+
+    expect(screen.getByRole('button', { name: 'Previous' })).toBeDisabled();
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+
+    await waitFor(() => {
+      expect(auditService.list).toHaveBeenLastCalledWith(expect.any(Object), 25, 25);
+    });
+    expect(await screen.findByText('Showing 26–30 of 30')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+  });
+
+  it('should open the detail drawer with pretty-printed details', async () => {
+    const user = userEvent.setup();
+    renderAuditLog();
+
+    await user.click(await screen.findByText('editor@test.com'));
+
+    const drawer = screen.getByRole('dialog', { name: /audit log entry/i });
+    expect(within(drawer).getByText('req-1')).toBeInTheDocument();
+    expect(within(drawer).getByTestId('audit-details').textContent).toBe(
+      JSON.stringify(updateLog.details, null, 2)
+    );
+
+    await user.click(within(drawer).getByRole('button', { name: 'Close' }));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should export the current filter', async () => {
+    const user = userEvent.setup();
+    const createObjectURL = vi.fn(() => 'blob:audit');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    vi.mocked(auditService.export).mockResolvedValue(new Blob(['id\n']));
+    window.history.replaceState({}, '', '/?resource=tools');
+    renderAuditLog();
+    await screen.findByText('editor@test.com');
+
+    await user.click(screen.getByRole('button', { name: 'Export NDJSON' }));
+
+    await waitFor(() => {
+      expect(click).toHaveBeenCalled();
+    });
+    expect(auditService.export).toHaveBeenCalledWith(expect.objectContaining({ resource: 'tools' }), 'ndjson');
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:audit');
+    click.mockRestore();
+  });
+});
@@ -9,12 +9,17 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import CommunityForm from '../CommunityForm';
-import * as contentService from '../../../services/api/contentService';
+import * as adminService from '../../../services/api/adminService';
 
-vi.mock('../../../services/api/contentService', () => ({
-  communityService: {
+vi.mock('../../../services/api/adminService', () => ({
+  adminContentService: {
     getById: vi.fn(),
   },
+  revisionService: {
+    list: vi.fn(),
+    diff: vi.fn(),
+    restore: vi.fn(),
+  },
 }));
 
 vi.mock('../../../contexts/AuthContext', () => ({
@@ -63,7 +68,7 @@ describe('Admin Community Link Form', () => {
       updatedAt: new Date().toISOString(),
     };
 
-    vi.mocked(contentService.communityService.getById).mockResolvedValue(mockLink as any);
+    vi.mocked(adminService.adminContentService.getById).mockResolvedValue(mockLink as any);
 
     renderForm('1');
 
@@ -0,0 +1,101 @@
+/**
+ * Admin Background Jobs Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import Jobs from '../Jobs';
+import * as adminService from '../../../services/api/adminService';
+
+vi.mock('../../../services/api/adminService', () => ({
+  jobService: {
+    list: vi.fn(),
+    retry: vi.fn(),
+  },
+}));
+
+const deadJob = {
+  id: 'job-1',
+  type: 'gdpr.export',
+  payload: { requestId: 'export-1' },
+  status: 'DEAD' as const,
+  attempts: 5,
+  maxAttempts: 5,
+  runAt: '2026-01-05T10:00:00.000Z',
+  lastError: 'Storage unavailable',
+  completedAt: null,
+  createdAt: '2026-01-05T09:00:00.000Z',
+};
+
+describe('Admin Background Jobs', () => {
+  let queryClient: QueryClient;
+
+  const renderJobs = () =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <Jobs />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+    window.history.replaceState({}, '', '/');
+    vi.mocked(adminService.jobService.list).mockResolvedValue({
+      jobs: [deadJob],
+      total: 1,
+      counts: { PENDING: 2, RUNNING: 0, COMPLETED: 7, DEAD: 1 },
+    });
+  });
+
+  it('should list jobs with attempts and the last error', async () => {
+    renderJobs();
+
+    expect(await screen.findByText('Data export')).toBeInTheDocument();
+    expect(screen.getByText('5 / 5')).toBeInTheDocument();
+    expect(screen.getByText('Storage unavailable')).toBeInTheDocument();
+    expect(adminService.jobService.list).toHaveBeenCalledWith({ status: undefined, limit: 50 });
+  });
+
+  it('should filter by status', async () => {
+    const user = userEvent.setup();
+    renderJobs();
+    await screen.findByText('Data export');
+
+    await user.selectOptions(screen.getByLabelText(/status/i), 'DEAD');
+
+    await waitFor(() => {
+      expect(adminService.jobService.list).toHaveBeenLastCalledWith({ status: 'DEAD', limit: 50 });
+    });
+    expect(window.location.search).toContain('status=DEAD');
+  });
+
+  it('should retry a dead job', async () => {
+    const user = userEvent.setup();
+    vi.mocked(adminService.jobService.retry).mockResolvedValue({ ...deadJob, status: 'PENDING', attempts: 0 });
+    renderJobs();
+
+    await user.click(await screen.findByRole('button', { name: /retry/i }));
+
+    await waitFor(() => {
+      expect(adminService.jobService.retry).toHaveBeenCalledWith('job-1');
+    });
+  });
+
+  it('should not offer a retry for jobs that are still going', async () => {
+    vi.mocked(adminService.jobService.list).mockResolvedValue({
+      jobs: [{ ...deadJob, status: 'PENDING', attempts: 1, lastError: null }],
+      total: 1,
+      counts: { PENDING: 1, RUNNING: 0, COMPLETED: 0, DEAD: 0 },
+    });
+    renderJobs();
+
+    expect(await screen.findByText('Data export')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /retry/i })).not.toBeInTheDocument();
+  });
+});
@@ -9,12 +9,17 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import KnowledgeForm from '../KnowledgeForm';
-import * as contentService from '../../../services/api/contentService';
+import * as adminService from '../../../services/api/adminService';
 
-vi.mock('../../../services/api/contentService', () => ({
-  knowledgeService: {
+vi.mock('../../../services/api/adminService', () => ({
+  adminContentService: {
     getById: vi.fn(),
   },
+  revisionService: {
+    list: vi.fn(),
+    diff: vi.fn(),
+    restore: vi.fn(),
+  },
 }));
 
 vi.mock('../../../contexts/AuthContext', () => ({
@@ -66,7 +71,7 @@ describe('Admin Knowledge Article Form', () => {
       updatedAt: new Date().toISOString(),
     };
 
-    vi.mocked(contentService.knowledgeService.getById).mockResolvedValue(mockArticle as any);
+    vi.mocked(adminService.adminContentService.getById).mockResolvedValue(mockArticle as any);
 
     renderForm('1');
 
@@ -0,0 +1,65 @@
+/**
+ * Admin Legal Documents Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import LegalDocuments from '../LegalDocuments';
+import * as adminService from '../../../services/api/adminService';
+
+vi.mock('../../../services/api/adminService', () => ({
+  legalDocumentService: {
+    list: vi.fn(),
+    remove: vi.fn(),
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const version = (id: string, versionNumber: string, effectiveAt: Date) => ({
+  id,
+  type: 'TERMS_OF_SERVICE' as const,
+  version: versionNumber,
+  title: `Terms v${versionNumber}`,
+  body: '# Terms',
+  summary: null,
+  effectiveAt: effectiveAt.toISOString(),
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('Admin Legal Documents', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+    vi.mocked(adminService.legalDocumentService.list).mockResolvedValue([
+      version('doc-3', '3', new Date(Date.now() + DAY)),
+      version('doc-2', '2', new Date(Date.now() - DAY)),
+      version('doc-1', '1', new Date(Date.now() - 10 * DAY)),
+    ]);
+  });
+
+  it('should show which version is in effect, and allow editing upcoming ones only', async () => {
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <LegalDocuments />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+
+    const upcoming = (await screen.findByText('Terms v3')).closest('tr')!;
+    const current = screen.getByText('Terms v2').closest('tr')!;
+    const superseded = screen.getByText('Terms v1').closest('tr')!;
+
+    expect(within(upcoming).getByText('Upcoming')).toBeInTheDocument();
+    expect(within(upcoming).getByRole('link', { name: 'Edit' })).toHaveAttribute('href', '/admin/legal/doc-3/edit');
+    expect(within(current).getByText('In effect')).toBeInTheDocument();
+    expect(within(current).queryByRole('button', { name: 'Delete' })).not.toBeInTheDocument();
+    expect(within(superseded).getByText('Superseded')).toBeInTheDocument();
+  });
+});
@@ -9,12 +9,17 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import ProductForm from '../ProductForm';
-import * as contentService from '../../../services/api/contentService';
+import * as adminService from '../../../services/api/adminService';
 
-vi.mock('../../../services/api/contentService', () => ({
-  productService: {
+vi.mock('../../../services/api/adminService', () => ({
+  adminContentService: {
     getById: vi.fn(),
   },
+  revisionService: {
+    list: vi.fn(),
+    diff: vi.fn(),
+    restore: vi.fn(),
+  },
 }));
 
 vi.mock('../../../contexts/AuthContext', () => ({
@@ -47,7 +52,7 @@ describe('Admin Product Form', () => {
 
     expect(screen.getByLabelText(/title/i)).toBeInTheDocument();
     expect(screen.getByLabelText(/description/i)).toBeInTheDocument();
-    expect(screen.getByLabelText(/status/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/^status/i)).toBeInTheDocument();
     expect(screen.getByLabelText(/external link/i)).toBeInTheDocument();
   });
 
@@ -67,7 +72,7 @@ describe('Admin Product Form', () => {
       updatedAt: new Date().toISOString(),
     };
 
-    vi.mocked(contentService.productService.getById).mockResolvedValue(mockProduct as any);
+    vi.mocked(adminService.adminContentService.getById).mockResolvedValue(mockProduct as any);
 
     renderForm('1');
 
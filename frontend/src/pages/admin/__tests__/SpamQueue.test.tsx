@@ -0,0 +1,103 @@
+/**
+ * Admin Spam Queue Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import SpamQueue from '../SpamQueue';
+import * as adminService from '../../../services/api/adminService';
+
+vi.mock('../../../services/api/adminService', () => ({
+  spamService: {
+    list: vi.fn(),
+    release: vi.fn(),
+    remove: vi.fn(),
+  },
+}));
+
+const flaggedMessage = {
+  id: 'contact-1',
+  name: 'Jane Visitor',
+  email: 'jane@example.com',
+  subject: 'Question about training',
+  message: 'When does the next cohort start?',
+  spamReasons: ['too_fast' as const],
+  ipAddress: '10.0.0.1',
+  createdAt: '2026-01-03T10:00:00.000Z',
+};
+
+describe('Admin Spam Queue', () => {
+  let queryClient: QueryClient;
+
+  const renderQueue = () =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <SpamQueue />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+    window.history.replaceState({}, '', '/');
+    vi.mocked(adminService.spamService.list).mockResolvedValue({ items: [flaggedMessage], total: 1 });
+  });
+
+  it('should list flagged contact messages with the reasons', async () => {
+    renderQueue();
+
+    expect(await screen.findByText('Question about training')).toBeInTheDocument();
+    expect(screen.getByText('Submitted too quickly')).toBeInTheDocument();
+    expect(adminService.spamService.list).toHaveBeenCalledWith('contact');
+  });
+
+  it('should switch to newsletter sign-ups', async () => {
+    const user = userEvent.setup();
+    renderQueue();
+    await screen.findByText('Question about training');
+
+    await user.selectOptions(screen.getByLabelText(/form/i), 'newsletter');
+
+    await waitFor(() => {
+      expect(adminService.spamService.list).toHaveBeenLastCalledWith('newsletter');
+    });
+    expect(window.location.search).toContain('type=newsletter');
+  });
+
+  it('should release a false positive', async () => {
+    const user = userEvent.setup();
+    vi.mocked(adminService.spamService.release).mockResolvedValue(flaggedMessage);
+    renderQueue();
+
+    await user.click(await screen.findByRole('button', { name: /not spam/i }));
+
+    await waitFor(() => {
+      expect(adminService.spamService.release).toHaveBeenCalledWith('contact', 'contact-1');
+    });
+  });
+
+  it('should delete spam after confirmation', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.mocked(adminService.spamService.remove).mockResolvedValue();
+    renderQueue();
+
+    await user.click(await screen.findByRole('button', { name: /delete/i }));
+
+    await waitFor(() => {
+      expect(adminService.spamService.remove).toHaveBeenCalledWith('contact', 'contact-1');
+    });
+  });
+
+  it('should say when nothing is waiting', async () => {
+    vi.mocked(adminService.spamService.list).mockResolvedValue({ items: [], total: 0 });
+    renderQueue();
+
+    expect(await screen.findByText(/nothing is waiting for review/i)).toBeInTheDocument();
+  });
+});
@@ -9,12 +9,17 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import ToolForm from '../ToolForm';
-import * as contentService from '../../../services/api/contentService';
+import * as adminService from '../../../services/api/adminService';
 
-vi.mock('../../../services/api/contentService', () => ({
-  toolService: {
+vi.mock('../../../services/api/adminService', () => ({
+  adminContentService: {
     getById: vi.fn(),
   },
+  revisionService: {
+    list: vi.fn(),
+    diff: vi.fn(),
+    restore: vi.fn(),
+  },
 }));
 
 vi.mock('../../../contexts/AuthContext', () => ({
@@ -67,7 +72,7 @@ describe('Admin Tool Form', () => {
       updatedAt: new Date().toISOString(),
     };
 
-    vi.mocked(contentService.toolService.getById).mockResolvedValue(mockTool as any);
+    vi.mocked(adminService.adminContentService.getById).mockResolvedValue(mockTool as any);
 
     renderForm('1');
 
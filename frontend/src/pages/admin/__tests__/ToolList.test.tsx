@@ -5,6 +5,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import ToolList from '../ToolList';
@@ -22,6 +23,7 @@ describe('Admin Tool List', () => {
   beforeEach(() => {
     queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
     vi.clearAllMocks();
+    window.history.replaceState({}, '', '/');
   });
 
   it('should render tool list with edit and delete actions', async () => {
@@ -61,5 +63,75 @@ describe('Admin Tool List', () => {
     expect(editLinks.some(link => link.textContent?.toLowerCase().includes('edit'))).toBe(true);
     expect(deleteButtons.some(btn => btn.textContent?.toLowerCase().includes('delete'))).toBe(true);
   });
-});
 
+  it('should show publication status and filter the list by it', async () => {
+    const user = userEvent.setup();
+    const axios = await import('axios');
+    const getSpy = vi.spyOn(axios.default, 'get').mockResolvedValue({
+      data: {
+        success: true,
+        data: [
+          {
+            id: '2',
+            title: 'Draft Tool',
+            description: 'Description',
+            publicationStatus: 'DRAFT',
+            isActive: true,
+            displayOrder: 1,
+          },
+        ],
+      },
+    } as any);
+
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <ToolList />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+
+    expect(await screen.findByTestId('publication-status')).toHaveTextContent('Draft');
+
+    await user.selectOptions(screen.getByLabelText(/publication status/i), 'DRAFT');
+
+    await waitFor(() => {
+      expect(getSpy).toHaveBeenLastCalledWith(
+        expect.stringContaining('/admin/tools'),
+        expect.objectContaining({ params: { publicationStatus: 'DRAFT' } })
+      );
+    });
+    expect(window.location.search).toBe('?publicationStatus=DRAFT');
+  });
+
+  it('should show the bulk action bar when rows are selected', async () => {
+    const user = userEvent.setup();
+    const axios = await import('axios');
+    vi.spyOn(axios.default, 'get').mockResolvedValue({
+      data: {
+        success: true,
+        data: [
+          { id: '1', title: 'Tool 1', description: 'Description', isActive: true, displayOrder: 1 },
+          { id: '2', title: 'Tool 2', description: 'Description', isActive: true, displayOrder: 2 },
+        ],
+      },
+    } as any);
+
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <ToolList />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+
+    await user.click(await screen.findByLabelText('Select Tool 1'));
+    expect(screen.getByText('1 selected')).toBeInTheDocument();
+
+    await user.click(screen.getByLabelText(/select all/i));
+    expect(screen.getByText('2 selected')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /clear selection/i }));
+    expect(screen.queryByRole('region', { name: /bulk actions/i })).not.toBeInTheDocument();
+  });
+});
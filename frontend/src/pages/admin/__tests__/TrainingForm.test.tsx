@@ -9,13 +9,17 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import TrainingForm from '../TrainingForm';
-import * as contentService from '../../../services/api/contentService';
+import * as adminService from '../../../services/api/adminService';
 
-vi.mock('../../../services/api/contentService', () => ({
-  trainingService: {
-    getAll: vi.fn(),
+vi.mock('../../../services/api/adminService', () => ({
+  adminContentService: {
     getById: vi.fn(),
   },
+  revisionService: {
+    list: vi.fn(),
+    diff: vi.fn(),
+    restore: vi.fn(),
+  },
 }));
 
 vi.mock('../../../contexts/AuthContext', () => ({
@@ -70,7 +74,7 @@ describe('Admin Training Form', () => {
       updatedAt: new Date().toISOString(),
     };
 
-    vi.mocked(contentService.trainingService.getById).mockResolvedValue(mockTraining as any);
+    vi.mocked(adminService.adminContentService.getById).mockResolvedValue(mockTraining as any);
 
     renderForm('1');
 
@@ -12,7 +12,7 @@ import * as contentService from '../../../services/api/contentService';
 
 vi.mock('../../../services/api/contentService', () => ({
   trainingService: {
-    getAll: vi.fn(),
+    list: vi.fn(),
   },
 }));
 
@@ -0,0 +1,117 @@
+/**
+ * Admin Trash Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import Trash from '../Trash';
+import * as adminService from '../../../services/api/adminService';
+
+const mockUser = vi.hoisted(() => ({ current: { id: '1', email: 'super@test.com', role: 'SUPER_ADMIN' } }));
+
+vi.mock('../../../contexts/AuthContext', () => ({
+  useAuth: () => ({
+    isAuthenticated: true,
+    user: mockUser.current,
+  }),
+}));
+
+vi.mock('../../../services/api/adminService', () => ({
+  trashService: {
+    list: vi.fn(),
+    restore: vi.fn(),
+    purge: vi.fn(),
+  },
+}));
+
+const trashedTool = {
+  type: 'tools' as const,
+  contentType: 'TOOL',
+  id: 'tool-1',
+  title: 'Deleted Tool',
+  deletedAt: '2025-12-20T10:00:00.000Z',
+  purgeAt: '2026-01-19T10:00:00.000Z',
+};
+
+describe('Admin Trash', () => {
+  let queryClient: QueryClient;
+
+  const renderTrash = () =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <Trash />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+    window.history.replaceState({}, '', '/');
+    mockUser.current = { id: '1', email: 'super@test.com', role: 'SUPER_ADMIN' };
+    vi.mocked(adminService.trashService.list).mockResolvedValue({ items: [trashedTool], retentionDays: 30 });
+  });
+
+  it('should list trashed items with the retention period', async () => {
+    renderTrash();
+
+    expect(await screen.findByText('Deleted Tool')).toBeInTheDocument();
+    expect(screen.getByText(/purged automatically after 30 days/i)).toBeInTheDocument();
+  });
+
+  it('should filter by content type', async () => {
+    const user = userEvent.setup();
+    renderTrash();
+    await screen.findByText('Deleted Tool');
+
+    await user.selectOptions(screen.getByLabelText(/content type/i), 'knowledge');
+
+    await waitFor(() => {
+      expect(adminService.trashService.list).toHaveBeenLastCalledWith('knowledge');
+    });
+    expect(window.location.search).toContain('type=knowledge');
+  });
+
+  it('should restore an item', async () => {
+    const user = userEvent.setup();
+    vi.mocked(adminService.trashService.restore).mockResolvedValue({});
+    renderTrash();
+
+    await user.click(await screen.findByRole('button', { name: /restore/i }));
+
+    await waitFor(() => {
+      expect(adminService.trashService.restore).toHaveBeenCalledWith('tools', 'tool-1');
+    });
+  });
+
+  it('should ask for confirmation before deleting forever', async () => {
+    const user = userEvent.setup();
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    vi.mocked(adminService.trashService.purge).mockResolvedValue();
+    renderTrash();
+
+    const purgeButton = await screen.findByRole('button', { name: /delete forever/i });
+    await user.click(purgeButton);
+    expect(adminService.trashService.purge).not.toHaveBeenCalled();
+
+    await user.click(purgeButton);
+    await waitFor(() => {
+      expect(adminService.trashService.purge).toHaveBeenCalledWith('tools', 'tool-1');
+    });
+
+    confirmSpy.mockRestore();
+  });
+
+  it('should hide restore and purge for regular admins', async () => {
+    mockUser.current = { id: '2', email: 'admin@test.com', role: 'ADMIN' };
+    renderTrash();
+
+    await screen.findByText('Deleted Tool');
+    expect(screen.queryByRole('button', { name: /restore/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /delete forever/i })).not.toBeInTheDocument();
+  });
+});
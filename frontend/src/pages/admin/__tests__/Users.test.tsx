@@ -0,0 +1,191 @@
+/**
+ * Admin Users Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import Users from '../Users';
+import * as adminService from '../../../services/api/adminService';
+
+vi.mock('../../../services/api/adminService', () => ({
+  userAdminService: {
+    list: vi.fn(),
+    setActive: vi.fn(),
+    forceLogout: vi.fn(),
+    unlock: vi.fn(),
+    sessions: vi.fn(),
+    payments: vi.fn(),
+    consents: vi.fn(),
+  },
+}));
+
+const member = {
+  id: 'user-1',
+  email: 'member@test.com',
+  name: 'Member',
+  role: 'USER' as const,
+  isActive: true,
+  emailVerified: true,
+  failedLoginAttempts: 0,
+  lockedUntil: null,
+  createdAt: '2025-12-01T10:00:00.000Z',
+  updatedAt: '2025-12-01T10:00:00.000Z',
+  activeSessions: 2,
+  canManage: true,
+};
+
+const owner = {
+  ...member,
+  id: 'user-2',
+  email: 'owner@test.com',
+  name: 'Owner',
+  role: 'SUPER_ADMIN' as const,
+  activeSessions: 0,
+  canManage: false,
+};
+
+describe('Admin Users', () => {
+  let queryClient: QueryClient;
+  const service = adminService.userAdminService;
+
+  const renderUsers = () =>
+    render(
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <Users />
+        </BrowserRouter>
+      </QueryClientProvider>
+    );
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.clearAllMocks();
+    window.history.replaceState({}, '', '/');
+    vi.mocked(service.list).mockResolvedValue({ users: [member, owner], total: 2 });
+    vi.mocked(service.sessions).mockResolvedValue([
+      {
+        id: 'session-1',
+        createdAt: '2025-12-20T10:00:00.000Z',
+        expiresAt: '2026-01-19T10:00:00.000Z',
+        ipAddress: '10.0.0.1',
+        userAgent: 'Firefox',
+      },
+    ]);
+    vi.mocked(service.payments).mockResolvedValue([]);
+    vi.mocked(service.consents).mockResolvedValue([]);
+  });
+
+  it('should list users with their role and status', async () => {
+    renderUsers();
+
+    expect(await screen.findByText('member@test.com')).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'Super Admin' })).toBeInTheDocument();
+    expect(screen.getByText('Showing 1–2 of 2')).toBeInTheDocument();
+    expect(service.list).toHaveBeenCalledWith(expect.any(Object), 20, 0);
+  });
+
+  it('should filter by role and status', async () => {
+    const user = userEvent.setup();
+    renderUsers();
+    await screen.findByText('member@test.com');
+
+    await user.selectOptions(screen.getByLabelText('Role'), 'ADMIN');
+    await user.selectOptions(screen.getByLabelText('Status'), 'inactive');
+
+    await waitFor(() => {
+      expect(service.list).toHaveBeenLastCalledWith({ role: 'ADMIN', isActive: false }, 20, 0);
+    });
+    expect(window.location.search).toContain('role=ADMIN');
+  });
+
+  it('should show sessions and deactivate a manageable user', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.mocked(service.setActive).mockResolvedValue({ ...member, isActive: false });
+    renderUsers();
+
+    await user.click(await screen.findByRole('button', { name: /manage member@test.com/i }));
+
+    const drawer = screen.getByRole('dialog', { name: /user details/i });
+    expect(await within(drawer).findByText('Firefox')).toBeInTheDocument();
+
+    await user.click(within(drawer).getByRole('button', { name: 'Deactivate' }));
+
+    await waitFor(() => {
+      expect(service.setActive).toHaveBeenCalledWith('user-1', false);
+    });
+  });
+
+  it('should force a logout', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.mocked(service.forceLogout).mockResolvedValue({ revokedSessions: 2 });
+    renderUsers();
+
+    await user.click(await screen.findByRole('button', { name: /manage member@test.com/i }));
+    await user.click(screen.getByRole('button', { name: 'Force logout' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Revoked 2 session(s).');
+    expect(service.forceLogout).toHaveBeenCalledWith('user-1');
+  });
+
+  it('should unlock a locked account', async () => {
+    const user = userEvent.setup();
+    const locked = {
+      ...member,
+      failedLoginAttempts: 5,
+      lockedUntil: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+    };
+    vi.mocked(service.list).mockResolvedValue({ users: [locked], total: 1 });
+    vi.mocked(service.unlock).mockResolvedValue({ ...member });
+    renderUsers();
+
+    expect(await screen.findByText('Locked')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /manage member@test.com/i }));
+
+    const drawer = screen.getByRole('dialog', { name: /user details/i });
+    expect(within(drawer).getByText(/after 5 failed login attempts/)).toBeInTheDocument();
+    await user.click(within(drawer).getByRole('button', { name: 'Unlock' }));
+
+    await waitFor(() => {
+      expect(service.unlock).toHaveBeenCalledWith('user-1');
+    });
+  });
+
+  it('should not offer actions on users the admin does not outrank', async () => {
+    const user = userEvent.setup();
+    renderUsers();
+
+    await user.click(await screen.findByRole('button', { name: /view owner@test.com/i }));
+
+    const drawer = screen.getByRole('dialog', { name: /user details/i });
+    expect(within(drawer).queryByRole('button', { name: 'Deactivate' })).not.toBeInTheDocument();
+    expect(within(drawer).getByText(/cannot manage this account/i)).toBeInTheDocument();
+  });
+
+  it('should show payments on their tab', async () => {
+    const user = userEvent.setup();
+    vi.mocked(service.payments).mockResolvedValue([
+      {
+        id: 'pay-1',
+        provider: 'STRIPE',
+        amount: '49.99',
+        currency: 'USD',
+        status: 'SUCCEEDED',
+        description: 'Workshop ticket',
+        refundedAmount: null,
+        createdAt: '2025-12-10T10:00:00.000Z',
+      },
+    ]);
+    renderUsers();
+
+    await user.click(await screen.findByRole('button', { name: /manage member@test.com/i }));
+    await user.click(screen.getByRole('tab', { name: 'Payments' }));
+
+    expect(await screen.findByText('Workshop ticket')).toBeInTheDocument();
+    expect(service.payments).toHaveBeenCalledWith('user-1');
+  });
+});
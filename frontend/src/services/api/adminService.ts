@@ -0,0 +1,403 @@
+/**
+ * Admin API Service
+ * Handles admin-only API calls that are shared across content types
+ */
+
+import axios from 'axios';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export const adminApi = axios.create({
+  baseURL: `${API_URL}/admin`,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem('accessToken')}`,
+});
+
+// Route segment of each admin-managed content type
+export type AdminContentType = 'trainings' | 'tools' | 'products' | 'knowledge' | 'community';
+
+// Admin reads of any content item, including drafts and scheduled items the public API hides
+export const adminContentService = {
+  getById: async <T>(type: AdminContentType, id: string): Promise<T> => {
+    const response = await adminApi.get(`/${type}/${id}`, { headers: authHeaders() });
+    return response.data.data;
+  },
+};
+
+export type BulkAction =
+  | 'activate'
+  | 'deactivate'
+  | 'feature'
+  | 'unfeature'
+  | 'delete'
+  | 'changeCategory'
+  | 'setDisplayOrder';
+
+export interface BulkRequest {
+  ids: string[];
+  action: BulkAction;
+  category?: string;
+  displayOrder?: number;
+}
+
+export interface BulkResult {
+  action: BulkAction;
+  succeeded: number;
+  failed: number;
+  results: { id: string; success: boolean; error?: string }[];
+}
+
+// Apply one action to many items of a content type at once
+export const bulkService = {
+  apply: async (type: AdminContentType, request: BulkRequest): Promise<BulkResult> => {
+    const response = await adminApi.post(`/${type}/bulk`, request, { headers: authHeaders() });
+    return response.data.data;
+  },
+};
+
+export interface PreviewToken {
+  token: string;
+  expiresAt: string;
+}
+
+// Signed, expiring links for showing unpublished content on the public site
+export const previewService = {
+  createToken: async (type: AdminContentType, id: string, ttlHours?: number): Promise<PreviewToken> => {
+    const response = await adminApi.post(`/${type}/${id}/preview-token`, { ttlHours }, { headers: authHeaders() });
+    return response.data.data;
+  },
+};
+
+export interface RevisionEditor {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface ContentRevision {
+  id: string;
+  contentType: string;
+  contentId: string;
+  title: string | null;
+  editor: RevisionEditor | null;
+  createdAt: string;
+}
+
+export interface FieldChange {
+  field: string;
+  revision: unknown;
+  current: unknown;
+}
+
+export interface RevisionDiff {
+  revision: {
+    id: string;
+    createdAt: string;
+    editor: RevisionEditor | null;
+  };
+  changes: FieldChange[];
+}
+
+// Revision history endpoints
+export const revisionService = {
+  list: async (type: AdminContentType, id: string): Promise<ContentRevision[]> => {
+    const response = await adminApi.get(`/${type}/${id}/revisions`, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  diff: async (type: AdminContentType, id: string, revisionId: string): Promise<RevisionDiff> => {
+    const response = await adminApi.get(`/${type}/${id}/revisions/${revisionId}/diff`, {
+      headers: authHeaders(),
+    });
+    return response.data.data;
+  },
+
+  restore: async (type: AdminContentType, id: string, revisionId: string) => {
+    const response = await adminApi.post(`/${type}/${id}/revisions/${revisionId}/restore`, null, {
+      headers: authHeaders(),
+    });
+    return response.data.data;
+  },
+};
+
+export interface TrashItem {
+  type: AdminContentType;
+  contentType: string;
+  id: string;
+  title: string;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+export interface TrashList {
+  items: TrashItem[];
+  retentionDays: number;
+}
+
+// Deleted content waiting to be restored or purged
+export const trashService = {
+  list: async (type?: AdminContentType): Promise<TrashList> => {
+    const response = await adminApi.get('/trash', { params: { type }, headers: authHeaders() });
+    return { items: response.data.data, retentionDays: response.data.meta.retentionDays };
+  },
+
+  restore: async (type: AdminContentType, id: string) => {
+    const response = await adminApi.post(`/trash/${type}/${id}/restore`, null, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  purge: async (type: AdminContentType, id: string): Promise<void> => {
+    await adminApi.delete(`/trash/${type}/${id}`, { headers: authHeaders() });
+  },
+};
+
+export type UserRole = 'USER' | 'EDITOR' | 'SUPPORT' | 'ADMIN' | 'SUPER_ADMIN';
+
+export interface ManagedUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  isActive: boolean;
+  emailVerified: boolean;
+  failedLoginAttempts: number;
+  /** Set while logins are refused after repeated failures */
+  lockedUntil: string | null;
+  createdAt: string;
+  updatedAt: string;
+  activeSessions: number;
+  /** Whether the current admin may act on this account (role hierarchy) */
+  canManage: boolean;
+}
+
+export interface UserListFilters {
+  search?: string;
+  role?: UserRole;
+  isActive?: boolean;
+}
+
+export interface UserPage {
+  users: ManagedUser[];
+  total: number;
+}
+
+export interface UserSession {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface UserPayment {
+  id: string;
+  provider: string;
+  amount: string;
+  currency: string;
+  status: string;
+  description: string | null;
+  refundedAmount: string | null;
+  createdAt: string;
+}
+
+export interface UserConsent {
+  consentType: string;
+  granted: boolean;
+  grantedAt: string | null;
+  revokedAt: string | null;
+  version: string | null;
+  updatedAt: string;
+}
+
+export const userAdminService = {
+  list: async (filters: UserListFilters, limit: number, offset: number): Promise<UserPage> => {
+    const response = await adminApi.get('/users', { params: { ...filters, limit, offset }, headers: authHeaders() });
+    return { users: response.data.data, total: response.data.meta.total };
+  },
+
+  setActive: async (id: string, isActive: boolean): Promise<ManagedUser> => {
+    const response = await adminApi.patch(`/users/${id}/status`, { isActive }, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  forceLogout: async (id: string): Promise<{ revokedSessions: number }> => {
+    const response = await adminApi.post(`/users/${id}/logout`, null, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  unlock: async (id: string): Promise<ManagedUser> => {
+    const response = await adminApi.post(`/users/${id}/unlock`, null, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  sessions: async (id: string): Promise<UserSession[]> => {
+    const response = await adminApi.get(`/users/${id}/sessions`, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  payments: async (id: string): Promise<UserPayment[]> => {
+    const response = await adminApi.get(`/users/${id}/payments`, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  consents: async (id: string): Promise<UserConsent[]> => {
+    const response = await adminApi.get(`/users/${id}/consents`, { headers: authHeaders() });
+    return response.data.data;
+  },
+};
+
+export type SpamType = 'contact' | 'newsletter';
+
+export type SpamReason =
+  | 'honeypot'
+  | 'missing_token'
+  | 'invalid_token'
+  | 'too_fast'
+  | 'too_many_links'
+  | 'blocked_phrase'
+  | 'disposable_email';
+
+// A contact submission or newsletter sign-up held back by the spam checks
+export interface FlaggedSubmission {
+  id: string;
+  email: string;
+  name?: string;
+  subject?: string;
+  message?: string;
+  spamReasons: SpamReason[];
+  ipAddress: string | null;
+  createdAt?: string;
+  subscribedAt?: string;
+}
+
+export interface SpamList {
+  items: FlaggedSubmission[];
+  total: number;
+}
+
+// Review queue for flagged form submissions
+export const spamService = {
+  list: async (type: SpamType, params: { limit?: number; offset?: number } = {}): Promise<SpamList> => {
+    const response = await adminApi.get('/spam', { params: { type, ...params }, headers: authHeaders() });
+    return { items: response.data.data, total: response.data.meta.total };
+  },
+
+  release: async (type: SpamType, id: string): Promise<FlaggedSubmission> => {
+    const response = await adminApi.post(`/spam/${type}/${id}/release`, null, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  remove: async (type: SpamType, id: string): Promise<void> => {
+    await adminApi.delete(`/spam/${type}/${id}`, { headers: authHeaders() });
+  },
+};
+
+export type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'DEAD';
+
+// A background job (GDPR export or deletion)
+export interface Job {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface JobList {
+  jobs: Job[];
+  total: number;
+  counts: Record<JobStatus, number>;
+}
+
+// Background job queue status
+export const jobService = {
+  list: async (params: { status?: JobStatus; limit?: number; offset?: number } = {}): Promise<JobList> => {
+    const response = await adminApi.get('/jobs', { params, headers: authHeaders() });
+    return { jobs: response.data.data, total: response.data.meta.total, counts: response.data.meta.counts };
+  },
+
+  retry: async (id: string): Promise<Job> => {
+    const response = await adminApi.post(`/jobs/${id}/retry`, null, { headers: authHeaders() });
+    return response.data.data;
+  },
+};
+
+export interface SecurityPolicy {
+  requireAdminTwoFactor: boolean;
+  updatedById: string | null;
+  updatedAt: string;
+}
+
+export const securityPolicyService = {
+  get: async (): Promise<SecurityPolicy> => {
+    const response = await adminApi.get('/security/policy', { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  update: async (requireAdminTwoFactor: boolean): Promise<SecurityPolicy> => {
+    const response = await adminApi.put('/security/policy', { requireAdminTwoFactor }, { headers: authHeaders() });
+    return response.data.data;
+  },
+};
+
+export type LegalDocumentType = 'TERMS_OF_SERVICE' | 'PRIVACY_POLICY';
+
+// A version of the terms of service or privacy policy
+export interface AdminLegalDocument {
+  id: string;
+  type: LegalDocumentType;
+  version: string;
+  title: string;
+  body: string;
+  summary: string | null;
+  effectiveAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LegalDocumentInput {
+  type: LegalDocumentType;
+  version: string;
+  title: string;
+  body: string;
+  summary?: string | null;
+  /** ISO date */
+  effectiveAt: string;
+}
+
+// Versions of the legal documents; only upcoming ones can be edited or deleted
+export const legalDocumentService = {
+  list: async (type?: LegalDocumentType): Promise<AdminLegalDocument[]> => {
+    const response = await adminApi.get('/legal', { params: { type }, headers: authHeaders() });
+    return response.data.data;
+  },
+
+  get: async (id: string): Promise<AdminLegalDocument> => {
+    const response = await adminApi.get(`/legal/${id}`, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  create: async (data: LegalDocumentInput): Promise<AdminLegalDocument> => {
+    const response = await adminApi.post('/legal', data, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  update: async (id: string, data: Partial<LegalDocumentInput>): Promise<AdminLegalDocument> => {
+    const response = await adminApi.put(`/legal/${id}`, data, { headers: authHeaders() });
+    return response.data.data;
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await adminApi.delete(`/legal/${id}`, { headers: authHeaders() });
+  },
+};
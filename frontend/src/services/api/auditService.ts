@@ -0,0 +1,77 @@
+/**
+ * Audit API Service
+ * Admin-only access to the audit log: filtered lists, statistics and exports
+ */
+
+import axios from 'axios';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+const auditApi = axios.create({
+  baseURL: `${API_URL}/audit`,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem('accessToken')}`,
+});
+
+export interface AuditLogFilters {
+  userEmail?: string;
+  action?: string;
+  resource?: string;
+  /** ISO dates */
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AuditLog {
+  id: string;
+  userId: string | null;
+  user: { id: string; email: string; name: string | null } | null;
+  action: string;
+  resource: string | null;
+  resourceId: string | null;
+  details: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogPage {
+  logs: AuditLog[];
+  total: number;
+}
+
+export interface AuditStats {
+  totalLogs: number;
+  uniqueUsers: number;
+  actionCounts: Record<string, number>;
+  resourceCounts: Record<string, number>;
+}
+
+export type AuditExportFormat = 'csv' | 'ndjson';
+
+export const auditService = {
+  list: async (filters: AuditLogFilters, limit: number, offset: number): Promise<AuditLogPage> => {
+    const response = await auditApi.get('/', { params: { ...filters, limit, offset }, headers: authHeaders() });
+    return { logs: response.data.data, total: response.data.meta.total };
+  },
+
+  stats: async (filters: AuditLogFilters): Promise<AuditStats> => {
+    const response = await auditApi.get('/stats', { params: filters, headers: authHeaders() });
+    return response.data.data;
+  },
+
+  export: async (filters: AuditLogFilters, format: AuditExportFormat): Promise<Blob> => {
+    const response = await auditApi.get('/export', {
+      params: { ...filters, format },
+      headers: authHeaders(),
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+};
@@ -4,6 +4,7 @@
  */
 
 import axios from 'axios';
+import { ConsentChoices } from '../../lib/consent';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -21,42 +22,141 @@ export interface User {
   name: string | null;
   role: string;
   isActive: boolean;
+  emailVerified?: boolean;
+}
+
+export interface RegisterResponse extends User {
+  verificationRequired: boolean;
 }
 
 export interface LoginResponse {
   user: User;
   accessToken: string;
+  /** The security policy requires 2FA for this role and it is not enabled yet */
+  twoFactorSetupRequired?: boolean;
+}
+
+/**
+ * Returned by login instead of a session when the account has two-factor authentication
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
 }
 
 export interface RegisterData {
   email: string;
   password: string;
   name: string;
+  /** Cookie banner choices made before signing up, merged into the new account */
+  consents?: ConsentChoices;
 }
 
 export interface LoginData {
   email: string;
   password: string;
+  /** Cookie banner choices made before signing in, merged into the account */
+  consents?: ConsentChoices;
+}
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
 }
 
+// Refresh tokens rotate, so parallel refreshes would present the same token twice and be
+// treated as reuse. Requests that need a refresh at the same time share one call instead.
+let pendingRefresh: Promise<{ accessToken: string }> | null = null;
+
 export const authService = {
   api,
-  register: async (data: RegisterData): Promise<User> => {
+  register: async (data: RegisterData): Promise<RegisterResponse> => {
     const response = await api.post('/auth/register', data);
     return response.data.data;
   },
 
-  login: async (data: LoginData): Promise<LoginResponse> => {
+  login: async (data: LoginData): Promise<LoginResponse | TwoFactorChallenge> => {
     const response = await api.post('/auth/login', data);
     return response.data.data;
   },
 
+  verifyTwoFactorLogin: async (
+    challengeToken: string,
+    code: string,
+    consents?: ConsentChoices
+  ): Promise<LoginResponse> => {
+    const response = await api.post('/auth/login/2fa', { challengeToken, code, consents });
+    return response.data.data;
+  },
+
+  twoFactorStatus: async (): Promise<TwoFactorStatus> => {
+    const response = await api.get('/auth/2fa');
+    return response.data.data;
+  },
+
+  setupTwoFactor: async (): Promise<TwoFactorEnrollment> => {
+    const response = await api.post('/auth/2fa/setup');
+    return response.data.data;
+  },
+
+  enableTwoFactor: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+    const response = await api.post('/auth/2fa/enable', { code });
+    return response.data.data;
+  },
+
+  disableTwoFactor: async (code: string): Promise<void> => {
+    await api.post('/auth/2fa/disable', { code });
+  },
+
+  regenerateRecoveryCodes: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+    const response = await api.post('/auth/2fa/recovery-codes', { code });
+    return response.data.data;
+  },
+
   logout: async (): Promise<void> => {
     await api.post('/auth/logout');
   },
 
-  refreshToken: async (): Promise<{ accessToken: string }> => {
-    const response = await api.post('/auth/refresh');
+  refreshToken: (): Promise<{ accessToken: string }> => {
+    if (!pendingRefresh) {
+      pendingRefresh = api
+        .post('/auth/refresh')
+        .then((response) => response.data.data)
+        .finally(() => {
+          pendingRefresh = null;
+        });
+    }
+    return pendingRefresh;
+  },
+
+  listSessions: async (): Promise<ActiveSession[]> => {
+    const response = await api.get('/auth/sessions');
+    return response.data.data;
+  },
+
+  revokeSession: async (id: string): Promise<void> => {
+    await api.delete(`/auth/sessions/${encodeURIComponent(id)}`);
+  },
+
+  logoutEverywhere: async (): Promise<{ revokedSessions: number }> => {
+    const response = await api.post('/auth/logout-all');
     return response.data.data;
   },
 
@@ -64,5 +164,22 @@ export const authService = {
     const response = await api.get('/auth/me');
     return response.data.data;
   },
+
+  forgotPassword: async (email: string): Promise<void> => {
+    await api.post('/auth/forgot-password', { email });
+  },
+
+  resetPassword: async (token: string, password: string): Promise<void> => {
+    await api.post('/auth/reset-password', { token, password });
+  },
+
+  verifyEmail: async (token: string): Promise<User> => {
+    const response = await api.get(`/auth/verify-email/${encodeURIComponent(token)}`);
+    return response.data.data;
+  },
+
+  resendVerification: async (email: string): Promise<void> => {
+    await api.post('/auth/resend-verification', { email });
+  },
 };
 
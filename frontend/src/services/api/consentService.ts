@@ -0,0 +1,29 @@
+/**
+ * Consent API Service
+ * The signed-in user's consent records (GDPR)
+ */
+
+import { api } from './authService';
+import { CookieConsentType } from '../../lib/consent';
+
+export interface ConsentRecord {
+  id: string;
+  consentType: string;
+  granted: boolean;
+  grantedAt: string | null;
+  revokedAt: string | null;
+  version: string | null;
+  updatedAt: string;
+}
+
+export const consentService = {
+  list: async (): Promise<ConsentRecord[]> => {
+    const response = await api.get('/gdpr/consents');
+    return response.data.data;
+  },
+
+  save: async (consents: Record<CookieConsentType, boolean>, version: string): Promise<ConsentRecord[]> => {
+    const response = await api.put('/gdpr/consents', { consents, version });
+    return response.data.data;
+  },
+};
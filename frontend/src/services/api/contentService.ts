@@ -15,6 +15,8 @@ const api = axios.create({
 });
 
 // Types
+export type PublicationStatus = 'DRAFT' | 'SCHEDULED' | 'PUBLISHED' | 'ARCHIVED';
+
 export interface Training {
   id: string;
   title: string;
@@ -27,6 +29,9 @@ export interface Training {
   image?: string;
   featured: boolean;
   isActive: boolean;
+  publicationStatus: PublicationStatus;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
   displayOrder: number;
   createdAt: string;
   updatedAt: string;
@@ -43,6 +48,9 @@ export interface Tool {
   relatedTrainingIds: string[];
   featured: boolean;
   isActive: boolean;
+  publicationStatus: PublicationStatus;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
   displayOrder: number;
   createdAt: string;
   updatedAt: string;
@@ -59,6 +67,9 @@ export interface Product {
   image?: string;
   featured: boolean;
   isActive: boolean;
+  publicationStatus: PublicationStatus;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
   displayOrder: number;
   createdAt: string;
   updatedAt: string;
@@ -67,6 +78,7 @@ export interface Product {
 export interface KnowledgeArticle {
   id: string;
   title: string;
+  slug: string;
   description: string;
   content: string;
   category: string;
@@ -75,6 +87,9 @@ export interface KnowledgeArticle {
   externalLink?: string;
   featured: boolean;
   isActive: boolean;
+  publicationStatus: PublicationStatus;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
   displayOrder: number;
   createdAt: string;
   updatedAt: string;
@@ -88,16 +103,59 @@ export interface CommunityLink {
   externalLink: string;
   image?: string;
   isActive: boolean;
+  publicationStatus: PublicationStatus;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
   displayOrder: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ContentSort = 'order' | 'newest' | 'oldest' | 'title';
+
+export interface ListParams {
+  limit?: number;
+  cursor?: string;
+  sort?: ContentSort;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  meta: {
+    total: number;
+    nextCursor: string | null;
+  };
+}
+
+export interface TrainingListParams extends ListParams {
+  category?: string;
+  level?: string;
+  featured?: boolean;
+}
+
+export interface ToolListParams extends ListParams {
+  featured?: boolean;
+}
+
+export interface ProductListParams extends ListParams {
+  status?: Product['status'];
+  featured?: boolean;
+}
+
+export interface KnowledgeListParams extends ListParams {
+  category?: string;
+  featured?: boolean;
+}
+
+export interface CommunityListParams extends ListParams {
+  platform?: CommunityLink['platform'];
+}
+
 // Training endpoints
 export const trainingService = {
-  getAll: async (): Promise<Training[]> => {
-    const response = await api.get('/content/trainings');
-    return response.data.data;
+  list: async (params: TrainingListParams = {}): Promise<PaginatedResponse<Training>> => {
+    const response = await api.get('/content/trainings', { params });
+    return { data: response.data.data, meta: response.data.meta };
   },
 
   getFeatured: async (): Promise<Training[]> => {
@@ -105,47 +163,54 @@ export const trainingService = {
     return response.data.data;
   },
 
-  getById: async (id: string): Promise<Training> => {
-    const response = await api.get(`/content/trainings/${id}`);
+  getById: async (id: string, preview?: string): Promise<Training> => {
+    const response = await api.get(`/content/trainings/${id}`, { params: { preview } });
     return response.data.data;
   },
 };
 
 // Tool endpoints
 export const toolService = {
-  getAll: async (): Promise<Tool[]> => {
-    const response = await api.get('/content/tools');
-    return response.data.data;
+  list: async (params: ToolListParams = {}): Promise<PaginatedResponse<Tool>> => {
+    const response = await api.get('/content/tools', { params });
+    return { data: response.data.data, meta: response.data.meta };
   },
 
-  getById: async (id: string): Promise<Tool> => {
-    const response = await api.get(`/content/tools/${id}`);
+  getById: async (id: string, preview?: string): Promise<Tool> => {
+    const response = await api.get(`/content/tools/${id}`, { params: { preview } });
     return response.data.data;
   },
 };
 
 // Product endpoints
 export const productService = {
-  getAll: async (): Promise<Product[]> => {
-    const response = await api.get('/content/products');
-    return response.data.data;
+  list: async (params: ProductListParams = {}): Promise<PaginatedResponse<Product>> => {
+    const response = await api.get('/content/products', { params });
+    return { data: response.data.data, meta: response.data.meta };
   },
 
-  getById: async (id: string): Promise<Product> => {
-    const response = await api.get(`/content/products/${id}`);
+  getById: async (id: string, preview?: string): Promise<Product> => {
+    const response = await api.get(`/content/products/${id}`, { params: { preview } });
     return response.data.data;
   },
 };
 
 // Knowledge Article endpoints
 export const knowledgeService = {
-  getAll: async (): Promise<KnowledgeArticle[]> => {
-    const response = await api.get('/content/knowledge');
+  list: async (params: KnowledgeListParams = {}): Promise<PaginatedResponse<KnowledgeArticle>> => {
+    const response = await api.get('/content/knowledge', { params });
+    return { data: response.data.data, meta: response.data.meta };
+  },
+
+  getById: async (id: string, preview?: string): Promise<KnowledgeArticle> => {
+    const response = await api.get(`/content/knowledge/${id}`, { params: { preview } });
     return response.data.data;
   },
 
-  getById: async (id: string): Promise<KnowledgeArticle> => {
-    const response = await api.get(`/content/knowledge/${id}`);
+  getBySlug: async (slug: string, preview?: string): Promise<KnowledgeArticle> => {
+    const response = await api.get(`/content/knowledge/by-slug/${encodeURIComponent(slug)}`, {
+      params: { preview },
+    });
     return response.data.data;
   },
 
@@ -159,14 +224,49 @@ export const knowledgeService = {
 
 // Community Link endpoints
 export const communityService = {
-  getAll: async (): Promise<CommunityLink[]> => {
-    const response = await api.get('/content/community');
-    return response.data.data;
+  list: async (params: CommunityListParams = {}): Promise<PaginatedResponse<CommunityLink>> => {
+    const response = await api.get('/content/community', { params });
+    return { data: response.data.data, meta: response.data.meta };
   },
 
-  getById: async (id: string): Promise<CommunityLink> => {
-    const response = await api.get(`/content/community/${id}`);
+  getById: async (id: string, preview?: string): Promise<CommunityLink> => {
+    const response = await api.get(`/content/community/${id}`, { params: { preview } });
     return response.data.data;
   },
 };
 
+
+// Full-text search across all content types
+export type SearchResultType = 'training' | 'tool' | 'product' | 'knowledge' | 'community';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  slug: string | null;
+  externalLink: string | null;
+  titleHighlight: string;
+  snippet: string;
+  rank: number;
+}
+
+export interface SearchParams {
+  types?: SearchResultType[];
+  limit?: number;
+}
+
+export const searchService = {
+  search: async (
+    query: string,
+    params: SearchParams = {}
+  ): Promise<{ data: SearchResult[]; meta: { total: number } }> => {
+    const response = await api.get('/content/search', {
+      params: {
+        q: query,
+        types: params.types?.join(','),
+        limit: params.limit,
+      },
+    });
+    return { data: response.data.data, meta: response.data.meta };
+  },
+};
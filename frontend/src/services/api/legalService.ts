@@ -0,0 +1,65 @@
+/**
+ * Legal API Service
+ * The terms of service and privacy policy in effect, and the signed-in user's acceptance of them
+ */
+
+import { api } from './authService';
+
+export type LegalDocumentType = 'TERMS_OF_SERVICE' | 'PRIVACY_POLICY';
+
+// Public URL of each document
+export type LegalDocumentSlug = 'terms' | 'privacy';
+
+export interface LegalDocument {
+  id: string;
+  type: LegalDocumentType;
+  version: string;
+  title: string;
+  /** Markdown */
+  body: string;
+  summary: string | null;
+  effectiveAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A document in effect that the user has not accepted in its current version
+export interface PendingAcceptance {
+  documentId: string;
+  type: LegalDocumentType;
+  version: string;
+  title: string;
+  summary: string | null;
+  effectiveAt: string;
+  acceptedVersion: string | null;
+}
+
+export interface LegalAcceptance {
+  required: boolean;
+  pending: PendingAcceptance[];
+}
+
+export const LEGAL_DOCUMENT_SLUG: Record<LegalDocumentType, LegalDocumentSlug> = {
+  TERMS_OF_SERVICE: 'terms',
+  PRIVACY_POLICY: 'privacy',
+};
+
+// Code of the 403 returned by routes that need the current versions accepted
+export const LEGAL_ACCEPTANCE_REQUIRED = 'LEGAL_ACCEPTANCE_REQUIRED';
+
+export const legalService = {
+  getCurrent: async (slug: LegalDocumentSlug): Promise<LegalDocument> => {
+    const response = await api.get(`/legal/${slug}`);
+    return response.data.data;
+  },
+
+  getAcceptance: async (): Promise<LegalAcceptance> => {
+    const response = await api.get('/legal/acceptance');
+    return response.data.data;
+  },
+
+  accept: async (documentIds: string[]): Promise<LegalAcceptance> => {
+    const response = await api.post('/legal/accept', { documentIds });
+    return response.data.data;
+  },
+};